@@ -3,6 +3,8 @@ import { mount, flushPromises, VueWrapper } from '@vue/test-utils'
 import App from '@/App.vue'
 import type { Prescription } from '@/core/models/prescription'
 import { getLastDoseTime, calculateTailOffDuration } from '@/core/calculations'
+import { useCrossTaperStore } from '@/stores'
+import { CROSS_TAPER_FIXTURE } from '@/core/models/__tests__/fixtures'
 
 // Mock localStorage to avoid side effects
 const mockLocalStorage = (() => {
@@ -1439,6 +1441,57 @@ describe('App.vue - Phase 4: Styling and Polish', () => {
       expect(vm.autoEndHours).toBe(93)
     })
 
+    it('covers two full dosing cycles for weekly prescriptions', async () => {
+      const wrapper = mount(App)
+      const vm = getComponentState(wrapper)
+
+      const prescription: Prescription = {
+        name: 'Weekly Drug',
+        frequency: 'weekly',
+        times: ['09:00'],
+        dose: 15,
+        halfLife: 6,
+        peak: 2,
+        uptake: 1.5,
+      }
+
+      vm.endHours = 24
+      vm.currentPrescription = prescription
+      vm.comparePrescriptions = [prescription]
+
+      await flushPromises()
+
+      // numDays = max(2, 2 * 7 + 1) = 15 → doses on days 0, 7 and 14
+      // lastDoseTime = 14 * 24 + 9 = 345 hours, tail-off = 60 hours
+      expect(vm.autoEndHours).toBe(405)
+    })
+
+    it('covers every cycle of an on/off regimen', async () => {
+      const wrapper = mount(App)
+      const vm = getComponentState(wrapper)
+
+      const prescription: Prescription = {
+        name: 'Cyclic Drug',
+        frequency: 'qd',
+        times: ['09:00'],
+        dose: 20,
+        halfLife: 6,
+        peak: 2,
+        uptake: 1.5,
+        cycle: { daysOn: 5, daysOff: 2, cycles: 3 },
+      }
+
+      vm.endHours = 24
+      vm.currentPrescription = prescription
+      vm.comparePrescriptions = [prescription]
+
+      await flushPromises()
+
+      // numDays = 7 * 3 = 21 → last dose on day 14 + 4 = 18 at 09:00 = 441 hours
+      // tail-off = 60 hours
+      expect(vm.autoEndHours).toBe(501)
+    })
+
     it('calculates auto end time for prescription with 24-hour half-life', async () => {
       const wrapper = mount(App)
       const vm = getComponentState(wrapper)
@@ -3182,3 +3235,228 @@ describe('App.vue - Schedule Tab Integration', () => {
     })
   })
 })
+
+// ---- Dose Log Integration Tests ----
+
+describe('App.vue - Dose log curve source', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  const savedRx: Prescription = {
+    id: 'rx-log',
+    name: 'Logged Drug',
+    frequency: 'bid',
+    times: ['09:00', '21:00'],
+    dose: 500,
+    halfLife: 6,
+    peak: 2,
+    uptake: 1.5,
+  }
+
+  it('keeps the prescribed curve until doses are logged', async () => {
+    const wrapper = mount(App)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const vm = wrapper.vm as any
+    vm.comparePrescriptions = [savedRx]
+    vm.switchView('graph')
+    await flushPromises()
+
+    const logButton = wrapper.findAll('.mode-button').find((b) => b.text() === 'Dose log')!
+    expect(logButton.attributes('disabled')).toBeDefined()
+    expect(vm.graphDatasets[0].label).toBe('Logged Drug 500mg (bid)')
+  })
+
+  it('graphs logged doses on an axis starting at midnight of the first dose', async () => {
+    localStorage.setItem(
+      'pk-grapher-dose-log',
+      JSON.stringify([
+        { id: 'dose-1', prescriptionId: 'rx-log', takenAt: new Date(2026, 0, 5, 8).toISOString(), dose: 500 },
+        { id: 'dose-2', prescriptionId: 'rx-log', takenAt: new Date(2026, 0, 5, 22).toISOString(), dose: 250 },
+      ]),
+    )
+    const wrapper = mount(App)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const vm = wrapper.vm as any
+    vm.comparePrescriptions = [savedRx]
+    vm.switchView('graph')
+    await flushPromises()
+
+    const logButton = wrapper.findAll('.mode-button').find((b) => b.text() === 'Dose log')!
+    await logButton.trigger('click')
+    await flushPromises()
+
+    expect(vm.graphDatasets).toHaveLength(1)
+    expect(vm.graphDatasets[0].label).toBe('Logged Drug (dose log)')
+    expect(vm.graphDatasets[0].doseTimes).toEqual([8, 22])
+    expect(vm.graphStartHours).toBe(0)
+    expect(vm.graphEndHours).toBe(22 + calculateTailOffDuration(savedRx.halfLife))
+  })
+})
+
+describe('App.vue - As-needed (PRN) dose placement', () => {
+  const prnRx: Prescription = {
+    id: 'rx-prn',
+    name: 'Ibuprofen',
+    frequency: 'prn',
+    times: [],
+    dose: 400,
+    halfLife: 2,
+    peak: 1.5,
+    uptake: 0.5,
+    minDoseInterval: 4,
+    maxDailyDose: 1200,
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('places doses clicked on the graph on the graphed copy only', async () => {
+    const wrapper = mount(App)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const vm = wrapper.vm as any
+    vm.comparePrescriptions = [prnRx]
+    vm.switchView('graph')
+    await flushPromises()
+
+    const graph = wrapper.findComponent({ name: 'GraphViewer' })
+    expect(graph.props('placeDoses')).toBe(true)
+    graph.vm.$emit('place-dose', 14)
+    graph.vm.$emit('place-dose', 8)
+    await flushPromises()
+
+    expect(vm.comparePrescriptions[0].prnDoseTimes).toEqual([8, 14])
+    expect(vm.graphDatasets[0].doseTimes).toEqual([8, 14])
+    expect(prnRx.prnDoseTimes).toBeUndefined()
+    expect(wrapper.findComponent({ name: 'PrnDoseEditor' }).exists()).toBe(true)
+  })
+
+  it('disables placement without an as-needed prescription', async () => {
+    const wrapper = mount(App)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const vm = wrapper.vm as any
+    vm.comparePrescriptions = [{ ...prnRx, frequency: 'qd', times: ['09:00'] }]
+    vm.switchView('graph')
+    await flushPromises()
+
+    expect(wrapper.findComponent({ name: 'GraphViewer' }).props('placeDoses')).toBe(false)
+    expect(wrapper.findComponent({ name: 'PrnDoseEditor' }).exists()).toBe(false)
+  })
+})
+
+describe('App.vue - Calendar date axis', () => {
+  const datedRx: Prescription = {
+    id: 'rx-dated',
+    name: 'Dated Drug',
+    frequency: 'bid',
+    times: ['09:00', '21:00'],
+    dose: 500,
+    halfLife: 6,
+    peak: 2,
+    uptake: 1.5,
+    startDate: '2026-01-05',
+  }
+
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('offers the date axis only when a compared prescription has a start date', async () => {
+    const wrapper = mount(App)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const vm = wrapper.vm as any
+    vm.comparePrescriptions = [{ ...datedRx, startDate: undefined }]
+    vm.switchView('graph')
+    await flushPromises()
+
+    const datesButton = () => wrapper.findAll('.mode-button').find((b) => b.text() === 'Dates')!
+    expect(datesButton().attributes('disabled')).toBeDefined()
+
+    vm.comparePrescriptions = [datedRx]
+    await flushPromises()
+    await datesButton().trigger('click')
+
+    const graph = wrapper.findComponent({ name: 'GraphViewer' })
+    expect(graph.props('xAxisMode')).toBe('date')
+    expect(graph.props('startDate')).toBe('2026-01-05')
+  })
+})
+
+describe('App.vue - Staggered start offsets', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('extends the auto timeframe to cover a delayed prescription', async () => {
+    const drugA: Prescription = {
+      id: 'rx-a',
+      name: 'Drug A',
+      frequency: 'qd',
+      times: ['09:00'],
+      dose: 100,
+      halfLife: 6,
+      peak: 2,
+      uptake: 1.5,
+      duration: 7,
+      durationUnit: 'days',
+    }
+    const drugB: Prescription = { ...drugA, id: 'rx-b', name: 'Drug B', startOffset: 3, startOffsetUnit: 'days' }
+
+    const wrapper = mount(App)
+    const vm = getComponentState(wrapper)
+    vm.comparePrescriptions = [drugA]
+    await flushPromises()
+    const undelayed = vm.autoEndHours
+
+    vm.comparePrescriptions = [drugA, drugB]
+    await flushPromises()
+    expect(vm.autoEndHours).toBe(undelayed + 72)
+    expect(vm.autoEndHours).toBe(getLastDoseTime(drugB, 7) + calculateTailOffDuration(6))
+  })
+})
+
+describe('App.vue - Cross-taper', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  async function openCrossTaper(wrapper: VueWrapper) {
+    const tabs = wrapper.findAll('nav[role="navigation"] button')
+    await tabs.find((tab) => tab.text().includes('Titration'))!.trigger('click')
+    await flushPromises()
+    const subButtons = wrapper.findAll('.schedule-sub-nav button')
+    await subButtons.find((b) => b.text().includes('Cross-Taper'))!.trigger('click')
+    await flushPromises()
+  }
+
+  it('shows the cross-taper form and list without a graph until one is chosen', async () => {
+    const wrapper = mount(App)
+    await openCrossTaper(wrapper)
+
+    expect(wrapper.findComponent({ name: 'CrossTaperForm' }).exists()).toBe(true)
+    expect(wrapper.findComponent({ name: 'CrossTaperList' }).exists()).toBe(true)
+    expect(wrapper.findComponent({ name: 'CrossTaperViewer' }).exists()).toBe(false)
+  })
+
+  it('saves a submitted cross-taper and graphs it', async () => {
+    const wrapper = mount(App)
+    await openCrossTaper(wrapper)
+
+    wrapper.findComponent({ name: 'CrossTaperForm' }).vm.$emit('submit', CROSS_TAPER_FIXTURE)
+    await flushPromises()
+
+    expect(useCrossTaperStore().crossTapers).toHaveLength(1)
+    const viewer = wrapper.findComponent({ name: 'CrossTaperViewer' })
+    expect(viewer.exists()).toBe(true)
+    expect(viewer.props('crossTaper')).toMatchObject({ name: 'Drug A to Drug B' })
+  })
+
+  it('opens the import modal from the list', async () => {
+    const wrapper = mount(App)
+    await openCrossTaper(wrapper)
+
+    await wrapper.find('[data-testid="cross-taper-import-btn"]').trigger('click')
+    expect(wrapper.findComponent({ name: 'ImportCrossTapers' }).exists()).toBe(true)
+  })
+})
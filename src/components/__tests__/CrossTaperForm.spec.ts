@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { mount } from '@vue/test-utils'
+import CrossTaperForm from '../CrossTaperForm.vue'
+import { useScheduleStore } from '@/stores'
+import {
+  TAPER_SCHEDULE_FIXTURE,
+  TITRATION_SCHEDULE_FIXTURE,
+} from '@/core/models/__tests__/fixtures'
+
+function saveSchedules() {
+  const store = useScheduleStore()
+  store.save(TITRATION_SCHEDULE_FIXTURE)
+  return { taper: store.save(TAPER_SCHEDULE_FIXTURE), store }
+}
+
+describe('CrossTaperForm', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('asks for two saved schedules first', () => {
+    useScheduleStore().save(TAPER_SCHEDULE_FIXTURE)
+    const wrapper = mount(CrossTaperForm)
+    expect(wrapper.find('[data-testid="cross-taper-empty"]').exists()).toBe(true)
+    expect(wrapper.find('form').exists()).toBe(false)
+  })
+
+  it('defaults to switching from a taper to a titration', () => {
+    saveSchedules()
+    const wrapper = mount(CrossTaperForm)
+
+    const from = wrapper.find('#xtaper-from').element as HTMLSelectElement
+    const to = wrapper.find('#xtaper-to').element as HTMLSelectElement
+    expect(from.selectedOptions[0]!.text).toContain('Drug A taper')
+    expect(to.selectedOptions[0]!.text).toContain('Drug B titration')
+  })
+
+  it('emits a cross-taper embedding both schedules', async () => {
+    saveSchedules()
+    const wrapper = mount(CrossTaperForm)
+
+    await wrapper.find('#xtaper-name').setValue('A to B')
+    await wrapper.find('#xtaper-offset').setValue('10')
+    await wrapper.find('form').trigger('submit')
+
+    const [crossTaper] = wrapper.emitted('submit')![0] as [Record<string, unknown>]
+    expect(crossTaper).toMatchObject({
+      name: 'A to B',
+      offsetDays: 10,
+      fromSchedule: { name: 'Drug A taper' },
+      toSchedule: { name: 'Drug B titration' },
+    })
+  })
+
+  it('blocks picking the same schedule twice', async () => {
+    const { taper } = saveSchedules()
+    const wrapper = mount(CrossTaperForm)
+
+    await wrapper.find('#xtaper-to').setValue(taper.id)
+    expect(wrapper.find('.validation-errors').text()).toContain('Choose two different schedules')
+    expect(wrapper.find('button[type="submit"]').attributes('disabled')).toBeDefined()
+  })
+
+  it('shows validation errors for an invalid offset', async () => {
+    saveSchedules()
+    const wrapper = mount(CrossTaperForm)
+
+    await wrapper.find('#xtaper-offset').setValue('-2')
+    expect(wrapper.find('.validation-errors').text()).toContain('Start offset must be a whole number')
+    await wrapper.find('form').trigger('submit')
+    expect(wrapper.emitted('submit')).toBeUndefined()
+  })
+
+  it('warns when the schedules do not overlap', async () => {
+    saveSchedules()
+    const wrapper = mount(CrossTaperForm)
+
+    await wrapper.find('#xtaper-offset').setValue('20')
+    expect(wrapper.find('.validation-warnings').text()).toContain('do not overlap')
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { mount } from '@vue/test-utils'
+import CrossTaperList from '../CrossTaperList.vue'
+import { useCrossTaperStore } from '@/stores'
+import { CROSS_TAPER_FIXTURE } from '@/core/models/__tests__/fixtures'
+
+describe('CrossTaperList', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('shows an empty state with only the import button', () => {
+    const wrapper = mount(CrossTaperList)
+    expect(wrapper.find('[data-testid="cross-taper-list-empty"]').exists()).toBe(true)
+    expect(wrapper.find('[data-testid="cross-taper-export-btn"]').exists()).toBe(false)
+    expect(wrapper.find('[data-testid="cross-taper-import-btn"]').exists()).toBe(true)
+  })
+
+  it('lists saved cross-tapers with a switch summary', () => {
+    useCrossTaperStore().save(CROSS_TAPER_FIXTURE)
+    const wrapper = mount(CrossTaperList)
+
+    expect(wrapper.find('.sched-name').text()).toBe('Drug A to Drug B')
+    expect(wrapper.find('.sched-summary').text()).toBe(
+      'Drug A taper → Drug B titration from day 8, 28 days total',
+    )
+  })
+
+  it('emits view and import', async () => {
+    const saved = useCrossTaperStore().save(CROSS_TAPER_FIXTURE)
+    const wrapper = mount(CrossTaperList)
+
+    await wrapper.find(`[data-testid="view-cross-taper-btn-${saved.id}"]`).trigger('click')
+    await wrapper.find('[data-testid="cross-taper-import-btn"]').trigger('click')
+
+    expect(wrapper.emitted('view')![0]).toEqual([saved])
+    expect(wrapper.emitted('import')).toHaveLength(1)
+  })
+
+  it('deletes after confirmation', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true)
+    const store = useCrossTaperStore()
+    const saved = store.save(CROSS_TAPER_FIXTURE)
+    const wrapper = mount(CrossTaperList)
+
+    await wrapper.find(`[data-testid="delete-cross-taper-btn-${saved.id}"]`).trigger('click')
+    expect(store.crossTapers).toHaveLength(0)
+  })
+})
@@ -0,0 +1,86 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { mount } from '@vue/test-utils'
+import CrossTaperViewer from '../CrossTaperViewer.vue'
+import { CROSS_TAPER_FIXTURE } from '@/core/models/__tests__/fixtures'
+
+const { mockDestroy, MockChart } = vi.hoisted(() => {
+  const mockDestroy = vi.fn()
+
+  const MockChart = vi.fn(function (this: any) {
+    this.destroy = mockDestroy
+  })
+  ;(MockChart as any).register = vi.fn()
+
+  return { mockDestroy, MockChart: MockChart as any }
+})
+
+vi.mock('chart.js', () => ({
+  Chart: MockChart,
+  registerables: [],
+}))
+
+vi.mock('chartjs-plugin-a11y-legend', () => ({
+  default: { id: 'a11y-legend' },
+}))
+
+function chartConfig(): any {
+  return MockChart.mock.calls[MockChart.mock.calls.length - 1][1]
+}
+
+describe('CrossTaperViewer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('draws both schedules and a dashed total exposure line', () => {
+    mount(CrossTaperViewer, { props: { crossTaper: CROSS_TAPER_FIXTURE } })
+
+    const { datasets } = chartConfig().data
+    expect(datasets.map((d: any) => d.label)).toEqual([
+      'Drug A taper',
+      'Drug B titration',
+      'Total exposure',
+    ])
+    expect(datasets[2].borderDash).toEqual([6, 4])
+  })
+
+  it('spans the longer of the two schedules plus the tail-off', () => {
+    mount(CrossTaperViewer, { props: { crossTaper: CROSS_TAPER_FIXTURE, tailOffHours: 24 } })
+    // Drug B runs from day 7 for 21 days, past the end of the 14-day taper
+    expect(chartConfig().options.scales.x.max).toBe(28 * 24 + 24)
+  })
+
+  it('starts the second curve at the offset', () => {
+    mount(CrossTaperViewer, { props: { crossTaper: CROSS_TAPER_FIXTURE } })
+
+    const toData = chartConfig().data.datasets[1].data as { x: number; y: number }[]
+    expect(toData.filter(p => p.x <= 7 * 24).every(p => p.y === 0)).toBe(true)
+    expect(toData.some(p => p.y > 0)).toBe(true)
+  })
+
+  it('raises the y-axis above 1.1 when the total exceeds a single peak', () => {
+    const wrapper = mount(CrossTaperViewer, {
+      props: { crossTaper: { ...CROSS_TAPER_FIXTURE, offsetDays: 0 } },
+    })
+
+    const peak = Number(wrapper.find('[data-testid="peak-total"]').text())
+    expect(peak).toBeGreaterThan(1)
+    expect(chartConfig().options.scales.y.max).toBeGreaterThanOrEqual(peak)
+  })
+
+  it('shows when each schedule runs', () => {
+    const wrapper = mount(CrossTaperViewer, { props: { crossTaper: CROSS_TAPER_FIXTURE } })
+    const text = wrapper.find('.switch-annotations').text()
+    expect(text).toContain('Day 1 to day 14')
+    expect(text).toContain('Day 8 to day 28')
+  })
+
+  it('re-renders when the cross-taper changes', async () => {
+    const wrapper = mount(CrossTaperViewer, { props: { crossTaper: CROSS_TAPER_FIXTURE } })
+    await wrapper.setProps({ crossTaper: { ...CROSS_TAPER_FIXTURE, offsetDays: 3 } })
+
+    expect(mockDestroy).toHaveBeenCalled()
+    expect(MockChart).toHaveBeenCalledTimes(2)
+  })
+})
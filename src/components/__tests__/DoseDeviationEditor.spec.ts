@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import DoseDeviationEditor from '../DoseDeviationEditor.vue'
+import type { Prescription } from '@/core/models/prescription'
+import { BID_MULTI_DOSE_FIXTURE, SINGLE_DOSE_FIXTURE } from '@/core/models/__tests__/fixtures'
+
+function mountEditor(prescriptions: Prescription[] = [BID_MULTI_DOSE_FIXTURE], endHours = 48) {
+  return mount(DoseDeviationEditor, { props: { prescriptions, startHours: 9, endHours } })
+}
+
+describe('DoseDeviationEditor', () => {
+  it('lists each scheduled dose in the plotted timeframe', () => {
+    const wrapper = mountEditor()
+    const times = wrapper.findAll('.col-time').map((td) => td.text())
+    expect(times).toEqual(['09:00', '21:00', '09:00 (Day 2)', '21:00 (Day 2)'])
+  })
+
+  it('emits a deviation when a dose is marked as skipped', async () => {
+    const wrapper = mountEditor()
+    await wrapper.findAll('tbody select')[1]!.setValue('skipped')
+    expect(wrapper.emitted('update:deviations')?.[0]).toEqual([0, [{ scheduledTime: 21, type: 'skipped' }]])
+  })
+
+  it('gives late and early doses a default shift and shows an hours input', async () => {
+    const wrapper = mountEditor()
+    await wrapper.findAll('tbody select')[0]!.setValue('delayed')
+    expect(wrapper.emitted('update:deviations')?.[0]).toEqual([
+      0,
+      [{ scheduledTime: 9, type: 'delayed', shiftHours: 2 }],
+    ])
+
+    await wrapper.setProps({
+      prescriptions: [{ ...BID_MULTI_DOSE_FIXTURE, doseDeviations: [{ scheduledTime: 9, type: 'delayed', shiftHours: 2 }] }],
+    })
+    const input = wrapper.find('tbody input[type="number"]')
+    expect(input.exists()).toBe(true)
+    await input.setValue('3.5')
+    expect(wrapper.emitted('update:deviations')?.[1]).toEqual([
+      0,
+      [{ scheduledTime: 9, type: 'delayed', shiftHours: 3.5 }],
+    ])
+  })
+
+  it('ignores out-of-range shifts', async () => {
+    const wrapper = mountEditor([
+      { ...BID_MULTI_DOSE_FIXTURE, doseDeviations: [{ scheduledTime: 9, type: 'early', shiftHours: 2 }] },
+    ])
+    await wrapper.find('tbody input[type="number"]').setValue('48')
+    expect(wrapper.emitted('update:deviations')).toBeUndefined()
+  })
+
+  it('removes a deviation when a dose is set back to as prescribed', async () => {
+    const wrapper = mountEditor([
+      {
+        ...BID_MULTI_DOSE_FIXTURE,
+        doseDeviations: [
+          { scheduledTime: 9, type: 'doubled' },
+          { scheduledTime: 21, type: 'skipped' },
+        ],
+      },
+    ])
+    expect(wrapper.find('summary').text()).toContain('(2 modified)')
+    await wrapper.findAll('tbody select')[0]!.setValue('as-prescribed')
+    expect(wrapper.emitted('update:deviations')?.[0]).toEqual([0, [{ scheduledTime: 21, type: 'skipped' }]])
+  })
+
+  it('resets all deviations of the selected prescription', async () => {
+    const wrapper = mountEditor([
+      SINGLE_DOSE_FIXTURE,
+      { ...BID_MULTI_DOSE_FIXTURE, doseDeviations: [{ scheduledTime: 21, type: 'skipped' }] },
+    ])
+    const reset = wrapper.find('.reset-button')
+    expect(reset.attributes('disabled')).toBeDefined()
+
+    await wrapper.find('[data-testid="deviation-prescription"]').setValue(1)
+    expect(reset.attributes('disabled')).toBeUndefined()
+    await reset.trigger('click')
+    expect(wrapper.emitted('update:deviations')?.[0]).toEqual([1, []])
+  })
+
+  it('only shows the prescription selector when several prescriptions are graphed', () => {
+    expect(mountEditor().find('[data-testid="deviation-prescription"]').exists()).toBe(false)
+  })
+
+  it('caps the listed doses for long simulations', () => {
+    const wrapper = mountEditor([BID_MULTI_DOSE_FIXTURE], 24 * 60)
+    expect(wrapper.findAll('tbody tr')).toHaveLength(60)
+    expect(wrapper.text()).toContain('Showing the first 60 of')
+  })
+})
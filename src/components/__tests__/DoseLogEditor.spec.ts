@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { mount } from '@vue/test-utils'
+import DoseLogEditor from '../DoseLogEditor.vue'
+import type { Prescription } from '@/core/models/prescription'
+import { useDoseLogStore } from '@/stores'
+import { BID_MULTI_DOSE_FIXTURE, SINGLE_DOSE_FIXTURE } from '@/core/models/__tests__/fixtures'
+
+const saved: Prescription = { ...BID_MULTI_DOSE_FIXTURE, id: 'rx-1' }
+
+function mountEditor(prescriptions: Prescription[] = [saved]) {
+  return mount(DoseLogEditor, { props: { prescriptions } })
+}
+
+describe('DoseLogEditor', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('asks for a saved prescription before logging', () => {
+    const wrapper = mountEditor([SINGLE_DOSE_FIXTURE])
+    expect(wrapper.text()).toContain('Save the prescription to start logging doses.')
+    expect(wrapper.find('form').exists()).toBe(false)
+  })
+
+  it('prefills the dose from the prescription', () => {
+    const wrapper = mountEditor()
+    expect((wrapper.find('[data-testid="log-dose"]').element as HTMLInputElement).value).toBe(String(saved.dose))
+  })
+
+  it('logs a dose taken at the entered local time', async () => {
+    const wrapper = mountEditor()
+    await wrapper.find('[data-testid="log-taken-at"]').setValue('2026-01-05T09:30')
+    await wrapper.find('[data-testid="log-dose"]').setValue('250')
+    await wrapper.find('[data-testid="log-note"]').setValue('  with food ')
+    await wrapper.find('form').trigger('submit')
+
+    const store = useDoseLogStore()
+    expect(store.entries).toHaveLength(1)
+    expect(store.entries[0]).toMatchObject({
+      prescriptionId: 'rx-1',
+      takenAt: new Date(2026, 0, 5, 9, 30).toISOString(),
+      dose: 250,
+      note: 'with food',
+    })
+    expect(wrapper.findAll('tbody tr')).toHaveLength(1)
+    expect(wrapper.find('summary').text()).toContain('(1 logged)')
+  })
+
+  it('shows validation errors and does not save invalid entries', async () => {
+    const wrapper = mountEditor()
+    await wrapper.find('[data-testid="log-taken-at"]').setValue('')
+    await wrapper.find('[data-testid="log-dose"]').setValue('0')
+    await wrapper.find('form').trigger('submit')
+
+    expect(wrapper.find('.log-errors').text()).toContain('Time taken must be a valid date and time')
+    expect(wrapper.find('.log-errors').text()).toContain('Dose taken must be at least')
+    expect(useDoseLogStore().entries).toHaveLength(0)
+  })
+
+  it('removes a logged dose', async () => {
+    const store = useDoseLogStore()
+    store.save({ prescriptionId: 'rx-1', takenAt: new Date(2026, 0, 5, 9).toISOString(), dose: 500 })
+    const wrapper = mountEditor()
+
+    await wrapper.find('.remove-button').trigger('click')
+    expect(store.entries).toHaveLength(0)
+    expect(wrapper.text()).toContain('No doses logged for this prescription yet.')
+  })
+
+  it('clears only the selected prescription after confirmation', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true)
+    const store = useDoseLogStore()
+    store.save({ prescriptionId: 'rx-1', takenAt: new Date(2026, 0, 5, 9).toISOString(), dose: 500 })
+    store.save({ prescriptionId: 'rx-2', takenAt: new Date(2026, 0, 5, 10).toISOString(), dose: 20 })
+    const wrapper = mountEditor([saved, { ...SINGLE_DOSE_FIXTURE, id: 'rx-2' }])
+
+    await wrapper.find('[data-testid="log-prescription"]').setValue('rx-2')
+    await wrapper.find('.clear-button').trigger('click')
+    expect(store.entries.map((e) => e.prescriptionId)).toEqual(['rx-1'])
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import ExposureTable from '../ExposureTable.vue'
+import type { ExposureStats } from '@/core/models/exposure'
+
+const relativeStats: ExposureStats = {
+  label: 'Ibuprofen 400mg (tid)',
+  unit: 'relative',
+  aucLast: 12.345,
+  aucIntervals: [
+    { start: 8, end: 14, auc: 3.1 },
+    { start: 14, end: 20, auc: 3.6 },
+    { start: 20, end: 48, auc: 5.6 },
+  ],
+  aucInfinity: 12.4,
+  extrapolatedPercent: 0.44,
+  threshold: 0.5,
+  timeAboveThreshold: 7.25,
+}
+
+const absoluteStats: ExposureStats = {
+  ...relativeStats,
+  label: 'Vancomycin 1000mg (bid)',
+  unit: 'mg/L',
+  aucLast: 512.3,
+  aucIntervals: [{ start: 9, end: 48, auc: 480 }],
+  aucInfinity: null,
+  extrapolatedPercent: null,
+  threshold: 10,
+}
+
+function cells(wrapper: ReturnType<typeof mount>, row: number): string[] {
+  return wrapper.findAll('tbody tr')[row]!.findAll('td').map((td) => td.text())
+}
+
+describe('ExposureTable', () => {
+  it('renders a region with an accessible label', () => {
+    const wrapper = mount(ExposureTable, { props: { stats: [relativeStats], threshold: 0.5 } })
+    expect(wrapper.find('[role="region"]').attributes('aria-label')).toBe('Exposure statistics')
+  })
+
+  it('renders one row per curve', () => {
+    const wrapper = mount(ExposureTable, { props: { stats: [relativeStats, absoluteStats], threshold: 0.5 } })
+    const rows = wrapper.findAll('tbody tr')
+    expect(rows).toHaveLength(2)
+    expect(rows[0]!.find('th').text()).toBe('Ibuprofen 400mg (tid)')
+  })
+
+  it('formats relative AUC, extrapolation and time above threshold', () => {
+    const wrapper = mount(ExposureTable, { props: { stats: [relativeStats], threshold: 0.5 } })
+    const [aucLast, maxTau, aucInf, above] = cells(wrapper, 0)
+    expect(aucLast).toBe('12.35 h')
+    expect(aucInf).toContain('12.40 h')
+    expect(aucInf).toContain('0% extrapolated')
+    expect(above).toBe('7.3h')
+    // The washout interval after the last dose is excluded from Max AUCτ
+    expect(maxTau).toBe('3.60 h')
+  })
+
+  it('formats absolute AUC in mg·h/L and shows a dash without extrapolation', () => {
+    const wrapper = mount(ExposureTable, { props: { stats: [absoluteStats], threshold: 10 } })
+    const [aucLast, maxTau, aucInf] = cells(wrapper, 0)
+    expect(aucLast).toBe('512 mg·h/L')
+    // A single dose uses its only interval
+    expect(maxTau).toBe('480 mg·h/L')
+    expect(aucInf).toBe('—')
+    expect(wrapper.find('.threshold-control').text()).toContain('mg/L')
+    expect(wrapper.find('.exposure-note').exists()).toBe(false)
+  })
+
+  it('emits update:threshold for valid input only', async () => {
+    const wrapper = mount(ExposureTable, { props: { stats: [relativeStats], threshold: 0.5 } })
+    const input = wrapper.find('[data-testid="exposure-threshold"]')
+    await input.setValue('0.8')
+    await input.setValue('-1')
+    await input.setValue('')
+    expect(wrapper.emitted('update:threshold')).toEqual([[0.8]])
+  })
+
+  it('shows an empty message without curves', () => {
+    const wrapper = mount(ExposureTable, { props: { stats: [], threshold: 0.5 } })
+    expect(wrapper.find('table').exists()).toBe(false)
+    expect(wrapper.find('.empty-message').exists()).toBe(true)
+  })
+})
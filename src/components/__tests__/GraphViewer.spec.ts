@@ -617,4 +617,301 @@ describe('GraphViewer', () => {
       expect(mockHide).not.toHaveBeenCalled()
     })
   })
+
+  // ---- Absolute Concentration Mode ----
+
+  describe('absolute concentration mode', () => {
+    it('labels the y-axis in mg/L and rounds the max up to a nice step', () => {
+      const datasets = [{ label: 'Drug A', data: [{ time: 0, concentration: 0 }, { time: 2, concentration: 8.3 }] }]
+      mount(GraphViewer, { props: { datasets, concentrationMode: 'absolute' } })
+      const y = (MockChart as any).mock.calls[0]?.[1]?.options?.scales?.y
+      expect(y?.title?.text).toBe('Concentration (mg/L)')
+      expect(y?.ticks?.stepSize).toBe(2)
+      expect(y?.max).toBe(10)
+    })
+
+    it('switches to µg/L for very small concentrations', () => {
+      const datasets = [{ label: 'Drug A', data: [{ time: 0, concentration: 0 }, { time: 2, concentration: 0.004 }] }]
+      mount(GraphViewer, { props: { datasets, concentrationMode: 'absolute' } })
+      const config = (MockChart as any).mock.calls[0]?.[1]
+      expect(config?.options?.scales?.y?.title?.text).toBe('Concentration (µg/L)')
+      expect(config?.data?.datasets?.[0]?.data?.[1]?.y).toBeCloseTo(4, 10)
+    })
+
+    it('keeps the relative axis by default', () => {
+      const datasets = [{ label: 'Drug A', data: [{ time: 0, concentration: 0 }] }]
+      mount(GraphViewer, { props: { datasets } })
+      const y = (MockChart as any).mock.calls[0]?.[1]?.options?.scales?.y
+      expect(y?.title?.text).toBe('Relative Concentration')
+    })
+
+    it('mentions the unit in the canvas aria-label', () => {
+      const datasets = [{ label: 'Drug A', data: [{ time: 2, concentration: 5 }] }]
+      const wrapper = mount(GraphViewer, { props: { datasets, concentrationMode: 'absolute' } })
+      expect(wrapper.find('canvas').attributes('aria-label')).toContain('mg/L')
+    })
+  })
+
+  // ---- Exposure Statistics ----
+
+  describe('exposure statistics', () => {
+    const triangle = [
+      { time: 0, concentration: 0 },
+      { time: 2, concentration: 1 },
+      { time: 4, concentration: 0 },
+    ]
+
+    it('renders an exposure table row per dataset', () => {
+      const datasets = [
+        { label: 'Drug A', data: triangle, doseTimes: [0] },
+        { label: 'Drug B', data: triangle },
+      ]
+      const wrapper = mount(GraphViewer, { props: { datasets } })
+      const rows = wrapper.findAll('.exposure-table tbody tr')
+      expect(rows).toHaveLength(2)
+      expect(rows[0]!.text()).toContain('Drug A')
+      // AUC(0–t) of the triangle is 2 (relative × hours)
+      expect(rows[0]!.text()).toContain('2.00 h')
+    })
+
+    it('defaults the threshold to half of the peak', () => {
+      const wrapper = mount(GraphViewer, { props: { datasets: [{ label: 'Drug A', data: triangle }] } })
+      const input = wrapper.find<HTMLInputElement>('[data-testid="exposure-threshold"]')
+      expect(input.element.value).toBe('0.5')
+      // Above 0.5 from t = 1 to t = 3
+      expect(wrapper.find('.exposure-table tbody tr').text()).toContain('2.0h')
+    })
+
+    it('uses half of the highest mg/L peak as the absolute-mode default', () => {
+      const datasets = [{ label: 'Drug A', data: triangle.map((p) => ({ ...p, concentration: p.concentration * 8 })) }]
+      const wrapper = mount(GraphViewer, { props: { datasets, concentrationMode: 'absolute' } })
+      const input = wrapper.find<HTMLInputElement>('[data-testid="exposure-threshold"]')
+      expect(input.element.value).toBe('4')
+      expect(wrapper.find('.exposure-table').text()).toContain('mg·h/L')
+    })
+
+    it('recomputes time above threshold when the threshold changes', async () => {
+      const wrapper = mount(GraphViewer, { props: { datasets: [{ label: 'Drug A', data: triangle }] } })
+      await wrapper.find('[data-testid="exposure-threshold"]').setValue('0.75')
+      // Above 0.75 from t = 1.5 to t = 2.5
+      expect(wrapper.find('.exposure-table tbody tr').text()).toContain('1.0h')
+    })
+
+    it('hides the exposure table without datasets', () => {
+      const wrapper = mount(GraphViewer, { props: { datasets: [] } })
+      expect(wrapper.find('.exposure-table').exists()).toBe(false)
+    })
+  })
+
+  // ---- Therapeutic Window Bands ----
+
+  describe('therapeutic window bands', () => {
+    const data = [{ time: 0, concentration: 0 }, { time: 2, concentration: 1 }]
+
+    function makeChart(window: { min?: number; max?: number }, visible = true) {
+      const ctx = {
+        save: vi.fn(),
+        restore: vi.fn(),
+        fillRect: vi.fn(),
+        beginPath: vi.fn(),
+        moveTo: vi.fn(),
+        lineTo: vi.fn(),
+        stroke: vi.fn(),
+        setLineDash: vi.fn(),
+      }
+      const chart = {
+        ctx,
+        chartArea: { top: 0, bottom: 100, left: 10, right: 210 },
+        // Value v maps to pixel 100 - 50v (axis 0..2)
+        scales: { y: { getPixelForValue: (v: number) => 100 - 50 * v } },
+        data: { datasets: [{ borderColor: '#3B82F6', therapeuticWindow: window }] },
+        isDatasetVisible: () => visible,
+      }
+      return { chart, ctx }
+    }
+
+    function getPlugin() {
+      const plugins = (MockChart as any).mock.calls[0]?.[1]?.plugins
+      return plugins.find((p: { id: string }) => p.id === 'therapeuticWindow')
+    }
+
+    it('registers the band plugin and forwards the window on chart datasets', () => {
+      const datasets = [{ label: 'Drug A', data, therapeuticWindow: { min: 0.4, max: 0.8 } }]
+      mount(GraphViewer, { props: { datasets } })
+      expect(getPlugin()).toBeDefined()
+      const chartDataset = (MockChart as any).mock.calls[0]?.[1]?.data?.datasets?.[0]
+      expect(chartDataset.therapeuticWindow).toEqual({ min: 0.4, max: 0.8 })
+    })
+
+    it('scales the window with the y-axis unit', () => {
+      const small = [{ time: 0, concentration: 0 }, { time: 2, concentration: 0.004 }]
+      const datasets = [{ label: 'Drug A', data: small, therapeuticWindow: { min: 0.002 } }]
+      mount(GraphViewer, { props: { datasets, concentrationMode: 'absolute' } })
+      const chartDataset = (MockChart as any).mock.calls[0]?.[1]?.data?.datasets?.[0]
+      expect(chartDataset.therapeuticWindow.min).toBeCloseTo(2, 10)
+    })
+
+    it('extends the y-axis to show a toxic threshold above the data', () => {
+      const datasets = [{ label: 'Drug A', data, therapeuticWindow: { max: 1.6 } }]
+      mount(GraphViewer, { props: { datasets } })
+      expect((MockChart as any).mock.calls[0]?.[1]?.options?.scales?.y?.max).toBe(1.6)
+    })
+
+    it('shades the band between the bounds of visible datasets', () => {
+      mount(GraphViewer, { props: { datasets: [{ label: 'Drug A', data }] } })
+      const { chart, ctx } = makeChart({ min: 0.4, max: 1.2 })
+      getPlugin().beforeDatasetsDraw(chart)
+      // top = 100 - 60 = 40, bottom = 100 - 20 = 80
+      expect(ctx.fillRect).toHaveBeenCalledWith(10, 40, 200, 40)
+      expect(ctx.stroke).toHaveBeenCalledTimes(2)
+    })
+
+    it('skips hidden datasets', () => {
+      mount(GraphViewer, { props: { datasets: [{ label: 'Drug A', data }] } })
+      const { chart, ctx } = makeChart({ min: 0.4 }, false)
+      getPlugin().beforeDatasetsDraw(chart)
+      expect(ctx.fillRect).not.toHaveBeenCalled()
+    })
+  })
+
+  // ---- Cycle Off-Period Shading ----
+
+  describe('cycle off-period shading', () => {
+    const data = [{ time: 0, concentration: 0 }, { time: 200, concentration: 1 }]
+
+    function getPlugin() {
+      const plugins = (MockChart as any).mock.calls[0]?.[1]?.plugins
+      return plugins.find((p: { id: string }) => p.id === 'offPeriods')
+    }
+
+    function makeChart(visible = true) {
+      const ctx = { save: vi.fn(), restore: vi.fn(), fillRect: vi.fn() }
+      const chart = {
+        ctx,
+        chartArea: { top: 0, bottom: 100, left: 10, right: 210 },
+        // Hour h maps to pixel 10 + h (axis 0..200)
+        scales: { x: { getPixelForValue: (h: number) => 10 + h } },
+        data: { datasets: [{ borderColor: '#3B82F6', offPeriods: [{ start: 72, end: 120 }, { start: 192, end: 240 }] }] },
+        isDatasetVisible: () => visible,
+      }
+      return { chart, ctx }
+    }
+
+    it('forwards off periods and explains the shading', () => {
+      const offPeriods = [{ start: 72, end: 120 }]
+      const wrapper = mount(GraphViewer, { props: { datasets: [{ label: 'Drug A', data, offPeriods }] } })
+      const chartDataset = (MockChart as any).mock.calls[0]?.[1]?.data?.datasets?.[0]
+      expect(chartDataset.offPeriods).toEqual(offPeriods)
+      expect(wrapper.find('.off-period-note').exists()).toBe(true)
+    })
+
+    it('hides the note without off periods', () => {
+      const wrapper = mount(GraphViewer, { props: { datasets: [{ label: 'Drug A', data }] } })
+      expect(wrapper.find('.off-period-note').exists()).toBe(false)
+    })
+
+    it('shades each off period across the chart height, clipped to the chart area', () => {
+      mount(GraphViewer, { props: { datasets: [{ label: 'Drug A', data }] } })
+      const { chart, ctx } = makeChart()
+      getPlugin().beforeDatasetsDraw(chart)
+      expect(ctx.fillRect).toHaveBeenCalledWith(82, 0, 48, 100)
+      expect(ctx.fillRect).toHaveBeenCalledWith(202, 0, 8, 100)
+    })
+
+    it('skips hidden datasets', () => {
+      mount(GraphViewer, { props: { datasets: [{ label: 'Drug A', data }] } })
+      const { chart, ctx } = makeChart(false)
+      getPlugin().beforeDatasetsDraw(chart)
+      expect(ctx.fillRect).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('calendar date axis', () => {
+    const data = [{ time: 0, concentration: 0 }, { time: 48, concentration: 1 }]
+
+    it('labels midnight ticks with dates and other ticks with clock times', () => {
+      const wrapper = mount(GraphViewer, {
+        props: { datasets: [{ label: 'Drug A', data }], xAxisMode: 'date', startDate: '2026-01-05' },
+      })
+      const config = (MockChart as any).mock.calls[0][1]
+      expect(config.options.scales.x.title.text).toBe('Date')
+      expect(config.options.scales.x.ticks.stepSize).toBe(6)
+      expect(config.options.scales.x.ticks.callback(24)).toBe('Tue Jan 6')
+      expect(config.options.scales.x.ticks.callback(30)).toBe('06:00')
+      expect(config.options.plugins.tooltip.callbacks.title([{ parsed: { x: 33 } }])).toBe('Tue Jan 6 09:00')
+      expect(wrapper.find('canvas').attributes('aria-label')).toContain(
+        'Dates from Mon Jan 5 00:00 to Wed Jan 7 00:00',
+      )
+    })
+
+    it('falls back to clock time without a start date', () => {
+      mount(GraphViewer, { props: { datasets: [{ label: 'Drug A', data }], xAxisMode: 'date' } })
+      const config = (MockChart as any).mock.calls[0][1]
+      expect(config.options.scales.x.title.text).toBe('Time of Day')
+      expect(config.options.scales.x.ticks.callback(24)).toBe('00:00')
+    })
+  })
+
+  describe('as-needed dose placement', () => {
+    const data = [{ time: 0, concentration: 0 }, { time: 48, concentration: 1 }]
+    // Hour h maps to pixel 10 + 4h (axis 0..48)
+    const chart = {
+      chartArea: { top: 0, bottom: 100, left: 10, right: 202 },
+      scales: { x: { getValueForPixel: (px: number) => (px - 10) / 4 } },
+    }
+
+    function click(x: number, y: number) {
+      const onClick = (MockChart as any).mock.calls[0]?.[1]?.options?.onClick
+      onClick({ x, y }, [], chart)
+    }
+
+    it('emits the clicked time snapped to a quarter hour', () => {
+      const wrapper = mount(GraphViewer, {
+        props: { datasets: [{ label: 'Drug A', data }], startHours: 0, endHours: 48, placeDoses: true },
+      })
+      click(10 + 4 * 9.1, 50)
+      expect(wrapper.emitted('place-dose')).toEqual([[9]])
+      expect(wrapper.find('.placement-note').exists()).toBe(true)
+      expect(wrapper.find('.chart-container').classes()).toContain('placing-doses')
+    })
+
+    it('ignores clicks outside the plot area', () => {
+      const wrapper = mount(GraphViewer, {
+        props: { datasets: [{ label: 'Drug A', data }], startHours: 0, endHours: 48, placeDoses: true },
+      })
+      click(5, 50)
+      click(50, 120)
+      expect(wrapper.emitted('place-dose')).toBeUndefined()
+    })
+
+    it('does nothing unless placement is enabled', () => {
+      const wrapper = mount(GraphViewer, { props: { datasets: [{ label: 'Drug A', data }] } })
+      click(50, 50)
+      expect(wrapper.emitted('place-dose')).toBeUndefined()
+      expect(wrapper.find('.placement-note').exists()).toBe(false)
+    })
+  })
+
+  describe('as-prescribed ghost curves', () => {
+    const data = [{ time: 0, concentration: 0 }, { time: 2, concentration: 1 }]
+    const datasets = [
+      { label: 'Drug A', data },
+      { label: 'Drug A (as prescribed)', data, isGhost: true },
+      { label: 'Drug A - Metabolite', data, isMetabolite: true },
+      { label: 'Drug B', data },
+    ]
+
+    it('draws ghost curves as thin dotted lines', () => {
+      mount(GraphViewer, { props: { datasets } })
+      const ghost = (MockChart as any).mock.calls[0]?.[1]?.data?.datasets?.[1]
+      expect(ghost.borderWidth).toBe(1)
+      expect(ghost.borderDash).toEqual([2, 3])
+    })
+
+    it('colors ghost and metabolite curves like their parent drug', () => {
+      mount(GraphViewer, { props: { datasets } })
+      const colors = (MockChart as any).mock.calls[0]?.[1]?.data?.datasets?.map((ds: any) => ds.borderColor)
+      expect(colors).toEqual(['#3B82F6', '#3B82F6', '#3B82F6', '#F59E0B'])
+    })
+  })
 })
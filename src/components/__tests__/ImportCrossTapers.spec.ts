@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { mount } from '@vue/test-utils'
+import ImportCrossTapers from '../ImportCrossTapers.vue'
+import { useCrossTaperStore } from '@/stores'
+import { CROSS_TAPER_FIXTURE } from '@/core/models/__tests__/fixtures'
+
+describe('ImportCrossTapers', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('renders the import modal', () => {
+    const wrapper = mount(ImportCrossTapers)
+    expect(wrapper.find('.modal-header h2').text()).toBe('Import Cross-Tapers')
+    expect(wrapper.find('.btn-primary').attributes('disabled')).toBeDefined()
+  })
+
+  it('imports valid cross-tapers and emits the count', async () => {
+    const wrapper = mount(ImportCrossTapers)
+    await wrapper.find('.json-textarea').setValue(JSON.stringify([CROSS_TAPER_FIXTURE]))
+    await wrapper.find('.btn-primary').trigger('click')
+
+    expect(useCrossTaperStore().crossTapers).toHaveLength(1)
+    expect(wrapper.emitted('imported')![0]).toEqual([1])
+    expect(wrapper.find('.result-success').text()).toContain('Successfully imported 1 cross-taper(s)')
+  })
+
+  it('reports invalid rows without saving them', async () => {
+    const wrapper = mount(ImportCrossTapers)
+    const invalid = { ...CROSS_TAPER_FIXTURE, name: 'Bad offset', offsetDays: -1 }
+    await wrapper.find('.json-textarea').setValue(JSON.stringify([CROSS_TAPER_FIXTURE, invalid]))
+    await wrapper.find('.btn-primary').trigger('click')
+
+    expect(useCrossTaperStore().crossTapers).toHaveLength(1)
+    expect(wrapper.find('.result-failed').text()).toContain('Row 2 (Bad offset)')
+  })
+
+  it('does not import JSON that is not an array', async () => {
+    const wrapper = mount(ImportCrossTapers)
+    await wrapper.find('.json-textarea').setValue(JSON.stringify(CROSS_TAPER_FIXTURE))
+    await wrapper.find('.btn-primary').trigger('click')
+
+    expect(useCrossTaperStore().crossTapers).toHaveLength(0)
+    expect(wrapper.emitted('imported')).toBeUndefined()
+  })
+
+  it('emits close from the close button', async () => {
+    const wrapper = mount(ImportCrossTapers)
+    await wrapper.find('.close-btn').trigger('click')
+    expect(wrapper.emitted('close')).toHaveLength(1)
+  })
+})
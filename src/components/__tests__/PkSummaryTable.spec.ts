@@ -183,4 +183,64 @@ describe('PkSummaryTable', () => {
     const elapsedCells = wrapper.findAll('.col-elapsed')
     expect(elapsedCells[0]!.text()).toBe('T+0h')
   })
+
+  it('labels therapeutic window crossings', () => {
+    const windowSummary: PkSummaryData[] = [
+      {
+        prescriptionId: 'rx-3',
+        prescriptionName: 'Vancomycin',
+        events: [
+          {
+            eventType: 'window_enter',
+            clockTime: '09:30',
+            elapsedTime: 'T+0.5h',
+            elapsedHours: 9.5,
+            description: 'Rises above minimum effective concentration (10.0 mg/L) — enters therapeutic window',
+            relativeConcentration: 0.4,
+            prescriptionName: 'Vancomycin',
+          },
+          {
+            eventType: 'window_exit',
+            clockTime: '17:00',
+            elapsedTime: 'T+8h',
+            elapsedHours: 17,
+            description: 'Falls below minimum effective concentration (10.0 mg/L) — leaves therapeutic window',
+            relativeConcentration: 0.4,
+            prescriptionName: 'Vancomycin',
+          },
+        ],
+      },
+    ]
+    const wrapper = mount(PkSummaryTable, { props: { summaryData: windowSummary } })
+    const badges = wrapper.findAll('.event-badge')
+    expect(badges[0]!.text()).toBe('In Range')
+    expect(badges[0]!.classes()).toContain('event-window-enter')
+    expect(badges[1]!.text()).toBe('Out of Range')
+    expect(badges[1]!.classes()).toContain('event-window-exit')
+  })
+
+  it('labels schedule milestones', () => {
+    const event = (eventType: PkSummaryData['events'][number]['eventType'], elapsedHours: number) => ({
+      eventType,
+      clockTime: 'Day 8 09:00',
+      elapsedTime: `T+${elapsedHours}h`,
+      elapsedHours,
+      description: '',
+      relativeConcentration: 0.5,
+      prescriptionName: 'Sertraline Titration',
+    })
+    const scheduleSummary: PkSummaryData[] = [
+      {
+        prescriptionId: 'sched-1',
+        prescriptionName: 'Step 2: 50mg (Day 8-14)',
+        events: [event('step_start', 168), event('steady_state', 198), event('washout', 356)],
+      },
+    ]
+    const wrapper = mount(PkSummaryTable, { props: { summaryData: scheduleSummary } })
+    const badges = wrapper.findAll('.event-badge')
+    expect(badges.map((b) => b.text())).toEqual(['Step', 'Steady State', 'Washout'])
+    expect(badges[0]!.classes()).toContain('event-step-start')
+    expect(badges[1]!.classes()).toContain('event-steady-state')
+    expect(badges[2]!.classes()).toContain('event-washout')
+  })
 })
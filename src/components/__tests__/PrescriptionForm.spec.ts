@@ -28,10 +28,10 @@ describe('PrescriptionForm', () => {
       expect(wrapper.find('input#rx-metabolite').exists()).toBe(true)
     })
 
-    it('renders frequency select with all 10 options', () => {
+    it('renders frequency select with all 15 options', () => {
       const wrapper = mountForm()
       const options = wrapper.findAll('select#rx-frequency option')
-      expect(options).toHaveLength(10)
+      expect(options).toHaveLength(15)
       const values = options.map((opt) => opt.attributes('value'))
       expect(values).toEqual([
         'once',
@@ -43,6 +43,11 @@ describe('PrescriptionForm', () => {
         'q6h',
         'q8h',
         'q12h',
+        'qod',
+        'weekly',
+        'every-n-days',
+        'days-of-week',
+        'prn',
         'custom',
       ])
     })
@@ -568,6 +573,375 @@ describe('PrescriptionForm', () => {
     })
   })
 
+  describe('compartment model', () => {
+    it('defaults to one-compartment and hides alpha inputs', () => {
+      const wrapper = mountForm()
+      expect((wrapper.find('select#rx-compartment-model').element as HTMLSelectElement).value).toBe(
+        'one-compartment',
+      )
+      expect(wrapper.find('input#rx-alpha-halflife').exists()).toBe(false)
+      expect(wrapper.find('input#rx-alpha-fraction').exists()).toBe(false)
+    })
+
+    it('shows alpha inputs when two-compartment is selected', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('select#rx-compartment-model').setValue('two-compartment')
+      expect(wrapper.find('input#rx-alpha-halflife').exists()).toBe(true)
+      expect(wrapper.find('input#rx-alpha-fraction').exists()).toBe(true)
+    })
+
+    it('blocks submit until alpha parameters are provided', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('select#rx-compartment-model').setValue('two-compartment')
+      expect(wrapper.find('button[type="submit"]').attributes('disabled')).toBeDefined()
+
+      await wrapper.find('input#rx-alpha-halflife').setValue(0.5)
+      await wrapper.find('input#rx-alpha-fraction').setValue(0.6)
+      expect(wrapper.find('button[type="submit"]').attributes('disabled')).toBeUndefined()
+    })
+
+    it('emits two-compartment fields on submit', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('select#rx-compartment-model').setValue('two-compartment')
+      await wrapper.find('input#rx-alpha-halflife').setValue(0.5)
+      await wrapper.find('input#rx-alpha-fraction').setValue(0.6)
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.compartmentModel).toBe('two-compartment')
+      expect(emitted.alphaHalfLife).toBe(0.5)
+      expect(emitted.alphaFraction).toBe(0.6)
+    })
+
+    it('omits compartment fields for one-compartment prescriptions', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.compartmentModel).toBeUndefined()
+      expect(emitted.alphaHalfLife).toBeUndefined()
+    })
+  })
+
+  describe('route', () => {
+    it('defaults to oral and shows absorption fields', () => {
+      const wrapper = mountForm()
+      expect((wrapper.find('select#rx-route').element as HTMLSelectElement).value).toBe('oral')
+      expect(wrapper.find('input#rx-peak').exists()).toBe(true)
+      expect(wrapper.find('input#rx-uptake').exists()).toBe(true)
+      expect(wrapper.find('input#rx-infusion-duration').exists()).toBe(false)
+    })
+
+    it('hides peak and uptake for IV bolus', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('select#rx-route').setValue('iv-bolus')
+      expect(wrapper.find('input#rx-peak').exists()).toBe(false)
+      expect(wrapper.find('input#rx-uptake').exists()).toBe(false)
+    })
+
+    it('shows infusion duration for IV infusion and emits it', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('select#rx-route').setValue('iv-infusion')
+      expect(wrapper.find('input#rx-infusion-duration').exists()).toBe(true)
+      await wrapper.find('input#rx-infusion-duration').setValue(2)
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.route).toBe('iv-infusion')
+      expect(emitted.infusionDuration).toBe(2)
+    })
+
+    it('shows lag time for oral only and emits it', async () => {
+      const wrapper = mountForm()
+      expect(wrapper.find('input#rx-lag-time').exists()).toBe(true)
+      await wrapper.find('input#rx-lag-time').setValue(2)
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.lagTime).toBe(2)
+
+      await wrapper.find('select#rx-route').setValue('iv-bolus')
+      expect(wrapper.find('input#rx-lag-time').exists()).toBe(false)
+    })
+
+    it('omits route for oral prescriptions', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.route).toBeUndefined()
+    })
+  })
+
+  describe('per-time doses', () => {
+    it('shows a dose input next to each time and emits timeDoses', async () => {
+      const wrapper = mountForm()
+      expect(wrapper.find('input#rx-time-dose-0').exists()).toBe(false)
+
+      await wrapper.find('input#rx-use-time-doses').setValue(true)
+      expect((wrapper.find('input#rx-time-dose-0').element as HTMLInputElement).value).toBe('500')
+      await wrapper.find('input#rx-time-dose-1').setValue(250)
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.timeDoses).toEqual([500, 250])
+    })
+
+    it('keeps one dose per time when times change', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('input#rx-use-time-doses').setValue(true)
+      await wrapper.find('select#rx-frequency').setValue('tid')
+      expect(wrapper.findAll('input[id^="rx-time-dose-"]')).toHaveLength(3)
+    })
+
+    it('omits timeDoses when the option is off', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.timeDoses).toBeUndefined()
+    })
+  })
+
+  describe('interval and weekday frequencies', () => {
+    it('emits the day interval for every-N-days dosing', async () => {
+      const wrapper = mountForm()
+      expect(wrapper.find('input#rx-day-interval').exists()).toBe(false)
+      await wrapper.find('select#rx-frequency').setValue('every-n-days')
+      await wrapper.find('input#rx-day-interval').setValue(3)
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.frequency).toBe('every-n-days')
+      expect(emitted.times).toEqual(['09:00'])
+      expect(emitted.dayInterval).toBe(3)
+      expect(emitted.daysOfWeek).toBeUndefined()
+    })
+
+    it('emits the selected weekdays in weekday order', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('select#rx-frequency').setValue('days-of-week')
+      await wrapper.find('input#rx-weekday-4').setValue(true)
+      await wrapper.find('input#rx-weekday-0').setValue(true)
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.daysOfWeek).toEqual([0, 1, 4])
+      expect(emitted.dayInterval).toBeUndefined()
+    })
+
+    it('allows adding dosing times on dosing days', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('select#rx-frequency').setValue('weekly')
+      expect(wrapper.find('.custom-time-controls').exists()).toBe(false)
+      await wrapper.find('select#rx-frequency').setValue('days-of-week')
+      expect(wrapper.find('.custom-time-controls').exists()).toBe(true)
+    })
+  })
+
+  describe('on/off cycle', () => {
+    it('omits the cycle by default', async () => {
+      const wrapper = mountForm()
+      expect(wrapper.find('input#rx-cycle-days-on').exists()).toBe(false)
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.cycle).toBeUndefined()
+    })
+
+    it('emits the days on, days off and cycle count', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('input#rx-use-cycle').setValue(true)
+      await wrapper.find('input#rx-cycle-days-on').setValue(5)
+      await wrapper.find('input#rx-cycle-days-off').setValue(2)
+      await wrapper.find('input#rx-cycle-count').setValue(4)
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.cycle).toEqual({ daysOn: 5, daysOff: 2, cycles: 4 })
+    })
+  })
+
+  describe('start date', () => {
+    it('omits the start date by default and emits it when set', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('form').trigger('submit')
+      expect((wrapper.emitted('submit')![0]![0] as Prescription).startDate).toBeUndefined()
+
+      await wrapper.find('input#rx-start-date').setValue('2026-01-05')
+      await wrapper.find('form').trigger('submit')
+      expect((wrapper.emitted('submit')![1]![0] as Prescription).startDate).toBe('2026-01-05')
+    })
+
+    it('populates the start date when editing', () => {
+      const wrapper = mountForm({ initial: { ...BID_MULTI_DOSE_FIXTURE, startDate: '2026-02-10' } })
+      expect((wrapper.find('input#rx-start-date').element as HTMLInputElement).value).toBe('2026-02-10')
+    })
+  })
+
+  describe('start offset', () => {
+    it('emits the offset with its unit only when set', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('form').trigger('submit')
+      expect((wrapper.emitted('submit')![0]![0] as Prescription).startOffset).toBeUndefined()
+
+      await wrapper.find('input#rx-start-offset').setValue(36)
+      await wrapper.find('select#rx-start-offset-unit').setValue('hours')
+      await wrapper.find('form').trigger('submit')
+      expect(wrapper.emitted('submit')![1]![0]).toMatchObject({ startOffset: 36, startOffsetUnit: 'hours' })
+    })
+  })
+
+  describe('as-needed (PRN) frequency', () => {
+    it('replaces the dosing times with re-dose limits', async () => {
+      const wrapper = mountForm()
+      expect(wrapper.find('input#rx-min-dose-interval').exists()).toBe(false)
+      await wrapper.find('select#rx-frequency').setValue('prn')
+      expect(wrapper.find('input#rx-time-0').exists()).toBe(false)
+      await wrapper.find('input#rx-min-dose-interval').setValue(6)
+      await wrapper.find('input#rx-max-daily-dose').setValue(1500)
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted).toMatchObject({ frequency: 'prn', times: [], minDoseInterval: 6, maxDailyDose: 1500 })
+    })
+
+    it('keeps placed doses when editing', async () => {
+      const initial: Prescription = {
+        ...BID_MULTI_DOSE_FIXTURE,
+        frequency: 'prn',
+        times: [],
+        minDoseInterval: 4,
+        maxDailyDose: 2000,
+        prnDoseTimes: [9, 15],
+      }
+      const wrapper = mountForm({ initial })
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.prnDoseTimes).toEqual([9, 15])
+    })
+  })
+
+  describe('loading dose', () => {
+    it('omits the loading dose by default and hides the count', async () => {
+      const wrapper = mountForm()
+      expect(wrapper.find('input#rx-loading-dose-count').exists()).toBe(false)
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.loadingDose).toBeUndefined()
+      expect(emitted.loadingDoseCount).toBeUndefined()
+    })
+
+    it('emits the loading dose and its count', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('input#rx-loading-dose').setValue(1000)
+      await wrapper.find('input#rx-loading-dose-count').setValue(2)
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.loadingDose).toBe(1000)
+      expect(emitted.loadingDoseCount).toBe(2)
+    })
+  })
+
+  describe('absorption model', () => {
+    it('omits absorptionModel for first-order absorption', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.absorptionModel).toBeUndefined()
+      expect(wrapper.find('input#rx-release-duration').exists()).toBe(false)
+    })
+
+    it('emits zero-order release and hides Tmax and absorption time', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('select#rx-absorption-model').setValue('zero-order')
+      expect(wrapper.find('input#rx-peak').exists()).toBe(false)
+      expect(wrapper.find('input#rx-uptake').exists()).toBe(false)
+      await wrapper.find('input#rx-release-duration').setValue(12)
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.absorptionModel).toBe('zero-order')
+      expect(emitted.releaseDuration).toBe(12)
+    })
+
+    it('emits the ER fraction for IR + ER', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('select#rx-absorption-model').setValue('ir-er')
+      expect(wrapper.find('input#rx-peak').exists()).toBe(true)
+      await wrapper.find('input#rx-release-duration').setValue(8)
+      await wrapper.find('input#rx-er-fraction').setValue(0.6)
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.absorptionModel).toBe('ir-er')
+      expect(emitted.erFraction).toBe(0.6)
+    })
+  })
+
+  describe('elimination kinetics', () => {
+    it('shows Vmax and Km only for Michaelis-Menten and emits them', async () => {
+      const wrapper = mountForm()
+      expect(wrapper.find('input#rx-vmax').exists()).toBe(false)
+      await wrapper.find('select#rx-elimination-model').setValue('michaelis-menten')
+      await wrapper.find('input#rx-vmax').setValue(20)
+      await wrapper.find('input#rx-km').setValue(4)
+      await wrapper.find('input#rx-vd').setValue(50)
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.eliminationModel).toBe('michaelis-menten')
+      expect(emitted.vmax).toBe(20)
+      expect(emitted.km).toBe(4)
+    })
+
+    it('omits eliminationModel for linear elimination', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.eliminationModel).toBeUndefined()
+    })
+  })
+
+  describe('therapeutic window', () => {
+    it('emits the window bounds when set', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('input#rx-min-effective').setValue(0.3)
+      await wrapper.find('input#rx-toxic').setValue(0.9)
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.minEffectiveConcentration).toBe(0.3)
+      expect(emitted.toxicConcentration).toBe(0.9)
+    })
+
+    it('labels the bounds in mg/L once a volume of distribution is set', async () => {
+      const wrapper = mountForm()
+      expect(wrapper.find('label[for="rx-toxic"]').text()).toContain('relative')
+      await wrapper.find('input#rx-vd').setValue(50)
+      expect(wrapper.find('label[for="rx-toxic"]').text()).toContain('mg/L')
+    })
+
+    it('omits the window when left blank', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.minEffectiveConcentration).toBeUndefined()
+      expect(emitted.toxicConcentration).toBeUndefined()
+    })
+  })
+
+  describe('absolute concentration parameters', () => {
+    it('omits F and Vd when left blank', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.bioavailability).toBeUndefined()
+      expect(emitted.volumeOfDistribution).toBeUndefined()
+    })
+
+    it('emits bioavailability and volume of distribution', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('input#rx-bioavailability').setValue(0.8)
+      await wrapper.find('input#rx-vd').setValue(42)
+      await wrapper.find('form').trigger('submit')
+      const emitted = wrapper.emitted('submit')![0]![0] as Prescription
+      expect(emitted.bioavailability).toBe(0.8)
+      expect(emitted.volumeOfDistribution).toBe(42)
+    })
+
+    it('hides bioavailability for IV routes but keeps Vd', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('select#rx-route').setValue('iv-bolus')
+      expect(wrapper.find('input#rx-bioavailability').exists()).toBe(false)
+      expect(wrapper.find('input#rx-vd').exists()).toBe(true)
+    })
+  })
+
   describe('import event propagation (regression)', () => {
     it('renders import link button', () => {
       const wrapper = mountForm()
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import PrnDoseEditor from '../PrnDoseEditor.vue'
+import type { Prescription } from '@/core/models/prescription'
+import { SINGLE_DOSE_FIXTURE, BID_MULTI_DOSE_FIXTURE } from '@/core/models/__tests__/fixtures'
+
+const prn: Prescription = {
+  ...SINGLE_DOSE_FIXTURE,
+  name: 'Ibuprofen',
+  frequency: 'prn',
+  times: [],
+  dose: 400,
+  minDoseInterval: 4,
+  maxDailyDose: 1200,
+  prnDoseTimes: [8, 10],
+}
+
+function mountEditor(prescriptions: Prescription[] = [BID_MULTI_DOSE_FIXTURE, prn], selectedIndex = 1) {
+  return mount(PrnDoseEditor, { props: { prescriptions, selectedIndex } })
+}
+
+describe('PrnDoseEditor', () => {
+  it('lists placed doses and the limits', () => {
+    const wrapper = mountEditor()
+    expect(wrapper.find('summary').text()).toContain('(2 placed)')
+    expect(wrapper.findAll('tbody tr')).toHaveLength(2)
+    expect(wrapper.text()).toContain('at least 4h between doses, at most 1200 mg in 24 hours')
+  })
+
+  it('shows placement warnings', () => {
+    const wrapper = mountEditor()
+    expect(wrapper.find('.prn-warnings').text()).toContain(
+      'Dose at 10h is only 2h after the previous dose (minimum 4h).',
+    )
+  })
+
+  it('adds a typed dose time in order', async () => {
+    const wrapper = mountEditor()
+    await wrapper.find('[data-testid="prn-dose-hours"]').setValue('9')
+    await wrapper.find('form').trigger('submit')
+    expect(wrapper.emitted('update:prnDoses')).toEqual([[1, [8, 9, 10]]])
+  })
+
+  it('ignores out-of-range dose times', async () => {
+    const wrapper = mountEditor()
+    await wrapper.find('[data-testid="prn-dose-hours"]').setValue('-2')
+    await wrapper.find('form').trigger('submit')
+    expect(wrapper.emitted('update:prnDoses')).toBeUndefined()
+  })
+
+  it('removes and clears doses', async () => {
+    const wrapper = mountEditor()
+    await wrapper.findAll('.remove-button')[0]!.trigger('click')
+    await wrapper.find('.reset-button').trigger('click')
+    expect(wrapper.emitted('update:prnDoses')).toEqual([[1, [10]], [1, []]])
+  })
+
+  it('offers only as-needed prescriptions to choose from', async () => {
+    const other = { ...prn, name: 'Paracetamol', prnDoseTimes: undefined }
+    const wrapper = mountEditor([BID_MULTI_DOSE_FIXTURE, prn, other])
+    const select = wrapper.find('[data-testid="prn-prescription"]')
+    expect(select.findAll('option').map((o) => o.text())).toEqual(['Ibuprofen', 'Paracetamol'])
+    await select.setValue('2')
+    expect(wrapper.emitted('update:selectedIndex')).toEqual([[2]])
+  })
+})
@@ -172,6 +172,40 @@ describe('ScheduleComparisonViewer', () => {
     })
   })
 
+  // ---- Metabolites ----
+
+  describe('metabolite curves', () => {
+    it('adds a dashed metabolite dataset after a schedule that has one', () => {
+      const [a, b] = makeTwoSchedules()
+      mountViewer([
+        a!,
+        { ...b!, basePrescription: makeBasePrescription({ metaboliteLife: 30, relativeMetaboliteLevel: 1 }) },
+      ])
+      const datasets = MockChart.mock.calls[0][1].data.datasets
+      expect(datasets.map((d: { label: string }) => d.label)).toEqual([
+        'Schedule A',
+        'Schedule B',
+        'Schedule B - Metabolite',
+      ])
+      expect(datasets[2].borderDash).toEqual([5, 5])
+      expect(datasets[2].borderColor).toBe(datasets[1].borderColor)
+    })
+
+    it('scales metabolite curves with their schedule in global mode', async () => {
+      const [a, b] = makeTwoSchedules()
+      const wrapper = mountViewer([
+        { ...a!, basePrescription: makeBasePrescription({ metaboliteLife: 30, relativeMetaboliteLevel: 1 }) },
+        b!,
+      ])
+      await wrapper.find('input[value="global"]').setValue(true)
+      const calls = MockChart.mock.calls
+      const metabolite = calls[calls.length - 1][1].data.datasets[1]
+      const peak = Math.max(...metabolite.data.map((p: { y: number }) => p.y))
+      // Schedule A peaks at 50mg vs. 100mg for B
+      expect(peak).toBeCloseTo(0.5, 5)
+    })
+  })
+
   // ---- Distinct Colors ----
 
   describe('color assignment', () => {
@@ -240,6 +274,29 @@ describe('ScheduleComparisonViewer', () => {
     })
   })
 
+  // ---- Exposure Statistics ----
+
+  describe('exposure statistics', () => {
+    it('renders an exposure row per schedule', () => {
+      const wrapper = mountViewer(makeTwoSchedules())
+      const rows = wrapper.findAll('.exposure-table tbody tr')
+      expect(rows).toHaveLength(2)
+      expect(rows[0]!.text()).toContain('Schedule A')
+      expect(rows[1]!.text()).toContain('Schedule B')
+    })
+
+    it('scales AUC with dose in global normalization mode', async () => {
+      const wrapper = mountViewer(makeTwoSchedules())
+      const aucText = () => wrapper.findAll('.exposure-table tbody tr').map(r => r.findAll('td')[0]!.text())
+      const individual = aucText()
+      await wrapper.find<HTMLInputElement>('input[value="global"]').setValue(true)
+      const global = aucText()
+      // Schedule A peaks at 50 mg against Schedule B's 100 mg, so its AUC halves
+      expect(parseFloat(global[0]!)).toBeCloseTo(parseFloat(individual[0]!) / 2, 1)
+      expect(global[1]).toBe(individual[1])
+    })
+  })
+
   // ---- Accessibility ----
 
   describe('accessibility', () => {
@@ -155,6 +155,16 @@ describe('ScheduleForm', () => {
       expect(schedule.basePrescription).toBeDefined()
     })
 
+    it('includes the start date only when set', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('form').trigger('submit')
+      expect((wrapper.emitted('submit')![0]![0] as DosageSchedule).startDate).toBeUndefined()
+
+      await wrapper.find('input#sched-start-date').setValue('2026-03-02')
+      await wrapper.find('form').trigger('submit')
+      expect((wrapper.emitted('submit')![1]![0] as DosageSchedule).startDate).toBe('2026-03-02')
+    })
+
     it('does not emit submit when form is invalid', async () => {
       const wrapper = mountForm()
       // Clear name to make form invalid
@@ -174,6 +184,200 @@ describe('ScheduleForm', () => {
     })
   })
 
+  describe('per-step frequency', () => {
+    it('uses the base frequency until a step overrides it', async () => {
+      const wrapper = mountForm()
+      expect((wrapper.find('#step-frequency-1').element as HTMLSelectElement).value).toBe('')
+      expect(wrapper.find('#step-time-1-0').exists()).toBe(false)
+
+      await wrapper.find('form').trigger('submit')
+      const schedule = wrapper.emitted('submit')![0]![0] as DosageSchedule
+      expect(schedule.steps[1]!.frequency).toBeUndefined()
+      expect(schedule.steps[1]!.times).toBeUndefined()
+    })
+
+    it('switches a step to QD with its default time', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('#step-frequency-1').setValue('qd')
+      await wrapper.find('#step-time-1-0').setValue('08:00')
+      expect(wrapper.find('.step-preview').text()).toContain('7d, QD')
+
+      await wrapper.find('form').trigger('submit')
+      const schedule = wrapper.emitted('submit')![0]![0] as DosageSchedule
+      expect(schedule.steps[1]).toMatchObject({ frequency: 'qd', times: ['08:00'] })
+      expect(schedule.steps[0]!.frequency).toBeUndefined()
+    })
+
+    it('clears the override when set back to the base frequency', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('#step-frequency-1').setValue('qd')
+      await wrapper.find('#step-frequency-1').setValue('')
+
+      expect(wrapper.find('#step-time-1-0').exists()).toBe(false)
+      await wrapper.find('form').trigger('submit')
+      expect((wrapper.emitted('submit')![0]![0] as DosageSchedule).steps[1]!.times).toBeUndefined()
+    })
+
+    it('adds and removes times on a step with custom times', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('#step-frequency-1').setValue('qd')
+      expect(wrapper.find('.add-step-time-btn').exists()).toBe(false)
+
+      await wrapper.find('#step-frequency-1').setValue('custom')
+      const removeBtn = wrapper.find('.remove-step-time-btn')
+      expect((removeBtn.element as HTMLButtonElement).disabled).toBe(true)
+
+      await wrapper.find('.add-step-time-btn').trigger('click')
+      await wrapper.find('.add-step-time-btn').trigger('click')
+      await wrapper.find('#step-time-1-2').setValue('22:00')
+      await wrapper.find('.remove-step-time-btn').trigger('click')
+      expect(wrapper.find('#step-time-1-2').exists()).toBe(false)
+
+      await wrapper.find('form').trigger('submit')
+      const schedule = wrapper.emitted('submit')![0]![0] as DosageSchedule
+      expect(schedule.steps[1]).toMatchObject({ frequency: 'custom', times: ['09:00', '12:00'] })
+    })
+
+    it('carries the last step\'s frequency into a new step', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('#step-frequency-1').setValue('qd')
+      await wrapper.find('.add-step-btn').trigger('click')
+
+      expect((wrapper.find('#step-frequency-2').element as HTMLSelectElement).value).toBe('qd')
+      expect((wrapper.find('#step-time-2-0').element as HTMLInputElement).value).toBe('09:00')
+    })
+
+    it('loads step overrides from an initial schedule', () => {
+      const wrapper = mountForm({
+        initial: makeSchedule({
+          steps: [
+            { stepNumber: 1, dose: 25, durationDays: 7, startDay: 0 },
+            { stepNumber: 2, dose: 50, durationDays: 7, startDay: 7, frequency: 'tid', times: ['08:00', '14:00', '20:00'] },
+          ],
+        }),
+      })
+      expect((wrapper.find('#step-frequency-1').element as HTMLSelectElement).value).toBe('tid')
+      expect((wrapper.find('#step-time-1-2').element as HTMLInputElement).value).toBe('20:00')
+    })
+  })
+
+  describe('metabolite parameters', () => {
+    it('omits metabolite fields by default', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('form').trigger('submit')
+      const rx = (wrapper.emitted('submit')![0]![0] as DosageSchedule).basePrescription
+      expect(rx.metaboliteLife).toBeUndefined()
+      expect(rx.relativeMetaboliteLevel).toBeUndefined()
+    })
+
+    it('adds metabolite parameters to the base prescription', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('#sched-metabolite-life').setValue(11)
+      await wrapper.find('#sched-metabolite-level').setValue(0.8)
+      await wrapper.find('#sched-metabolite-name').setValue('Desvenlafaxine')
+
+      await wrapper.find('form').trigger('submit')
+      const rx = (wrapper.emitted('submit')![0]![0] as DosageSchedule).basePrescription
+      expect(rx).toMatchObject({
+        metaboliteLife: 11,
+        relativeMetaboliteLevel: 0.8,
+        metaboliteName: 'Desvenlafaxine',
+      })
+    })
+
+    it('keeps metabolite parameters when editing a schedule', async () => {
+      const wrapper = mountForm({
+        initial: makeSchedule({
+          basePrescription: makeBasePrescription({ metaboliteLife: 30, relativeMetaboliteLevel: 1.2 }),
+        }),
+      })
+      expect((wrapper.find('#sched-metabolite-life').element as HTMLInputElement).value).toBe('30')
+
+      await wrapper.find('form').trigger('submit')
+      const rx = (wrapper.emitted('submit')![0]![0] as DosageSchedule).basePrescription
+      expect(rx).toMatchObject({ metaboliteLife: 30, relativeMetaboliteLevel: 1.2 })
+    })
+  })
+
+  describe('tablet inventory', () => {
+    it('saves tablet strengths with the schedule', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('.add-tablet-btn').trigger('click')
+      await wrapper.find('#tablet-strength-0').setValue(25)
+
+      await wrapper.find('form').trigger('submit')
+      const schedule = wrapper.emitted('submit')![0]![0] as DosageSchedule
+      expect(schedule.tablets).toEqual([{ strength: 25, splittable: true }])
+    })
+
+    it('omits tablets when none are listed', async () => {
+      const wrapper = mountForm()
+      await wrapper.find('form').trigger('submit')
+      expect((wrapper.emitted('submit')![0]![0] as DosageSchedule).tablets).toBeUndefined()
+    })
+
+    it('shows tablets per dose for each step', () => {
+      const wrapper = mountForm({
+        initial: makeSchedule({ tablets: [{ strength: 50, splittable: true }] }),
+      })
+      expect(wrapper.find('[data-testid="step-tablets-0"]').text()).toBe('½ × 50 mg')
+      expect(wrapper.find('[data-testid="step-tablets-1"]').text()).toBe('1 × 50 mg')
+    })
+
+    it('rounds step doses to what the tablets can build', async () => {
+      const wrapper = mountForm({
+        initial: makeSchedule({
+          direction: 'taper',
+          tablets: [{ strength: 10, splittable: false }],
+          steps: [
+            { stepNumber: 1, dose: 37.5, durationDays: 7, startDay: 0 },
+            { stepNumber: 2, dose: 13.2, durationDays: 7, startDay: 7 },
+          ],
+        }),
+      })
+      expect(wrapper.find('[data-testid="step-tablets-1"]').text()).toBe(
+        'Not possible with these tablets',
+      )
+      expect(wrapper.find('.validation-warnings').text()).toContain('nearest: 10 mg')
+
+      await wrapper.find('.round-steps-btn').trigger('click')
+      await wrapper.find('form').trigger('submit')
+      const schedule = wrapper.emitted('submit')![0]![0] as DosageSchedule
+      expect(schedule.steps.map(s => s.dose)).toEqual([40, 10])
+    })
+  })
+
+  describe('taper generator', () => {
+    it('is only offered for tapers', async () => {
+      const wrapper = mountForm()
+      expect(wrapper.find('.taper-generator').exists()).toBe(false)
+
+      await wrapper.find('input[value="taper"]').setValue(true)
+      expect(wrapper.find('.taper-generator').exists()).toBe(true)
+    })
+
+    it('replaces the steps with the generated taper', async () => {
+      const wrapper = mountForm({
+        initial: makeSchedule({
+          direction: 'taper',
+          steps: [
+            { stepNumber: 1, dose: 40, durationDays: 7, startDay: 0 },
+            { stepNumber: 2, dose: 20, durationDays: 7, startDay: 7 },
+          ],
+        }),
+      })
+      await wrapper.find('#gen-rule').setValue('fixed-mg')
+      await wrapper.find('#gen-target-dose').setValue(10)
+      await wrapper.find('.apply-steps-btn').trigger('click')
+
+      expect(wrapper.findAll('.step-row')).toHaveLength(4)
+      await wrapper.find('form').trigger('submit')
+      const schedule = wrapper.emitted('submit')![0]![0] as DosageSchedule
+      expect(schedule.steps.map(s => s.dose)).toEqual([40, 30, 20, 10])
+      expect(schedule.totalDuration).toBe(56)
+    })
+  })
+
   describe('edit mode (initial prop)', () => {
     it('populates form from initial schedule', () => {
       const schedule = makeSchedule({ name: 'Existing Schedule' })
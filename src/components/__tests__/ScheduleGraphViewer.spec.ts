@@ -192,6 +192,67 @@ describe('ScheduleGraphViewer', () => {
     })
   })
 
+  describe('metabolite curve', () => {
+    it('adds no metabolite dataset without metabolite parameters', () => {
+      mountViewer()
+      expect(MockChart.mock.calls[0][1].data.datasets).toHaveLength(1)
+    })
+
+    it('adds a dashed metabolite dataset in the schedule color', () => {
+      mountViewer(makeTitrationSchedule({
+        basePrescription: makeBasePrescription({
+          metaboliteLife: 11,
+          relativeMetaboliteLevel: 0.8,
+          metaboliteName: 'Desvenlafaxine',
+        }),
+      }))
+      const [parent, metabolite] = MockChart.mock.calls[0][1].data.datasets
+      expect(metabolite.label).toBe('Test Titration - Desvenlafaxine')
+      expect(metabolite.borderDash).toEqual([5, 5])
+      expect(metabolite.borderColor).toBe(parent.borderColor)
+      const peak = Math.max(...metabolite.data.map((p: { y: number }) => p.y))
+      expect(peak).toBeCloseTo(0.8, 5)
+    })
+
+    it('raises the Y-axis to fit a metabolite above the parent', () => {
+      mountViewer(makeTitrationSchedule({
+        basePrescription: makeBasePrescription({ metaboliteLife: 11, relativeMetaboliteLevel: 2.5 }),
+      }))
+      const config = MockChart.mock.calls[0][1]
+      expect(config.data.datasets[1].label).toBe('Test Titration - Metabolite')
+      expect(config.options.scales.y.max).toBeCloseTo(2.6, 5)
+    })
+  })
+
+  describe('calendar date axis', () => {
+    const dated = () => makeTitrationSchedule({ startDate: '2026-03-02' })
+
+    function mountDated(schedule: DosageSchedule) {
+      return mount(ScheduleGraphViewer, { props: { schedule, xAxisMode: 'date' } })
+    }
+
+    it('labels steps and ticks with calendar dates', () => {
+      const wrapper = mountDated(dated())
+      const annotations = wrapper.findAll('.step-annotation')
+      expect(annotations[0]!.text()).toContain('Mon Mar 2')
+      expect(annotations[1]!.text()).toContain('Mon Mar 9')
+
+      const x = MockChart.mock.calls[0][1].options.scales.x
+      expect(x.title.text).toBe('Date')
+      expect(x.ticks.callback(48)).toBe('Wed Mar 4')
+      expect(x.ticks.callback(54)).toBe('06:00')
+      expect(MockChart.mock.calls[0][1].options.plugins.tooltip.callbacks.title([{ parsed: { x: 33 } }])).toBe(
+        'Tue Mar 3 09:00',
+      )
+    })
+
+    it('keeps day labels for undated schedules', () => {
+      const wrapper = mountDated(makeTitrationSchedule())
+      expect(wrapper.findAll('.step-annotation')[1]!.text()).toContain('Day 8+')
+      expect(MockChart.mock.calls[0][1].options.scales.x.title.text).toBe('Time (hours)')
+    })
+  })
+
   // ---- Accessibility ----
 
   describe('accessibility', () => {
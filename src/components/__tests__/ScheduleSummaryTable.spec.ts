@@ -74,8 +74,10 @@ describe('ScheduleSummaryTable', () => {
       expect(headerTexts).toContain('Dose')
       expect(headerTexts).toContain('Duration')
       expect(headerTexts).toContain('Days')
-      expect(headerTexts).toContain('Est. SS Level')
-      expect(headerTexts).toContain('Time to SS')
+      expect(headerTexts).toContain('Trough')
+      expect(headerTexts).toContain('Peak')
+      expect(headerTexts).toContain('Steady State')
+      expect(headerTexts).toContain('Change')
     })
   })
 
@@ -143,29 +145,77 @@ describe('ScheduleSummaryTable', () => {
       expect(rows[1]!.text()).toContain('Day 15-35')
     })
 
-    it('displays steady-state level as relative value', () => {
+    it('displays attained peak levels relative to the schedule peak', () => {
       const wrapper = mountTable()
-      const rows = wrapper.findAll('tbody tr')
-      // Step 1: 25/50 = 0.5, Step 2: 50/50 = 1.0
-      expect(rows[0]!.text()).toContain('0.5')
-      expect(rows[1]!.text()).toContain('1')
+      const peaks = wrapper.findAll('tbody tr').map(row => row.findAll('td')[5]!.text())
+      // Linear kinetics: step 1 at 25 mg peaks at half of step 2 at 50 mg
+      expect(peaks).toEqual(['0.5', '1'])
     })
 
-    it('calculates time to steady-state from half-life', () => {
-      // halfLife=6, so time to SS = 5 * 6 = 30 hours
+    it('shows the percent change in average level from the previous step', () => {
       const wrapper = mountTable()
-      const rows = wrapper.findAll('tbody tr')
-      expect(rows[0]!.text()).toContain('30')
+      const changes = wrapper.findAll('tbody tr').map(row => row.findAll('td')[7]!.text())
+      expect(changes).toEqual(['—', '+100%'])
+    })
+
+    it('follows the daily amount when a step changes frequency', () => {
+      const wrapper = mountTable(
+        makeSchedule({
+          direction: 'taper',
+          steps: [
+            { stepNumber: 1, dose: 50, durationDays: 7, startDay: 0 },
+            { stepNumber: 2, dose: 50, durationDays: 7, startDay: 7, frequency: 'qd', times: ['09:00'] },
+          ],
+        }),
+      )
+      const changes = wrapper.findAll('tbody tr').map(row => row.findAll('td')[7]!.text())
+      // 2 x 50 mg/day, then 1 x 50 mg/day
+      expect(changes).toEqual(['—', '-50%'])
     })
 
-    it('warns when step duration is shorter than time to steady-state', () => {
-      // halfLife=48 → timeToSS=240 hours=10 days, but step is only 7 days
+    it('marks steps that reach steady state', () => {
+      const wrapper = mountTable()
+      const cells = wrapper.findAll('tbody tr').map(row => row.findAll('td')[6]!.text())
+      expect(cells).toEqual(['Reached', 'Reached'])
+      expect(wrapper.find('.ss-warning').exists()).toBe(false)
+      expect(wrapper.find('.warning-note').exists()).toBe(false)
+    })
+
+    it('warns when a step ends before steady state is reached', () => {
+      // halfLife=48 → ~10 days to steady state, but each step is only 7 days
       const schedule = makeSchedule({
         basePrescription: makeBasePrescription({ halfLife: 48 }),
       })
       const wrapper = mountTable(schedule)
-      const warnings = wrapper.findAll('.ss-warning')
-      expect(warnings.length).toBeGreaterThan(0)
+      const firstCell = wrapper.findAll('tbody tr')[0]!.findAll('td')[6]!
+      expect(firstCell.text()).toMatch(/^\d+%/)
+      expect(firstCell.find('.ss-warning').exists()).toBe(true)
+      expect(wrapper.find('.warning-note').exists()).toBe(true)
+    })
+  })
+
+  // ---- Tablets ----
+
+  describe('tablets per dose', () => {
+    it('hides the tablets column without an inventory', () => {
+      const wrapper = mountTable()
+      expect(wrapper.text()).not.toContain('Tablets per Dose')
+    })
+
+    it('shows tablets per dose and flags doses that cannot be built', () => {
+      const wrapper = mountTable(
+        makeSchedule({
+          tablets: [{ strength: 20, splittable: true }],
+          steps: [
+            { stepNumber: 1, dose: 30, durationDays: 7, startDay: 0 },
+            { stepNumber: 2, dose: 25, durationDays: 7, startDay: 7 },
+          ],
+        }),
+      )
+      expect(wrapper.findAll('th').map(th => th.text())).toContain('Tablets per Dose')
+      const rows = wrapper.findAll('tbody tr')
+      expect(rows[0]!.text()).toContain('1½ × 20 mg')
+      expect(rows[1]!.find('.tablets-unavailable').text()).toBe('Not possible')
     })
   })
 })
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import SteadyStateCard from '../SteadyStateCard.vue'
+import type { SteadyStateMetrics } from '@/core/models/steadyState'
+
+const relativeMetrics: SteadyStateMetrics = {
+  prescriptionId: 'rx-1',
+  prescriptionName: 'Ibuprofen',
+  dosingInterval: 8,
+  evenlySpaced: false,
+  unit: 'relative',
+  cssMax: 1,
+  cssMin: 0.125,
+  cssAvg: 0.42,
+  fluctuationPercent: 208.3,
+  accumulationRatio: 1.07,
+  timeTo90Percent: 6.64,
+}
+
+const absoluteMetrics: SteadyStateMetrics = {
+  ...relativeMetrics,
+  prescriptionId: 'rx-2',
+  prescriptionName: 'Vancomycin',
+  dosingInterval: 12,
+  evenlySpaced: true,
+  unit: 'mg/L',
+  cssMax: 32.1,
+  cssMin: 11.4,
+}
+
+describe('SteadyStateCard', () => {
+  it('renders a region with an accessible label', () => {
+    const wrapper = mount(SteadyStateCard, { props: { metrics: [relativeMetrics] } })
+    expect(wrapper.find('[role="region"]').attributes('aria-label')).toBe('Steady-state metrics')
+  })
+
+  it('renders one section per prescription with its dosing interval', () => {
+    const wrapper = mount(SteadyStateCard, { props: { metrics: [relativeMetrics, absoluteMetrics] } })
+    const names = wrapper.findAll('.metrics-name')
+    expect(names).toHaveLength(2)
+    expect(names[0]!.text()).toContain('Ibuprofen')
+    expect(names[0]!.text()).toContain('every 8h')
+  })
+
+  it('shows relative concentrations as a percentage of Css,max', () => {
+    const wrapper = mount(SteadyStateCard, { props: { metrics: [relativeMetrics] } })
+    const values = wrapper.findAll('dd').map((dd) => dd.text())
+    expect(values).toContain('100.0%')
+    expect(values).toContain('12.5%')
+    expect(wrapper.text()).toContain('Add a volume of distribution')
+  })
+
+  it('shows absolute concentrations in mg/L', () => {
+    const wrapper = mount(SteadyStateCard, { props: { metrics: [absoluteMetrics] } })
+    const values = wrapper.findAll('dd').map((dd) => dd.text())
+    expect(values).toContain('32.1 mg/L')
+    expect(values).toContain('11.4 mg/L')
+  })
+
+  it('notes unevenly spaced dose times', () => {
+    const wrapper = mount(SteadyStateCard, { props: { metrics: [relativeMetrics] } })
+    expect(wrapper.text()).toContain('unevenly spaced')
+  })
+
+  it('shows accumulation ratio and time to 90% steady state', () => {
+    const wrapper = mount(SteadyStateCard, { props: { metrics: [relativeMetrics] } })
+    const values = wrapper.findAll('dd').map((dd) => dd.text())
+    expect(values).toContain('1.07×')
+    expect(values).toContain('6.6h')
+  })
+
+  it('shows an empty message without metrics', () => {
+    const wrapper = mount(SteadyStateCard, { props: { metrics: [] } })
+    expect(wrapper.find('.empty-message').exists()).toBe(true)
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import TaperGenerator from '../TaperGenerator.vue'
+import type { DoseStep } from '@/core/models/dosageSchedule'
+
+function mountGenerator(props: { initialDose?: number } = {}) {
+  return mount(TaperGenerator, { props })
+}
+
+describe('TaperGenerator', () => {
+  it('starts from the initial dose', () => {
+    const wrapper = mountGenerator({ initialDose: 40 })
+    expect((wrapper.find('#gen-start-dose').element as HTMLInputElement).value).toBe('40')
+    expect((wrapper.find('#gen-target-dose').element as HTMLInputElement).value).toBe('4')
+  })
+
+  it('previews the generated doses and total duration', async () => {
+    const wrapper = mountGenerator({ initialDose: 100 })
+    await wrapper.find('#gen-target-dose').setValue(10)
+    await wrapper.find('#gen-reduction').setValue(50)
+
+    const preview = wrapper.find('.generator-preview')
+    expect(wrapper.findAll('.preview-step').map(s => s.text())).toEqual([
+      '100mg',
+      '50mg',
+      '25mg',
+      '12.5mg',
+      '10mg',
+    ])
+    expect(preview.text()).toContain('5 steps, 70 days')
+  })
+
+  it('emits the generated steps when applied', async () => {
+    const wrapper = mountGenerator({ initialDose: 40 })
+    await wrapper.find('#gen-rule').setValue('fixed-mg')
+    await wrapper.find('#gen-target-dose').setValue(10)
+    await wrapper.find('#gen-step-days').setValue(7)
+    await wrapper.find('.apply-steps-btn').trigger('click')
+
+    const steps = wrapper.emitted('apply')![0]![0] as DoseStep[]
+    expect(steps.map(s => s.dose)).toEqual([40, 30, 20, 10])
+    expect(steps[3]!.startDay).toBe(21)
+  })
+
+  it('shows the occupancy dose field only for hyperbolic tapers', async () => {
+    const wrapper = mountGenerator()
+    expect(wrapper.find('#gen-ed50').exists()).toBe(false)
+
+    await wrapper.find('#gen-rule').setValue('hyperbolic')
+    expect(wrapper.find('#gen-ed50').exists()).toBe(true)
+    expect(wrapper.find('label[for="gen-reduction"]').text()).toContain('occupancy points')
+  })
+
+  it('shows errors and disables apply for invalid options', async () => {
+    const wrapper = mountGenerator({ initialDose: 40 })
+    await wrapper.find('#gen-target-dose').setValue(50)
+
+    expect(wrapper.find('.generator-errors').text()).toContain(
+      'Target dose must be lower than the start dose',
+    )
+    expect(wrapper.find('.apply-steps-btn').attributes('disabled')).toBeDefined()
+    await wrapper.find('.apply-steps-btn').trigger('click')
+    expect(wrapper.emitted('apply')).toBeUndefined()
+  })
+})
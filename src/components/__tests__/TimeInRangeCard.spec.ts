@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import TimeInRangeCard from '../TimeInRangeCard.vue'
+import type { TimeInRangeStats } from '@/core/models/therapeuticWindow'
+
+const absoluteStats: TimeInRangeStats = {
+  prescriptionId: 'rx-1',
+  prescriptionName: 'Vancomycin',
+  unit: 'mg/L',
+  window: { min: 10, max: 20 },
+  percentBelow: 12.5,
+  percentWithin: 80,
+  percentAbove: 7.5,
+}
+
+const relativeStats: TimeInRangeStats = {
+  prescriptionId: 'rx-2',
+  prescriptionName: 'Ibuprofen',
+  unit: 'relative',
+  window: { min: 0.4 },
+  percentBelow: 55,
+  percentWithin: 45,
+  percentAbove: 0,
+}
+
+describe('TimeInRangeCard', () => {
+  it('renders a region with an accessible label', () => {
+    const wrapper = mount(TimeInRangeCard, { props: { stats: [absoluteStats] } })
+    expect(wrapper.find('[role="region"]').attributes('aria-label')).toBe('Therapeutic window time in range')
+  })
+
+  it('shows the window bounds and percentages', () => {
+    const wrapper = mount(TimeInRangeCard, { props: { stats: [absoluteStats] } })
+    expect(wrapper.find('.range-bounds').text()).toBe('10 mg/L to 20 mg/L')
+    expect(wrapper.findAll('dd').map((dd) => dd.text())).toEqual(['12.5%', '80.0%', '7.5%'])
+  })
+
+  it('shows relative bounds as a share of the peak and a dash for a missing bound', () => {
+    const wrapper = mount(TimeInRangeCard, { props: { stats: [relativeStats] } })
+    expect(wrapper.find('.range-bounds').text()).toBe('40% of peak to —')
+  })
+
+  it('sizes the bar segments by percentage', () => {
+    const wrapper = mount(TimeInRangeCard, { props: { stats: [absoluteStats] } })
+    expect(wrapper.find('.segment-within').attributes('style')).toContain('width: 80%')
+    expect(wrapper.find('.range-bar').attributes('aria-label')).toContain('80.0% within')
+  })
+
+  it('shows an empty message without stats', () => {
+    const wrapper = mount(TimeInRangeCard, { props: { stats: [] } })
+    expect(wrapper.find('.empty-message').exists()).toBe(true)
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import type { DoseLogEntry } from '../../models/doseLog'
+import type { Prescription } from '../../models/prescription'
+import { getDoseLogOrigin, doseLogToEvents, accumulateLoggedDoses, getDoseLogGraphData } from '../doseLog'
+import { accumulateDoses, accumulateDoseEvents } from '../multiDose'
+import { BID_MULTI_DOSE_FIXTURE } from '../../models/__tests__/fixtures'
+
+/** ISO timestamp for a local date/time in January 2026 */
+function local(day: number, hours: number, minutes: number = 0): string {
+  return new Date(2026, 0, day, hours, minutes).toISOString()
+}
+
+function entry(takenAt: string, dose: number = 100, prescriptionId: string = 'rx-1'): DoseLogEntry {
+  return { prescriptionId, takenAt, dose }
+}
+
+const rx: Prescription = { ...BID_MULTI_DOSE_FIXTURE, id: 'rx-1' }
+
+describe('getDoseLogOrigin', () => {
+  it('returns local midnight of the earliest logged dose', () => {
+    const origin = getDoseLogOrigin([entry(local(6, 21)), entry(local(5, 9, 30))])
+    expect(origin).toBe(new Date(2026, 0, 5).getTime())
+  })
+
+  it('returns null without valid timestamps', () => {
+    expect(getDoseLogOrigin([])).toBeNull()
+    expect(getDoseLogOrigin([entry('not a date')])).toBeNull()
+  })
+})
+
+describe('doseLogToEvents', () => {
+  it('places doses in hours from the origin, sorted by time', () => {
+    const origin = new Date(2026, 0, 5).getTime()
+    const events = doseLogToEvents([entry(local(6, 9), 50), entry(local(5, 9, 30), 100)], origin)
+    expect(events).toEqual([
+      { time: 9.5, dose: 100 },
+      { time: 33, dose: 50 },
+    ])
+  })
+
+  it('skips entries with an invalid timestamp', () => {
+    expect(doseLogToEvents([entry('bad')], 0)).toEqual([])
+  })
+})
+
+describe('accumulateDoseEvents', () => {
+  it('matches accumulateDoses for the prescription grid', () => {
+    const events = [9, 21, 33, 45].map((time) => ({ time, dose: rx.dose }))
+    expect(accumulateDoseEvents(rx, events, 0, 48, 15)).toEqual(accumulateDoses(rx, 0, 48, 15))
+  })
+
+  it('reflects the logged amounts', () => {
+    const withVd = { ...rx, volumeOfDistribution: 40 }
+    const full = accumulateDoseEvents(withVd, [{ time: 9, dose: 100 }, { time: 21, dose: 100 }], 0, 48, 15, 'absolute')
+    const half = accumulateDoseEvents(withVd, [{ time: 9, dose: 100 }, { time: 21, dose: 50 }], 0, 48, 15, 'absolute')
+    const at = (points: { time: number; concentration: number }[], t: number) =>
+      points.find((p) => p.time === t)!.concentration
+    expect(at(half, 12)).toBeCloseTo(at(full, 12), 10)
+    expect(at(half, 24)).toBeLessThan(at(full, 24))
+  })
+})
+
+describe('accumulateLoggedDoses', () => {
+  it('simulates the logged doses on the dose log axis', () => {
+    const entries = [entry(local(5, 9)), entry(local(5, 23))]
+    const origin = getDoseLogOrigin(entries)!
+    const points = accumulateLoggedDoses(rx, entries, origin, 0, 48)
+    expect(points.find((p) => p.time === 9)!.concentration).toBe(0)
+    expect(points.find((p) => p.time === 22)!.concentration).toBeGreaterThan(0)
+    expect(Math.max(...points.map((p) => p.concentration))).toBeCloseTo(1, 10)
+  })
+})
+
+describe('getDoseLogGraphData', () => {
+  const entries = { 'rx-1': [entry(local(5, 9)), entry(local(5, 21))] }
+  const origin = new Date(2026, 0, 5).getTime()
+
+  it('returns one dataset per prescription with logged doses', () => {
+    const datasets = getDoseLogGraphData([rx, { ...rx, id: 'rx-2', name: 'Other' }], entries, origin, 0, 48)
+    expect(datasets).toHaveLength(1)
+    expect(datasets[0]!.label).toBe(`${rx.name} (dose log)`)
+    expect(datasets[0]!.doseTimes).toEqual([9, 21])
+  })
+
+  it('skips prescriptions without a volume of distribution in absolute mode', () => {
+    expect(getDoseLogGraphData([rx], entries, origin, 0, 48, 'absolute')).toEqual([])
+    const withVd = getDoseLogGraphData([{ ...rx, volumeOfDistribution: 40 }], entries, origin, 0, 48, 'absolute')
+    expect(Math.max(...withVd[0]!.data.map((p) => p.concentration))).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,211 @@
+import { describe, it, expect } from 'vitest'
+import type { TimeSeriesPoint } from '../../models/prescription'
+import {
+  calculateAuc,
+  calculateIntervalAucs,
+  estimateTerminalRate,
+  calculateAucToInfinity,
+  calculateTimeAboveThreshold,
+  calculateExposureStats,
+} from '../exposure'
+import { accumulateDoses, getPrescriptionDoseTimes } from '../multiDose'
+import { accumulateScheduleDoses, expandScheduleDoses } from '../scheduleCalculator'
+import { BID_MULTI_DOSE_FIXTURE, SINGLE_DOSE_FIXTURE } from '../../models/__tests__/fixtures'
+import type { DosageSchedule } from '../../models/dosageSchedule'
+
+/** Sample f(t) every `step` hours over [0, end] */
+function sample(f: (t: number) => number, end: number, step: number = 0.25): TimeSeriesPoint[] {
+  const points: TimeSeriesPoint[] = []
+  for (let i = 0; i * step <= end + 1e-9; i++) {
+    points.push({ time: i * step, concentration: f(i * step) })
+  }
+  return points
+}
+
+describe('calculateAuc', () => {
+  it('is exact for piecewise-linear curves', () => {
+    const triangle: TimeSeriesPoint[] = [
+      { time: 0, concentration: 0 },
+      { time: 2, concentration: 1 },
+      { time: 4, concentration: 0 },
+    ]
+    expect(calculateAuc(triangle)).toBeCloseTo(2, 10)
+  })
+
+  it('interpolates partial segments at window boundaries', () => {
+    const ramp: TimeSeriesPoint[] = [
+      { time: 0, concentration: 0 },
+      { time: 4, concentration: 4 },
+    ]
+    // ∫₁³ t dt = 4
+    expect(calculateAuc(ramp, 1, 3)).toBeCloseTo(4, 10)
+  })
+
+  it('clips the window to the sampled range', () => {
+    const flat = sample(() => 2, 10)
+    expect(calculateAuc(flat, -5, 50)).toBeCloseTo(20, 10)
+  })
+
+  it('returns 0 for fewer than two points or an empty window', () => {
+    expect(calculateAuc([])).toBe(0)
+    expect(calculateAuc([{ time: 0, concentration: 1 }])).toBe(0)
+    expect(calculateAuc(sample(() => 1, 10), 5, 5)).toBe(0)
+  })
+
+  it('approximates the analytic AUC of an exponential decay', () => {
+    const ke = Math.LN2 / 6
+    const decay = sample((t) => Math.exp(-ke * t), 48)
+    const exact = (1 - Math.exp(-ke * 48)) / ke
+    expect(calculateAuc(decay)).toBeCloseTo(exact, 2)
+  })
+})
+
+describe('calculateIntervalAucs', () => {
+  it('splits the curve at dose times with the last interval running to the end', () => {
+    const flat = sample(() => 1, 30)
+    const intervals = calculateIntervalAucs(flat, [0, 12, 24])
+    expect(intervals).toHaveLength(3)
+    expect(intervals[0]).toMatchObject({ start: 0, end: 12 })
+    expect(intervals[0]!.auc).toBeCloseTo(12, 10)
+    expect(intervals[2]).toMatchObject({ start: 24, end: 30 })
+    expect(intervals[2]!.auc).toBeCloseTo(6, 10)
+  })
+
+  it('ignores duplicate and out-of-range dose times', () => {
+    const flat = sample(() => 1, 24)
+    const intervals = calculateIntervalAucs(flat, [-12, 12, 0, 12, 24, 36])
+    expect(intervals.map((i) => i.start)).toEqual([0, 12])
+  })
+
+  it('sums to the total AUC when the first dose is at the start of the curve', () => {
+    const points = accumulateDoses(BID_MULTI_DOSE_FIXTURE, 9, 72)
+    const doseTimes = getPrescriptionDoseTimes(BID_MULTI_DOSE_FIXTURE, 9, 72)
+    const total = calculateIntervalAucs(points, doseTimes).reduce((sum, i) => sum + i.auc, 0)
+    expect(total).toBeCloseTo(calculateAuc(points), 8)
+  })
+})
+
+describe('estimateTerminalRate', () => {
+  it('recovers the elimination rate of a monoexponential decline', () => {
+    const ke = Math.LN2 / 6
+    expect(estimateTerminalRate(sample((t) => Math.exp(-ke * t), 48))).toBeCloseTo(ke, 6)
+  })
+
+  it('fits the decline after the last dose of a multi-dose curve', () => {
+    const rx = { ...BID_MULTI_DOSE_FIXTURE, duration: 2, durationUnit: 'days' as const }
+    const points = accumulateDoses(rx, 0, 120)
+    const lastDose = Math.max(...getPrescriptionDoseTimes(rx, 0, 120))
+    expect(estimateTerminalRate(points, lastDose)).toBeCloseTo(Math.LN2 / rx.halfLife, 3)
+  })
+
+  it('returns null for rising, flat or too-short curves', () => {
+    expect(estimateTerminalRate(sample((t) => t, 10))).toBeNull()
+    expect(estimateTerminalRate(sample(() => 1, 10))).toBeNull()
+    expect(estimateTerminalRate([{ time: 0, concentration: 1 }, { time: 1, concentration: 0.5 }])).toBeNull()
+    expect(estimateTerminalRate([])).toBeNull()
+  })
+})
+
+describe('calculateAucToInfinity', () => {
+  it('adds C_last / λz to the observed AUC', () => {
+    const ke = Math.LN2 / 6
+    const decay = sample((t) => Math.exp(-ke * t), 12)
+    const expected = calculateAuc(decay) + decay[decay.length - 1]!.concentration / ke
+    expect(calculateAucToInfinity(decay, ke)).toBeCloseTo(expected, 10)
+    // Close to the analytic ∫₀^∞ e^(-ke·t) dt = 1 / ke
+    expect(calculateAucToInfinity(decay)!).toBeCloseTo(1 / ke, 1)
+  })
+
+  it('returns null when no terminal rate is available', () => {
+    expect(calculateAucToInfinity(sample((t) => t, 10))).toBeNull()
+    expect(calculateAucToInfinity(sample(() => 1, 10), 0)).toBeNull()
+    expect(calculateAucToInfinity([])).toBeNull()
+  })
+})
+
+describe('calculateTimeAboveThreshold', () => {
+  it('interpolates threshold crossings between samples', () => {
+    const triangle: TimeSeriesPoint[] = [
+      { time: 0, concentration: 0 },
+      { time: 2, concentration: 1 },
+      { time: 4, concentration: 0 },
+    ]
+    // Above 0.5 from t = 1 to t = 3
+    expect(calculateTimeAboveThreshold(triangle, 0.5)).toBeCloseTo(2, 10)
+  })
+
+  it('counts every excursion above the threshold', () => {
+    const points = accumulateDoses(BID_MULTI_DOSE_FIXTURE, 0, 48)
+    const above = calculateTimeAboveThreshold(points, 0.5)
+    expect(above).toBeGreaterThan(0)
+    expect(above).toBeLessThan(48)
+    expect(calculateTimeAboveThreshold(points, 0)).toBeGreaterThan(above)
+  })
+
+  it('returns 0 when the threshold is never exceeded', () => {
+    expect(calculateTimeAboveThreshold(sample(() => 1, 10), 1)).toBe(0)
+    expect(calculateTimeAboveThreshold([], 0)).toBe(0)
+  })
+})
+
+describe('calculateExposureStats', () => {
+  it('combines AUC, interval AUCs, extrapolation and time above threshold', () => {
+    const rx = { ...SINGLE_DOSE_FIXTURE, duration: 1, durationUnit: 'days' as const }
+    const points = accumulateDoses(rx, 0, 72)
+    const doseTimes = getPrescriptionDoseTimes(rx, 0, 72)
+    const stats = calculateExposureStats('Test Drug A', points, { unit: 'relative', doseTimes, threshold: 0.5 })
+
+    expect(stats.label).toBe('Test Drug A')
+    expect(stats.unit).toBe('relative')
+    expect(stats.threshold).toBe(0.5)
+    expect(stats.aucLast).toBeCloseTo(calculateAuc(points), 10)
+    expect(stats.aucIntervals).toHaveLength(1)
+    expect(stats.aucInfinity!).toBeGreaterThan(stats.aucLast)
+    expect(stats.extrapolatedPercent!).toBeLessThan(1)
+    expect(stats.timeAboveThreshold).toBeCloseTo(calculateTimeAboveThreshold(points, 0.5), 10)
+  })
+
+  it('uses a supplied elimination rate instead of fitting one', () => {
+    const points = sample((t) => Math.exp(-0.1 * t), 10)
+    const stats = calculateExposureStats('Decay', points, {
+      unit: 'mg/L',
+      doseTimes: [0],
+      threshold: 0.5,
+      eliminationRate: 0.2,
+    })
+    expect(stats.aucInfinity).toBeCloseTo(calculateAuc(points) + points[points.length - 1]!.concentration / 0.2, 10)
+  })
+
+  it('reports null extrapolation when the curve has not started declining', () => {
+    const stats = calculateExposureStats('Rising', sample((t) => t, 10), {
+      unit: 'relative',
+      doseTimes: [0],
+      threshold: 5,
+    })
+    expect(stats.aucInfinity).toBeNull()
+    expect(stats.extrapolatedPercent).toBeNull()
+    expect(stats.timeAboveThreshold).toBeCloseTo(5, 10)
+  })
+
+  it('works on schedule curves', () => {
+    const schedule: DosageSchedule = {
+      id: 'sched-1',
+      name: 'Taper',
+      direction: 'taper',
+      basePrescription: BID_MULTI_DOSE_FIXTURE,
+      steps: [
+        { stepNumber: 1, dose: 100, durationDays: 2, startDay: 0 },
+        { stepNumber: 2, dose: 50, durationDays: 2, startDay: 2 },
+      ],
+      totalDuration: 4,
+    }
+    const points = accumulateScheduleDoses(schedule, 0, 4 * 24 + 48)
+    const doseTimes = expandScheduleDoses(schedule).map((e) => e.time)
+    const stats = calculateExposureStats(schedule.name, points, { unit: 'relative', doseTimes, threshold: 0.5 })
+
+    expect(stats.aucIntervals).toHaveLength(8)
+    // Lower-dose step has less exposure per interval than the first full-dose step at steady state
+    expect(stats.aucIntervals[6]!.auc).toBeLessThan(stats.aucIntervals[3]!.auc)
+    expect(stats.aucInfinity).not.toBeNull()
+  })
+})
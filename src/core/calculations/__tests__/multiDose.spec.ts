@@ -1,7 +1,28 @@
 import { describe, it, expect } from 'vitest'
 import type { Prescription } from '../../models/prescription'
-import { accumulateDoses, accumulateMetaboliteDoses, getGraphData, getLastDoseTime, calculateTailOffDuration } from '../multiDose'
-import { SINGLE_DOSE_FIXTURE, BID_MULTI_DOSE_FIXTURE, IBUPROFEN_FIXTURE, METABOLITE_STANDARD_FIXTURE } from '../../models/__tests__/fixtures'
+import {
+  accumulateDoses,
+  accumulateMetaboliteDoses,
+  accumulateMetaboliteDoseEvents,
+  getGraphData,
+  getLastDoseTime,
+  calculateTailOffDuration,
+  canUseAbsoluteMode,
+  getPrescriptionDoseTimes,
+  getPrescriptionDoseEvents,
+  applyDoseDeviations,
+  hasDoseDeviations,
+  getScheduledDoseAmount,
+  isLoadingDoseIndex,
+  getTimeOfDayDose,
+  expandDoseTimes,
+  getDosingCycleDays,
+  getDosingDayOffsets,
+  getCycleOffPeriods,
+  getScheduledDoseTimes,
+  getStartOffsetHours,
+} from '../multiDose'
+import { SINGLE_DOSE_FIXTURE, BID_MULTI_DOSE_FIXTURE, IBUPROFEN_FIXTURE, METABOLITE_STANDARD_FIXTURE, TWO_COMPARTMENT_FIXTURE } from '../../models/__tests__/fixtures'
 
 describe('accumulateDoses - Multi-dose Accumulation', () => {
   describe('Phase 1: Single dose (once daily)', () => {
@@ -220,6 +241,241 @@ describe('accumulateDoses - Multi-dose Accumulation', () => {
       expect(metaboliteDataset.data[0]).toHaveProperty('concentration')
       expect(metaboliteDataset.data[0]!.concentration).toBeGreaterThanOrEqual(0)
     })
+
+    it('attaches the parent dose times to parent and metabolite datasets', () => {
+      const rx = { ...METABOLITE_STANDARD_FIXTURE, duration: 1, durationUnit: 'days' as const }
+      const result = getGraphData([rx], 0, 48)
+      expect(result[0]!.doseTimes).toEqual([9, 21])
+      expect(result[1]!.doseTimes).toEqual([9, 21])
+    })
+  })
+
+  describe('getGraphData therapeutic window', () => {
+    it('omits the window when no thresholds are set', () => {
+      expect(getGraphData([BID_MULTI_DOSE_FIXTURE], 0, 48)[0]!.therapeuticWindow).toBeUndefined()
+    })
+
+    it('passes relative thresholds through on the normalized graph', () => {
+      const rx = { ...METABOLITE_STANDARD_FIXTURE, minEffectiveConcentration: 0.3, toxicConcentration: 0.9 }
+      const result = getGraphData([rx], 0, 48)
+      expect(result[0]!.therapeuticWindow).toEqual({ min: 0.3, max: 0.9 })
+      expect(result[1]!.therapeuticWindow).toBeUndefined()
+    })
+
+    it('keeps mg/L thresholds in absolute mode', () => {
+      const rx = { ...BID_MULTI_DOSE_FIXTURE, volumeOfDistribution: 50, minEffectiveConcentration: 2 }
+      expect(getGraphData([rx], 0, 48, 'absolute')[0]!.therapeuticWindow).toEqual({ min: 2 })
+    })
+
+    it('scales mg/L thresholds by the mg/L peak on the normalized graph', () => {
+      const rx = { ...BID_MULTI_DOSE_FIXTURE, volumeOfDistribution: 50, toxicConcentration: 5 }
+      const absolutePeak = Math.max(...accumulateDoses(rx, 0, 48, 15, 'absolute').map((p) => p.concentration))
+      const window = getGraphData([rx], 0, 48)[0]!.therapeuticWindow!
+      expect(window.max).toBeCloseTo(5 / absolutePeak, 10)
+    })
+  })
+
+  describe('getPrescriptionDoseTimes', () => {
+    it('expands daily times across the window', () => {
+      expect(getPrescriptionDoseTimes(BID_MULTI_DOSE_FIXTURE, 0, 36)).toEqual([9, 21, 33])
+    })
+
+    it('stops dosing at the prescription duration', () => {
+      const rx = { ...BID_MULTI_DOSE_FIXTURE, duration: 18, durationUnit: 'hours' as const }
+      expect(getPrescriptionDoseTimes(rx, 0, 72)).toEqual([9])
+    })
+  })
+
+  describe('interval and weekday frequencies', () => {
+    it('doses every day without a frequency pattern', () => {
+      expect(expandDoseTimes(['09:00'], 3)).toEqual([9, 33, 57])
+    })
+
+    it('doses every other day for qod', () => {
+      expect(expandDoseTimes(['09:00'], 6, { frequency: 'qod' })).toEqual([9, 57, 105])
+    })
+
+    it('doses once a week for weekly', () => {
+      expect(expandDoseTimes(['09:00'], 15, { frequency: 'weekly' })).toEqual([9, 177, 345])
+    })
+
+    it('doses every N days, including each time on a dosing day', () => {
+      expect(expandDoseTimes(['08:00', '20:00'], 7, { frequency: 'every-n-days', dayInterval: 3 })).toEqual([
+        8, 20, 80, 92, 152, 164,
+      ])
+    })
+
+    it('starts day-of-week cycles on the first listed weekday', () => {
+      // Monday and Thursday: day 0 is Monday, so doses fall on days 0, 3, 7 and 10
+      expect(getDosingDayOffsets({ frequency: 'days-of-week', daysOfWeek: [1, 4] })).toEqual([0, 3])
+      expect(expandDoseTimes(['09:00'], 11, { frequency: 'days-of-week', daysOfWeek: [1, 4] })).toEqual([
+        9, 81, 177, 249,
+      ])
+      // Saturday then Monday wraps into the next week
+      expect(getDosingDayOffsets({ frequency: 'days-of-week', daysOfWeek: [6, 1] })).toEqual([0, 2])
+    })
+
+    it('reports the dosing cycle length', () => {
+      expect(getDosingCycleDays({ frequency: 'bid' })).toBe(1)
+      expect(getDosingCycleDays({ frequency: 'qod' })).toBe(2)
+      expect(getDosingCycleDays({ frequency: 'weekly' })).toBe(7)
+      expect(getDosingCycleDays({ frequency: 'every-n-days', dayInterval: 14 })).toBe(14)
+      expect(getDosingCycleDays({ frequency: 'every-n-days' })).toBe(1)
+      expect(getDosingCycleDays({ frequency: 'days-of-week', daysOfWeek: [1] })).toBe(7)
+    })
+
+    it('applies the pattern to prescription dose times and the last dose time', () => {
+      const weekly: Prescription = { ...SINGLE_DOSE_FIXTURE, frequency: 'weekly' }
+      expect(getPrescriptionDoseTimes(weekly, 0, 400)).toEqual([9, 177, 345])
+      expect(getLastDoseTime(weekly, 10)).toBe(177)
+    })
+
+    it('lets the curve decay between weekly doses', () => {
+      const weekly: Prescription = { ...SINGLE_DOSE_FIXTURE, frequency: 'weekly', halfLife: 12 }
+      const curve = accumulateDoses(weekly, 0, 336, 60)
+      const at = (hours: number) => curve.reduce((a, b) => (Math.abs(b.time - hours) < Math.abs(a.time - hours) ? b : a))
+      expect(at(160).concentration).toBeLessThan(0.001)
+      expect(at(180).concentration).toBeGreaterThan(0.5)
+    })
+  })
+
+  describe('start offsets', () => {
+    const delayed: Prescription = { ...SINGLE_DOSE_FIXTURE, startOffset: 3, startOffsetUnit: 'days' }
+
+    it('converts the offset to hours', () => {
+      expect(getStartOffsetHours(delayed)).toBe(72)
+      expect(getStartOffsetHours({ ...delayed, startOffset: 6, startOffsetUnit: 'hours' })).toBe(6)
+      expect(getStartOffsetHours(SINGLE_DOSE_FIXTURE)).toBe(0)
+      expect(getStartOffsetHours({ ...delayed, frequency: 'prn' })).toBe(0)
+    })
+
+    it('delays every dose, counting the duration from the offset start', () => {
+      expect(getPrescriptionDoseTimes(delayed, 0, 144)).toEqual([81, 105, 129])
+      expect(getPrescriptionDoseTimes({ ...delayed, duration: 2, durationUnit: 'days' }, 0, 144)).toEqual([81, 105])
+      expect(getLastDoseTime({ ...delayed, duration: 2, durationUnit: 'days' }, 2)).toBe(105)
+    })
+
+    it('keeps the curve at zero before the delayed start', () => {
+      const [dataset] = getGraphData([SINGLE_DOSE_FIXTURE, delayed], 0, 120).slice(1)
+      expect(dataset!.data.filter((p) => p.time <= 81).every((p) => p.concentration === 0)).toBe(true)
+      expect(dataset!.data.find((p) => p.time === 84)!.concentration).toBeGreaterThan(0)
+    })
+
+    it('keeps per-time doses with an offset in hours', () => {
+      const rx: Prescription = {
+        ...BID_MULTI_DOSE_FIXTURE,
+        times: ['09:00', '21:00'],
+        timeDoses: [50, 25],
+        startOffset: 5,
+        startOffsetUnit: 'hours',
+      }
+      expect(getTimeOfDayDose(rx, 14)).toBe(50)
+      expect(getTimeOfDayDose(rx, 26)).toBe(25)
+      expect(getPrescriptionDoseEvents(rx, 0, 48).map((e) => e.dose)).toEqual([50, 25, 50])
+    })
+
+    it('extends the graph to the end of a delayed course', () => {
+      const course = { ...delayed, startOffset: 2, duration: 3, durationUnit: 'days' as const }
+      const [dataset] = getGraphData([course], 0, 72)
+      expect(dataset!.data[dataset!.data.length - 1]!.time).toBe(120)
+      expect(getPrescriptionDoseTimes(course, 0, 72)).toEqual([57, 81, 105])
+    })
+
+    it('shifts on/off cycles with the offset', () => {
+      const cyclic = { ...delayed, startOffset: 1, cycle: { daysOn: 2, daysOff: 1, cycles: 1 } }
+      expect(getCycleOffPeriods(cyclic, 0, 200)).toEqual([{ start: 72, end: 96 }])
+    })
+
+    it('aligns weekday dosing with the weekday the prescription starts', () => {
+      // 2026-01-05 is a Monday; three days later is Thursday
+      const rx = { ...delayed, frequency: 'days-of-week' as const, daysOfWeek: [1, 4], startDate: '2026-01-05' }
+      expect(getDosingDayOffsets(rx)).toEqual([0, 4])
+    })
+  })
+
+  describe('start date anchoring', () => {
+    it('aligns weekday dosing with the weekday of the start date', () => {
+      const rx = { ...SINGLE_DOSE_FIXTURE, frequency: 'days-of-week' as const, daysOfWeek: [1, 4] }
+      // 2026-01-07 is a Wednesday: Thursday is day 1 and Monday is day 5
+      expect(getDosingDayOffsets({ ...rx, startDate: '2026-01-07' })).toEqual([1, 5])
+      expect(expandDoseTimes(['09:00'], 7, { ...rx, startDate: '2026-01-07' })).toEqual([33, 129])
+      expect(getDosingDayOffsets(rx)).toEqual([0, 3])
+    })
+  })
+
+  describe('on/off cycles', () => {
+    const cyclic: Prescription = { ...SINGLE_DOSE_FIXTURE, cycle: { daysOn: 3, daysOff: 2 } }
+
+    it('skips the off days of each cycle', () => {
+      expect(expandDoseTimes(['09:00'], 10, cyclic)).toEqual([9, 33, 57, 129, 153, 177])
+    })
+
+    it('stops dosing after the last cycle', () => {
+      const limited = { ...cyclic, cycle: { daysOn: 3, daysOff: 2, cycles: 1 } }
+      expect(getPrescriptionDoseTimes(limited, 0, 240)).toEqual([9, 33, 57])
+    })
+
+    it('combines the cycle with interval frequencies', () => {
+      const rx = { ...cyclic, frequency: 'qod' as const, cycle: { daysOn: 4, daysOff: 4 } }
+      expect(expandDoseTimes(['09:00'], 12, rx)).toEqual([9, 57, 201, 249])
+    })
+
+    it('reports off periods clipped to the window', () => {
+      expect(getCycleOffPeriods(cyclic, 0, 200)).toEqual([
+        { start: 72, end: 120 },
+        { start: 192, end: 200 },
+      ])
+      expect(getCycleOffPeriods(cyclic, 96, 200)).toEqual([
+        { start: 96, end: 120 },
+        { start: 192, end: 200 },
+      ])
+    })
+
+    it('reports no off periods after the last cycle or past the duration', () => {
+      expect(getCycleOffPeriods({ ...cyclic, cycle: { daysOn: 3, daysOff: 2, cycles: 1 } }, 0, 500)).toEqual([
+        { start: 72, end: 120 },
+      ])
+      expect(getCycleOffPeriods({ ...cyclic, duration: 4, durationUnit: 'days' }, 0, 500)).toEqual([
+        { start: 72, end: 96 },
+      ])
+      expect(getCycleOffPeriods(SINGLE_DOSE_FIXTURE, 0, 500)).toEqual([])
+    })
+
+    it('attaches off periods to parent graph datasets', () => {
+      const [parent] = getGraphData([cyclic], 0, 120)
+      expect(parent!.offPeriods).toEqual([{ start: 72, end: 120 }])
+      expect(getGraphData([SINGLE_DOSE_FIXTURE], 0, 120)[0]!.offPeriods).toBeUndefined()
+    })
+  })
+
+  describe('as-needed (PRN) dosing', () => {
+    const prn: Prescription = {
+      ...SINGLE_DOSE_FIXTURE,
+      frequency: 'prn',
+      times: [],
+      minDoseInterval: 4,
+      maxDailyDose: 2000,
+      prnDoseTimes: [30, 8.5, 14],
+    }
+
+    it('doses only at the placed times, in order', () => {
+      expect(getScheduledDoseTimes(prn, 2)).toEqual([8.5, 14, 30])
+      expect(getScheduledDoseTimes(prn, 1)).toEqual([8.5, 14])
+    })
+
+    it('uses the last placed dose as the last dose time', () => {
+      expect(getLastDoseTime(prn, 3)).toBe(30)
+      expect(getLastDoseTime({ ...prn, prnDoseTimes: undefined }, 3)).toBe(0)
+    })
+
+    it('graphs a flat line until a dose is placed', () => {
+      const [empty] = getGraphData([{ ...prn, prnDoseTimes: [] }], 0, 48)
+      expect(empty!.data.every((p) => p.concentration === 0)).toBe(true)
+
+      const [placed] = getGraphData([prn], 0, 48)
+      expect(placed!.data.find((p) => p.time === 8)!.concentration).toBe(0)
+      expect(Math.max(...placed!.data.map((p) => p.concentration))).toBeGreaterThan(0)
+    })
   })
 
   describe('Phase 5: Get Last Dose Time - getLastDoseTime', () => {
@@ -319,6 +575,20 @@ describe('accumulateDoses - Multi-dose Accumulation', () => {
     })
   })
 
+  describe('accumulateMetaboliteDoseEvents', () => {
+    it('matches accumulateMetaboliteDoses for the prescription\'s own dose events', () => {
+      const rx = { ...METABOLITE_STANDARD_FIXTURE, relativeMetaboliteLevel: 0.6 }
+      const expected = accumulateMetaboliteDoses(rx, 0, 48)
+      const result = accumulateMetaboliteDoseEvents(rx, getPrescriptionDoseEvents(rx, 0, 48), 0, 48)
+      expect(result).toHaveLength(expected.length)
+      result.forEach((p, i) => expect(p.concentration).toBeCloseTo(expected[i]!.concentration, 10))
+    })
+
+    it('returns empty array without metabolite parameters', () => {
+      expect(accumulateMetaboliteDoseEvents(BID_MULTI_DOSE_FIXTURE, [{ time: 0, dose: 100 }], 0, 24)).toEqual([])
+    })
+  })
+
   describe('Phase 5b: Metabolite Accumulation - accumulateMetaboliteDoses', () => {
     it('returns empty array when metaboliteLife is missing', () => {
       const rx = { ...BID_MULTI_DOSE_FIXTURE, metaboliteLife: undefined, relativeMetaboliteLevel: 0.8 }
@@ -650,4 +920,354 @@ describe('accumulateDoses - Multi-dose Accumulation', () => {
       expect(shortLastTime).toBeLessThanOrEqual(48) // truncated at ~48h
     })
   })
+
+  describe('two-compartment model', () => {
+    it('accumulateDoses normalizes a two-compartment curve to peak = 1.0', () => {
+      const result = accumulateDoses(TWO_COMPARTMENT_FIXTURE, 0, 72, 15)
+      const peak = Math.max(...result.map((p) => p.concentration))
+      expect(peak).toBeCloseTo(1.0, 5)
+    })
+
+    it('two-compartment trough is lower relative to peak than one-compartment', () => {
+      const oneCpt = { ...TWO_COMPARTMENT_FIXTURE, compartmentModel: undefined }
+      const twoResult = accumulateDoses(TWO_COMPARTMENT_FIXTURE, 0, 48, 15)
+      const oneResult = accumulateDoses(oneCpt, 0, 48, 15)
+      // Concentration just before the 21:00 dose (t=20.75h)
+      const twoTrough = twoResult.find((p) => p.time === 20.75)!.concentration
+      const oneTrough = oneResult.find((p) => p.time === 20.75)!.concentration
+      expect(twoTrough).toBeLessThan(oneTrough)
+    })
+
+    it('getGraphData produces a dataset for a two-compartment prescription', () => {
+      const datasets = getGraphData([TWO_COMPARTMENT_FIXTURE], 0, 48)
+      expect(datasets).toHaveLength(1)
+      expect(datasets[0]!.data).toEqual(accumulateDoses(TWO_COMPARTMENT_FIXTURE, 0, 48))
+    })
+  })
+
+  describe('intravenous routes', () => {
+    it('iv-bolus curve jumps to its maximum at the dose time', () => {
+      const rx: Prescription = { ...SINGLE_DOSE_FIXTURE, route: 'iv-bolus' }
+      const result = accumulateDoses(rx, 0, 24, 15)
+      const atDose = result.find((p) => p.time === 9)!
+      expect(atDose.concentration).toBeCloseTo(1.0, 5)
+      expect(result.find((p) => p.time === 8.75)!.concentration).toBe(0)
+    })
+
+    it('iv-infusion curve peaks at the end of the infusion', () => {
+      const rx: Prescription = { ...SINGLE_DOSE_FIXTURE, route: 'iv-infusion', infusionDuration: 2 }
+      const result = accumulateDoses(rx, 0, 24, 15)
+      const peakPoint = result.reduce((max, p) => (p.concentration > max.concentration ? p : max))
+      expect(peakPoint.time).toBe(11)
+    })
+
+    it('iv-bolus accumulates across repeated doses', () => {
+      const rx: Prescription = { ...BID_MULTI_DOSE_FIXTURE, route: 'iv-bolus' }
+      const result = accumulateDoses(rx, 0, 48, 15)
+      const firstDose = result.find((p) => p.time === 9)!.concentration
+      const secondDose = result.find((p) => p.time === 21)!.concentration
+      expect(secondDose).toBeGreaterThan(firstDose)
+    })
+  })
+
+  describe('absorption lag time', () => {
+    it('accumulateDoses delays the curve by lagTime', () => {
+      const lagged: Prescription = { ...SINGLE_DOSE_FIXTURE, lagTime: 3 }
+      const base = accumulateDoses(SINGLE_DOSE_FIXTURE, 0, 24, 15)
+      const shifted = accumulateDoses(lagged, 0, 24, 15)
+      // Dose at 09:00: nothing absorbed before 12:00 with a 3h lag
+      expect(shifted.find((p) => p.time === 11.75)!.concentration).toBe(0)
+      // Same shape, three hours later
+      expect(shifted.find((p) => p.time === 14)!.concentration).toBeCloseTo(
+        base.find((p) => p.time === 11)!.concentration,
+        5,
+      )
+    })
+
+    it('accumulateMetaboliteDoses delays the metabolite curve by lagTime', () => {
+      const lagged: Prescription = { ...METABOLITE_STANDARD_FIXTURE, lagTime: 2 }
+      const result = accumulateMetaboliteDoses(lagged, 0, 24, 15)
+      expect(result.find((p) => p.time === 10.75)!.concentration).toBe(0)
+      expect(result.find((p) => p.time === 12)!.concentration).toBeGreaterThan(0)
+    })
+  })
+
+  describe('absolute concentration mode', () => {
+    const withVd: Prescription = { ...SINGLE_DOSE_FIXTURE, volumeOfDistribution: 50 }
+
+    it('normalized mode ignores volumeOfDistribution', () => {
+      const result = accumulateDoses(withVd, 0, 24, 15)
+      expect(Math.max(...result.map((p) => p.concentration))).toBeCloseTo(1.0, 5)
+    })
+
+    it('iv-bolus peak equals dose / Vd in mg/L', () => {
+      const rx: Prescription = { ...withVd, route: 'iv-bolus' }
+      const result = accumulateDoses(rx, 0, 24, 15, 'absolute')
+      expect(result.find((p) => p.time === 9)!.concentration).toBeCloseTo(10, 5)
+    })
+
+    it('scales with bioavailability for oral doses', () => {
+      const full = accumulateDoses(withVd, 0, 24, 15, 'absolute')
+      const half = accumulateDoses({ ...withVd, bioavailability: 0.5 }, 0, 24, 15, 'absolute')
+      expect(half.find((p) => p.time === 11)!.concentration).toBeCloseTo(
+        full.find((p) => p.time === 11)!.concentration / 2,
+        8,
+      )
+    })
+
+    it('falls back to normalized output without volumeOfDistribution', () => {
+      const result = accumulateDoses(SINGLE_DOSE_FIXTURE, 0, 24, 15, 'absolute')
+      expect(Math.max(...result.map((p) => p.concentration))).toBeCloseTo(1.0, 5)
+    })
+
+    it('getGraphData skips prescriptions without volumeOfDistribution', () => {
+      const datasets = getGraphData([withVd, BID_MULTI_DOSE_FIXTURE], 0, 24, 'absolute')
+      expect(datasets).toHaveLength(1)
+      expect(datasets[0]!.label).toContain(withVd.name)
+    })
+
+    it('getGraphData scales metabolite curves to the parent peak', () => {
+      const rx: Prescription = { ...METABOLITE_STANDARD_FIXTURE, volumeOfDistribution: 50, relativeMetaboliteLevel: 0.5 }
+      const [parent, metabolite] = getGraphData([rx], 0, 48, 'absolute')
+      const parentPeak = Math.max(...parent!.data.map((p) => p.concentration))
+      const metabolitePeak = Math.max(...metabolite!.data.map((p) => p.concentration))
+      expect(parentPeak).toBeGreaterThan(1)
+      expect(metabolitePeak).toBeCloseTo(parentPeak * 0.5, 5)
+    })
+
+    it('canUseAbsoluteMode requires Vd on every prescription', () => {
+      expect(canUseAbsoluteMode([])).toBe(false)
+      expect(canUseAbsoluteMode([withVd])).toBe(true)
+      expect(canUseAbsoluteMode([withVd, BID_MULTI_DOSE_FIXTURE])).toBe(false)
+    })
+  })
+
+  describe('absorption models', () => {
+    it('zero-order curve peaks when release ends', () => {
+      const rx: Prescription = { ...SINGLE_DOSE_FIXTURE, absorptionModel: 'zero-order', releaseDuration: 6 }
+      const result = accumulateDoses(rx, 0, 24, 15)
+      const peakPoint = result.reduce((max, p) => (p.concentration > max.concentration ? p : max))
+      expect(peakPoint.time).toBe(15)
+    })
+
+    it('zero-order curve is flatter than first-order for repeated doses', () => {
+      const er: Prescription = { ...BID_MULTI_DOSE_FIXTURE, absorptionModel: 'zero-order', releaseDuration: 12 }
+      const trough = (points: { time: number; concentration: number }[]) =>
+        Math.min(...points.filter((p) => p.time >= 33 && p.time <= 45).map((p) => p.concentration))
+      expect(trough(accumulateDoses(er, 0, 48, 15))).toBeGreaterThan(trough(accumulateDoses(BID_MULTI_DOSE_FIXTURE, 0, 48, 15)))
+    })
+
+    it('metabolite formation follows zero-order release', () => {
+      // Single 09:00 dose (1-day duration) so the peak is not masked by the next dose
+      const single: Prescription = { ...METABOLITE_STANDARD_FIXTURE, times: ['09:00'], duration: 1, durationUnit: 'days' }
+      const base = accumulateMetaboliteDoses(single, 0, 48, 15)
+      const er = accumulateMetaboliteDoses({ ...single, absorptionModel: 'zero-order', releaseDuration: 8 }, 0, 48, 15)
+      const peakTime = (points: { time: number; concentration: number }[]) =>
+        points.reduce((max, p) => (p.concentration > max.concentration ? p : max)).time
+      expect(peakTime(er)).toBeGreaterThan(peakTime(base))
+    })
+  })
+
+  describe('Michaelis-Menten elimination', () => {
+    const saturable: Prescription = {
+      ...BID_MULTI_DOSE_FIXTURE,
+      dose: 150,
+      eliminationModel: 'michaelis-menten',
+      vmax: 20,
+      km: 4,
+      volumeOfDistribution: 50,
+    }
+
+    it('normalizes the numerically integrated curve to peak = 1.0', () => {
+      const result = accumulateDoses(saturable, 0, 48, 15)
+      expect(Math.max(...result.map((p) => p.concentration))).toBeCloseTo(1.0, 5)
+      expect(result.find((p) => p.time === 8.75)!.concentration).toBe(0)
+    })
+
+    it('reports mg/L in absolute mode and breaks dose proportionality', () => {
+      const low = accumulateDoses(saturable, 0, 96, 15, 'absolute')
+      const high = accumulateDoses({ ...saturable, dose: 300 }, 0, 96, 15, 'absolute')
+      const last = (points: { concentration: number }[]) => points[points.length - 1]!.concentration
+      expect(last(high)).toBeGreaterThan(2 * last(low))
+    })
+  })
+
+  describe('dose deviations', () => {
+    // BID at 09:00 / 21:00 over two days
+    const scheduled = [9, 21, 33, 45]
+
+    it('applyDoseDeviations skips, shifts and doubles matching doses', () => {
+      const events = applyDoseDeviations(scheduled, 100, [
+        { scheduledTime: 9, type: 'doubled' },
+        { scheduledTime: 21, type: 'skipped' },
+        { scheduledTime: 33, type: 'delayed', shiftHours: 3 },
+        { scheduledTime: 45, type: 'early', shiftHours: 1.5 },
+      ])
+      expect(events).toEqual([
+        { time: 9, dose: 200 },
+        { time: 36, dose: 100 },
+        { time: 43.5, dose: 100 },
+      ])
+    })
+
+    it('applyDoseDeviations keeps the regular grid without deviations and ignores unmatched ones', () => {
+      expect(applyDoseDeviations(scheduled, 50)).toEqual(scheduled.map((time) => ({ time, dose: 50 })))
+      expect(applyDoseDeviations(scheduled, 50, [{ scheduledTime: 10, type: 'skipped' }])).toHaveLength(4)
+    })
+
+    it('applyDoseDeviations re-sorts events when a late dose passes the next one', () => {
+      const events = applyDoseDeviations([9, 12], 100, [{ scheduledTime: 9, type: 'delayed', shiftHours: 4 }])
+      expect(events.map((e) => e.time)).toEqual([12, 13])
+    })
+
+    it('getPrescriptionDoseEvents applies the prescription deviations', () => {
+      const rx: Prescription = { ...BID_MULTI_DOSE_FIXTURE, doseDeviations: [{ scheduledTime: 21, type: 'skipped' }] }
+      expect(hasDoseDeviations(rx)).toBe(true)
+      expect(hasDoseDeviations({ ...rx, doseDeviations: [] })).toBe(false)
+      expect(getPrescriptionDoseEvents(rx, 0, 48).map((e) => e.time)).toEqual([9, 33, 45])
+    })
+
+    it('normalizes against the as-prescribed peak so a missed dose lowers the curve', () => {
+      const prescribed = accumulateDoses(BID_MULTI_DOSE_FIXTURE, 0, 48, 15)
+      const missed = accumulateDoses(
+        { ...BID_MULTI_DOSE_FIXTURE, doseDeviations: [{ scheduledTime: 33, type: 'skipped' }] },
+        0,
+        48,
+        15,
+      )
+      // Identical before the missed dose
+      expect(missed.find((p) => p.time === 30)!.concentration).toBeCloseTo(
+        prescribed.find((p) => p.time === 30)!.concentration,
+        10,
+      )
+      expect(missed.find((p) => p.time === 36)!.concentration).toBeLessThan(
+        prescribed.find((p) => p.time === 36)!.concentration,
+      )
+    })
+
+    it('lets a doubled dose rise above the as-prescribed peak', () => {
+      const doubled = accumulateDoses(
+        { ...BID_MULTI_DOSE_FIXTURE, doseDeviations: [{ scheduledTime: 33, type: 'doubled' }] },
+        0,
+        48,
+        15,
+      )
+      expect(Math.max(...doubled.map((p) => p.concentration))).toBeGreaterThan(1)
+    })
+
+    it('applies deviations to metabolite curves', () => {
+      const prescribed = accumulateMetaboliteDoses(METABOLITE_STANDARD_FIXTURE, 0, 72, 15)
+      const secondDose = getPrescriptionDoseTimes(METABOLITE_STANDARD_FIXTURE, 0, 72)[1]!
+      const missed = accumulateMetaboliteDoses(
+        { ...METABOLITE_STANDARD_FIXTURE, doseDeviations: [{ scheduledTime: secondDose, type: 'skipped' }] },
+        0,
+        72,
+        15,
+      )
+      const peak = (points: { concentration: number }[]) => Math.max(...points.map((p) => p.concentration))
+      expect(peak(missed)).toBeLessThan(peak(prescribed))
+    })
+
+    it('getGraphData adds an as-prescribed ghost dataset after the parent curve', () => {
+      const rx: Prescription = { ...BID_MULTI_DOSE_FIXTURE, doseDeviations: [{ scheduledTime: 21, type: 'delayed', shiftHours: 2 }] }
+      const datasets = getGraphData([rx], 0, 48)
+      expect(datasets).toHaveLength(2)
+      expect(datasets[0]!.isGhost).toBeUndefined()
+      expect(datasets[0]!.doseTimes).toContain(23)
+      expect(datasets[1]!.isGhost).toBe(true)
+      expect(datasets[1]!.label).toBe(`${datasets[0]!.label} (as prescribed)`)
+      expect(datasets[1]!.doseTimes).toContain(21)
+      expect(datasets[1]!.data).toEqual(accumulateDoses(BID_MULTI_DOSE_FIXTURE, 0, 48, 15))
+    })
+
+    it('getGraphData adds no ghost dataset without deviations', () => {
+      expect(getGraphData([BID_MULTI_DOSE_FIXTURE], 0, 48).some((ds) => ds.isGhost)).toBe(false)
+    })
+  })
+
+  describe('loading dose', () => {
+    const rx: Prescription = { ...BID_MULTI_DOSE_FIXTURE, dose: 250, loadingDose: 500 }
+
+    it('gives the loading dose for the first loadingDoseCount doses', () => {
+      expect(isLoadingDoseIndex(rx, 0)).toBe(true)
+      expect(isLoadingDoseIndex(rx, 1)).toBe(false)
+      expect(getScheduledDoseAmount(rx, 0, 9)).toBe(500)
+      expect(getScheduledDoseAmount(rx, 1, 21)).toBe(250)
+      expect(getScheduledDoseAmount({ ...rx, loadingDoseCount: 2 }, 1, 21)).toBe(500)
+      expect(getScheduledDoseAmount(BID_MULTI_DOSE_FIXTURE, 0, 9)).toBe(BID_MULTI_DOSE_FIXTURE.dose)
+    })
+
+    it('getPrescriptionDoseEvents uses the loading dose amounts', () => {
+      expect(getPrescriptionDoseEvents({ ...rx, loadingDoseCount: 2 }, 0, 48)).toEqual([
+        { time: 9, dose: 500 },
+        { time: 21, dose: 500 },
+        { time: 33, dose: 250 },
+        { time: 45, dose: 250 },
+      ])
+    })
+
+    it('applies deviations to loading doses', () => {
+      const events = getPrescriptionDoseEvents({ ...rx, doseDeviations: [{ scheduledTime: 9, type: 'doubled' }] }, 0, 48)
+      expect(events[0]).toEqual({ time: 9, dose: 1000 })
+    })
+
+    it('raises the early curve above the maintenance-only curve', () => {
+      const withVd = { ...rx, volumeOfDistribution: 40 }
+      const loaded = accumulateDoses(withVd, 0, 48, 15, 'absolute')
+      const maintenance = accumulateDoses({ ...withVd, loadingDose: undefined }, 0, 48, 15, 'absolute')
+      const at = (points: { time: number; concentration: number }[], t: number) =>
+        points.find((p) => p.time === t)!.concentration
+      expect(at(loaded, 12)).toBeCloseTo(2 * at(maintenance, 12), 10)
+      expect(at(loaded, 24)).toBeGreaterThan(at(maintenance, 24))
+    })
+
+    it('applies the loading dose to metabolite curves', () => {
+      const loaded = accumulateMetaboliteDoses(
+        { ...METABOLITE_STANDARD_FIXTURE, loadingDose: METABOLITE_STANDARD_FIXTURE.dose * 4 },
+        0,
+        72,
+        15,
+      )
+      const regular = accumulateMetaboliteDoses(METABOLITE_STANDARD_FIXTURE, 0, 72, 15)
+      // Both are normalized to the metabolite level; the loading dose moves the peak earlier
+      const peakTime = (points: { time: number; concentration: number }[]) =>
+        points.reduce((best, p) => (p.concentration > best.concentration ? p : best)).time
+      expect(peakTime(loaded)).toBeLessThan(peakTime(regular))
+    })
+  })
+
+  describe('per-time doses', () => {
+    const rx: Prescription = { ...BID_MULTI_DOSE_FIXTURE, times: ['21:00', '09:00'], timeDoses: [25, 50] }
+
+    it('getTimeOfDayDose matches the dose to its time of day', () => {
+      expect(getTimeOfDayDose(rx, 9)).toBe(50)
+      expect(getTimeOfDayDose(rx, 45)).toBe(25)
+      expect(getTimeOfDayDose(rx, 12)).toBe(rx.dose)
+      expect(getTimeOfDayDose(BID_MULTI_DOSE_FIXTURE, 9)).toBe(BID_MULTI_DOSE_FIXTURE.dose)
+    })
+
+    it('getPrescriptionDoseEvents uses the per-time amounts, with a loading dose first', () => {
+      expect(getPrescriptionDoseEvents(rx, 0, 48).map((e) => e.dose)).toEqual([50, 25, 50, 25])
+      expect(getPrescriptionDoseEvents({ ...rx, loadingDose: 100 }, 0, 48).map((e) => e.dose)).toEqual([100, 25, 50, 25])
+    })
+
+    it('accumulateDoses and accumulateMetaboliteDoses honor per-time amounts', () => {
+      const withVd = { ...rx, volumeOfDistribution: 40 }
+      const uneven = accumulateDoses(withVd, 0, 48, 15, 'absolute')
+      const even = accumulateDoses({ ...withVd, timeDoses: undefined, dose: 50 }, 0, 48, 15, 'absolute')
+      const at = (points: { time: number; concentration: number }[], t: number) =>
+        points.find((p) => p.time === t)!.concentration
+      expect(at(uneven, 20)).toBeCloseTo(at(even, 20), 10)
+      expect(at(uneven, 24)).toBeLessThan(at(even, 24))
+
+      const metabolite = { ...METABOLITE_STANDARD_FIXTURE, timeDoses: [500, 100] }
+      expect(accumulateMetaboliteDoses(metabolite, 0, 48, 15)).not.toEqual(
+        accumulateMetaboliteDoses(METABOLITE_STANDARD_FIXTURE, 0, 48, 15),
+      )
+    })
+
+    it('getGraphData labels the per-time amounts', () => {
+      expect(getGraphData([rx], 0, 48)[0]!.label).toBe('Test Drug B 25/50mg (bid)')
+    })
+  })
 })
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import type { Prescription } from '../../models/prescription'
+import { usesMichaelisMenten, simulateMichaelisMenten } from '../nonlinearElimination'
+import { calculateIvBolusConcentration } from '../pkCalculator'
+
+/**
+ * Helper: phenytoin-like prescription with Michaelis–Menten elimination.
+ */
+function makeMichaelisMenten(overrides: Partial<Prescription> = {}): Prescription {
+  return {
+    name: 'Test Saturable Drug',
+    frequency: 'once',
+    times: ['09:00'],
+    dose: 300,
+    halfLife: 22,
+    peak: 4,
+    uptake: 2,
+    eliminationModel: 'michaelis-menten',
+    vmax: 20,
+    km: 4,
+    volumeOfDistribution: 50,
+    ...overrides,
+  }
+}
+
+function at(points: { time: number; concentration: number }[], time: number): number {
+  return points.find((p) => Math.abs(p.time - time) < 1e-9)!.concentration
+}
+
+describe('usesMichaelisMenten', () => {
+  it('is true when Vmax, Km and Vd are all present', () => {
+    expect(usesMichaelisMenten(makeMichaelisMenten())).toBe(true)
+  })
+
+  it('is false for linear elimination or missing parameters', () => {
+    expect(usesMichaelisMenten(makeMichaelisMenten({ eliminationModel: 'linear' }))).toBe(false)
+    expect(usesMichaelisMenten(makeMichaelisMenten({ vmax: undefined }))).toBe(false)
+    expect(usesMichaelisMenten(makeMichaelisMenten({ km: undefined }))).toBe(false)
+    expect(usesMichaelisMenten(makeMichaelisMenten({ volumeOfDistribution: undefined }))).toBe(false)
+  })
+})
+
+describe('simulateMichaelisMenten', () => {
+  it('returns no points for a prescription without Michaelis–Menten parameters', () => {
+    const rx = makeMichaelisMenten({ km: undefined })
+    expect(simulateMichaelisMenten(rx, [{ time: 0, dose: 100 }], 0, 24)).toEqual([])
+  })
+
+  it('matches first-order elimination when concentrations are far below Km', () => {
+    // ke = Vmax / (Km * Vd) = 0.1155/h → half-life 6h
+    const ke = Math.LN2 / 6
+    const rx = makeMichaelisMenten({ route: 'iv-bolus', dose: 100, km: 1000, vmax: ke * 1000 * 50 })
+    const points = simulateMichaelisMenten(rx, [{ time: 0, dose: 100 }], 0, 24)
+    for (const t of [0, 6, 12, 24]) {
+      expect(at(points, t)).toBeCloseTo(calculateIvBolusConcentration(t, 100, 6), 0)
+    }
+  })
+
+  it('eliminates at close to Vmax when concentrations are far above Km', () => {
+    // C0 = 1000 mg / 10 L = 100 mg/L >> Km = 0.1 mg/L
+    const rx = makeMichaelisMenten({ route: 'iv-bolus', dose: 1000, volumeOfDistribution: 10, km: 0.1, vmax: 10 })
+    const points = simulateMichaelisMenten(rx, [{ time: 0, dose: 1000 }], 0, 10)
+    expect(at(points, 10)).toBeCloseTo(900, 0)
+  })
+
+  it('is not dose-proportional (doubling the dose more than doubles the level)', () => {
+    const rx = makeMichaelisMenten()
+    const doses = (amount: number) => Array.from({ length: 7 }, (_, day) => ({ time: day * 24 + 9, dose: amount }))
+    const low = simulateMichaelisMenten(rx, doses(300), 0, 168)
+    const high = simulateMichaelisMenten(rx, doses(600), 0, 168)
+    expect(at(high, 168)).toBeGreaterThan(2 * at(low, 168))
+  })
+
+  it('starts at zero and absorbs oral doses after administration', () => {
+    const points = simulateMichaelisMenten(makeMichaelisMenten(), [{ time: 9, dose: 300 }], 0, 24)
+    expect(at(points, 8.75)).toBe(0)
+    expect(at(points, 13)).toBeGreaterThan(0)
+  })
+
+  it('carries over doses given before startHours', () => {
+    const rx = makeMichaelisMenten()
+    const points = simulateMichaelisMenten(rx, [{ time: 9, dose: 300 }], 12, 24)
+    expect(points[0]!.time).toBe(12)
+    expect(points[0]!.concentration).toBeGreaterThan(0)
+  })
+
+  it('applies zero-order input for IV infusions', () => {
+    const rx = makeMichaelisMenten({ route: 'iv-infusion', infusionDuration: 4 })
+    const points = simulateMichaelisMenten(rx, [{ time: 0, dose: 400 }], 0, 12)
+    const peakPoint = points.reduce((max, p) => (p.concentration > max.concentration ? p : max))
+    expect(peakPoint.time).toBe(4)
+  })
+})
@@ -2,6 +2,14 @@ import { describe, it, expect } from 'vitest'
 import {
   ABSORPTION_CONSTANT,
   calculateConcentration,
+  calculateTwoCompartmentConcentration,
+  calculatePrescriptionConcentration,
+  calculateIvBolusConcentration,
+  calculateInfusionConcentration,
+  calculateZeroOrderConcentration,
+  getDoseInputSchedule,
+  getAbsorptionLag,
+  getAbsoluteConcentrationFactor,
   calculateMetaboliteConcentration,
   deriveKaFromTmax,
   getPeakTime,
@@ -14,6 +22,7 @@ import {
   MAX_BOUNDARY_FIXTURE,
   IBUPROFEN_FIXTURE,
   METABOLITE_STANDARD_FIXTURE,
+  TWO_COMPARTMENT_FIXTURE,
 } from '../../models/__tests__/fixtures'
 
 describe('PK Calculator', () => {
@@ -860,6 +869,332 @@ describe('PK Calculator', () => {
     })
   })
 
+  // ─── Two-Compartment Model ───
+
+  describe('calculateTwoCompartmentConcentration', () => {
+    const { dose, halfLife, alphaHalfLife, alphaFraction, uptake, peak } = TWO_COMPARTMENT_FIXTURE
+
+    it('returns 0 at time=0', () => {
+      expect(
+        calculateTwoCompartmentConcentration(0, dose, halfLife, alphaHalfLife!, alphaFraction!, uptake, peak),
+      ).toBe(0)
+    })
+
+    it('returns 0 for zero dose', () => {
+      expect(
+        calculateTwoCompartmentConcentration(2, 0, halfLife, alphaHalfLife!, alphaFraction!, uptake, peak),
+      ).toBe(0)
+    })
+
+    it('matches the one-compartment model when alphaFraction is 0', () => {
+      for (const t of [0.5, 2, 6, 24]) {
+        const twoCpt = calculateTwoCompartmentConcentration(t, 500, 6, 0.5, 0, 1.5, 2)
+        const oneCpt = calculateConcentration(t, 500, 6, 1.5, 2)
+        expect(twoCpt).toBeCloseTo(oneCpt, 6)
+      }
+    })
+
+    it('terminal phase approaches (1 - alphaFraction) of the one-compartment curve', () => {
+      const t = 72
+      const twoCpt = calculateTwoCompartmentConcentration(t, dose, halfLife, alphaHalfLife!, alphaFraction!, uptake, peak)
+      const oneCpt = calculateConcentration(t, dose, halfLife, uptake, peak)
+      expect(twoCpt / oneCpt).toBeCloseTo(1 - alphaFraction!, 3)
+    })
+
+    it('terminal decline follows the beta half-life', () => {
+      const c24 = calculateTwoCompartmentConcentration(24, dose, halfLife, alphaHalfLife!, alphaFraction!, uptake, peak)
+      const c36 = calculateTwoCompartmentConcentration(36, dose, halfLife, alphaHalfLife!, alphaFraction!, uptake, peak)
+      expect(c36 / c24).toBeCloseTo(0.5, 3)
+    })
+
+    it('declines faster than one-compartment shortly after the peak (distribution phase)', () => {
+      const twoPeak = calculateTwoCompartmentConcentration(2, dose, halfLife, alphaHalfLife!, alphaFraction!, uptake, peak)
+      const twoLater = calculateTwoCompartmentConcentration(5, dose, halfLife, alphaHalfLife!, alphaFraction!, uptake, peak)
+      const onePeak = calculateConcentration(2, dose, halfLife, uptake, peak)
+      const oneLater = calculateConcentration(5, dose, halfLife, uptake, peak)
+      expect(twoLater / twoPeak).toBeLessThan(oneLater / onePeak)
+    })
+
+    it('is dose-linear', () => {
+      const c1 = calculateTwoCompartmentConcentration(3, 1, halfLife, alphaHalfLife!, alphaFraction!, uptake, peak)
+      const c2 = calculateTwoCompartmentConcentration(3, 2, halfLife, alphaHalfLife!, alphaFraction!, uptake, peak)
+      expect(c2).toBeCloseTo(2 * c1, 10)
+    })
+
+    it('uses the fallback formula without producing NaN when ka ≈ alpha', () => {
+      // uptake == alphaHalfLife and no peak → ka equals alpha exactly
+      const result = calculateTwoCompartmentConcentration(1, 100, 12, 1, 0.5, 1)
+      expect(Number.isFinite(result)).toBe(true)
+      expect(result).toBeGreaterThan(0)
+    })
+  })
+
+  describe('calculatePrescriptionConcentration', () => {
+    it('uses the one-compartment model by default', () => {
+      const rx = SINGLE_DOSE_FIXTURE
+      expect(calculatePrescriptionConcentration(3, rx.dose, rx)).toBe(
+        calculateConcentration(3, rx.dose, rx.halfLife, rx.uptake, rx.peak),
+      )
+    })
+
+    it('dispatches to the two-compartment model when selected', () => {
+      const rx = TWO_COMPARTMENT_FIXTURE
+      expect(calculatePrescriptionConcentration(3, rx.dose, rx)).toBe(
+        calculateTwoCompartmentConcentration(3, rx.dose, rx.halfLife, rx.alphaHalfLife!, rx.alphaFraction!, rx.uptake, rx.peak),
+      )
+    })
+
+    it('falls back to one-compartment when alpha parameters are missing', () => {
+      const rx = { ...SINGLE_DOSE_FIXTURE, compartmentModel: 'two-compartment' as const }
+      expect(calculatePrescriptionConcentration(3, rx.dose, rx)).toBe(
+        calculateConcentration(3, rx.dose, rx.halfLife, rx.uptake, rx.peak),
+      )
+    })
+
+    it('uses the supplied dose rather than rx.dose', () => {
+      const rx = SINGLE_DOSE_FIXTURE
+      expect(calculatePrescriptionConcentration(3, 250, rx)).toBeCloseTo(
+        calculatePrescriptionConcentration(3, 500, rx) / 2,
+        10,
+      )
+    })
+  })
+
+  // ─── Intravenous Routes ───
+
+  describe('calculateIvBolusConcentration', () => {
+    it('returns the full dose at t=0 (no absorption phase)', () => {
+      expect(calculateIvBolusConcentration(0, 100, 6)).toBe(100)
+    })
+
+    it('returns 0 before administration', () => {
+      expect(calculateIvBolusConcentration(-1, 100, 6)).toBe(0)
+    })
+
+    it('halves every half-life (one-compartment)', () => {
+      expect(calculateIvBolusConcentration(6, 100, 6)).toBeCloseTo(50, 10)
+      expect(calculateIvBolusConcentration(12, 100, 6)).toBeCloseTo(25, 10)
+    })
+
+    it('is biexponential with two-compartment parameters', () => {
+      // A=0.6 (t½α=0.5h), B=0.4 (t½β=12h): at t=12, α term is negligible
+      expect(calculateIvBolusConcentration(0, 100, 12, 0.5, 0.6)).toBeCloseTo(100, 10)
+      expect(calculateIvBolusConcentration(12, 100, 12, 0.5, 0.6)).toBeCloseTo(20, 3)
+    })
+
+    it('returns 0 for zero dose', () => {
+      expect(calculateIvBolusConcentration(1, 0, 6)).toBe(0)
+    })
+  })
+
+  describe('calculateInfusionConcentration', () => {
+    it('returns 0 at the start of the infusion', () => {
+      expect(calculateInfusionConcentration(0, 100, 6, 1)).toBe(0)
+    })
+
+    it('rises during the infusion and peaks at its end', () => {
+      const mid = calculateInfusionConcentration(0.5, 100, 6, 1)
+      const end = calculateInfusionConcentration(1, 100, 6, 1)
+      const after = calculateInfusionConcentration(1.5, 100, 6, 1)
+      expect(mid).toBeGreaterThan(0)
+      expect(end).toBeGreaterThan(mid)
+      expect(after).toBeLessThan(end)
+    })
+
+    it('matches the analytical end-of-infusion value R/ke*(1-e^(-ke*T))', () => {
+      const ke = Math.LN2 / 6
+      const expected = (100 / 2 / ke) * (1 - Math.exp(-ke * 2))
+      expect(calculateInfusionConcentration(2, 100, 6, 2)).toBeCloseTo(expected, 10)
+    })
+
+    it('decays with the elimination half-life after the infusion ends', () => {
+      const end = calculateInfusionConcentration(1, 100, 6, 1)
+      expect(calculateInfusionConcentration(7, 100, 6, 1)).toBeCloseTo(end / 2, 10)
+    })
+
+    it('converges to an IV bolus for a very short infusion', () => {
+      const infusion = calculateInfusionConcentration(6, 100, 6, 0.0001)
+      expect(infusion).toBeCloseTo(calculateIvBolusConcentration(6, 100, 6), 2)
+    })
+
+    it('treats a non-positive infusion duration as a bolus', () => {
+      expect(calculateInfusionConcentration(3, 100, 6, 0)).toBe(calculateIvBolusConcentration(3, 100, 6))
+    })
+  })
+
+  describe('calculatePrescriptionConcentration - routes', () => {
+    it('dispatches iv-bolus prescriptions', () => {
+      const rx = { ...SINGLE_DOSE_FIXTURE, route: 'iv-bolus' as const }
+      expect(calculatePrescriptionConcentration(3, 100, rx)).toBe(calculateIvBolusConcentration(3, 100, rx.halfLife))
+    })
+
+    it('dispatches iv-infusion prescriptions', () => {
+      const rx = { ...SINGLE_DOSE_FIXTURE, route: 'iv-infusion' as const, infusionDuration: 2 }
+      expect(calculatePrescriptionConcentration(3, 100, rx)).toBe(
+        calculateInfusionConcentration(3, 100, rx.halfLife, 2),
+      )
+    })
+
+    it('combines IV routes with the two-compartment model', () => {
+      const rx = { ...TWO_COMPARTMENT_FIXTURE, route: 'iv-bolus' as const }
+      expect(calculatePrescriptionConcentration(3, 100, rx)).toBe(
+        calculateIvBolusConcentration(3, 100, rx.halfLife, rx.alphaHalfLife, rx.alphaFraction),
+      )
+    })
+  })
+
+  // ─── Absorption Lag Time ───
+
+  describe('getAbsorptionLag', () => {
+    it('returns 0 when lagTime is not set', () => {
+      expect(getAbsorptionLag(SINGLE_DOSE_FIXTURE)).toBe(0)
+    })
+
+    it('returns lagTime for oral prescriptions', () => {
+      expect(getAbsorptionLag({ ...SINGLE_DOSE_FIXTURE, lagTime: 2 })).toBe(2)
+      expect(getAbsorptionLag({ ...SINGLE_DOSE_FIXTURE, route: 'oral', lagTime: 2 })).toBe(2)
+    })
+
+    it('ignores lagTime for IV routes', () => {
+      expect(getAbsorptionLag({ ...SINGLE_DOSE_FIXTURE, route: 'iv-bolus', lagTime: 2 })).toBe(0)
+      expect(
+        getAbsorptionLag({ ...SINGLE_DOSE_FIXTURE, route: 'iv-infusion', infusionDuration: 1, lagTime: 2 }),
+      ).toBe(0)
+    })
+  })
+
+  describe('calculatePrescriptionConcentration - lag time', () => {
+    const rx = { ...SINGLE_DOSE_FIXTURE, lagTime: 2 }
+
+    it('returns 0 during the lag period', () => {
+      expect(calculatePrescriptionConcentration(1, rx.dose, rx)).toBe(0)
+      expect(calculatePrescriptionConcentration(2, rx.dose, rx)).toBe(0)
+    })
+
+    it('shifts the curve by the lag time', () => {
+      for (const t of [0.5, 2, 6]) {
+        expect(calculatePrescriptionConcentration(t + 2, rx.dose, rx)).toBeCloseTo(
+          calculatePrescriptionConcentration(t, rx.dose, SINGLE_DOSE_FIXTURE),
+          10,
+        )
+      }
+    })
+
+    it('also shifts two-compartment oral curves', () => {
+      const twoCpt = { ...TWO_COMPARTMENT_FIXTURE, lagTime: 1 }
+      expect(calculatePrescriptionConcentration(4, 2, twoCpt)).toBeCloseTo(
+        calculatePrescriptionConcentration(3, 2, TWO_COMPARTMENT_FIXTURE),
+        10,
+      )
+    })
+  })
+
+  // ─── Absorption Models ───
+
+  describe('calculateZeroOrderConcentration', () => {
+    it('matches an infusion of the same duration', () => {
+      for (const t of [0.5, 4, 12, 20]) {
+        expect(calculateZeroOrderConcentration(t, 100, 6, 12)).toBeCloseTo(calculateInfusionConcentration(t, 100, 6, 12), 10)
+      }
+    })
+
+    it('rises until release ends, then declines', () => {
+      expect(calculateZeroOrderConcentration(6, 100, 6, 12)).toBeLessThan(calculateZeroOrderConcentration(12, 100, 6, 12))
+      expect(calculateZeroOrderConcentration(14, 100, 6, 12)).toBeLessThan(calculateZeroOrderConcentration(12, 100, 6, 12))
+    })
+  })
+
+  describe('calculatePrescriptionConcentration - absorption models', () => {
+    const zeroOrder = { ...SINGLE_DOSE_FIXTURE, absorptionModel: 'zero-order' as const, releaseDuration: 12 }
+
+    it('zero-order dispatches to constant-rate release', () => {
+      expect(calculatePrescriptionConcentration(5, 500, zeroOrder)).toBeCloseTo(
+        calculateZeroOrderConcentration(5, 500, zeroOrder.halfLife, 12),
+        10,
+      )
+    })
+
+    it('zero-order honors the lag time', () => {
+      const lagged = { ...zeroOrder, lagTime: 2 }
+      expect(calculatePrescriptionConcentration(2, 500, lagged)).toBe(0)
+      expect(calculatePrescriptionConcentration(7, 500, lagged)).toBeCloseTo(
+        calculatePrescriptionConcentration(5, 500, zeroOrder),
+        10,
+      )
+    })
+
+    it('ir-er sums the first-order and zero-order portions', () => {
+      const irEr = { ...SINGLE_DOSE_FIXTURE, absorptionModel: 'ir-er' as const, releaseDuration: 8, erFraction: 0.6 }
+      const expected =
+        calculateConcentration(3, 200, irEr.halfLife, irEr.uptake, irEr.peak) +
+        calculateZeroOrderConcentration(3, 300, irEr.halfLife, 8)
+      expect(calculatePrescriptionConcentration(3, 500, irEr)).toBeCloseTo(expected, 10)
+    })
+
+    it('first-order (explicit) is unchanged', () => {
+      const rx = { ...SINGLE_DOSE_FIXTURE, absorptionModel: 'first-order' as const }
+      expect(calculatePrescriptionConcentration(3, 500, rx)).toBe(calculatePrescriptionConcentration(3, 500, SINGLE_DOSE_FIXTURE))
+    })
+  })
+
+  describe('getDoseInputSchedule', () => {
+    it('returns a single input at the lag time for first-order absorption', () => {
+      expect(getDoseInputSchedule({ ...SINGLE_DOSE_FIXTURE, lagTime: 1 })).toEqual([{ offset: 1, fraction: 1 }])
+    })
+
+    it('spreads zero-order release evenly across the release duration', () => {
+      const inputs = getDoseInputSchedule({ ...SINGLE_DOSE_FIXTURE, absorptionModel: 'zero-order', releaseDuration: 2 })
+      expect(inputs).toHaveLength(8)
+      expect(inputs.reduce((sum, i) => sum + i.fraction, 0)).toBeCloseTo(1, 10)
+      expect(inputs[0]!.offset).toBeCloseTo(0.125, 10)
+      expect(inputs[7]!.offset).toBeCloseTo(1.875, 10)
+    })
+
+    it('keeps the IR portion as an immediate input for ir-er', () => {
+      const inputs = getDoseInputSchedule({
+        ...SINGLE_DOSE_FIXTURE,
+        absorptionModel: 'ir-er',
+        releaseDuration: 4,
+        erFraction: 0.75,
+      })
+      expect(inputs[0]).toEqual({ offset: 0, fraction: 0.25 })
+      expect(inputs.reduce((sum, i) => sum + i.fraction, 0)).toBeCloseTo(1, 10)
+    })
+
+    it('ignores the absorption model for IV routes', () => {
+      const rx = { ...SINGLE_DOSE_FIXTURE, route: 'iv-bolus' as const, absorptionModel: 'zero-order' as const, releaseDuration: 4 }
+      expect(getDoseInputSchedule(rx)).toEqual([{ offset: 0, fraction: 1 }])
+    })
+  })
+
+  // ─── Absolute Concentration Factor ───
+
+  describe('getAbsoluteConcentrationFactor', () => {
+    it('returns null without a volume of distribution', () => {
+      expect(getAbsoluteConcentrationFactor(SINGLE_DOSE_FIXTURE)).toBeNull()
+    })
+
+    it('returns 1 / Vd when bioavailability is not set', () => {
+      expect(getAbsoluteConcentrationFactor({ ...SINGLE_DOSE_FIXTURE, volumeOfDistribution: 50 })).toBeCloseTo(0.02, 10)
+    })
+
+    it('returns F / Vd for oral prescriptions', () => {
+      const rx = { ...SINGLE_DOSE_FIXTURE, bioavailability: 0.5, volumeOfDistribution: 50 }
+      expect(getAbsoluteConcentrationFactor(rx)).toBeCloseTo(0.01, 10)
+    })
+
+    it('uses F = 1 for IV routes regardless of bioavailability', () => {
+      const rx = { ...SINGLE_DOSE_FIXTURE, route: 'iv-bolus' as const, bioavailability: 0.5, volumeOfDistribution: 50 }
+      expect(getAbsoluteConcentrationFactor(rx)).toBeCloseTo(0.02, 10)
+    })
+
+    it('gives dose / Vd for an IV bolus at t=0', () => {
+      const rx = { ...SINGLE_DOSE_FIXTURE, route: 'iv-bolus' as const, volumeOfDistribution: 50 }
+      const amount = calculatePrescriptionConcentration(0, rx.dose, rx)
+      expect(amount * getAbsoluteConcentrationFactor(rx)!).toBeCloseTo(10, 6)
+    })
+  })
+
   // ─── Phase 8: Barrel Exports ───
 
   describe('barrel exports', () => {
@@ -871,6 +1206,12 @@ describe('PK Calculator', () => {
       expect(typeof barrel.calculateConcentration).toBe('function')
     })
 
+    it('exports calculateTwoCompartmentConcentration and calculatePrescriptionConcentration as functions', async () => {
+      const barrel = await import('../../calculations/index')
+      expect(typeof barrel.calculateTwoCompartmentConcentration).toBe('function')
+      expect(typeof barrel.calculatePrescriptionConcentration).toBe('function')
+    })
+
     it('exports calculateMetaboliteConcentration as a function', async () => {
       const barrel = await import('../../calculations/index')
       expect(typeof barrel.calculateMetaboliteConcentration).toBe('function')
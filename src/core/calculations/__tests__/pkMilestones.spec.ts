@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest'
-import { calculateMilestones, generateSummaryData, formatElapsedTime } from '../pkMilestones'
+import {
+  calculateMilestones,
+  generateSummaryData,
+  generateScheduleSummaryData,
+  formatElapsedTime,
+} from '../pkMilestones'
+import { calculateScheduleStepLevels } from '../scheduleCalculator'
+import type { DosageSchedule } from '../../models/dosageSchedule'
 import { SINGLE_DOSE_FIXTURE, BID_MULTI_DOSE_FIXTURE, IBUPROFEN_FIXTURE } from '../../models/__tests__/fixtures'
 
 describe('formatElapsedTime', () => {
@@ -19,6 +26,166 @@ describe('formatElapsedTime', () => {
 })
 
 describe('calculateMilestones', () => {
+  describe('absorption lag time', () => {
+    const lagged = { ...SINGLE_DOSE_FIXTURE, lagTime: 1.5 }
+
+    it('emits an absorption_start event after the lag', () => {
+      const events = calculateMilestones(lagged, 0, 48)
+      const start = events.find((e) => e.eventType === 'absorption_start')!
+      expect(start.elapsedHours).toBe(10.5)
+      expect(start.description).toContain('1.5h lag')
+    })
+
+    it('shifts absorption end and peak by the lag time', () => {
+      const events = calculateMilestones(lagged, 0, 48)
+      // Dose 09:00 + lag 1.5h + uptake 1.5h / peak 2h
+      expect(events.find((e) => e.eventType === 'absorption_end')!.elapsedHours).toBe(12)
+      expect(events.find((e) => e.eventType === 'peak')!.elapsedHours).toBe(12.5)
+    })
+
+    it('emits no absorption_start event without lag', () => {
+      const events = calculateMilestones(SINGLE_DOSE_FIXTURE, 0, 48)
+      expect(events.some((e) => e.eventType === 'absorption_start')).toBe(false)
+    })
+  })
+
+  describe('loading dose', () => {
+    const loaded = { ...BID_MULTI_DOSE_FIXTURE, dose: 250, loadingDose: 500, loadingDoseCount: 2 }
+
+    it('labels the first loadingDoseCount doses as loading doses', () => {
+      const doses = calculateMilestones(loaded, 0, 48).filter((e) => e.eventType === 'dose')
+      expect(doses.map((e) => e.description)).toEqual([
+        'Loading dose 500mg administered — absorption begins',
+        'Loading dose 500mg administered — absorption begins',
+        'Dose 250mg administered — absorption begins',
+        'Dose 250mg administered — absorption begins',
+      ])
+    })
+
+    it('counts loading doses from the first scheduled dose when the window starts later', () => {
+      const doses = calculateMilestones(loaded, 24, 48).filter((e) => e.eventType === 'dose')
+      expect(doses.every((e) => e.description.startsWith('Dose 250mg'))).toBe(true)
+    })
+  })
+
+  describe('per-time doses', () => {
+    it('describes each dose with the amount for its time of day', () => {
+      const rx = { ...BID_MULTI_DOSE_FIXTURE, timeDoses: [50, 25] }
+      const doses = calculateMilestones(rx, 0, 48).filter((e) => e.eventType === 'dose')
+      expect(doses.map((e) => e.description.split(' administered')[0])).toEqual([
+        'Dose 50mg',
+        'Dose 25mg',
+        'Dose 50mg',
+        'Dose 25mg',
+      ])
+    })
+  })
+
+  describe('on/off cycles', () => {
+    const cyclic = { ...SINGLE_DOSE_FIXTURE, cycle: { daysOn: 2, daysOff: 1, cycles: 2 } }
+
+    it('skips doses during off periods and after the last cycle', () => {
+      const doses = calculateMilestones(cyclic, 0, 192).filter((e) => e.eventType === 'dose')
+      expect(doses.map((e) => e.elapsedHours)).toEqual([9, 33, 81, 105])
+    })
+
+    it('marks the start of each off period', () => {
+      const offPeriods = calculateMilestones(cyclic, 0, 192).filter((e) => e.eventType === 'off_period')
+      expect(offPeriods.map((e) => e.elapsedHours)).toEqual([48, 120])
+      expect(offPeriods[0]!.description).toBe('Dose-free period begins — 1 day off (cycle 1 of 2)')
+      expect(offPeriods[0]!.relativeConcentration).toBeNull()
+    })
+
+    it('does not report an off period that started before the window', () => {
+      const events = calculateMilestones(cyclic, 60, 192)
+      expect(events.filter((e) => e.eventType === 'off_period').map((e) => e.elapsedHours)).toEqual([120])
+    })
+  })
+
+  describe('start offsets', () => {
+    it('starts the dose timeline at the offset', () => {
+      const rx = { ...SINGLE_DOSE_FIXTURE, startOffset: 3, startOffsetUnit: 'days' as const }
+      const doses = calculateMilestones(rx, 0, 120).filter((e) => e.eventType === 'dose')
+      expect(doses.map((e) => e.elapsedHours)).toEqual([81, 105])
+    })
+
+    it('numbers off periods from the delayed start', () => {
+      const rx = {
+        ...SINGLE_DOSE_FIXTURE,
+        startOffset: 1,
+        startOffsetUnit: 'days' as const,
+        cycle: { daysOn: 2, daysOff: 1, cycles: 2 },
+      }
+      const offPeriods = calculateMilestones(rx, 0, 240).filter((e) => e.eventType === 'off_period')
+      expect(offPeriods.map((e) => e.elapsedHours)).toEqual([72, 144])
+      expect(offPeriods[1]!.description).toBe('Dose-free period begins — 1 day off (cycle 2 of 2)')
+    })
+  })
+
+  describe('calendar start date', () => {
+    it('includes the calendar date in each clock time', () => {
+      const rx = { ...SINGLE_DOSE_FIXTURE, startDate: '2026-01-05' }
+      const doses = calculateMilestones(rx, 0, 48).filter((e) => e.eventType === 'dose')
+      expect(doses.map((e) => e.clockTime)).toEqual(['Mon Jan 5 09:00', 'Tue Jan 6 09:00'])
+    })
+
+    it('keeps day numbers for undated prescriptions', () => {
+      const doses = calculateMilestones(SINGLE_DOSE_FIXTURE, 0, 48).filter((e) => e.eventType === 'dose')
+      expect(doses.map((e) => e.clockTime)).toEqual(['09:00', '09:00 (Day 2)'])
+    })
+  })
+
+  describe('as-needed (PRN) dosing', () => {
+    it('reports a dose at each placed time', () => {
+      const rx = {
+        ...SINGLE_DOSE_FIXTURE,
+        frequency: 'prn' as const,
+        times: [],
+        minDoseInterval: 4,
+        maxDailyDose: 2000,
+        prnDoseTimes: [7.5, 19],
+      }
+      const doses = calculateMilestones(rx, 0, 48).filter((e) => e.eventType === 'dose')
+      expect(doses.map((e) => e.elapsedHours)).toEqual([7.5, 19])
+    })
+  })
+
+  describe('intravenous routes', () => {
+    it('iv-bolus peaks at the dose time and has no absorption event', () => {
+      const rx = { ...SINGLE_DOSE_FIXTURE, route: 'iv-bolus' as const }
+      const events = calculateMilestones(rx, 0, 48)
+      expect(events.some((e) => e.eventType === 'absorption_end')).toBe(false)
+      const peak = events.find((e) => e.eventType === 'peak')!
+      expect(peak.elapsedHours).toBe(9)
+      expect(events.find((e) => e.eventType === 'dose')!.description).toContain('IV bolus')
+    })
+
+    it('iv-infusion peaks at the end of the infusion', () => {
+      const rx = { ...SINGLE_DOSE_FIXTURE, route: 'iv-infusion' as const, infusionDuration: 1.5 }
+      const events = calculateMilestones(rx, 0, 48)
+      expect(events.find((e) => e.eventType === 'peak')!.elapsedHours).toBe(10.5)
+      expect(events.find((e) => e.eventType === 'dose')!.description).toContain('infusion begins')
+    })
+  })
+
+  describe('absorption models', () => {
+    it('zero-order release peaks and completes when release ends', () => {
+      const rx = { ...SINGLE_DOSE_FIXTURE, absorptionModel: 'zero-order' as const, releaseDuration: 8 }
+      const events = calculateMilestones(rx, 0, 48)
+      expect(events.find((e) => e.eventType === 'peak')!.elapsedHours).toBe(17)
+      const end = events.find((e) => e.eventType === 'absorption_end')!
+      expect(end.elapsedHours).toBe(17)
+      expect(end.description).toContain('Extended release complete')
+    })
+
+    it('ir-er peak falls between the IR Tmax and the end of release', () => {
+      const rx = { ...SINGLE_DOSE_FIXTURE, absorptionModel: 'ir-er' as const, releaseDuration: 8, erFraction: 0.5 }
+      const peak = calculateMilestones(rx, 0, 48).find((e) => e.eventType === 'peak')!
+      expect(peak.elapsedHours).toBeGreaterThanOrEqual(9)
+      expect(peak.elapsedHours).toBeLessThanOrEqual(17)
+    })
+  })
+
   describe('single dose (once daily)', () => {
     it('generates dose, absorption, peak, and half-life events', () => {
       // SINGLE_DOSE_FIXTURE: once at 09:00, halfLife=6, peak=2, uptake=1.5
@@ -189,6 +356,48 @@ describe('calculateMilestones', () => {
       expect(doseEvents[1]!.clockTime).toBe('21:00')
     })
   })
+
+  describe('therapeutic window crossings', () => {
+    it('emits no window events without a therapeutic window', () => {
+      const events = calculateMilestones(BID_MULTI_DOSE_FIXTURE, 0, 48)
+      expect(events.some((e) => e.eventType === 'window_enter' || e.eventType === 'window_exit')).toBe(false)
+    })
+
+    it('enters and leaves the window at the minimum effective concentration', () => {
+      const rx = { ...SINGLE_DOSE_FIXTURE, duration: 1, durationUnit: 'days' as const, minEffectiveConcentration: 0.5 }
+      const events = calculateMilestones(rx, 0, 48)
+      const enter = events.filter((e) => e.eventType === 'window_enter')
+      const exit = events.filter((e) => e.eventType === 'window_exit')
+
+      expect(enter).toHaveLength(1)
+      expect(exit).toHaveLength(1)
+      // Rises above half of the peak before Tmax, falls below it after
+      expect(enter[0]!.elapsedHours).toBeGreaterThan(9)
+      expect(enter[0]!.elapsedHours).toBeLessThan(11)
+      expect(exit[0]!.elapsedHours).toBeGreaterThan(11)
+      expect(enter[0]!.description).toContain('Rises above minimum effective concentration (50% of peak)')
+      expect(exit[0]!.description).toContain('leaves therapeutic window')
+      expect(exit[0]!.relativeConcentration).toBeCloseTo(0.5, 10)
+    })
+
+    it('reports crossings of the toxic threshold in mg/L', () => {
+      // Vd = 50 L: peak ≈ 500 mg × e^(...) / 50 L, well above 5 mg/L
+      const rx = {
+        ...SINGLE_DOSE_FIXTURE,
+        duration: 1,
+        durationUnit: 'days' as const,
+        volumeOfDistribution: 50,
+        minEffectiveConcentration: 2,
+        toxicConcentration: 5,
+      }
+      const events = calculateMilestones(rx, 0, 72)
+      const crossings = events.filter((e) => e.eventType === 'window_enter' || e.eventType === 'window_exit')
+
+      expect(crossings.map((e) => e.eventType)).toEqual(['window_enter', 'window_exit', 'window_enter', 'window_exit'])
+      expect(crossings[1]!.description).toContain('Rises above toxic threshold (5.00 mg/L)')
+      expect(crossings[2]!.description).toContain('Falls below toxic threshold')
+    })
+  })
 })
 
 describe('generateSummaryData', () => {
@@ -228,3 +437,113 @@ describe('generateSummaryData', () => {
     expect(result[0]!.prescriptionId).toBeUndefined()
   })
 })
+
+describe('generateScheduleSummaryData', () => {
+  function makeSchedule(overrides: Partial<DosageSchedule> = {}): DosageSchedule {
+    return {
+      id: 'sched-1',
+      name: 'Test Titration',
+      direction: 'titration',
+      basePrescription: {
+        name: 'Test Drug',
+        frequency: 'bid',
+        times: ['09:00', '21:00'],
+        dose: 25,
+        halfLife: 6,
+        peak: 2,
+        uptake: 1.5,
+      },
+      steps: [
+        { stepNumber: 1, dose: 25, durationDays: 7, startDay: 0 },
+        { stepNumber: 2, dose: 50, durationDays: 7, startDay: 7 },
+      ],
+      totalDuration: 14,
+      ...overrides,
+    }
+  }
+
+  it('returns one section per step', () => {
+    const result = generateScheduleSummaryData(makeSchedule())
+    expect(result.map((s) => s.prescriptionName)).toEqual([
+      'Step 1: 25mg (Day 1-7)',
+      'Step 2: 50mg (Day 8-14)',
+    ])
+    expect(result[0]!.prescriptionId).toBe('sched-1')
+    expect(result[0]!.events[0]!.prescriptionName).toBe('Test Titration')
+  })
+
+  it('times step start, first peak and steady state from the step\'s first dose', () => {
+    const [, step2] = generateScheduleSummaryData(makeSchedule())
+    const byType = (type: string) => step2!.events.find((e) => e.eventType === type)!
+
+    expect(byType('step_start').elapsedHours).toBe(177)
+    expect(byType('step_start').description).toBe('Step 2 begins — dose increased from 25mg to 50mg')
+    expect(byType('peak').elapsedHours).toBe(179)
+    // First 24h window within the step averaging within 10% of the 50mg steady state
+    expect(byType('steady_state').elapsedHours).toBe(200.5)
+    expect(byType('steady_state').description).toBe(
+      'Steady state at 50mg reached — daily average within 10% of steady state, 23.5h after the step\'s first dose',
+    )
+  })
+
+  it('reports concentrations relative to the schedule peak', () => {
+    const [step1, step2] = generateScheduleSummaryData(makeSchedule())
+    expect(step1!.events[0]!.relativeConcentration).toBeNull()
+    const start = step2!.events.find((e) => e.eventType === 'step_start')!
+    const steady = step2!.events.find((e) => e.eventType === 'steady_state')!
+    // The step starts at a 25mg trough, well below the 50mg steady state
+    expect(start.relativeConcentration).toBeGreaterThan(0.1)
+    expect(start.relativeConcentration).toBeLessThan(0.5)
+    expect(steady.relativeConcentration).toBeGreaterThan(start.relativeConcentration!)
+  })
+
+  it('adds the final washout to the last step only', () => {
+    const [step1, step2] = generateScheduleSummaryData(makeSchedule())
+    expect(step1!.events.some((e) => e.eventType === 'washout')).toBe(false)
+
+    const washout = step2!.events[step2!.events.length - 1]!
+    expect(washout.eventType).toBe('washout')
+    // Last dose day 14 21:00 (333h) + Tmax 2h + 5 half-lives of 6h
+    expect(washout.elapsedHours).toBe(365)
+    expect(washout.relativeConcentration).toBeLessThan(0.05)
+  })
+
+  it('skips steady state when a step ends before the simulated curve reaches it', () => {
+    const schedule = makeSchedule()
+    schedule.basePrescription.halfLife = 96
+    const result = generateScheduleSummaryData(schedule)
+    expect(result.flatMap((s) => s.events).some((e) => e.eventType === 'steady_state')).toBe(false)
+  })
+
+  it('agrees with the step levels on which steps reach steady state', () => {
+    const schedule = makeSchedule()
+    schedule.basePrescription.halfLife = 48
+    const reached = calculateScheduleStepLevels(schedule).map((l) => l.reachedSteadyState)
+    const marked = generateScheduleSummaryData(schedule).map((s) =>
+      s.events.some((e) => e.eventType === 'steady_state'),
+    )
+    expect(marked).toEqual(reached)
+  })
+
+  it('describes taper steps as decreases', () => {
+    const result = generateScheduleSummaryData(
+      makeSchedule({
+        direction: 'taper',
+        steps: [
+          { stepNumber: 1, dose: 50, durationDays: 7, startDay: 0 },
+          { stepNumber: 2, dose: 25, durationDays: 7, startDay: 7 },
+        ],
+      }),
+    )
+    expect(result[1]!.events[0]!.description).toBe('Step 2 begins — dose decreased from 50mg to 25mg')
+  })
+
+  it('uses calendar dates for dated schedules', () => {
+    const result = generateScheduleSummaryData(makeSchedule({ startDate: '2026-01-05' }))
+    expect(result[1]!.events[0]!.clockTime).toBe('Mon Jan 12 09:00')
+  })
+
+  it('returns no sections for a schedule without doses', () => {
+    expect(generateScheduleSummaryData(makeSchedule({ steps: [] }))).toEqual([])
+  })
+})
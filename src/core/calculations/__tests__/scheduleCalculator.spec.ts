@@ -1,7 +1,13 @@
 import { describe, it, expect } from 'vitest'
 import type { Prescription } from '../../models/prescription'
 import type { DosageSchedule, DoseStep } from '../../models/dosageSchedule'
-import { expandScheduleDoses, accumulateScheduleDoses } from '../scheduleCalculator'
+import {
+  expandScheduleDoses,
+  accumulateScheduleDoses,
+  accumulateScheduleMetaboliteDoses,
+  calculateCrossTaperCurves,
+  calculateScheduleStepLevels,
+} from '../scheduleCalculator'
 
 /**
  * Helper: create a valid base prescription for schedule tests.
@@ -150,6 +156,41 @@ describe('Schedule Calculator', () => {
 
   // ─── accumulateScheduleDoses ───
 
+  describe('per-step frequency overrides', () => {
+    it('uses each step\'s own dosing times', () => {
+      const schedule = makeTaperSchedule()
+      schedule.basePrescription = makeBasePrescription()
+      schedule.steps = [
+        { stepNumber: 1, dose: 100, durationDays: 2, startDay: 0 },
+        { stepNumber: 2, dose: 50, durationDays: 2, startDay: 2, frequency: 'qd', times: ['08:00'] },
+      ]
+
+      const events = expandScheduleDoses(schedule)
+      // BID for two days, then QD at 08:00 for two days
+      expect(events.map(e => e.time)).toEqual([9, 21, 33, 45, 56, 80])
+      expect(events.map(e => e.dose)).toEqual([100, 100, 100, 100, 50, 50])
+    })
+
+    it('lowers the curve when a step drops to fewer doses a day at the same amount', () => {
+      const base = makeTitrationSchedule({
+        steps: [
+          { stepNumber: 1, dose: 50, durationDays: 7, startDay: 0 },
+          { stepNumber: 2, dose: 50, durationDays: 7, startDay: 7 },
+        ],
+      })
+      const switched = {
+        ...base,
+        steps: [base.steps[0]!, { ...base.steps[1]!, frequency: 'qd' as const, times: ['09:00'] }],
+      }
+
+      const level = (points: { time: number; concentration: number }[]) =>
+        points.find(p => p.time === 13 * 24)!.concentration
+      expect(level(accumulateScheduleDoses(switched, 0, 336, 60))).toBeLessThan(
+        level(accumulateScheduleDoses(base, 0, 336, 60)),
+      )
+    })
+  })
+
   describe('accumulateScheduleDoses', () => {
     it('returns TimeSeriesPoint array', () => {
       const schedule = makeTitrationSchedule()
@@ -288,4 +329,181 @@ describe('Schedule Calculator', () => {
       expect(maxConc).toBeCloseTo(1.0, 5)
     })
   })
+
+  describe('two-compartment base prescription', () => {
+    it('honors the two-compartment model of the base prescription', () => {
+      const oneCpt = makeTitrationSchedule()
+      const twoCpt = makeTitrationSchedule({
+        basePrescription: makeBasePrescription({
+          halfLife: 12,
+          compartmentModel: 'two-compartment',
+          alphaHalfLife: 0.5,
+          alphaFraction: 0.6,
+        }),
+      })
+      const onePoints = accumulateScheduleDoses(oneCpt, 0, 48)
+      const twoPoints = accumulateScheduleDoses(twoCpt, 0, 48)
+
+      expect(Math.max(...twoPoints.map(p => p.concentration))).toBeCloseTo(1.0, 5)
+      expect(twoPoints).not.toEqual(onePoints)
+    })
+  })
+
+  describe('absorption lag time', () => {
+    it('delays the schedule curve by the base prescription lagTime', () => {
+      const schedule = makeTitrationSchedule({
+        basePrescription: makeBasePrescription({ lagTime: 2 }),
+      })
+      const points = accumulateScheduleDoses(schedule, 0, 24)
+      // First dose at 09:00, absorption starts at 11:00
+      expect(points.find(p => p.time === 10.75)!.concentration).toBe(0)
+      expect(points.find(p => p.time === 12)!.concentration).toBeGreaterThan(0)
+    })
+  })
+
+  describe('Michaelis-Menten elimination', () => {
+    it('integrates the schedule numerically for saturable elimination', () => {
+      const linear = makeTitrationSchedule({ basePrescription: makeBasePrescription({ dose: 300 }) })
+      const saturable = makeTitrationSchedule({
+        basePrescription: makeBasePrescription({
+          dose: 300,
+          eliminationModel: 'michaelis-menten',
+          vmax: 20,
+          km: 4,
+          volumeOfDistribution: 50,
+        }),
+      })
+      const linearPoints = accumulateScheduleDoses(linear, 0, 336, 60)
+      const saturablePoints = accumulateScheduleDoses(saturable, 0, 336, 60)
+
+      expect(Math.max(...saturablePoints.map(p => p.concentration))).toBeCloseTo(1.0, 5)
+      expect(saturablePoints).not.toEqual(linearPoints)
+    })
+  })
+
+  describe('accumulateScheduleMetaboliteDoses', () => {
+    const withMetabolite = (schedule: DosageSchedule, level = 0.8): DosageSchedule => ({
+      ...schedule,
+      basePrescription: { ...schedule.basePrescription, metaboliteLife: 11, relativeMetaboliteLevel: level },
+    })
+
+    it('returns empty array without metabolite parameters', () => {
+      expect(accumulateScheduleMetaboliteDoses(makeTaperSchedule(), 0, 24 * 21)).toEqual([])
+    })
+
+    it('shares the parent curve\'s time grid', () => {
+      const schedule = withMetabolite(makeTaperSchedule())
+      const parent = accumulateScheduleDoses(schedule, 0, 24 * 21)
+      const metabolite = accumulateScheduleMetaboliteDoses(schedule, 0, 24 * 21)
+      expect(metabolite.map(p => p.time)).toEqual(parent.map(p => p.time))
+    })
+
+    it('scales the peak to relativeMetaboliteLevel', () => {
+      const result = accumulateScheduleMetaboliteDoses(withMetabolite(makeTitrationSchedule(), 1.5), 0, 24 * 14)
+      expect(Math.max(...result.map(p => p.concentration))).toBeCloseTo(1.5, 5)
+    })
+
+    it('follows the step doses down a taper', () => {
+      const result = accumulateScheduleMetaboliteDoses(withMetabolite(makeTaperSchedule()), 0, 24 * 21)
+      const at = (hours: number) => result.find(p => p.time === hours)!.concentration
+      // Just before each step change: 100mg, 50mg and 25mg steady state
+      expect(at(24 * 7 - 1)).toBeGreaterThan(at(24 * 14 - 1))
+      expect(at(24 * 14 - 1)).toBeGreaterThan(at(24 * 21 - 1))
+      expect(at(24 * 14 - 1) / at(24 * 7 - 1)).toBeCloseTo(0.5, 1)
+    })
+  })
+
+  describe('calculateCrossTaperCurves', () => {
+    const crossTaper = {
+      name: 'Switch',
+      fromSchedule: makeTaperSchedule(),
+      toSchedule: makeTitrationSchedule(),
+      offsetDays: 7,
+    }
+
+    it('returns three curves on the same time grid', () => {
+      const { from, to, total } = calculateCrossTaperCurves(crossTaper, 0, 720, 60)
+      expect(to).toHaveLength(from.length)
+      expect(total).toHaveLength(from.length)
+      expect(to.map(p => p.time)).toEqual(from.map(p => p.time))
+    })
+
+    it('keeps the second drug at zero until its start offset', () => {
+      const { to } = calculateCrossTaperCurves(crossTaper, 0, 720, 60)
+      const firstDose = 7 * 24 + 9
+      expect(to.filter(p => p.time <= firstDose).every(p => p.concentration === 0)).toBe(true)
+      expect(to.some(p => p.time > firstDose && p.concentration > 0)).toBe(true)
+    })
+
+    it('matches the unshifted schedule curve moved by the offset', () => {
+      const { to } = calculateCrossTaperCurves(crossTaper, 0, 720, 60)
+      const unshifted = accumulateScheduleDoses(makeTitrationSchedule(), 0, 720 - 168, 60)
+      expect(to[168 + 100]!.concentration).toBeCloseTo(unshifted[100]!.concentration, 10)
+    })
+
+    it('sums the two normalized curves into the total', () => {
+      const { from, to, total } = calculateCrossTaperCurves(crossTaper, 0, 720, 60)
+      total.forEach((p, i) => {
+        expect(p.concentration).toBeCloseTo(from[i]!.concentration + to[i]!.concentration, 10)
+      })
+      expect(Math.max(...from.map(p => p.concentration))).toBeCloseTo(1.0, 5)
+      expect(Math.max(...to.map(p => p.concentration))).toBeCloseTo(1.0, 5)
+    })
+  })
+
+  describe('calculateScheduleStepLevels', () => {
+    it('reports trough and peak over each step\'s final day, relative to the schedule peak', () => {
+      const [step1, step2] = calculateScheduleStepLevels(makeTitrationSchedule())
+
+      expect(step2!.peak).toBeCloseTo(1.0, 5)
+      // Linear kinetics: doubling the dose doubles the attained levels
+      expect(step1!.peak).toBeCloseTo(0.5, 2)
+      expect(step1!.trough).toBeCloseTo(step2!.trough / 2, 2)
+      expect(step1!.trough).toBeLessThan(step1!.average)
+      expect(step1!.average).toBeLessThan(step1!.peak)
+    })
+
+    it('marks steps long enough for ~5 half-lives as reaching steady state', () => {
+      const levels = calculateScheduleStepLevels(makeTitrationSchedule())
+      expect(levels.map(l => l.reachedSteadyState)).toEqual([true, true])
+      expect(levels[1]!.fractionOfSteadyState).toBeCloseTo(1, 2)
+    })
+
+    it('reports short steps of a long half-life drug as not reaching steady state', () => {
+      const levels = calculateScheduleStepLevels(
+        makeTitrationSchedule({ basePrescription: makeBasePrescription({ halfLife: 96 }) }),
+      )
+      expect(levels[0]!.reachedSteadyState).toBe(false)
+      expect(levels[0]!.fractionOfSteadyState).toBeLessThan(0.9)
+      expect(levels[0]!.steadyStateTime).toBeNull()
+    })
+
+    it('times steady state by the first day within the step that averages within tolerance', () => {
+      const [step1, step2] = calculateScheduleStepLevels(makeTitrationSchedule())
+      // Each time is the end of a 24-hour window that lies inside its step
+      expect(step1!.steadyStateTime).toBeGreaterThanOrEqual(24)
+      expect(step1!.steadyStateTime).toBeLessThan(168)
+      expect(step2!.steadyStateTime).toBeGreaterThanOrEqual(192)
+      expect(step2!.steadyStateTime).toBeLessThan(336)
+    })
+
+    it('measures tapers that have not yet fallen to the lower steady state from above', () => {
+      const taper = makeTaperSchedule()
+      taper.basePrescription.halfLife = 72
+      const levels = calculateScheduleStepLevels(taper)
+      expect(levels[1]!.reachedSteadyState).toBe(false)
+      expect(levels[1]!.fractionOfSteadyState).toBeGreaterThan(1.1)
+    })
+
+    it('reports the percent change in average level from the previous step', () => {
+      const levels = calculateScheduleStepLevels(makeTaperSchedule())
+      expect(levels[0]!.changeFromPrevious).toBeNull()
+      expect(levels[1]!.changeFromPrevious).toBeCloseTo(-50, 0)
+      expect(levels[2]!.changeFromPrevious).toBeCloseTo(-50, 0)
+    })
+
+    it('returns no levels for a schedule without doses', () => {
+      expect(calculateScheduleStepLevels(makeTitrationSchedule({ steps: [] }))).toEqual([])
+    })
+  })
 })
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import type { Prescription } from '../../models/prescription'
+import { calculateSteadyStateMetrics, generateSteadyStateData } from '../steadyState'
+import { calculatePrescriptionConcentration } from '../pkCalculator'
+import { BID_MULTI_DOSE_FIXTURE, IBUPROFEN_FIXTURE, TWO_COMPARTMENT_FIXTURE } from '../../models/__tests__/fixtures'
+
+/**
+ * Helper: brute-force steady state by superposing many prior doses.
+ * Returns max/min over one interval in raw (dose) units.
+ */
+function bruteForceSteadyState(rx: Prescription, tau: number): { max: number; min: number } {
+  let max = -Infinity
+  let min = Infinity
+  for (let i = 0; i <= 400; i++) {
+    const t = (i / 400) * tau
+    let total = 0
+    for (let k = 0; k < 400; k++) {
+      total += calculatePrescriptionConcentration(t + k * tau, rx.dose, rx)
+    }
+    max = Math.max(max, total)
+    min = Math.min(min, total)
+  }
+  return { max, min }
+}
+
+/** Vd = 1 L makes mg/L output equal to the raw superposition amount */
+function withUnitVolume(rx: Prescription): Prescription {
+  return { ...rx, volumeOfDistribution: 1 }
+}
+
+describe('calculateSteadyStateMetrics', () => {
+  it('uses 24 / doses per day as the dosing interval', () => {
+    expect(calculateSteadyStateMetrics(BID_MULTI_DOSE_FIXTURE)!.dosingInterval).toBe(12)
+    expect(calculateSteadyStateMetrics(IBUPROFEN_FIXTURE)!.dosingInterval).toBe(8)
+  })
+
+  it('flags unevenly spaced dose times', () => {
+    expect(calculateSteadyStateMetrics(BID_MULTI_DOSE_FIXTURE)!.evenlySpaced).toBe(true)
+    // TID at 08:00, 14:00, 20:00 leaves a 12-hour overnight gap
+    expect(calculateSteadyStateMetrics(IBUPROFEN_FIXTURE)!.evenlySpaced).toBe(false)
+  })
+
+  it('scales relative values so Css,max = 1.0 without a volume of distribution', () => {
+    const metrics = calculateSteadyStateMetrics(BID_MULTI_DOSE_FIXTURE)!
+    expect(metrics.unit).toBe('relative')
+    expect(metrics.cssMax).toBeCloseTo(1, 10)
+    expect(metrics.cssMin).toBeLessThan(metrics.cssAvg)
+    expect(metrics.cssAvg).toBeLessThan(metrics.cssMax)
+  })
+
+  it('matches the classic accumulation ratio and time to 90%', () => {
+    const metrics = calculateSteadyStateMetrics(BID_MULTI_DOSE_FIXTURE)!
+    // halfLife 6h, tau 12h → R = 1 / (1 - 0.25)
+    expect(metrics.accumulationRatio).toBeCloseTo(4 / 3, 10)
+    expect(metrics.timeTo90Percent).toBeCloseTo(6 * Math.log2(10), 10)
+  })
+
+  it('gives Css,avg = Dose / (ke · tau) in dose units per litre', () => {
+    const metrics = calculateSteadyStateMetrics(withUnitVolume(BID_MULTI_DOSE_FIXTURE))!
+    const ke = Math.LN2 / 6
+    expect(metrics.unit).toBe('mg/L')
+    expect(metrics.cssAvg).toBeCloseTo(500 / (ke * 12), 6)
+  })
+
+  it('computes fluctuation from the peak-trough swing', () => {
+    const metrics = calculateSteadyStateMetrics(BID_MULTI_DOSE_FIXTURE)!
+    const expected = ((metrics.cssMax - metrics.cssMin) / metrics.cssAvg) * 100
+    expect(metrics.fluctuationPercent).toBeCloseTo(expected, 8)
+  })
+
+  it.each<[string, Prescription]>([
+    ['oral first-order', BID_MULTI_DOSE_FIXTURE],
+    ['oral with lag time', { ...BID_MULTI_DOSE_FIXTURE, lagTime: 1.5 }],
+    ['two-compartment', TWO_COMPARTMENT_FIXTURE],
+    ['IV bolus', { ...BID_MULTI_DOSE_FIXTURE, route: 'iv-bolus' }],
+    ['IV infusion', { ...BID_MULTI_DOSE_FIXTURE, route: 'iv-infusion', infusionDuration: 2 }],
+    ['zero-order longer than tau', { ...BID_MULTI_DOSE_FIXTURE, absorptionModel: 'zero-order', releaseDuration: 18 }],
+    ['IR + ER', { ...BID_MULTI_DOSE_FIXTURE, absorptionModel: 'ir-er', releaseDuration: 8, erFraction: 0.6 }],
+    ['ka ≈ ke fallback', { ...BID_MULTI_DOSE_FIXTURE, peak: 1 / (Math.LN2 / 6) }],
+  ])('matches brute-force superposition (%s)', (_label, rx) => {
+    const metrics = calculateSteadyStateMetrics(withUnitVolume(rx))!
+    const expected = bruteForceSteadyState(rx, metrics.dosingInterval)
+    expect(metrics.cssMax).toBeCloseTo(expected.max, 0)
+    expect(metrics.cssMin).toBeCloseTo(expected.min, 0)
+  })
+
+  it('returns null for Michaelis–Menten elimination', () => {
+    const rx: Prescription = {
+      ...BID_MULTI_DOSE_FIXTURE,
+      eliminationModel: 'michaelis-menten',
+      vmax: 20,
+      km: 4,
+      volumeOfDistribution: 50,
+    }
+    expect(calculateSteadyStateMetrics(rx)).toBeNull()
+  })
+
+  it('uses the average of per-time doses', () => {
+    const withVd = { ...BID_MULTI_DOSE_FIXTURE, volumeOfDistribution: 40 }
+    const uneven = calculateSteadyStateMetrics({ ...withVd, dose: 999, timeDoses: [600, 200] })!
+    const even = calculateSteadyStateMetrics({ ...withVd, dose: 400 })!
+    expect(uneven.cssAvg).toBeCloseTo(even.cssAvg, 10)
+  })
+
+  it('spreads the dosing interval over multi-day cycles', () => {
+    const daily = { ...BID_MULTI_DOSE_FIXTURE, times: ['09:00'] }
+    expect(calculateSteadyStateMetrics({ ...daily, frequency: 'weekly' })!.dosingInterval).toBe(168)
+    expect(calculateSteadyStateMetrics({ ...daily, frequency: 'every-n-days', dayInterval: 3 })!.dosingInterval).toBe(72)
+    const weekdays = calculateSteadyStateMetrics({ ...daily, frequency: 'days-of-week', daysOfWeek: [1, 4] })!
+    expect(weekdays.dosingInterval).toBe(84)
+    // Monday/Thursday leaves a 3-day and a 4-day gap
+    expect(weekdays.evenlySpaced).toBe(false)
+  })
+
+  it('returns null when there are no dose times', () => {
+    expect(calculateSteadyStateMetrics({ ...BID_MULTI_DOSE_FIXTURE, times: [] })).toBeNull()
+  })
+})
+
+describe('generateSteadyStateData', () => {
+  it('skips prescriptions without a closed-form solution', () => {
+    const saturable: Prescription = {
+      ...IBUPROFEN_FIXTURE,
+      eliminationModel: 'michaelis-menten',
+      vmax: 20,
+      km: 4,
+      volumeOfDistribution: 50,
+    }
+    const data = generateSteadyStateData([BID_MULTI_DOSE_FIXTURE, saturable])
+    expect(data).toHaveLength(1)
+    expect(data[0]!.prescriptionName).toBe(BID_MULTI_DOSE_FIXTURE.name)
+  })
+})
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest'
+import type { TaperGeneratorOptions } from '../taperGenerator'
+import { generateTaperSteps, validateTaperOptions, MAX_GENERATED_STEPS } from '../taperGenerator'
+import { validateDosageSchedule } from '../../models/dosageSchedule'
+
+function makeOptions(overrides: Partial<TaperGeneratorOptions> = {}): TaperGeneratorOptions {
+  return {
+    startDose: 100,
+    targetDose: 10,
+    rule: 'percentage',
+    reduction: 50,
+    stepDays: 14,
+    ...overrides,
+  }
+}
+
+const doses = (options: TaperGeneratorOptions) => generateTaperSteps(options).map(s => s.dose)
+
+describe('generateTaperSteps', () => {
+  it('subtracts a fixed amount each step for fixed-mg tapers', () => {
+    const steps = generateTaperSteps(
+      makeOptions({ rule: 'fixed-mg', startDose: 40, reduction: 10, stepDays: 7 }),
+    )
+    expect(steps.map(s => s.dose)).toEqual([40, 30, 20, 10])
+    expect(steps.map(s => s.startDay)).toEqual([0, 7, 14, 21])
+    expect(steps.map(s => s.stepNumber)).toEqual([1, 2, 3, 4])
+    expect(steps.every(s => s.durationDays === 7)).toBe(true)
+  })
+
+  it('removes a percentage of the current dose and ends on the target', () => {
+    expect(doses(makeOptions())).toEqual([100, 50, 25, 12.5, 10])
+  })
+
+  it('clamps an overshooting fixed-mg step to the target dose', () => {
+    expect(doses(makeOptions({ rule: 'fixed-mg', startDose: 45, reduction: 20 }))).toEqual([
+      45, 25, 10,
+    ])
+  })
+
+  it('drops equal occupancy per step for hyperbolic tapers, so mg cuts shrink', () => {
+    const result = doses(
+      makeOptions({
+        rule: 'hyperbolic',
+        startDose: 20,
+        targetDose: 0.5,
+        reduction: 25,
+        halfOccupancyDose: 10,
+      }),
+    )
+    expect(result).toEqual([20, 7.1, 2, 0.5])
+
+    const cuts = result.slice(1).map((dose, i) => result[i]! - dose)
+    expect(cuts[0]!).toBeGreaterThan(cuts[1]!)
+    expect(cuts[1]!).toBeGreaterThan(cuts[2]!)
+  })
+
+  it('rounds doses to the requested increment without repeating a dose', () => {
+    expect(doses(makeOptions({ reduction: 30, roundTo: 5 }))).toEqual([
+      100, 70, 50, 35, 25, 15, 10,
+    ])
+  })
+
+  it('produces steps that form a valid taper schedule', () => {
+    const steps = generateTaperSteps(makeOptions())
+    const result = validateDosageSchedule({
+      name: 'Generated',
+      direction: 'taper',
+      basePrescription: {
+        name: 'Generated',
+        frequency: 'qd',
+        times: ['09:00'],
+        dose: steps[0]!.dose,
+        halfLife: 6,
+        peak: 2,
+        uptake: 1.5,
+      },
+      steps,
+      totalDuration: steps.length * 14,
+    })
+    expect(result.errors).toEqual([])
+  })
+
+  it('returns no steps for invalid options', () => {
+    expect(generateTaperSteps(makeOptions({ targetDose: 200 }))).toEqual([])
+  })
+})
+
+describe('validateTaperOptions', () => {
+  it('accepts valid options', () => {
+    expect(validateTaperOptions(makeOptions())).toEqual([])
+  })
+
+  it('requires a target below the start dose', () => {
+    expect(validateTaperOptions(makeOptions({ targetDose: 100 }))).toContain(
+      'Target dose must be lower than the start dose',
+    )
+  })
+
+  it('requires a positive target dose', () => {
+    expect(validateTaperOptions(makeOptions({ targetDose: 0 }))).toContain(
+      'Target dose must be greater than 0 (it is the last dose before stopping)',
+    )
+  })
+
+  it('rejects a percentage reduction of 100% or more', () => {
+    expect(validateTaperOptions(makeOptions({ reduction: 100 }))).toContain(
+      'Percentage reduction must be less than 100%',
+    )
+  })
+
+  it('requires a whole number of days per step', () => {
+    expect(validateTaperOptions(makeOptions({ stepDays: 1.5 }))).toContain(
+      'Step length must be a whole number of days (at least 1)',
+    )
+  })
+
+  it('requires the 50% occupancy dose for hyperbolic tapers', () => {
+    expect(validateTaperOptions(makeOptions({ rule: 'hyperbolic' }))).toContain(
+      'Hyperbolic tapers need the dose giving 50% receptor occupancy (greater than 0)',
+    )
+  })
+
+  it('rejects rules that would produce too many steps', () => {
+    const errors = validateTaperOptions(
+      makeOptions({ rule: 'fixed-mg', startDose: 1000, targetDose: 1, reduction: 1 }),
+    )
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toContain(`more than ${MAX_GENERATED_STEPS} steps`)
+  })
+})
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import type { TimeSeriesPoint } from '../../models/prescription'
+import {
+  getTherapeuticWindow,
+  getTherapeuticWindowUnit,
+  getTherapeuticWindowCurve,
+  findThresholdCrossings,
+  calculateTimeInRange,
+  calculateTimeInRangeStats,
+  generateTimeInRangeData,
+} from '../therapeuticWindow'
+import { BID_MULTI_DOSE_FIXTURE, SINGLE_DOSE_FIXTURE } from '../../models/__tests__/fixtures'
+
+/** 0 → 1 → 0 over four hours */
+const TRIANGLE: TimeSeriesPoint[] = [
+  { time: 0, concentration: 0 },
+  { time: 2, concentration: 1 },
+  { time: 4, concentration: 0 },
+]
+
+describe('getTherapeuticWindow', () => {
+  it('returns null without bounds', () => {
+    expect(getTherapeuticWindow(BID_MULTI_DOSE_FIXTURE)).toBeNull()
+  })
+
+  it('returns only the bounds that are set', () => {
+    expect(getTherapeuticWindow({ ...BID_MULTI_DOSE_FIXTURE, minEffectiveConcentration: 0.3 })).toEqual({ min: 0.3 })
+    expect(
+      getTherapeuticWindow({ ...BID_MULTI_DOSE_FIXTURE, minEffectiveConcentration: 0.3, toxicConcentration: 0.9 }),
+    ).toEqual({ min: 0.3, max: 0.9 })
+  })
+})
+
+describe('getTherapeuticWindowUnit / getTherapeuticWindowCurve', () => {
+  it('uses relative units and the normalized curve without Vd', () => {
+    expect(getTherapeuticWindowUnit(BID_MULTI_DOSE_FIXTURE)).toBe('relative')
+    const curve = getTherapeuticWindowCurve(BID_MULTI_DOSE_FIXTURE, 0, 48)
+    expect(Math.max(...curve.map((p) => p.concentration))).toBeCloseTo(1, 10)
+  })
+
+  it('uses mg/L with Vd', () => {
+    const rx = { ...BID_MULTI_DOSE_FIXTURE, volumeOfDistribution: 50 }
+    expect(getTherapeuticWindowUnit(rx)).toBe('mg/L')
+    const curve = getTherapeuticWindowCurve(rx, 0, 48)
+    expect(Math.max(...curve.map((p) => p.concentration))).toBeGreaterThan(1)
+  })
+})
+
+describe('findThresholdCrossings', () => {
+  it('interpolates rising and falling crossings', () => {
+    expect(findThresholdCrossings(TRIANGLE, 0.5)).toEqual([
+      { time: 1, direction: 'rising' },
+      { time: 3, direction: 'falling' },
+    ])
+  })
+
+  it('returns no crossings when the threshold is never reached', () => {
+    expect(findThresholdCrossings(TRIANGLE, 1)).toEqual([])
+    expect(findThresholdCrossings([], 0.5)).toEqual([])
+  })
+})
+
+describe('calculateTimeInRange', () => {
+  it('splits time below, within and above the window', () => {
+    // Below 0.25 for 1h, above 0.75 for 1h, within for 2h
+    const result = calculateTimeInRange(TRIANGLE, { min: 0.25, max: 0.75 })
+    expect(result.percentBelow).toBeCloseTo(25, 10)
+    expect(result.percentWithin).toBeCloseTo(50, 10)
+    expect(result.percentAbove).toBeCloseTo(25, 10)
+  })
+
+  it('treats a missing bound as open', () => {
+    const minOnly = calculateTimeInRange(TRIANGLE, { min: 0.5 })
+    expect(minOnly.percentAbove).toBe(0)
+    expect(minOnly.percentWithin).toBeCloseTo(50, 10)
+
+    const maxOnly = calculateTimeInRange(TRIANGLE, { max: 0.5 })
+    expect(maxOnly.percentBelow).toBe(0)
+    expect(maxOnly.percentWithin).toBeCloseTo(50, 10)
+  })
+
+  it('returns zeros for a curve without duration', () => {
+    expect(calculateTimeInRange([{ time: 0, concentration: 1 }], { min: 0.5 })).toEqual({
+      percentBelow: 0,
+      percentWithin: 0,
+      percentAbove: 0,
+    })
+  })
+})
+
+describe('calculateTimeInRangeStats', () => {
+  it('returns null without a therapeutic window', () => {
+    expect(calculateTimeInRangeStats(BID_MULTI_DOSE_FIXTURE, 0, 48)).toBeNull()
+  })
+
+  it('reports percentages that add up to 100', () => {
+    const rx = { ...BID_MULTI_DOSE_FIXTURE, id: 'rx-1', minEffectiveConcentration: 0.4, toxicConcentration: 0.9 }
+    const stats = calculateTimeInRangeStats(rx, 0, 48)!
+    expect(stats.prescriptionId).toBe('rx-1')
+    expect(stats.prescriptionName).toBe(rx.name)
+    expect(stats.unit).toBe('relative')
+    expect(stats.window).toEqual({ min: 0.4, max: 0.9 })
+    expect(stats.percentBelow + stats.percentWithin + stats.percentAbove).toBeCloseTo(100, 8)
+    expect(stats.percentWithin).toBeGreaterThan(0)
+    expect(stats.percentAbove).toBeGreaterThan(0)
+  })
+
+  it('compares mg/L thresholds against the mg/L curve', () => {
+    const rx = { ...SINGLE_DOSE_FIXTURE, volumeOfDistribution: 50, toxicConcentration: 10000 }
+    const stats = calculateTimeInRangeStats(rx, 0, 48)!
+    expect(stats.unit).toBe('mg/L')
+    expect(stats.percentAbove).toBe(0)
+  })
+})
+
+describe('generateTimeInRangeData', () => {
+  it('skips prescriptions without a therapeutic window', () => {
+    const withWindow = { ...BID_MULTI_DOSE_FIXTURE, name: 'With', minEffectiveConcentration: 0.5 }
+    const data = generateTimeInRangeData([BID_MULTI_DOSE_FIXTURE, withWindow], 0, 48)
+    expect(data).toHaveLength(1)
+    expect(data[0]!.prescriptionName).toBe('With')
+  })
+})
@@ -0,0 +1,120 @@
+/**
+ * Dose Log Curves
+ *
+ * Concentration curves estimated from the doses actually taken (DoseLogEntry
+ * records) rather than the prescription's regular dosing grid. Logged timestamps
+ * are placed on the graph's time axis as hours from local midnight of the day of
+ * the earliest logged dose, the same hours-from-midnight axis used when
+ * prescriptions are simulated from their HH:MM dosing times.
+ */
+
+import type { ConcentrationMode, GraphDataset, Prescription, TimeSeriesPoint } from '../models/prescription'
+import type { DoseLogEntry } from '../models/doseLog'
+import type { DoseEvent } from './scheduleCalculator'
+import { accumulateDoseEvents } from './multiDose'
+import { getAbsoluteConcentrationFactor } from './pkCalculator'
+import { logWarn } from '../utils/logger'
+
+// ─── Constants ───
+
+const MS_PER_HOUR = 60 * 60 * 1000
+
+// ─── Exported Functions ───
+
+/**
+ * Time origin of the graph axis for a set of logged doses.
+ * @param entries - Logged doses (any order)
+ * @returns Epoch milliseconds of local midnight on the day of the earliest valid entry, or null when there is none
+ */
+export function getDoseLogOrigin(entries: DoseLogEntry[]): number | null {
+  const times = entries.map((e) => Date.parse(e.takenAt)).filter((t) => !isNaN(t))
+  if (times.length === 0) return null
+
+  const midnight = new Date(Math.min(...times))
+  midnight.setHours(0, 0, 0, 0)
+  return midnight.getTime()
+}
+
+/**
+ * Convert logged doses to dose events on the graph's time axis.
+ * Entries with an unparseable timestamp are skipped.
+ * @param entries - Logged doses (any order)
+ * @param origin - Axis origin in epoch milliseconds (see getDoseLogOrigin)
+ * @returns Dose events in hours from the origin, sorted by time
+ */
+export function doseLogToEvents(entries: DoseLogEntry[], origin: number): DoseEvent[] {
+  return entries
+    .map((e) => ({ time: (Date.parse(e.takenAt) - origin) / MS_PER_HOUR, dose: e.dose }))
+    .filter((e) => !isNaN(e.time))
+    .sort((a, b) => a.time - b.time)
+}
+
+/**
+ * Calculate the concentration curve for a prescription's logged doses.
+ * @param rx - Prescription providing the pharmacokinetic parameters
+ * @param entries - Doses logged for the prescription
+ * @param origin - Axis origin in epoch milliseconds (see getDoseLogOrigin)
+ * @param startHours - Simulation start time in hours from the origin
+ * @param endHours - Simulation end time in hours from the origin
+ * @param intervalMinutes - Time step resolution (default 15 min)
+ * @param mode - 'normalized' (default, peak = 1.0) or 'absolute' (mg/L)
+ * @returns Array of TimeSeriesPoint
+ */
+export function accumulateLoggedDoses(
+  rx: Prescription,
+  entries: DoseLogEntry[],
+  origin: number,
+  startHours: number,
+  endHours: number,
+  intervalMinutes: number = 15,
+  mode: ConcentrationMode = 'normalized',
+): TimeSeriesPoint[] {
+  return accumulateDoseEvents(rx, doseLogToEvents(entries, origin), startHours, endHours, intervalMinutes, mode)
+}
+
+/**
+ * Format prescriptions' logged doses into graph-ready datasets.
+ *
+ * Prescriptions without a saved ID or without logged doses are left out, as are
+ * prescriptions without a volume of distribution in absolute mode.
+ *
+ * @param prescriptions - Prescriptions to visualize
+ * @param entriesByPrescription - Logged doses keyed by prescription ID
+ * @param origin - Axis origin in epoch milliseconds (see getDoseLogOrigin)
+ * @param startHours - Simulation start time in hours from the origin
+ * @param endHours - Simulation end time in hours from the origin
+ * @param mode - 'normalized' (default, peak = 1.0) or 'absolute' (mg/L)
+ * @returns One GraphDataset per prescription with logged doses, labelled "name (dose log)"
+ */
+export function getDoseLogGraphData(
+  prescriptions: Prescription[],
+  entriesByPrescription: Record<string, DoseLogEntry[]>,
+  origin: number,
+  startHours: number,
+  endHours: number,
+  mode: ConcentrationMode = 'normalized',
+): GraphDataset[] {
+  const datasets: GraphDataset[] = []
+
+  for (const rx of prescriptions) {
+    const entries = rx.id ? (entriesByPrescription[rx.id] ?? []) : []
+    if (entries.length === 0) continue
+
+    if (mode === 'absolute' && getAbsoluteConcentrationFactor(rx) === null) {
+      logWarn('doseLog.getDoseLogGraphData', 'Skipping prescription without volumeOfDistribution in absolute mode', {
+        name: rx.name,
+      })
+      continue
+    }
+
+    const events = doseLogToEvents(entries, origin)
+    datasets.push({
+      label: `${rx.name} (dose log)`,
+      data: accumulateDoseEvents(rx, events, startHours, endHours, 15, mode),
+      isMetabolite: false,
+      doseTimes: events.map((e) => e.time),
+    })
+  }
+
+  return datasets
+}
@@ -0,0 +1,213 @@
+/**
+ * Exposure Statistics
+ *
+ * Area under the curve and time-above-threshold computed from the sampled
+ * TimeSeriesPoint[] produced by accumulateDoses() and accumulateScheduleDoses().
+ * Working from the sampled curve keeps these functions model-agnostic: they give
+ * the same answers for one- and two-compartment, zero-order and Michaelis–Menten
+ * curves, in whatever unit the curve was produced (normalized or mg/L).
+ *
+ * AUC uses the linear trapezoidal rule with linear interpolation at window
+ * boundaries. AUC(0–∞) adds C_last / λz, where λz is either supplied or fitted by
+ * log-linear regression on the terminal decline after the last dose.
+ */
+
+import type { TimeSeriesPoint } from '../models/prescription'
+import type { AucInterval, ExposureStats } from '../models/exposure'
+
+// ─── Constants ───
+
+/** Minimum number of positive terminal points required for a log-linear fit */
+const MIN_TERMINAL_POINTS = 3
+
+// ─── Internal Helpers ───
+
+/** Linearly interpolate the concentration at time t between two points */
+function interpolate(a: TimeSeriesPoint, b: TimeSeriesPoint, t: number): number {
+  if (b.time === a.time) return a.concentration
+  return a.concentration + ((b.concentration - a.concentration) * (t - a.time)) / (b.time - a.time)
+}
+
+// ─── Exported Functions ───
+
+/**
+ * Calculate the area under the curve with the linear trapezoidal rule.
+ *
+ * The window is clipped to the sampled range; partial segments at the window
+ * edges are interpolated linearly.
+ *
+ * @param points - Concentration curve sorted by time
+ * @param startTime - Window start in hours (defaults to the first point)
+ * @param endTime - Window end in hours (defaults to the last point)
+ * @returns AUC in concentration × hours (0 for fewer than two points or an empty window)
+ */
+export function calculateAuc(points: TimeSeriesPoint[], startTime?: number, endTime?: number): number {
+  if (points.length < 2) return 0
+
+  const from = Math.max(startTime ?? points[0]!.time, points[0]!.time)
+  const to = Math.min(endTime ?? points[points.length - 1]!.time, points[points.length - 1]!.time)
+  if (to <= from) return 0
+
+  let auc = 0
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1]!
+    const b = points[i]!
+    if (b.time <= from || a.time >= to) continue
+
+    const t0 = Math.max(a.time, from)
+    const t1 = Math.min(b.time, to)
+    auc += ((interpolate(a, b, t0) + interpolate(a, b, t1)) / 2) * (t1 - t0)
+  }
+
+  return auc
+}
+
+/**
+ * Split the AUC into dosing intervals.
+ *
+ * Each interval runs from one dose time to the next; the last interval runs from
+ * the final dose to the end of the curve. Dose times outside the sampled range
+ * are ignored.
+ *
+ * @param points - Concentration curve sorted by time
+ * @param doseTimes - Dose administration times in hours
+ * @returns One AucInterval per dose within the curve, in time order
+ */
+export function calculateIntervalAucs(points: TimeSeriesPoint[], doseTimes: number[]): AucInterval[] {
+  if (points.length < 2) return []
+
+  const first = points[0]!.time
+  const last = points[points.length - 1]!.time
+  const times = [...new Set(doseTimes)]
+    .filter((t) => t >= first && t < last)
+    .sort((a, b) => a - b)
+
+  return times.map((start, i) => {
+    const end = times[i + 1] ?? last
+    return { start, end, auc: calculateAuc(points, start, end) }
+  })
+}
+
+/**
+ * Estimate the terminal elimination rate constant (λz) by log-linear regression.
+ *
+ * Uses the later half (at least three points) of the positive decline that follows
+ * the highest concentration at or after afterTime.
+ *
+ * @param points - Concentration curve sorted by time
+ * @param afterTime - Only consider points from this time on, e.g. the last dose (defaults to the whole curve)
+ * @returns λz in 1/h, or null when the curve has no usable terminal decline
+ */
+export function estimateTerminalRate(points: TimeSeriesPoint[], afterTime?: number): number | null {
+  const candidates = afterTime === undefined ? points : points.filter((p) => p.time >= afterTime)
+  if (candidates.length === 0) return null
+
+  let peakIndex = 0
+  for (let i = 1; i < candidates.length; i++) {
+    if (candidates[i]!.concentration > candidates[peakIndex]!.concentration) peakIndex = i
+  }
+
+  const decline = candidates.slice(peakIndex + 1).filter((p) => p.concentration > 0)
+  if (decline.length < MIN_TERMINAL_POINTS) return null
+
+  const terminal = decline.slice(-Math.max(MIN_TERMINAL_POINTS, Math.ceil(decline.length / 2)))
+  const n = terminal.length
+  const meanT = terminal.reduce((sum, p) => sum + p.time, 0) / n
+  const meanLogC = terminal.reduce((sum, p) => sum + Math.log(p.concentration), 0) / n
+
+  let sxy = 0
+  let sxx = 0
+  for (const p of terminal) {
+    sxy += (p.time - meanT) * (Math.log(p.concentration) - meanLogC)
+    sxx += (p.time - meanT) ** 2
+  }
+  if (sxx === 0) return null
+
+  const slope = sxy / sxx
+  return slope < 0 ? -slope : null
+}
+
+/**
+ * Extrapolate the AUC to infinity: AUC(0–t) + C_last / λz.
+ *
+ * @param points - Concentration curve sorted by time
+ * @param eliminationRate - Terminal rate constant in 1/h; fitted with estimateTerminalRate() when omitted
+ * @returns AUC(0–∞), or null when no positive rate is available
+ */
+export function calculateAucToInfinity(points: TimeSeriesPoint[], eliminationRate?: number): number | null {
+  if (points.length < 2) return null
+
+  const rate = eliminationRate ?? estimateTerminalRate(points)
+  if (rate === null || !(rate > 0)) return null
+
+  return calculateAuc(points) + points[points.length - 1]!.concentration / rate
+}
+
+/**
+ * Calculate the time the curve spends strictly above a concentration threshold.
+ *
+ * Threshold crossings between samples are located by linear interpolation.
+ *
+ * @param points - Concentration curve sorted by time
+ * @param threshold - Concentration threshold in the curve's unit
+ * @returns Hours above the threshold
+ */
+export function calculateTimeAboveThreshold(points: TimeSeriesPoint[], threshold: number): number {
+  let hours = 0
+
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1]!
+    const b = points[i]!
+    const aAbove = a.concentration > threshold
+    const bAbove = b.concentration > threshold
+    const dt = b.time - a.time
+
+    if (aAbove && bAbove) {
+      hours += dt
+    } else if (aAbove !== bAbove) {
+      const crossing = a.time + ((threshold - a.concentration) / (b.concentration - a.concentration)) * dt
+      hours += aAbove ? crossing - a.time : b.time - crossing
+    }
+  }
+
+  return hours
+}
+
+/**
+ * Calculate all exposure statistics for one curve.
+ *
+ * The terminal rate for AUC(0–∞) is fitted after the last dose time unless
+ * eliminationRate is given.
+ *
+ * @param label - Curve label shown in the stats table
+ * @param points - Concentration curve sorted by time
+ * @param options - Curve unit, dose times, threshold and optional known elimination rate
+ * @returns ExposureStats for the curve
+ */
+export function calculateExposureStats(
+  label: string,
+  points: TimeSeriesPoint[],
+  options: {
+    unit: ExposureStats['unit']
+    doseTimes: number[]
+    threshold: number
+    eliminationRate?: number
+  },
+): ExposureStats {
+  const { unit, doseTimes, threshold } = options
+  const lastDose = doseTimes.length > 0 ? Math.max(...doseTimes) : undefined
+  const aucLast = calculateAuc(points)
+  const rate = options.eliminationRate ?? estimateTerminalRate(points, lastDose)
+  const aucInfinity = rate !== null ? calculateAucToInfinity(points, rate) : null
+
+  return {
+    label,
+    unit,
+    aucLast,
+    aucIntervals: calculateIntervalAucs(points, doseTimes),
+    aucInfinity,
+    extrapolatedPercent: aucInfinity !== null && aucInfinity > 0 ? ((aucInfinity - aucLast) / aucInfinity) * 100 : null,
+    threshold,
+    timeAboveThreshold: calculateTimeAboveThreshold(points, threshold),
+  }
+}
@@ -1,14 +1,91 @@
 // Pharmacokinetic calculation functions
 export {
   calculateConcentration,
+  calculateTwoCompartmentConcentration,
+  calculateIvBolusConcentration,
+  calculateInfusionConcentration,
+  calculateZeroOrderConcentration,
+  getDoseInputSchedule,
+  getAbsorptionLag,
+  getAbsoluteConcentrationFactor,
+  calculatePrescriptionConcentration,
   calculateMetaboliteConcentration,
   deriveKaFromTmax,
   getPeakTime,
   ABSORPTION_CONSTANT,
 } from './pkCalculator'
 
-export { accumulateDoses, accumulateMetaboliteDoses, getGraphData, getLastDoseTime, calculateTailOffDuration, expandDoseTimes } from './multiDose'
+export {
+  accumulateDoses,
+  accumulateDoseEvents,
+  accumulateMetaboliteDoses,
+  accumulateMetaboliteDoseEvents,
+  getGraphData,
+  getLastDoseTime,
+  calculateTailOffDuration,
+  expandDoseTimes,
+  getScheduledDoseTimes,
+  getDosingCycleDays,
+  getDosingDayOffsets,
+  getStartOffsetHours,
+  getCycleOffPeriods,
+  getPrescriptionDoseTimes,
+  getPrescriptionDoseEvents,
+  applyDoseDeviations,
+  getScheduledDoseAmount,
+  getTimeOfDayDose,
+  isLoadingDoseIndex,
+  hasDoseDeviations,
+  canUseAbsoluteMode,
+} from './multiDose'
+export type { DosingDaysPattern } from './multiDose'
+
+export {
+  calculateMilestones,
+  generateSummaryData,
+  generateScheduleSummaryData,
+  formatElapsedTime,
+} from './pkMilestones'
+
+export {
+  expandScheduleDoses,
+  accumulateScheduleDoses,
+  accumulateScheduleMetaboliteDoses,
+  calculateCrossTaperCurves,
+  calculateScheduleStepLevels,
+  STEADY_STATE_TOLERANCE,
+} from './scheduleCalculator'
+export type { CrossTaperCurves, ScheduleStepLevels } from './scheduleCalculator'
+
+export { generateTaperSteps, validateTaperOptions, MAX_GENERATED_STEPS } from './taperGenerator'
+export type { TaperRule, TaperGeneratorOptions } from './taperGenerator'
 
-export { calculateMilestones, generateSummaryData, formatElapsedTime } from './pkMilestones'
+export { usesMichaelisMenten, simulateMichaelisMenten } from './nonlinearElimination'
 
-export { expandScheduleDoses, accumulateScheduleDoses } from './scheduleCalculator'
+export { calculateSteadyStateMetrics, generateSteadyStateData } from './steadyState'
+
+export {
+  calculateAuc,
+  calculateIntervalAucs,
+  estimateTerminalRate,
+  calculateAucToInfinity,
+  calculateTimeAboveThreshold,
+  calculateExposureStats,
+} from './exposure'
+
+export {
+  getTherapeuticWindow,
+  getTherapeuticWindowUnit,
+  getTherapeuticWindowCurve,
+  findThresholdCrossings,
+  calculateTimeInRange,
+  calculateTimeInRangeStats,
+  generateTimeInRangeData,
+} from './therapeuticWindow'
+
+export {
+  getDoseLogOrigin,
+  doseLogToEvents,
+  accumulateLoggedDoses,
+  getDoseLogGraphData,
+} from './doseLog'
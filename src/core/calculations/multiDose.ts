@@ -3,13 +3,41 @@
  *
  * Implements concentration calculations for repeated dosing schedules.
  * Core strategy:
- * 1. For each scheduled dose, call calculateConcentration() to get raw (unnormalized) contribution
+ * 1. For each scheduled dose, call calculatePrescriptionConcentration() to get raw (unnormalized) contribution
  * 2. Sum all contributions at each timepoint
- * 3. Normalize final curve so peak = 1.0
+ * 3. Normalize final curve so peak = 1.0 (or convert to mg/L in absolute mode)
+ *
+ * Dose deviations (skipped, delayed, early or doubled doses) replace the regular
+ * dose grid with the events actually taken; see applyDoseDeviations().
+ * Per-time doses (timeDoses) set the amount for each time of day, and an optional
+ * loading dose replaces the amount of the first scheduled dose(s); see getScheduledDoseAmount().
+ * Interval and weekday frequencies and on/off cycles dose only on some days; see expandDoseTimes().
+ * As-needed (prn) prescriptions are dosed at the times placed in prnDoseTimes.
+ * A start offset delays a prescription's whole schedule; see getStartOffsetHours().
  */
 
-import type { Prescription, TimeSeriesPoint, GraphDataset } from '../models/prescription'
-import { calculateConcentration, calculateMetaboliteConcentration, resetCalculationWarnings } from './pkCalculator'
+import type {
+  Prescription,
+  DosingCycle,
+  TimeRange,
+  TimeSeriesPoint,
+  GraphDataset,
+  ConcentrationMode,
+  TherapeuticWindow,
+  DoseDeviation,
+} from '../models/prescription'
+import { FREQUENCY_INTERVAL_DAYS } from '../models/prescription'
+import {
+  calculatePrescriptionConcentration,
+  calculateMetaboliteConcentration,
+  getDoseInputSchedule,
+  getAbsoluteConcentrationFactor,
+  resetCalculationWarnings,
+} from './pkCalculator'
+import { usesMichaelisMenten, simulateMichaelisMenten } from './nonlinearElimination'
+import type { DoseEvent } from './scheduleCalculator'
+import { logWarn } from '../utils/logger'
+import { getCalendarDate } from '../utils/timeFormat'
 
 /**
  * Convert HH:MM time string to hours from midnight
@@ -23,15 +51,87 @@ function timeStringToHours(time: string): number {
   return hours + minutes / 60
 }
 
+/** Prescription fields that decide which days of the simulation are dosing days */
+export type DosingDaysPattern = Pick<
+  Prescription,
+  'frequency' | 'dayInterval' | 'daysOfWeek' | 'cycle' | 'startDate' | 'startOffset' | 'startOffsetUnit'
+>
+
+/**
+ * Hours from midnight of day 1 until a prescription's own day 1 begins
+ *
+ * As-needed doses are placed at absolute times, so prn prescriptions are never offset.
+ *
+ * @param pattern - Prescription with an optional start offset
+ * @returns Offset in hours (0 without an offset)
+ */
+export function getStartOffsetHours(pattern: DosingDaysPattern): number {
+  if (pattern.frequency === 'prn' || typeof pattern.startOffset !== 'number' || !(pattern.startOffset > 0)) return 0
+  return pattern.startOffsetUnit === 'days' ? pattern.startOffset * 24 : pattern.startOffset
+}
+
+/**
+ * Length of the repeating dosing cycle in days
+ * @param pattern - Frequency with its day interval or weekdays
+ * @returns 1 for daily frequencies, the interval for qod/weekly/every-n-days, 7 for days-of-week
+ */
+export function getDosingCycleDays(pattern: DosingDaysPattern): number {
+  if (pattern.frequency === 'every-n-days') {
+    const interval = pattern.dayInterval
+    return typeof interval === 'number' && Number.isInteger(interval) && interval > 0 ? interval : 1
+  }
+  return FREQUENCY_INTERVAL_DAYS[pattern.frequency] ?? 1
+}
+
+/**
+ * Dosing days within one cycle, as day offsets from the start of the cycle
+ *
+ * For days-of-week the cycle starts on the weekday the prescription starts (the start
+ * date moved on by any start offset), or on the first listed weekday without a start date, so undated Monday and Thursday dosing gives offsets [0, 3]
+ * and the same days from a Wednesday start date give [1, 5]. Every other frequency
+ * doses on day 0 only.
+ *
+ * @param pattern - Frequency with its day interval or weekdays
+ * @returns Sorted day offsets in [0, getDosingCycleDays(pattern))
+ */
+export function getDosingDayOffsets(pattern: DosingDaysPattern): number[] {
+  if (pattern.frequency !== 'days-of-week' || !Array.isArray(pattern.daysOfWeek)) return [0]
+  const first = pattern.startDate
+    ? getCalendarDate(getStartOffsetHours(pattern), pattern.startDate).getUTCDay()
+    : pattern.daysOfWeek[0]
+  if (first === undefined) return [0]
+  const offsets = new Set(pattern.daysOfWeek.map((day) => (((day - first) % 7) + 7) % 7))
+  return [...offsets].sort((a, b) => a - b)
+}
+
+/**
+ * Whether a simulation day falls in the dosing part of an on/off cycle
+ * @param cycle - On/off cycle, or undefined for continuous dosing
+ * @param day - Day index from simulation start
+ * @returns false during off periods and after the last cycle
+ */
+function isCycleDosingDay(cycle: DosingCycle | undefined, day: number): boolean {
+  if (!cycle || !(cycle.daysOn > 0) || !(cycle.daysOff >= 0)) return true
+  const cycleLength = cycle.daysOn + cycle.daysOff
+  if (cycle.cycles !== undefined && day >= cycle.cycles * cycleLength) return false
+  return day % cycleLength < cycle.daysOn
+}
+
 /**
  * Generate dose administration times for a multi-day simulation
- * @param times - Array of HH:MM strings representing daily dosing times
+ * @param times - Array of HH:MM strings representing dosing times on each dosing day
  * @param numDays - Number of days to expand across
+ * @param pattern - Optional frequency pattern; non-dosing days (qod, weekly, every-n-days,
+ *                  days-of-week) and the off periods of an on/off cycle are skipped.
+ *                  Omitted means every day is a dosing day
  * @returns Sorted array of dose times in hours from simulation start
  */
-export function expandDoseTimes(times: string[], numDays: number): number[] {
+export function expandDoseTimes(times: string[], numDays: number, pattern?: DosingDaysPattern): number[] {
+  const cycleDays = pattern ? getDosingCycleDays(pattern) : 1
+  const offsets = pattern ? getDosingDayOffsets(pattern) : [0]
   const doseTimes: number[] = []
   for (let day = 0; day < numDays; day++) {
+    if (!offsets.includes(day % cycleDays) || !isCycleDosingDay(pattern?.cycle, day)) continue
     for (const t of times) {
       doseTimes.push(day * 24 + timeStringToHours(t))
     }
@@ -39,6 +139,24 @@ export function expandDoseTimes(times: string[], numDays: number): number[] {
   return doseTimes.sort((a, b) => a - b)
 }
 
+/**
+ * Dose times of a prescription over its first numDays days of dosing
+ *
+ * As-needed (prn) prescriptions use their placed prnDoseTimes; every other
+ * frequency expands its daily times with expandDoseTimes(), delayed by the start offset.
+ *
+ * @param prescription - Prescription with dose times and frequency
+ * @param numDays - Number of days to cover, counted from the prescription's own start
+ * @returns Sorted dose times in hours from simulation start
+ */
+export function getScheduledDoseTimes(prescription: Prescription, numDays: number): number[] {
+  if (prescription.frequency === 'prn') {
+    return (prescription.prnDoseTimes ?? []).filter((t) => t < numDays * 24).sort((a, b) => a - b)
+  }
+  const offset = getStartOffsetHours(prescription)
+  return expandDoseTimes(prescription.times ?? [], numDays, prescription).map((t) => t + offset)
+}
+
 /**
  * Calculate the last dose administration time for a prescription within a simulation window
  * @param prescription - Prescription with dose times and frequency
@@ -46,11 +164,11 @@ export function expandDoseTimes(times: string[], numDays: number): number[] {
  * @returns Time in hours of the last scheduled dose, or 0 if numDays is 0
  */
 export function getLastDoseTime(prescription: Prescription, numDays: number): number {
-  if (numDays <= 0 || !prescription.times || prescription.times.length === 0) {
+  if (numDays <= 0) {
     return 0
   }
 
-  const doseTimes = expandDoseTimes(prescription.times, numDays)
+  const doseTimes = getScheduledDoseTimes(prescription, numDays)
   return doseTimes.length > 0 ? Math.max(...doseTimes) : 0
 }
 
@@ -73,43 +191,254 @@ export function calculateTailOffDuration(halfLife: number, decayFactor: number =
 }
 
 /**
- * Calculate accumulated drug concentration over time from repeated doses
+ * End of the dosing window: startHours + start offset + duration, or endHours without a duration
+ */
+export function getDosingEndHours(prescription: Prescription, startHours: number, endHours: number): number {
+  if (prescription.duration === undefined || prescription.durationUnit === undefined) return endHours
+  const durationInHours =
+    prescription.durationUnit === 'days' ? prescription.duration * 24 : prescription.duration
+  return startHours + getStartOffsetHours(prescription) + durationInHours
+}
+
+/**
+ * Dose administration times for a prescription within a simulation window
  *
- * Strategy:
- * 1. Expand prescription times across simulation window
- * 2. For each timepoint in the simulation, sum raw contributions from all prior doses
- * 3. Normalize final curve so peak = 1.0
+ * Duration limits dosing only, not the observation window: without a duration,
+ * doses continue until endHours.
  *
- * @param prescription - Prescription with dose, frequency, times, halfLife, uptake (duration optional)
+ * @param prescription - Prescription with dose times (duration optional)
  * @param startHours - Simulation start time in hours from midnight
- * @param endHours - Simulation end time in hours from midnight (overridden by prescription.duration if present)
- * @param intervalMinutes - Time step resolution (default 15 min)
- * @returns Array of TimeSeriesPoint with normalized concentrations (peak = 1.0)
+ * @param endHours - Simulation end time in hours from midnight
+ * @returns Sorted dose times in hours, including doses before startHours that still contribute
  */
-export function accumulateDoses(
+export function getPrescriptionDoseTimes(prescription: Prescription, startHours: number, endHours: number): number[] {
+  const dosingEndHours = getDosingEndHours(prescription, startHours, endHours)
+
+  // Expand prescription times across the dosing window only
+  const numDays = Math.ceil(dosingEndHours / 24) + 1
+  return getScheduledDoseTimes(prescription, numDays).filter((t) => t < dosingEndHours)
+}
+
+/**
+ * Dose-free periods of a prescription's on/off cycle within a window
+ *
+ * Each off period runs from midnight after the last dosing day of a cycle to
+ * midnight before the next cycle starts. Periods are clipped to the window and
+ * to the dosing window (duration); nothing is reported after the last cycle.
+ *
+ * @param prescription - Prescription with an optional cycle
+ * @param startHours - Window start in hours from midnight of the first day
+ * @param endHours - Window end in hours from midnight of the first day
+ * @returns Off periods in time order; empty without a cycle
+ */
+export function getCycleOffPeriods(prescription: Prescription, startHours: number, endHours: number): TimeRange[] {
+  const cycle = prescription.cycle
+  if (!cycle || !(cycle.daysOn > 0) || !(cycle.daysOff > 0)) return []
+
+  const windowEnd = Math.min(endHours, getDosingEndHours(prescription, startHours, endHours))
+  const cycleHours = (cycle.daysOn + cycle.daysOff) * 24
+  const offset = getStartOffsetHours(prescription)
+  const periods: TimeRange[] = []
+  for (let index = 0; cycle.cycles === undefined || index < cycle.cycles; index++) {
+    const offStart = offset + index * cycleHours + cycle.daysOn * 24
+    if (offStart >= windowEnd) break
+    const start = Math.max(offStart, startHours)
+    const end = Math.min(offStart + cycle.daysOff * 24, windowEnd)
+    if (end > start) periods.push({ start, end })
+  }
+  return periods
+}
+
+/** Tolerance in hours when matching a dose time to a scheduled dose or time of day */
+const DOSE_TIME_TOLERANCE = 1e-6
+
+/**
+ * Maintenance dose given at a time of day
+ * @param prescription - Prescription with dose and times (timeDoses optional)
+ * @param doseTime - Dose time in hours from midnight of day 0, including any start offset
+ * @returns The timeDoses entry for the matching dosing time, otherwise dose
+ */
+export function getTimeOfDayDose(prescription: Prescription, doseTime: number): number {
+  if (!Array.isArray(prescription.timeDoses)) return prescription.dose
+
+  // Dose times include the start offset; the configured times are relative to the first dosing day
+  const dosingTime = doseTime - getStartOffsetHours(prescription)
+  const hourOfDay = ((dosingTime % 24) + 24) % 24
+  const index = prescription.times.findIndex(
+    (t) => Math.abs(timeStringToHours(t) - hourOfDay) < DOSE_TIME_TOLERANCE,
+  )
+  return prescription.timeDoses[index] ?? prescription.dose
+}
+
+/**
+ * Check whether a scheduled dose is given as the loading dose
+ * @param prescription - Prescription (loadingDose and loadingDoseCount optional)
+ * @param doseIndex - Zero-based position of the dose in the dosing schedule
+ * @returns true for the first loadingDoseCount doses (default 1) when a loading dose is set
+ */
+export function isLoadingDoseIndex(prescription: Prescription, doseIndex: number): boolean {
+  return typeof prescription.loadingDose === 'number' && doseIndex < (prescription.loadingDoseCount ?? 1)
+}
+
+/**
+ * Amount given at a scheduled dose, accounting for a loading dose and per-time doses
+ * @param prescription - Prescription with dose (loadingDose, loadingDoseCount and timeDoses optional)
+ * @param doseIndex - Zero-based position of the dose in the dosing schedule
+ * @param doseTime - Scheduled dose time in hours
+ * @returns loadingDose for loading doses, otherwise the dose for that time of day
+ */
+export function getScheduledDoseAmount(prescription: Prescription, doseIndex: number, doseTime: number): number {
+  return isLoadingDoseIndex(prescription, doseIndex)
+    ? (prescription.loadingDose ?? prescription.dose)
+    : getTimeOfDayDose(prescription, doseTime)
+}
+
+/**
+ * Apply adherence deviations to a regular dose grid
+ *
+ * Each deviation is matched to the scheduled dose at its scheduledTime; deviations
+ * that do not match a scheduled dose are ignored.
+ *
+ * @param doseTimes - Scheduled dose times in hours
+ * @param doseAmount - Scheduled dose in mg, or the amount for each scheduled dose (see getScheduledDoseAmount)
+ * @param deviations - Per-dose deviations (skipped, delayed, early, doubled)
+ * @returns Dose events actually taken, sorted by time
+ */
+export function applyDoseDeviations(
+  doseTimes: number[],
+  doseAmount: number | ((doseIndex: number, doseTime: number) => number),
+  deviations: DoseDeviation[] = [],
+): DoseEvent[] {
+  const events: DoseEvent[] = []
+
+  for (const [index, time] of doseTimes.entries()) {
+    const dose = typeof doseAmount === 'number' ? doseAmount : doseAmount(index, time)
+    const deviation = deviations.find((d) => Math.abs(d.scheduledTime - time) < DOSE_TIME_TOLERANCE)
+    switch (deviation?.type) {
+      case 'skipped':
+        break
+      case 'delayed':
+        events.push({ time: time + (deviation.shiftHours ?? 0), dose })
+        break
+      case 'early':
+        events.push({ time: time - (deviation.shiftHours ?? 0), dose })
+        break
+      case 'doubled':
+        events.push({ time, dose: dose * 2 })
+        break
+      default:
+        events.push({ time, dose })
+    }
+  }
+
+  return events.sort((a, b) => a.time - b.time)
+}
+
+/**
+ * Check whether a prescription simulates deviations from its schedule
+ * @param prescription - Prescription to check
+ * @returns true when at least one dose deviation is set
+ */
+export function hasDoseDeviations(prescription: Prescription): boolean {
+  return Array.isArray(prescription.doseDeviations) && prescription.doseDeviations.length > 0
+}
+
+/**
+ * Dose events for a prescription's scheduled dose times, with loading and per-time dose amounts
+ * @param prescription - Prescription providing the dose amounts
+ * @param doseTimes - Scheduled dose times from getPrescriptionDoseTimes()
+ * @param deviations - Dose deviations to apply (omit for the as-prescribed events)
+ * @returns Dose events sorted by time
+ */
+function toDoseEvents(prescription: Prescription, doseTimes: number[], deviations?: DoseDeviation[]): DoseEvent[] {
+  return applyDoseDeviations(
+    doseTimes,
+    (index, time) => getScheduledDoseAmount(prescription, index, time),
+    deviations,
+  )
+}
+
+/**
+ * Dose events taken for a prescription within a simulation window, after per-time and loading doses and dose deviations
+ * @param prescription - Prescription with dose times (doseDeviations optional)
+ * @param startHours - Simulation start time in hours from midnight
+ * @param endHours - Simulation end time in hours from midnight
+ * @returns Dose events sorted by time
+ */
+export function getPrescriptionDoseEvents(prescription: Prescription, startHours: number, endHours: number): DoseEvent[] {
+  const doseTimes = getPrescriptionDoseTimes(prescription, startHours, endHours)
+  return toDoseEvents(prescription, doseTimes, prescription.doseDeviations)
+}
+
+/** The same prescription taken exactly as prescribed */
+function withoutDoseDeviations(prescription: Prescription): Prescription {
+  const prescribed = { ...prescription }
+  delete prescribed.doseDeviations
+  return prescribed
+}
+
+/**
+ * Raw (unnormalized) parent curve for a list of dose events
+ * @returns Sampled points and the highest raw concentration
+ */
+function simulateParentDoses(
   prescription: Prescription,
+  events: DoseEvent[],
   startHours: number,
   endHours: number,
-  intervalMinutes: number = 15,
-): TimeSeriesPoint[] {
-  resetCalculationWarnings()
+  intervalMinutes: number,
+): { points: TimeSeriesPoint[]; maxConc: number } {
+  let points: TimeSeriesPoint[] = []
+  let maxConc = 0
 
-  // Determine the dosing window (when doses are administered)
-  // Duration limits dosing only, NOT the observation window
-  let dosingEndHours = endHours
-  if (prescription.duration !== undefined && prescription.durationUnit !== undefined) {
-    const durationInHours =
-      prescription.durationUnit === 'days'
-        ? prescription.duration * 24
-        : prescription.duration
-    dosingEndHours = startHours + durationInHours
+  if (usesMichaelisMenten(prescription)) {
+    // Saturable elimination: doses interact, so integrate numerically instead of summing
+    points = simulateMichaelisMenten(prescription, events, startHours, endHours, intervalMinutes)
+    for (const p of points) {
+      maxConc = Math.max(maxConc, p.concentration)
+    }
+    return { points, maxConc }
   }
 
-  // Expand prescription times across the dosing window only
-  const numDays = Math.ceil(dosingEndHours / 24) + 1
-  const allDoseTimes = expandDoseTimes(prescription.times, numDays)
-  // Filter to doses within the dosing window
-  const doseTimes = allDoseTimes.filter((t) => t < dosingEndHours)
+  // Generate timepoints for the full observation window (endHours)
+  const steps = Math.ceil((endHours - startHours) * 60 / intervalMinutes)
+
+  // For each timepoint, sum contributions from all prior doses
+  for (let i = 0; i <= steps; i++) {
+    const time = startHours + i * intervalMinutes / 60
+    let totalConc = 0
+
+    // Sum raw (unnormalized) contributions from each dose
+    for (const event of events) {
+      if (event.time <= time) {
+        const elapsed = time - event.time
+        totalConc += calculatePrescriptionConcentration(elapsed, event.dose, prescription)
+      }
+    }
+
+    // Store point and track maximum
+    points.push({ time, concentration: Math.max(0, totalConc) })
+    maxConc = Math.max(maxConc, totalConc)
+  }
+
+  return { points, maxConc }
+}
+
+/**
+ * Raw (unnormalized) metabolite curve for a list of parent dose events
+ * @returns Sampled points and the highest raw concentration
+ */
+function simulateMetaboliteDoses(
+  prescription: Prescription,
+  metaboliteLife: number,
+  events: DoseEvent[],
+  startHours: number,
+  endHours: number,
+  intervalMinutes: number,
+): { points: TimeSeriesPoint[]; maxConc: number } {
+  // Metabolite formation follows parent input: after any lag, and spread over
+  // the release duration for zero-order / extended-release products
+  const inputs = getDoseInputSchedule(prescription)
 
   // Generate timepoints for the full observation window (endHours)
   const points: TimeSeriesPoint[] = []
@@ -122,16 +451,18 @@ export function accumulateDoses(
     let totalConc = 0
 
     // Sum raw (unnormalized) contributions from each dose
-    for (const doseTime of doseTimes) {
-      if (doseTime <= time) {
-        const elapsed = time - doseTime
-        totalConc += calculateConcentration(
-          elapsed,
-          prescription.dose,
-          prescription.halfLife,
-          prescription.uptake,
-          prescription.peak,
-        )
+    for (const event of events) {
+      if (event.time <= time) {
+        for (const input of inputs) {
+          const elapsed = time - event.time - input.offset
+          totalConc += calculateMetaboliteConcentration(
+            elapsed,
+            event.dose * input.fraction,
+            prescription.halfLife,
+            metaboliteLife,
+            1.0, // Shape-only; relativeMetaboliteLevel scales the normalized peak
+          )
+        }
       }
     }
 
@@ -140,7 +471,113 @@ export function accumulateDoses(
     maxConc = Math.max(maxConc, totalConc)
   }
 
-  // Normalize to peak = 1.0
+  return { points, maxConc }
+}
+
+/**
+ * Calculate accumulated drug concentration over time from repeated doses
+ *
+ * Strategy:
+ * 1. Expand prescription times across simulation window, apply per-time and loading doses and dose deviations
+ * 2. For each timepoint in the simulation, sum raw contributions from all prior doses
+ *    (Michaelis–Menten prescriptions are integrated numerically instead, see nonlinearElimination.ts)
+ * 3. Normalize final curve so peak = 1.0, or in absolute mode scale by F / Vd to mg/L
+ *
+ * With dose deviations the normalized curve is scaled to the as-prescribed peak,
+ * so a missed dose lowers the curve and a doubled dose can rise above 1.0.
+ *
+ * Absolute mode requires prescription.volumeOfDistribution; without it the
+ * curve falls back to normalized output.
+ *
+ * @param prescription - Prescription with dose, frequency, times, halfLife, uptake (duration optional)
+ * @param startHours - Simulation start time in hours from midnight
+ * @param endHours - Simulation end time in hours from midnight (overridden by prescription.duration if present)
+ * @param intervalMinutes - Time step resolution (default 15 min)
+ * @param mode - 'normalized' (default) or 'absolute' (mg/L)
+ * @returns Array of TimeSeriesPoint with normalized concentrations (peak = 1.0) or mg/L
+ */
+export function accumulateDoses(
+  prescription: Prescription,
+  startHours: number,
+  endHours: number,
+  intervalMinutes: number = 15,
+  mode: ConcentrationMode = 'normalized',
+): TimeSeriesPoint[] {
+  resetCalculationWarnings()
+
+  const doseTimes = getPrescriptionDoseTimes(prescription, startHours, endHours)
+  const events = toDoseEvents(prescription, doseTimes, prescription.doseDeviations)
+  const { points, maxConc } = simulateParentDoses(prescription, events, startHours, endHours, intervalMinutes)
+
+  // Absolute mode: convert amount to mg/L (dose in mg, Vd in L)
+  if (mode === 'absolute') {
+    const factor = getAbsoluteConcentrationFactor(prescription)
+    if (factor !== null) {
+      for (const p of points) {
+        p.concentration *= factor
+      }
+      return points
+    }
+    logWarn('multiDose.accumulateDoses', 'Absolute mode requested without volumeOfDistribution; using normalized curve', {
+      name: prescription.name,
+    })
+  }
+
+  // Normalize to peak = 1.0; with deviations, to the as-prescribed peak so the
+  // effect of missed or extra doses stays visible against the prescribed curve
+  const peak = hasDoseDeviations(prescription)
+    ? simulateParentDoses(prescription, toDoseEvents(prescription, doseTimes), startHours, endHours, intervalMinutes).maxConc
+    : maxConc
+  if (peak > 0) {
+    for (const p of points) {
+      p.concentration /= peak
+    }
+  }
+
+  return points
+}
+
+/**
+ * Calculate the concentration curve for an explicit list of dose events
+ *
+ * Used for doses recorded in the dose log, where times and amounts come from
+ * what was actually taken rather than the prescription's dosing grid. The
+ * prescription only supplies the pharmacokinetic parameters.
+ *
+ * @param prescription - Prescription providing halfLife, absorption and disposition parameters
+ * @param events - Dose events in hours on the simulation axis, with amounts in mg
+ * @param startHours - Simulation start time in hours
+ * @param endHours - Simulation end time in hours
+ * @param intervalMinutes - Time step resolution (default 15 min)
+ * @param mode - 'normalized' (default, peak = 1.0) or 'absolute' (mg/L)
+ * @returns Array of TimeSeriesPoint with normalized concentrations (peak = 1.0) or mg/L
+ */
+export function accumulateDoseEvents(
+  prescription: Prescription,
+  events: DoseEvent[],
+  startHours: number,
+  endHours: number,
+  intervalMinutes: number = 15,
+  mode: ConcentrationMode = 'normalized',
+): TimeSeriesPoint[] {
+  resetCalculationWarnings()
+
+  const sorted = [...events].sort((a, b) => a.time - b.time)
+  const { points, maxConc } = simulateParentDoses(prescription, sorted, startHours, endHours, intervalMinutes)
+
+  if (mode === 'absolute') {
+    const factor = getAbsoluteConcentrationFactor(prescription)
+    if (factor !== null) {
+      for (const p of points) {
+        p.concentration *= factor
+      }
+      return points
+    }
+    logWarn('multiDose.accumulateDoseEvents', 'Absolute mode requested without volumeOfDistribution; using normalized curve', {
+      name: prescription.name,
+    })
+  }
+
   if (maxConc > 0) {
     for (const p of points) {
       p.concentration /= maxConc
@@ -154,11 +591,15 @@ export function accumulateDoses(
  * Calculate accumulated metabolite concentration over time from repeated parent doses
  *
  * Strategy:
- * 1. Expand prescription times across simulation window
+ * 1. Expand prescription times across simulation window, apply per-time and loading doses and dose deviations
  * 2. For each timepoint in the simulation, sum raw contributions from all prior parent doses
- * 3. Normalize final curve so peak = relativeMetaboliteLevel
+ * 3. Normalize final curve so peak = relativeMetaboliteLevel (the as-prescribed peak with dose deviations)
  * 4. Returns empty array if either metaboliteLife or relativeMetaboliteLevel is missing
  *
+ * An oral absorption lag (lagTime) delays each dose's metabolite contribution by the same amount,
+ * and zero-order / extended-release input spreads it across the release duration.
+ * Metabolite formation always assumes linear parent elimination.
+ *
  * @param prescription - Prescription with metaboliteLife and relativeMetaboliteLevel (both required)
  * @param startHours - Simulation start time in hours from midnight
  * @param endHours - Simulation end time in hours from midnight (overridden by prescription.duration if present)
@@ -182,63 +623,123 @@ export function accumulateMetaboliteDoses(
     return []
   }
 
-  // Determine the dosing window (when doses are administered)
-  // Duration limits dosing only, NOT the observation window
-  let dosingEndHours = endHours
-  if (prescription.duration !== undefined && prescription.durationUnit !== undefined) {
-    const durationInHours =
-      prescription.durationUnit === 'days'
-        ? prescription.duration * 24
-        : prescription.duration
-    dosingEndHours = startHours + durationInHours
-  }
-
-  // Expand prescription times across the dosing window only
-  const numDays = Math.ceil(dosingEndHours / 24) + 1
-  const allDoseTimes = expandDoseTimes(prescription.times, numDays)
-  // Filter to doses within the dosing window
-  const doseTimes = allDoseTimes.filter((t) => t < dosingEndHours)
+  const metaboliteLife = prescription.metaboliteLife
+  const doseTimes = getPrescriptionDoseTimes(prescription, startHours, endHours)
+  const events = toDoseEvents(prescription, doseTimes, prescription.doseDeviations)
+  const { points, maxConc } = simulateMetaboliteDoses(
+    prescription,
+    metaboliteLife,
+    events,
+    startHours,
+    endHours,
+    intervalMinutes,
+  )
 
-  // Generate timepoints for the full observation window (endHours)
-  const points: TimeSeriesPoint[] = []
-  const steps = Math.ceil((endHours - startHours) * 60 / intervalMinutes)
-  let maxConc = 0
+  // Normalize to peak = relativeMetaboliteLevel (of the as-prescribed curve when doses deviate)
+  const level = prescription.relativeMetaboliteLevel ?? 1.0
+  const peak = hasDoseDeviations(prescription)
+    ? simulateMetaboliteDoses(
+        prescription,
+        metaboliteLife,
+        toDoseEvents(prescription, doseTimes),
+        startHours,
+        endHours,
+        intervalMinutes,
+      ).maxConc
+    : maxConc
+  if (peak > 0) {
+    for (const p of points) {
+      p.concentration = (p.concentration / peak) * level
+    }
+  }
 
-  // For each timepoint, sum contributions from all prior doses
-  for (let i = 0; i <= steps; i++) {
-    const time = startHours + i * intervalMinutes / 60
-    let totalConc = 0
+  return points
+}
 
-    // Sum raw (unnormalized) contributions from each dose
-    for (const doseTime of doseTimes) {
-      if (doseTime <= time) {
-        const elapsed = time - doseTime
-        totalConc += calculateMetaboliteConcentration(
-          elapsed,
-          prescription.dose,
-          prescription.halfLife,
-          prescription.metaboliteLife,
-          1.0, // Shape-only; relativeMetaboliteLevel scales the normalized peak
-        )
-      }
-    }
+/**
+ * Calculate the metabolite curve for an explicit list of parent dose events
+ *
+ * Counterpart of accumulateDoseEvents() for metabolites, used where doses come
+ * from somewhere other than the prescription's dosing grid (e.g. the variable
+ * doses of a titration or taper schedule).
+ *
+ * @param prescription - Prescription with metaboliteLife and relativeMetaboliteLevel (both required)
+ * @param events - Parent dose events in hours on the simulation axis, with amounts in mg
+ * @param startHours - Simulation start time in hours
+ * @param endHours - Simulation end time in hours
+ * @param intervalMinutes - Time step resolution (default 15 min)
+ * @returns Array of TimeSeriesPoint scaled so peak = relativeMetaboliteLevel, or empty if data incomplete
+ */
+export function accumulateMetaboliteDoseEvents(
+  prescription: Prescription,
+  events: DoseEvent[],
+  startHours: number,
+  endHours: number,
+  intervalMinutes: number = 15,
+): TimeSeriesPoint[] {
+  resetCalculationWarnings()
 
-    // Store point and track maximum
-    points.push({ time, concentration: Math.max(0, totalConc) })
-    maxConc = Math.max(maxConc, totalConc)
+  if (
+    !prescription.metaboliteLife ||
+    prescription.relativeMetaboliteLevel === undefined ||
+    prescription.relativeMetaboliteLevel === null
+  ) {
+    return []
   }
 
-  // Normalize to peak = relativeMetaboliteLevel
-  const level = prescription.relativeMetaboliteLevel ?? 1.0
+  const sorted = [...events].sort((a, b) => a.time - b.time)
+  const { points, maxConc } = simulateMetaboliteDoses(
+    prescription,
+    prescription.metaboliteLife,
+    sorted,
+    startHours,
+    endHours,
+    intervalMinutes,
+  )
+
   if (maxConc > 0) {
     for (const p of points) {
-      p.concentration = (p.concentration / maxConc) * level
+      p.concentration = (p.concentration / maxConc) * prescription.relativeMetaboliteLevel
     }
   }
 
   return points
 }
 
+/**
+ * Therapeutic window of a parent curve in its plotted unit.
+ *
+ * Bounds are mg/L when the prescription has a volume of distribution; on a
+ * normalized graph they are divided by the curve's mg/L peak so the band lines
+ * up with the normalized curve. Without a volume of distribution the bounds are
+ * already relative and are used as-is.
+ */
+function getPlottedTherapeuticWindow(
+  rx: Prescription,
+  startHours: number,
+  endHours: number,
+  mode: ConcentrationMode,
+): TherapeuticWindow | undefined {
+  const min = typeof rx.minEffectiveConcentration === 'number' ? rx.minEffectiveConcentration : undefined
+  const max = typeof rx.toxicConcentration === 'number' ? rx.toxicConcentration : undefined
+  if (min === undefined && max === undefined) return undefined
+
+  let scale = 1
+  if (mode === 'normalized' && getAbsoluteConcentrationFactor(rx) !== null) {
+    const absolutePeak = accumulateDoses(rx, startHours, endHours, 15, 'absolute').reduce(
+      (peak, p) => Math.max(peak, p.concentration),
+      0,
+    )
+    if (absolutePeak <= 0) return undefined
+    scale = 1 / absolutePeak
+  }
+
+  return {
+    ...(min !== undefined ? { min: min * scale } : {}),
+    ...(max !== undefined ? { max: max * scale } : {}),
+  }
+}
+
 /**
  * Format multiple prescriptions into graph-ready datasets
  *
@@ -246,55 +747,111 @@ export function accumulateMetaboliteDoses(
  * - Calculated concentration curves via accumulateDoses()
  * - Metabolite curves via accumulateMetaboliteDoses() when both fields present
  * - isMetabolite flag to distinguish dashed lines
+ * - therapeuticWindow on parent curves that define thresholds, in the plotted unit
+ * - offPeriods on parent curves with an on/off cycle (see getCycleOffPeriods)
+ * - An as-prescribed ghost curve (isGhost) after each parent curve with dose deviations
  * - Labels formatted as "name (frequency)" for parent, "name - Metabolite (frequency)" for metabolite
  *
+ * In absolute mode, parent curves are plotted in mg/L and prescriptions without a
+ * volume of distribution are left out (see canUseAbsoluteMode). Metabolite curves keep
+ * their shape and are scaled so their peak = relativeMetaboliteLevel × the parent's peak mg/L.
+ *
  * When prescriptions have duration fields, the graph timeframe accommodates the longest duration.
+ * Two-compartment prescriptions are plotted with their biexponential curve; their metabolite
+ * curve uses the terminal (beta) half-life as the parent elimination rate.
  *
  * @param prescriptions - Array of prescriptions to visualize
  * @param startHours - Simulation start time in hours
  * @param endHours - Simulation end time in hours (may be extended by prescription durations)
+ * @param mode - 'normalized' (default, peak = 1.0) or 'absolute' (mg/L)
  * @returns Array of GraphDataset ready for Chart.js rendering (includes metabolite curves if data complete)
  */
 export function getGraphData(
   prescriptions: Prescription[],
   startHours: number,
   endHours: number,
+  mode: ConcentrationMode = 'normalized',
 ): GraphDataset[] {
   // Calculate effective end time based on longest prescription duration
   let effectiveEndHours = endHours
   for (const rx of prescriptions) {
-    if (rx.duration !== undefined && rx.durationUnit !== undefined) {
-      const durationInHours =
-        rx.durationUnit === 'days'
-          ? rx.duration * 24
-          : rx.duration
-      const rxEndTime = startHours + durationInHours
-      effectiveEndHours = Math.max(effectiveEndHours, rxEndTime)
-    }
+    effectiveEndHours = Math.max(effectiveEndHours, getDosingEndHours(rx, startHours, endHours))
   }
 
   const datasets: GraphDataset[] = []
 
   for (const rx of prescriptions) {
+    if (mode === 'absolute' && getAbsoluteConcentrationFactor(rx) === null) {
+      logWarn('multiDose.getGraphData', 'Skipping prescription without volumeOfDistribution in absolute mode', {
+        name: rx.name,
+      })
+      continue
+    }
+
     // Parent drug (always)
+    const parentData = accumulateDoses(rx, startHours, effectiveEndHours, 15, mode)
+    const doseTimes = getPrescriptionDoseEvents(rx, startHours, effectiveEndHours).map((e) => e.time)
+    const doseLabel = Array.isArray(rx.timeDoses) ? rx.timeDoses.join('/') : rx.dose
+    const label = `${rx.name} ${doseLabel}mg (${rx.frequency})`
+
+    // Deviations are compared against the same prescription taken on schedule
+    const prescribed = withoutDoseDeviations(rx)
+    const therapeuticWindow = getPlottedTherapeuticWindow(prescribed, startHours, effectiveEndHours, mode)
+    const offPeriods = getCycleOffPeriods(rx, startHours, effectiveEndHours)
     datasets.push({
-      label: `${rx.name} ${rx.dose}mg (${rx.frequency})`,
-      data: accumulateDoses(rx, startHours, effectiveEndHours),
+      label,
+      data: parentData,
       isMetabolite: false,
+      doseTimes,
+      ...(therapeuticWindow ? { therapeuticWindow } : {}),
+      ...(offPeriods.length > 0 ? { offPeriods } : {}),
     })
 
+    let referenceData = parentData
+    if (hasDoseDeviations(rx)) {
+      referenceData = accumulateDoses(prescribed, startHours, effectiveEndHours, 15, mode)
+      datasets.push({
+        label: `${label} (as prescribed)`,
+        data: referenceData,
+        isMetabolite: false,
+        isGhost: true,
+        doseTimes: getPrescriptionDoseTimes(rx, startHours, effectiveEndHours),
+      })
+    }
+
     // Metabolite (if both fields present)
     if (rx.metaboliteLife && rx.relativeMetaboliteLevel !== undefined && rx.relativeMetaboliteLevel !== null) {
       const metaboliteLabel = rx.metaboliteName
         ? `${rx.name} - ${rx.metaboliteName} (${rx.frequency})`
         : `${rx.name} - Metabolite (${rx.frequency})`
+      const metaboliteData = accumulateMetaboliteDoses(rx, startHours, effectiveEndHours)
+      if (mode === 'absolute') {
+        // Relative metabolite level is expressed against the (as-prescribed) parent's peak
+        const parentPeak = Math.max(0, ...referenceData.map((p) => p.concentration))
+        for (const p of metaboliteData) {
+          p.concentration *= parentPeak
+        }
+      }
       datasets.push({
         label: metaboliteLabel,
-        data: accumulateMetaboliteDoses(rx, startHours, effectiveEndHours),
+        data: metaboliteData,
         isMetabolite: true,
+        doseTimes,
       })
     }
   }
 
   return datasets
 }
+
+/**
+ * Check whether every prescription can be plotted in absolute (mg/L) mode.
+ * @param prescriptions - Prescriptions to check
+ * @returns true when all prescriptions have a volume of distribution (and at least one is given)
+ */
+export function canUseAbsoluteMode(prescriptions: Prescription[]): boolean {
+  return (
+    prescriptions.length > 0 &&
+    prescriptions.every((rx) => getAbsoluteConcentrationFactor(rx) !== null)
+  )
+}
@@ -0,0 +1,209 @@
+/**
+ * Nonlinear (Michaelis–Menten) Elimination
+ *
+ * Saturable elimination makes each dose's contribution depend on how much drug
+ * is already present, so the superposition used by multiDose.ts and
+ * scheduleCalculator.ts does not apply. Instead the amount in the body is
+ * integrated numerically (fixed-step RK4) with a one-compartment disposition:
+ *
+ *   dG/dt = -ka * G                                  (gut, first-order input)
+ *   dA/dt = ka * G + R(t) - (Vmax / F) * C / (Km + C),  C = F * A / Vd
+ *
+ * R(t) is the zero-order input (IV infusion or extended release). Amounts are
+ * tracked in administered-dose units, so results can be normalized or converted
+ * to mg/L with getAbsoluteConcentrationFactor() (F / Vd) like linear curves.
+ */
+
+import type { Prescription, TimeSeriesPoint } from '../models/prescription'
+import { ABSORPTION_CONSTANT, deriveKaFromTmax, getAbsorptionLag, getZeroOrderRelease } from './pkCalculator'
+
+// ─── Constants ───
+
+/** Maximum integration step in hours; output intervals are split into substeps of at most this length */
+const MAX_STEP_HOURS = 0.02
+
+// ─── Internal Helpers ───
+
+/** Amount added instantly to the gut (first-order input) or central compartment (IV bolus) */
+interface BolusInput {
+  time: number
+  amount: number
+  target: 'gut' | 'central'
+}
+
+/** Constant-rate input active over [start, end) */
+interface RateInput {
+  start: number
+  end: number
+  rate: number
+}
+
+/**
+ * Translate dose events into bolus and constant-rate inputs for the prescription's
+ * route and absorption model.
+ */
+function buildInputs(
+  rx: Prescription,
+  doses: { time: number; dose: number }[],
+): { boluses: BolusInput[]; rates: RateInput[] } {
+  const boluses: BolusInput[] = []
+  const rates: RateInput[] = []
+
+  for (const { time, dose } of doses) {
+    if (dose <= 0) continue
+
+    if (rx.route === 'iv-bolus') {
+      boluses.push({ time, amount: dose, target: 'central' })
+      continue
+    }
+
+    if (rx.route === 'iv-infusion' && rx.infusionDuration !== undefined && rx.infusionDuration > 0) {
+      rates.push({ start: time, end: time + rx.infusionDuration, rate: dose / rx.infusionDuration })
+      continue
+    }
+
+    const start = time + getAbsorptionLag(rx)
+    const { zeroOrderFraction, releaseDuration } = getZeroOrderRelease(rx)
+    if (zeroOrderFraction > 0) {
+      rates.push({ start, end: start + releaseDuration, rate: (dose * zeroOrderFraction) / releaseDuration })
+    }
+    if (zeroOrderFraction < 1) {
+      boluses.push({ time: start, amount: dose * (1 - zeroOrderFraction), target: 'gut' })
+    }
+  }
+
+  boluses.sort((a, b) => a.time - b.time)
+  rates.sort((a, b) => a.start - b.start)
+  return { boluses, rates }
+}
+
+// ─── Exported Functions ───
+
+/**
+ * Check whether a prescription uses Michaelis–Menten elimination with all
+ * parameters needed to simulate it (Vmax, Km and volume of distribution).
+ * @param rx - Prescription to check
+ * @returns true when the nonlinear solver should be used
+ */
+export function usesMichaelisMenten(rx: Prescription): boolean {
+  return (
+    rx.eliminationModel === 'michaelis-menten' &&
+    rx.vmax !== undefined &&
+    rx.vmax > 0 &&
+    rx.km !== undefined &&
+    rx.km > 0 &&
+    rx.volumeOfDistribution !== undefined &&
+    rx.volumeOfDistribution > 0
+  )
+}
+
+/**
+ * Simulate the amount of drug in the body under Michaelis–Menten elimination.
+ *
+ * Doses before startHours are integrated from their administration time so the
+ * curve starts with the correct carried-over amount. Oral absorption uses the same
+ * ka as the linear model (derived from Tmax and halfLife); the two-compartment
+ * disposition options are not applied.
+ *
+ * @param rx - Prescription with vmax (mg/h), km (mg/L) and volumeOfDistribution (L)
+ * @param doses - Dose events as { time, dose } in hours from midnight of day 0
+ * @param startHours - Simulation start time in hours
+ * @param endHours - Simulation end time in hours
+ * @param intervalMinutes - Output resolution (default 15 min)
+ * @returns Raw amounts (dose units, not normalized) at each output time
+ */
+export function simulateMichaelisMenten(
+  rx: Prescription,
+  doses: { time: number; dose: number }[],
+  startHours: number,
+  endHours: number,
+  intervalMinutes: number = 15,
+): TimeSeriesPoint[] {
+  const points: TimeSeriesPoint[] = []
+  if (!usesMichaelisMenten(rx)) return points
+
+  const vd = rx.volumeOfDistribution!
+  const km = rx.km!
+  const isIntravenous = rx.route === 'iv-bolus' || rx.route === 'iv-infusion'
+  const bioavailability = isIntravenous ? 1 : (rx.bioavailability ?? 1)
+  const vmax = rx.vmax! / bioavailability
+  const ka = deriveKaFromTmax(rx.peak, ABSORPTION_CONSTANT / rx.halfLife)
+
+  const elimination = (amount: number): number => {
+    const conc = (bioavailability * Math.max(0, amount)) / vd
+    return (vmax * conc) / (km + conc)
+  }
+
+  const { boluses, rates } = buildInputs(rx, doses)
+
+  // Integrate on a grid aligned with the output times, starting at the first input if earlier
+  const outputStep = intervalMinutes / 60
+  const firstInput = Math.min(boluses[0]?.time ?? Infinity, rates[0]?.start ?? Infinity)
+  const leadSteps = firstInput < startHours ? Math.ceil((startHours - firstInput) / outputStep) : 0
+  const substeps = Math.max(1, Math.ceil(outputStep / MAX_STEP_HOURS))
+  const dt = outputStep / substeps
+  const totalSteps = Math.ceil((endHours - startHours) * 60 / intervalMinutes)
+
+  let gut = 0
+  let central = 0
+  let nextBolus = 0
+  let nextRate = 0
+  const activeRates: RateInput[] = []
+
+  const applyBoluses = (time: number) => {
+    while (nextBolus < boluses.length && boluses[nextBolus]!.time <= time + 1e-9) {
+      const bolus = boluses[nextBolus]!
+      if (bolus.target === 'gut') gut += bolus.amount
+      else central += bolus.amount
+      nextBolus++
+    }
+  }
+
+  const rateAt = (time: number): number => {
+    while (nextRate < rates.length && rates[nextRate]!.start <= time) {
+      activeRates.push(rates[nextRate]!)
+      nextRate++
+    }
+    let total = 0
+    for (let i = activeRates.length - 1; i >= 0; i--) {
+      const input = activeRates[i]!
+      if (input.end <= time) {
+        activeRates.splice(i, 1)
+      } else {
+        total += input.rate
+      }
+    }
+    return total
+  }
+
+  for (let i = -leadSteps; i <= totalSteps; i++) {
+    const time = startHours + i * outputStep
+    applyBoluses(time)
+    if (i >= 0) {
+      points.push({ time, concentration: Math.max(0, central) })
+    }
+    if (i === totalSteps) break
+
+    for (let s = 0; s < substeps; s++) {
+      const t = time + s * dt
+      if (s > 0) applyBoluses(t)
+      // Zero-order input held constant across the substep (evaluated at its midpoint)
+      const rate = rateAt(t + dt / 2)
+
+      const dCentral = (g: number, a: number) => ka * g + rate - elimination(a)
+      const g1 = -ka * gut
+      const a1 = dCentral(gut, central)
+      const g2 = -ka * (gut + (dt / 2) * g1)
+      const a2 = dCentral(gut + (dt / 2) * g1, central + (dt / 2) * a1)
+      const g3 = -ka * (gut + (dt / 2) * g2)
+      const a3 = dCentral(gut + (dt / 2) * g2, central + (dt / 2) * a2)
+      const g4 = -ka * (gut + dt * g3)
+      const a4 = dCentral(gut + dt * g3, central + dt * a3)
+
+      gut = Math.max(0, gut + (dt / 6) * (g1 + 2 * g2 + 2 * g3 + g4))
+      central = Math.max(0, central + (dt / 6) * (a1 + 2 * a2 + 2 * a3 + a4))
+    }
+  }
+
+  return points
+}
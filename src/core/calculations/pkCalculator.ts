@@ -2,10 +2,13 @@
  * Pharmacokinetic Calculator
  *
  * One-compartment first-order absorption model for single-dose
- * concentration curves. Provides calculateConcentration() and getPeakTime()
- * as pure functions with no UI dependencies.
+ * concentration curves, plus an optional two-compartment (biexponential)
+ * disposition model and intravenous (bolus / zero-order infusion) routes.
+ * Provides calculateConcentration() and getPeakTime() as pure functions
+ * with no UI dependencies.
  */
 
+import type { Prescription } from '@/core/models/prescription'
 import { KA_KE_TOLERANCE } from '@/core/models/prescription'
 import { logWarn } from '@/core/utils/logger'
 
@@ -57,6 +60,38 @@ function computeKe(halfLife: number): number {
   return ABSORPTION_CONSTANT / halfLife
 }
 
+/** One exponential term of the unit disposition function h(t) */
+export interface DispositionPhase {
+  /** Fraction of h(0) carried by this phase */
+  coefficient: number
+  /** Phase rate constant in hr^-1 */
+  rate: number
+}
+
+/**
+ * Build the disposition phases for a one- or two-compartment model.
+ * Two-compartment applies only when both alpha parameters are provided.
+ * Also used by steadyState.ts for its closed-form sums.
+ * @param halfLife - Terminal (beta) elimination half-life in hours
+ * @param alphaHalfLife - Optional distribution (alpha) half-life in hours
+ * @param alphaFraction - Optional fraction of h(0) in the alpha phase
+ * @returns Phases whose coefficients sum to 1
+ */
+export function getDispositionPhases(
+  halfLife: number,
+  alphaHalfLife?: number,
+  alphaFraction?: number,
+): DispositionPhase[] {
+  const ke = computeKe(halfLife)
+  if (alphaHalfLife === undefined || alphaFraction === undefined) {
+    return [{ coefficient: 1, rate: ke }]
+  }
+  return [
+    { coefficient: alphaFraction, rate: computeKe(alphaHalfLife) },
+    { coefficient: 1 - alphaFraction, rate: ke },
+  ]
+}
+
 // ─── Exported Functions ───
 
 /**
@@ -179,6 +214,351 @@ export function calculateConcentration(
   return Math.max(0, concentration)
 }
 
+/**
+ * Calculate drug concentration at a given time using a two-compartment
+ * (biexponential) disposition model with first-order absorption.
+ *
+ * The unit disposition function is h(t) = A·e^(-α·t) + B·e^(-β·t) with
+ * A = alphaFraction and B = 1 - A, so h(0) = 1 as in the one-compartment
+ * model. Convolving with first-order absorption gives:
+ *   C(t) = Dose * Σ c_i * [ka/(ka-λ_i)] * (e^(-λ_i*t) - e^(-ka*t))
+ * Fallback per phase (|ka-λ_i| < KA_KE_TOLERANCE): c_i * ka * t * e^(-λ_i*t)
+ *
+ * When `peak` is provided, ka is derived from it against the terminal (beta)
+ * rate constant, so the observed peak lands slightly earlier than Tmax when
+ * the distribution phase is pronounced.
+ *
+ * @param time - Time in hours since dose administration
+ * @param dose - Dose amount in arbitrary units
+ * @param halfLife - Terminal (beta) elimination half-life in hours (> 0)
+ * @param alphaHalfLife - Distribution (alpha) phase half-life in hours (> 0, < halfLife)
+ * @param alphaFraction - Fraction of the disposition in the alpha phase (0 to 1)
+ * @param uptake - Absorption time in hours (> 0); used to derive ka when peak is not provided
+ * @param peak - Optional: desired Tmax in hours; when provided, overrides uptake for ka derivation
+ * @returns Raw relative concentration (not normalized, can be > 1.0)
+ */
+export function calculateTwoCompartmentConcentration(
+  time: number,
+  dose: number,
+  halfLife: number,
+  alphaHalfLife: number,
+  alphaFraction: number,
+  uptake: number,
+  peak?: number,
+): number {
+  // Guard: zero or negative dose
+  if (dose <= 0) return 0
+
+  // Guard: negative or zero time (before dose administered)
+  if (time <= 0) return 0
+
+  const beta = computeKe(halfLife)
+  const ka = peak !== undefined ? deriveKaFromTmax(peak, beta) : computeKa(uptake)
+
+  let concentration = 0
+  for (const { coefficient, rate } of getDispositionPhases(halfLife, alphaHalfLife, alphaFraction)) {
+    if (Math.abs(ka - rate) < KA_KE_TOLERANCE) {
+      // Fallback formula: limit as ka -> λ
+      if (!emittedWarnings.has('two-compartment-fallback')) {
+        emittedWarnings.add('two-compartment-fallback')
+        logWarn('pkCalculator.calculateTwoCompartmentConcentration', 'Using ka≈λ fallback formula for a disposition phase', {
+          ka,
+          rate,
+          diff: Math.abs(ka - rate),
+          halfLife,
+          alphaHalfLife,
+        })
+      }
+      concentration += coefficient * ka * time * Math.exp(-rate * time)
+    } else {
+      concentration += coefficient * (ka / (ka - rate)) * (Math.exp(-rate * time) - Math.exp(-ka * time))
+    }
+  }
+
+  // Clamp numerical artifacts to zero
+  return Math.max(0, dose * concentration)
+}
+
+/**
+ * Calculate drug concentration after an intravenous bolus (no absorption phase).
+ *
+ * One-compartment: C(t) = Dose * e^(-ke*t)
+ * Two-compartment: C(t) = Dose * (A*e^(-α*t) + B*e^(-β*t))
+ *
+ * Unlike the oral model, the concentration is at its maximum at t = 0.
+ *
+ * @param time - Time in hours since dose administration
+ * @param dose - Dose amount in arbitrary units
+ * @param halfLife - Elimination (terminal) half-life in hours (> 0)
+ * @param alphaHalfLife - Optional distribution half-life for the two-compartment model
+ * @param alphaFraction - Optional alpha-phase fraction for the two-compartment model
+ * @returns Raw relative concentration (not normalized)
+ */
+export function calculateIvBolusConcentration(
+  time: number,
+  dose: number,
+  halfLife: number,
+  alphaHalfLife?: number,
+  alphaFraction?: number,
+): number {
+  // Guard: zero or negative dose
+  if (dose <= 0) return 0
+
+  // Guard: before dose administered (t = 0 is the bolus itself)
+  if (time < 0) return 0
+
+  let concentration = 0
+  for (const { coefficient, rate } of getDispositionPhases(halfLife, alphaHalfLife, alphaFraction)) {
+    concentration += coefficient * Math.exp(-rate * time)
+  }
+
+  return Math.max(0, dose * concentration)
+}
+
+/**
+ * Calculate drug concentration for a zero-order intravenous infusion.
+ *
+ * The dose is delivered at a constant rate R = Dose / T over T hours.
+ * Per disposition phase (rate λ, coefficient c):
+ *   During infusion (t ≤ T): c * R/λ * (1 - e^(-λ*t))
+ *   After infusion  (t > T): c * R/λ * (1 - e^(-λ*T)) * e^(-λ*(t-T))
+ *
+ * As T → 0 this converges to calculateIvBolusConcentration().
+ *
+ * @param time - Time in hours since infusion start
+ * @param dose - Total infused dose in arbitrary units
+ * @param halfLife - Elimination (terminal) half-life in hours (> 0)
+ * @param infusionDuration - Infusion length in hours (> 0)
+ * @param alphaHalfLife - Optional distribution half-life for the two-compartment model
+ * @param alphaFraction - Optional alpha-phase fraction for the two-compartment model
+ * @returns Raw relative concentration (not normalized)
+ */
+export function calculateInfusionConcentration(
+  time: number,
+  dose: number,
+  halfLife: number,
+  infusionDuration: number,
+  alphaHalfLife?: number,
+  alphaFraction?: number,
+): number {
+  // Guard: zero or negative dose
+  if (dose <= 0) return 0
+
+  // Guard: negative or zero time (before infusion starts)
+  if (time <= 0) return 0
+
+  // Guard: degenerate infusion length behaves as a bolus
+  if (infusionDuration <= 0) {
+    return calculateIvBolusConcentration(time, dose, halfLife, alphaHalfLife, alphaFraction)
+  }
+
+  const infusionRate = dose / infusionDuration
+
+  let concentration = 0
+  for (const { coefficient, rate } of getDispositionPhases(halfLife, alphaHalfLife, alphaFraction)) {
+    if (time <= infusionDuration) {
+      concentration += coefficient * (infusionRate / rate) * (1 - Math.exp(-rate * time))
+    } else {
+      concentration +=
+        coefficient *
+        (infusionRate / rate) *
+        (1 - Math.exp(-rate * infusionDuration)) *
+        Math.exp(-rate * (time - infusionDuration))
+    }
+  }
+
+  return Math.max(0, concentration)
+}
+
+/**
+ * Get the absorption lag time (tlag) that applies to a prescription.
+ * Lag only delays oral absorption; intravenous routes start immediately.
+ * @param rx - Prescription with optional route and lagTime
+ * @returns Lag in hours (0 when not set or not applicable)
+ */
+export function getAbsorptionLag(rx: Prescription): number {
+  if (rx.route === 'iv-bolus' || rx.route === 'iv-infusion') return 0
+  return rx.lagTime !== undefined && rx.lagTime > 0 ? rx.lagTime : 0
+}
+
+/**
+ * Calculate drug concentration for zero-order (constant-rate) oral release,
+ * as from an extended-release tablet or transdermal patch.
+ *
+ * Drug enters the body at R = Dose / T for T hours, which is mathematically the
+ * same input as an IV infusion, so this delegates to calculateInfusionConcentration().
+ *
+ * @param time - Time in hours since release starts (after any lag time)
+ * @param dose - Dose amount released over releaseDuration
+ * @param halfLife - Elimination (terminal) half-life in hours (> 0)
+ * @param releaseDuration - Release duration in hours (> 0)
+ * @param alphaHalfLife - Optional distribution half-life for the two-compartment model
+ * @param alphaFraction - Optional alpha-phase fraction for the two-compartment model
+ * @returns Raw relative concentration (not normalized)
+ */
+export function calculateZeroOrderConcentration(
+  time: number,
+  dose: number,
+  halfLife: number,
+  releaseDuration: number,
+  alphaHalfLife?: number,
+  alphaFraction?: number,
+): number {
+  return calculateInfusionConcentration(time, dose, halfLife, releaseDuration, alphaHalfLife, alphaFraction)
+}
+
+/**
+ * Split a prescription's oral dose into the portions released zero-order and first-order.
+ * @param rx - Prescription with optional absorptionModel, releaseDuration and erFraction
+ * @returns zeroOrderFraction (0-1) and the releaseDuration it applies to
+ */
+export function getZeroOrderRelease(rx: Prescription): { zeroOrderFraction: number; releaseDuration: number } {
+  const releaseDuration = rx.releaseDuration ?? 0
+  if (releaseDuration <= 0) return { zeroOrderFraction: 0, releaseDuration: 0 }
+  if (rx.absorptionModel === 'zero-order') return { zeroOrderFraction: 1, releaseDuration }
+  if (rx.absorptionModel === 'ir-er' && rx.erFraction !== undefined) {
+    return { zeroOrderFraction: rx.erFraction, releaseDuration }
+  }
+  return { zeroOrderFraction: 0, releaseDuration: 0 }
+}
+
+/**
+ * Describe when the parent dose becomes available in the body, as a list of
+ * (offset, fraction) inputs summing to 1.
+ *
+ * First-order and IV doses are a single input at the absorption lag. Zero-order
+ * release is approximated by evenly spaced sub-doses across the release duration
+ * (4 per hour, at most 96), which lets models without an absorption phase, such
+ * as the metabolite model, follow extended-release input by superposition.
+ *
+ * @param rx - Prescription with route, lag and absorption model
+ * @returns Input offsets in hours after administration with their dose fractions
+ */
+export function getDoseInputSchedule(rx: Prescription): { offset: number; fraction: number }[] {
+  const lag = getAbsorptionLag(rx)
+  const isIntravenous = rx.route === 'iv-bolus' || rx.route === 'iv-infusion'
+  const { zeroOrderFraction, releaseDuration } = isIntravenous
+    ? { zeroOrderFraction: 0, releaseDuration: 0 }
+    : getZeroOrderRelease(rx)
+
+  if (zeroOrderFraction === 0) {
+    return [{ offset: lag, fraction: 1 }]
+  }
+
+  const inputs: { offset: number; fraction: number }[] = []
+  if (zeroOrderFraction < 1) {
+    inputs.push({ offset: lag, fraction: 1 - zeroOrderFraction })
+  }
+  const segments = Math.min(96, Math.max(1, Math.ceil(releaseDuration * 4)))
+  for (let i = 0; i < segments; i++) {
+    inputs.push({
+      offset: lag + ((i + 0.5) * releaseDuration) / segments,
+      fraction: zeroOrderFraction / segments,
+    })
+  }
+  return inputs
+}
+
+/**
+ * Get the factor that converts raw concentration (amount, in dose units)
+ * into absolute concentration in mg/L: F / Vd.
+ *
+ * Oral doses use the prescription's bioavailability (default 1.0);
+ * intravenous doses are fully bioavailable.
+ *
+ * @param rx - Prescription with optional bioavailability and volumeOfDistribution
+ * @returns F / Vd in L^-1, or null when volumeOfDistribution is not set
+ */
+export function getAbsoluteConcentrationFactor(rx: Prescription): number | null {
+  if (rx.volumeOfDistribution === undefined || rx.volumeOfDistribution <= 0) {
+    return null
+  }
+  const isIntravenous = rx.route === 'iv-bolus' || rx.route === 'iv-infusion'
+  const bioavailability = isIntravenous ? 1 : (rx.bioavailability ?? 1)
+  return bioavailability / rx.volumeOfDistribution
+}
+
+/**
+ * Calculate the single-dose concentration contribution for a prescription,
+ * dispatching to the route, absorption model and disposition model it selects.
+ * Oral doses are shifted by the absorption lag time, so nothing is absorbed
+ * before time = lagTime.
+ *
+ * Used by the multi-dose and schedule accumulators so every model option on
+ * Prescription is honored in one place.
+ *
+ * @param time - Time in hours since dose administration
+ * @param dose - Dose amount for this administration (may differ from rx.dose in schedules)
+ * @param rx - Prescription supplying the PK parameters
+ * @returns Raw relative concentration (not normalized, can be > 1.0)
+ */
+export function calculatePrescriptionConcentration(
+  time: number,
+  dose: number,
+  rx: Prescription,
+): number {
+  const isTwoCompartment =
+    rx.compartmentModel === 'two-compartment' &&
+    rx.alphaHalfLife !== undefined &&
+    rx.alphaFraction !== undefined
+  const alphaHalfLife = isTwoCompartment ? rx.alphaHalfLife : undefined
+  const alphaFraction = isTwoCompartment ? rx.alphaFraction : undefined
+
+  if (rx.route === 'iv-bolus') {
+    return calculateIvBolusConcentration(time, dose, rx.halfLife, alphaHalfLife, alphaFraction)
+  }
+
+  if (rx.route === 'iv-infusion' && rx.infusionDuration !== undefined) {
+    return calculateInfusionConcentration(
+      time,
+      dose,
+      rx.halfLife,
+      rx.infusionDuration,
+      alphaHalfLife,
+      alphaFraction,
+    )
+  }
+
+  // Oral route: absorption starts after the lag time
+  const absorptionTime = time - getAbsorptionLag(rx)
+
+  // Zero-order (ER) portion of the dose, if any; the remainder is absorbed first-order
+  const { zeroOrderFraction, releaseDuration } = getZeroOrderRelease(rx)
+  const zeroOrderPart =
+    zeroOrderFraction > 0
+      ? calculateZeroOrderConcentration(
+          absorptionTime,
+          dose * zeroOrderFraction,
+          rx.halfLife,
+          releaseDuration,
+          alphaHalfLife,
+          alphaFraction,
+        )
+      : 0
+  if (zeroOrderFraction >= 1) {
+    return zeroOrderPart
+  }
+
+  const firstOrderDose = dose * (1 - zeroOrderFraction)
+
+  if (alphaHalfLife !== undefined && alphaFraction !== undefined) {
+    return (
+      zeroOrderPart +
+      calculateTwoCompartmentConcentration(
+        absorptionTime,
+        firstOrderDose,
+        rx.halfLife,
+        alphaHalfLife,
+        alphaFraction,
+        rx.uptake,
+        rx.peak,
+      )
+    )
+  }
+
+  return zeroOrderPart + calculateConcentration(absorptionTime, firstOrderDose, rx.halfLife, rx.uptake, rx.peak)
+}
+
 /**
  * Calculate metabolite concentration at a given time using one-compartment
  * sequential metabolism model.
@@ -3,13 +3,34 @@
  *
  * Pure functions to compute pharmacokinetic milestone events from prescription data.
  * Generates timeline events: dose administration, absorption end, peak, half-life decay,
- * and next dose indicators.
+ * next dose indicators, therapeutic window crossings and the off periods of on/off cycles.
+ * Titration and taper schedules get a per-step timeline: step start, first peak at the
+ * new dose, new steady state and the final washout.
  */
 
 import type { Prescription } from '../models/prescription'
+import type { DosageSchedule } from '../models/dosageSchedule'
 import type { PkMilestoneEvent, PkSummaryData } from '../models/pkSummary'
-import { expandDoseTimes } from './multiDose'
-import { formatTimeWithDay } from '../utils/timeFormat'
+import {
+  getScheduledDoseTimes,
+  getCycleOffPeriods,
+  getDosingEndHours,
+  getStartOffsetHours,
+  getScheduledDoseAmount,
+  isLoadingDoseIndex,
+} from './multiDose'
+import { getAbsorptionLag, calculatePrescriptionConcentration } from './pkCalculator'
+import { getTherapeuticWindow, getTherapeuticWindowCurve, getTherapeuticWindowUnit, findThresholdCrossings } from './therapeuticWindow'
+import {
+  accumulateScheduleDoses,
+  expandScheduleDoses,
+  calculateScheduleStepLevels,
+  STEADY_STATE_TOLERANCE,
+} from './scheduleCalculator'
+import { formatTimeWithDay, formatDateTime } from '../utils/timeFormat'
+
+/** Half-lives after a dose change until the new steady state is reached (~97%) */
+const STEADY_STATE_HALF_LIVES = 5
 
 /**
  * Format elapsed hours as "T+Xh" notation
@@ -23,14 +44,202 @@ export function formatElapsedTime(hours: number): string {
   return `T+${formatted}h`
 }
 
+/**
+ * Clock time of a milestone, with the calendar date when the prescription or schedule has a start date
+ * @param hours - Hours from midnight of day 1
+ * @param dated - Prescription or schedule with an optional startDate
+ * @returns String like "09:00 (Day 2)" or "Tue Jan 6 09:00"
+ */
+function formatEventTime(hours: number, dated: { startDate?: string }): string {
+  return dated.startDate ? formatDateTime(hours, dated.startDate) : formatTimeWithDay(hours, '00:00')
+}
+
+/**
+ * Hours from administration to the concentration peak for a single dose.
+ * Oral doses peak at lag time + Tmax; an IV bolus peaks immediately and
+ * an IV infusion peaks when the infusion ends. Zero-order release peaks when
+ * release ends; a combined IR+ER product is located by scanning the curve.
+ * @param prescription - Prescription with route and PK parameters
+ * @returns Peak offset in hours after the dose
+ */
+function getPeakOffset(prescription: Prescription): number {
+  if (prescription.route === 'iv-bolus') return 0
+  if (prescription.route === 'iv-infusion' && prescription.infusionDuration !== undefined) {
+    return prescription.infusionDuration
+  }
+  const lag = getAbsorptionLag(prescription)
+  const releaseDuration = prescription.releaseDuration ?? 0
+  if (prescription.absorptionModel === 'zero-order' && releaseDuration > 0) {
+    return lag + releaseDuration
+  }
+  if (prescription.absorptionModel === 'ir-er' && releaseDuration > 0) {
+    // Scan in 1-minute steps up to the later of Tmax and the end of release
+    const searchEnd = lag + Math.max(prescription.peak, releaseDuration)
+    let peakOffset = lag
+    let peakConc = -Infinity
+    for (let t = lag; t <= searchEnd + 1e-9; t += 1 / 60) {
+      const conc = calculatePrescriptionConcentration(t, prescription.dose, prescription)
+      if (conc > peakConc) {
+        peakConc = conc
+        peakOffset = t
+      }
+    }
+    return peakOffset
+  }
+  return lag + prescription.peak
+}
+
+/**
+ * Hours from the start of absorption until absorption is complete (oral only).
+ * First-order: uptake; zero-order: releaseDuration; IR+ER: whichever ends later.
+ * @param prescription - Oral prescription
+ * @returns Absorption duration in hours
+ */
+function getAbsorptionDuration(prescription: Prescription): number {
+  const releaseDuration = prescription.releaseDuration ?? 0
+  if (prescription.absorptionModel === 'zero-order' && releaseDuration > 0) return releaseDuration
+  if (prescription.absorptionModel === 'ir-er' && releaseDuration > 0) {
+    return Math.max(prescription.uptake, releaseDuration)
+  }
+  return prescription.uptake
+}
+
+/**
+ * Describe a dose administration event for the prescription's route.
+ * @param prescription - Prescription with route
+ * @param amount - Amount given at this dose in mg
+ * @param isLoading - Whether this is a loading dose
+ * @returns Human-readable dose description
+ */
+function describeDose(prescription: Prescription, amount: number, isLoading: boolean): string {
+  const dose = `${isLoading ? 'Loading dose' : 'Dose'} ${amount}mg`
+  if (prescription.route === 'iv-bolus') {
+    return `${dose} administered — IV bolus`
+  }
+  if (prescription.route === 'iv-infusion') {
+    return `${dose} — IV infusion begins (${prescription.infusionDuration}h)`
+  }
+  const lag = getAbsorptionLag(prescription)
+  if (lag > 0) {
+    return `${dose} administered — absorption delayed ${lag}h (lag time)`
+  }
+  return `${dose} administered — absorption begins`
+}
+
+/**
+ * Format a therapeutic window threshold for event descriptions.
+ * @param value - Threshold value
+ * @param unit - 'mg/L' or 'relative' (fraction of peak)
+ * @returns e.g. "10.0 mg/L" or "40% of peak"
+ */
+function formatThreshold(value: number, unit: 'mg/L' | 'relative'): string {
+  return unit === 'mg/L' ? `${value.toPrecision(3)} mg/L` : `${Math.round(value * 100)}% of peak`
+}
+
+/**
+ * Events for every time the simulated curve crosses a bound of the
+ * prescription's therapeutic window.
+ * @param prescription - Prescription with minEffectiveConcentration and/or toxicConcentration
+ * @param startHours - Simulation start in hours from midnight
+ * @param endHours - Simulation end in hours from midnight
+ * @returns window_enter / window_exit events (empty without a therapeutic window)
+ */
+function calculateWindowCrossingEvents(
+  prescription: Prescription,
+  startHours: number,
+  endHours: number,
+): PkMilestoneEvent[] {
+  const window = getTherapeuticWindow(prescription)
+  if (window === null) return []
+
+  const unit = getTherapeuticWindowUnit(prescription)
+  const curve = getTherapeuticWindowCurve(prescription, startHours, endHours)
+  const curvePeak = curve.reduce((peak, p) => Math.max(peak, p.concentration), 0)
+  if (curvePeak <= 0) return []
+
+  const bounds = [
+    { value: window.min, name: 'minimum effective concentration', risingEnters: true },
+    { value: window.max, name: 'toxic threshold', risingEnters: false },
+  ]
+
+  const events: PkMilestoneEvent[] = []
+  for (const { value, name, risingEnters } of bounds) {
+    if (value === undefined) continue
+
+    for (const crossing of findThresholdCrossings(curve, value)) {
+      const rising = crossing.direction === 'rising'
+      const enters = rising === risingEnters
+      events.push({
+        eventType: enters ? 'window_enter' : 'window_exit',
+        clockTime: formatEventTime(crossing.time, prescription),
+        elapsedTime: formatElapsedTime(Math.round((crossing.time - startHours) * 10) / 10),
+        elapsedHours: crossing.time,
+        description: `${rising ? 'Rises above' : 'Falls below'} ${name} (${formatThreshold(value, unit)}) — ${
+          enters ? 'enters' : 'leaves'
+        } therapeutic window`,
+        relativeConcentration: value / curvePeak,
+        prescriptionName: prescription.name,
+      })
+    }
+  }
+
+  return events
+}
+
+/**
+ * Events for the start of each dose-free period of an on/off cycle.
+ * @param prescription - Prescription with an optional cycle
+ * @param startHours - Simulation start in hours from midnight
+ * @param endHours - Simulation end in hours from midnight
+ * @returns off_period events (empty without a cycle)
+ */
+function calculateOffPeriodEvents(
+  prescription: Prescription,
+  startHours: number,
+  endHours: number,
+): PkMilestoneEvent[] {
+  const cycle = prescription.cycle
+  if (!cycle) return []
+
+  const cycleHours = (cycle.daysOn + cycle.daysOff) * 24
+  const startOffset = getStartOffsetHours(prescription)
+  const events: PkMilestoneEvent[] = []
+  for (const period of getCycleOffPeriods(prescription, startHours, endHours)) {
+    // Periods clipped at the window start did not begin inside the window
+    const cycleStart = period.start - startOffset
+    const offset = cycleStart % cycleHours
+    if (Math.abs(offset - cycle.daysOn * 24) > 1e-6) continue
+
+    const cycleNumber = Math.floor(cycleStart / cycleHours) + 1
+    const cycleLabel = cycle.cycles !== undefined ? `cycle ${cycleNumber} of ${cycle.cycles}` : `cycle ${cycleNumber}`
+    events.push({
+      eventType: 'off_period',
+      clockTime: formatEventTime(period.start, prescription),
+      elapsedTime: formatElapsedTime(period.start - startHours),
+      elapsedHours: period.start,
+      description: `Dose-free period begins — ${cycle.daysOff} day${cycle.daysOff === 1 ? '' : 's'} off (${cycleLabel})`,
+      relativeConcentration: null,
+      prescriptionName: prescription.name,
+    })
+  }
+  return events
+}
+
 /**
  * Calculate milestone events for a single prescription
  *
  * For each dose, generates:
- * 1. Dose administration (T+0h)
- * 2. Absorption phase ends (T+uptake hours)
- * 3. Peak concentration at T+peak hours (Cmax = 100%)
- * 4. Half-life decay milestones (50%, 25%, 12.5%, ...) until <5% or next dose
+ * 1. Dose administration (T+0h), labelled as a loading dose for the first loadingDoseCount doses
+ * 2. Absorption starts after the lag time (T+lagTime hours; only when lagTime > 0)
+ * 3. Absorption phase ends (T+lagTime+uptake hours, or the end of zero-order release; oral route only)
+ * 4. Peak concentration at T+lagTime+peak hours (Cmax = 100%); IV bolus peaks at T+0h,
+ *    IV infusion at the end of the infusion
+ * 5. Half-life decay milestones (50%, 25%, 12.5%, ...) until <5% or next dose
+ *
+ * When the prescription defines a therapeutic window, every crossing of its
+ * minimum effective concentration or toxic threshold adds a window_enter or
+ * window_exit event. Prescriptions with an on/off cycle skip doses during off
+ * periods and add an off_period event at the start of each one.
  *
  * @param prescription - Prescription with dose times and PK parameters
  * @param startHours - Simulation start in hours from midnight
@@ -44,68 +253,86 @@ export function calculateMilestones(
 ): PkMilestoneEvent[] {
   const events: PkMilestoneEvent[] = []
 
-  // Determine dosing window (duration limits when doses are given)
-  let dosingEndHours = endHours
-  if (prescription.duration !== undefined && prescription.durationUnit !== undefined) {
-    const durationInHours =
-      prescription.durationUnit === 'days'
-        ? prescription.duration * 24
-        : prescription.duration
-    dosingEndHours = startHours + durationInHours
-  }
+  // Determine dosing window (duration limits when doses are given, from any start offset)
+  const dosingEndHours = getDosingEndHours(prescription, startHours, endHours)
 
-  // Get all dose times within the dosing window
+  // Get all dose times within the dosing window, numbered from the first scheduled dose
   const numDays = Math.ceil(dosingEndHours / 24) + 1
-  const allDoseTimes = expandDoseTimes(prescription.times, numDays)
-  const doseTimes = allDoseTimes.filter((t) => t >= startHours && t < dosingEndHours)
+  const allDoseTimes = getScheduledDoseTimes(prescription, numDays)
+  const doses = allDoseTimes
+    .map((time, index) => ({ time, index }))
+    .filter(({ time }) => time >= startHours && time < dosingEndHours)
 
-  if (doseTimes.length === 0) return events
+  if (doses.length === 0) return events
 
-  for (let i = 0; i < doseTimes.length; i++) {
-    const doseTime = doseTimes[i]!
-    const nextDoseTime = i + 1 < doseTimes.length ? doseTimes[i + 1]! : null
+  for (let i = 0; i < doses.length; i++) {
+    const doseTime = doses[i]!.time
+    const doseAmount = getScheduledDoseAmount(prescription, doses[i]!.index, doseTime)
+    const isLoadingDose = isLoadingDoseIndex(prescription, doses[i]!.index)
+    const nextDoseTime = i + 1 < doses.length ? doses[i + 1]!.time : null
     const doseOffset = doseTime - startHours
 
     // 1. Dose administration
     events.push({
       eventType: 'dose',
-      clockTime: formatTimeWithDay(doseTime, '00:00'),
+      clockTime: formatEventTime(doseTime, prescription),
       elapsedTime: formatElapsedTime(doseOffset),
       elapsedHours: doseTime,
-      description: `Dose ${prescription.dose}mg administered — absorption begins`,
+      description: describeDose(prescription, doseAmount, isLoadingDose),
       relativeConcentration: null,
       prescriptionName: prescription.name,
     })
 
-    // 2. Absorption phase ends
-    const absorptionEndTime = doseTime + prescription.uptake
-    if (absorptionEndTime <= endHours && (nextDoseTime === null || absorptionEndTime < nextDoseTime)) {
+    // 2. Absorption starts after the lag time
+    const lag = getAbsorptionLag(prescription)
+    const absorptionStartTime = doseTime + lag
+    if (lag > 0 && absorptionStartTime <= endHours && (nextDoseTime === null || absorptionStartTime < nextDoseTime)) {
+      events.push({
+        eventType: 'absorption_start',
+        clockTime: formatEventTime(absorptionStartTime, prescription),
+        elapsedTime: formatElapsedTime(absorptionStartTime - startHours),
+        elapsedHours: absorptionStartTime,
+        description: `Absorption begins after ${lag}h lag time`,
+        relativeConcentration: null,
+        prescriptionName: prescription.name,
+      })
+    }
+
+    // 3. Absorption phase ends (oral only — IV routes have no absorption phase)
+    const isOral = prescription.route === undefined || prescription.route === 'oral'
+    const absorptionDuration = getAbsorptionDuration(prescription)
+    const absorptionEndTime = absorptionStartTime + absorptionDuration
+    if (isOral && absorptionEndTime <= endHours && (nextDoseTime === null || absorptionEndTime < nextDoseTime)) {
       events.push({
         eventType: 'absorption_end',
-        clockTime: formatTimeWithDay(absorptionEndTime, '00:00'),
+        clockTime: formatEventTime(absorptionEndTime, prescription),
         elapsedTime: formatElapsedTime(absorptionEndTime - startHours),
         elapsedHours: absorptionEndTime,
-        description: `Absorption phase complete (${prescription.uptake}h)`,
+        description:
+          prescription.absorptionModel === 'zero-order' || prescription.absorptionModel === 'ir-er'
+            ? `Extended release complete (${absorptionDuration}h)`
+            : `Absorption phase complete (${absorptionDuration}h)`,
         relativeConcentration: null,
         prescriptionName: prescription.name,
       })
     }
 
-    // 3. Peak concentration
-    const peakTime = doseTime + prescription.peak
+    // 4. Peak concentration
+    const peakOffset = getPeakOffset(prescription)
+    const peakTime = doseTime + peakOffset
     if (peakTime <= endHours && (nextDoseTime === null || peakTime < nextDoseTime)) {
       events.push({
         eventType: 'peak',
-        clockTime: formatTimeWithDay(peakTime, '00:00'),
+        clockTime: formatEventTime(peakTime, prescription),
         elapsedTime: formatElapsedTime(peakTime - startHours),
         elapsedHours: peakTime,
-        description: `Peak concentration (Cmax) — Tmax ${prescription.peak}h`,
+        description: `Peak concentration (Cmax) — Tmax ${Math.round(peakOffset * 100) / 100}h`,
         relativeConcentration: 1.0,
         prescriptionName: prescription.name,
       })
     }
 
-    // 4. Half-life decay milestones after peak
+    // 5. Half-life decay milestones after peak
     let halfLifeCount = 1
     while (halfLifeCount <= 10) {
       const decayTime = peakTime + halfLifeCount * prescription.halfLife
@@ -123,7 +350,7 @@ export function calculateMilestones(
 
       events.push({
         eventType: 'half_life',
-        clockTime: formatTimeWithDay(decayTime, '00:00'),
+        clockTime: formatEventTime(decayTime, prescription),
         elapsedTime: formatElapsedTime(decayTime - startHours),
         elapsedHours: decayTime,
         description: `${halfLifeCount} half-life${halfLifeCount > 1 ? 's' : ''} elapsed — ~${percentRemaining}% of peak`,
@@ -134,7 +361,7 @@ export function calculateMilestones(
       halfLifeCount++
     }
 
-    // 5. Next dose indicator (if multi-dose)
+    // 6. Next dose indicator (if multi-dose)
     if (nextDoseTime !== null && nextDoseTime <= endHours) {
       // Calculate approximate remaining concentration at next dose time
       const timeSincePeak = nextDoseTime - peakTime
@@ -143,7 +370,7 @@ export function calculateMilestones(
 
       events.push({
         eventType: 'next_dose',
-        clockTime: formatTimeWithDay(nextDoseTime, '00:00'),
+        clockTime: formatEventTime(nextDoseTime, prescription),
         elapsedTime: formatElapsedTime(nextDoseTime - startHours),
         elapsedHours: nextDoseTime,
         description: `Next dose due — ~${(remainingAtNextDose * 100).toFixed(1)}% of previous peak remaining`,
@@ -153,6 +380,12 @@ export function calculateMilestones(
     }
   }
 
+  // 7. Therapeutic window crossings (from the simulated multi-dose curve)
+  events.push(...calculateWindowCrossingEvents(prescription, startHours, endHours))
+
+  // 8. Start of each dose-free period of an on/off cycle
+  events.push(...calculateOffPeriodEvents(prescription, startHours, endHours))
+
   // Sort by time
   events.sort((a, b) => a.elapsedHours - b.elapsedHours)
 
@@ -201,3 +434,132 @@ export function generateSummaryData(
     events: calculateMilestones(rx, startHours, endHours),
   }))
 }
+
+/**
+ * Describe the dose change at the start of a schedule step.
+ * @param from - Previous step's dose in mg
+ * @param to - This step's dose in mg
+ * @returns e.g. "dose increased from 25mg to 50mg"
+ */
+function describeDoseChange(from: number, to: number): string {
+  if (from === to) return `dose unchanged at ${to}mg`
+  return `dose ${to > from ? 'increased' : 'decreased'} from ${from}mg to ${to}mg`
+}
+
+/**
+ * Generate a milestone timeline for a titration or taper schedule, one section per step
+ *
+ * Each step's section has:
+ * 1. Step start at the step's first dose, with the dose change from the previous step
+ * 2. Peak after the first dose at the new amount
+ * 3. New steady state, when a day's average level on the simulated curve first
+ *    comes within STEADY_STATE_TOLERANCE of the step's steady state (only when
+ *    reached within the step, matching calculateScheduleStepLevels())
+ *
+ * The last step also gets the final washout, 5 half-lives after the peak of the
+ * last dose. Concentrations are relative to the schedule's overall peak, as in
+ * the schedule graph.
+ *
+ * @param schedule - Dosage schedule with steps and base prescription
+ * @returns Array of PkSummaryData, one per step
+ */
+export function generateScheduleSummaryData(schedule: DosageSchedule): PkSummaryData[] {
+  const rx = schedule.basePrescription
+  const doses = expandScheduleDoses(schedule)
+  const lastDose = doses[doses.length - 1]
+  if (!lastDose) return []
+
+  const peakOffset = getPeakOffset(rx)
+  const washoutTime = lastDose.time + peakOffset + STEADY_STATE_HALF_LIVES * rx.halfLife
+
+  // Relative concentrations are read off the schedule curve (15-minute grid)
+  const curve = accumulateScheduleDoses(schedule, 0, Math.ceil(washoutTime))
+  const concentrationAt = (hours: number): number | null =>
+    curve[Math.round(hours * 4)]?.concentration ?? null
+  const stepLevels = calculateScheduleStepLevels(schedule)
+
+  const makeEvent = (
+    eventType: PkMilestoneEvent['eventType'],
+    hours: number,
+    description: string,
+    relativeConcentration: number | null,
+  ): PkMilestoneEvent => ({
+    eventType,
+    clockTime: formatEventTime(hours, schedule),
+    elapsedTime: formatElapsedTime(Math.round(hours * 10) / 10),
+    elapsedHours: hours,
+    description,
+    relativeConcentration,
+    prescriptionName: schedule.name,
+  })
+
+  let dayOffset = 0
+  return schedule.steps.map((step, index) => {
+    const stepStart = dayOffset * 24
+    const stepEnd = (dayOffset + step.durationDays) * 24
+    dayOffset += step.durationDays
+
+    const stepDoses = doses.filter(d => d.time >= stepStart && d.time < stepEnd)
+    const firstDose = stepDoses[0]
+    const events: PkMilestoneEvent[] = []
+    const previous = schedule.steps[index - 1]
+
+    if (firstDose) {
+      // 1. Step start (concentration just before the first dose at the new amount)
+      events.push(
+        makeEvent(
+          'step_start',
+          firstDose.time,
+          previous
+            ? `Step ${index + 1} begins — ${describeDoseChange(previous.dose, step.dose)}`
+            : `Step 1 begins — first dose ${step.dose}mg`,
+          index === 0 ? null : concentrationAt(firstDose.time),
+        ),
+      )
+
+      // 2. First peak at the new dose
+      const peakTime = firstDose.time + peakOffset
+      if (peakTime < stepEnd) {
+        events.push(
+          makeEvent(
+            'peak',
+            peakTime,
+            `First peak at ${step.dose}mg — Tmax ${Math.round(peakOffset * 100) / 100}h after the step's first dose`,
+            concentrationAt(peakTime),
+          ),
+        )
+      }
+
+      // 3. New steady state, if reached before the step ends
+      const steadyStateTime = stepLevels[index]?.steadyStateTime ?? null
+      if (steadyStateTime !== null) {
+        events.push(
+          makeEvent(
+            'steady_state',
+            steadyStateTime,
+            `Steady state at ${step.dose}mg reached — daily average within ${STEADY_STATE_TOLERANCE * 100}% of steady state, ${Math.round((steadyStateTime - firstDose.time) * 10) / 10}h after the step's first dose`,
+            concentrationAt(steadyStateTime),
+          ),
+        )
+      }
+    }
+
+    // 4. Final washout after the last dose
+    if (index === schedule.steps.length - 1) {
+      events.push(
+        makeEvent(
+          'washout',
+          washoutTime,
+          `Washout — ${STEADY_STATE_HALF_LIVES} half-lives after the last dose's peak, ~${(100 * Math.pow(0.5, STEADY_STATE_HALF_LIVES)).toFixed(1)}% of that peak remains`,
+          concentrationAt(washoutTime),
+        ),
+      )
+    }
+
+    return {
+      prescriptionId: schedule.id,
+      prescriptionName: `Step ${index + 1}: ${step.dose}mg (Day ${stepStart / 24 + 1}-${stepEnd / 24})`,
+      events,
+    }
+  })
+}
@@ -2,13 +2,16 @@
  * Schedule Calculator
  *
  * Generates concentration curves for titration and taper schedules
- * with variable doses across steps. Builds on calculateConcentration()
+ * with variable doses across steps. Builds on calculatePrescriptionConcentration()
  * from pkCalculator using the same accumulation strategy as multiDose.ts.
  */
 
 import type { DosageSchedule } from '../models/dosageSchedule'
-import type { TimeSeriesPoint } from '../models/prescription'
-import { calculateConcentration, resetCalculationWarnings } from './pkCalculator'
+import type { CrossTaper } from '../models/crossTaper'
+import type { Prescription, TimeSeriesPoint } from '../models/prescription'
+import { calculatePrescriptionConcentration, resetCalculationWarnings } from './pkCalculator'
+import { usesMichaelisMenten, simulateMichaelisMenten } from './nonlinearElimination'
+import { accumulateMetaboliteDoseEvents } from './multiDose'
 
 // ─── Types ───
 
@@ -17,6 +20,50 @@ export interface DoseEvent {
   dose: number
 }
 
+export interface CrossTaperCurves {
+  /** Drug being switched from, normalized to its own peak */
+  from: TimeSeriesPoint[]
+  /** Drug being switched to, shifted by the start offset and normalized to its own peak */
+  to: TimeSeriesPoint[]
+  /** Sum of both normalized curves; 1.0 equals one drug at its own peak */
+  total: TimeSeriesPoint[]
+}
+
+/**
+ * Levels a schedule step actually attains, read from the simulated curve over
+ * the step's final day. Levels are relative to the schedule's peak (1.0),
+ * matching the normalized schedule graph.
+ */
+export interface ScheduleStepLevels {
+  stepNumber: number
+  /** Lowest level over the step's final day */
+  trough: number
+  /** Highest level over the step's final day */
+  peak: number
+  /** Mean level over the step's final day */
+  average: number
+  /** Final-day average as a fraction of the average the step's dosing settles at */
+  fractionOfSteadyState: number
+  /** True when the final-day average is within STEADY_STATE_TOLERANCE of steady state */
+  reachedSteadyState: boolean
+  /**
+   * Hours from the schedule start when a 24-hour window within the step first
+   * averaged within STEADY_STATE_TOLERANCE of steady state (the window's end);
+   * null when steady state is not reached
+   */
+  steadyStateTime: number | null
+  /** Percent change in average level from the previous step; null for the first step */
+  changeFromPrevious: number | null
+}
+
+// ─── Constants ───
+
+/** Fractional distance from steady state still counted as reached (90% of steady state) */
+export const STEADY_STATE_TOLERANCE = 0.1
+
+/** Half-lives the steady-state reference is dosed for (~99% of steady state) */
+const REFERENCE_HALF_LIVES = 7
+
 // ─── Internal Helpers ───
 
 /**
@@ -31,24 +78,68 @@ function timeStringToHours(time: string): number {
   return hours + minutes / 60
 }
 
+/**
+ * Simulate raw (unnormalized) concentrations for a list of dose events,
+ * summing single-dose contributions or integrating numerically for
+ * Michaelis–Menten elimination.
+ */
+function simulateDoseEvents(
+  rx: Prescription,
+  events: DoseEvent[],
+  startHours: number,
+  endHours: number,
+  intervalMinutes: number,
+): TimeSeriesPoint[] {
+  if (usesMichaelisMenten(rx)) {
+    // Saturable elimination: integrate numerically instead of summing dose contributions
+    return simulateMichaelisMenten(rx, events, startHours, endHours, intervalMinutes)
+  }
+
+  const points: TimeSeriesPoint[] = []
+  const steps = Math.ceil((endHours - startHours) * 60 / intervalMinutes)
+
+  for (let i = 0; i <= steps; i++) {
+    const time = startHours + i * intervalMinutes / 60
+    let totalConc = 0
+
+    for (const event of events) {
+      if (event.time <= time) {
+        const elapsed = time - event.time
+        totalConc += calculatePrescriptionConcentration(elapsed, event.dose, rx)
+      }
+    }
+
+    points.push({ time, concentration: Math.max(0, totalConc) })
+  }
+
+  return points
+}
+
+/** Mean of the concentrations in a window of points (0 for an empty window) */
+function meanConcentration(points: TimeSeriesPoint[]): number {
+  if (points.length === 0) return 0
+  return points.reduce((sum, p) => sum + p.concentration, 0) / points.length
+}
+
 // ─── Exported Functions ───
 
 /**
  * Expand a DosageSchedule into individual dose administration events
  * with variable doses per step.
  *
- * For each step, generates dose events at the prescription's dosing times
- * across the step's duration in days, using that step's dose amount.
+ * For each step, generates dose events at the step's dosing times (its own
+ * override, otherwise the prescription's) across the step's duration in days,
+ * using that step's dose amount.
  *
  * @param schedule - Complete dosage schedule with steps and base prescription
  * @returns Sorted array of { time, dose } events in hours from simulation start
  */
 export function expandScheduleDoses(schedule: DosageSchedule): DoseEvent[] {
   const events: DoseEvent[] = []
-  const { times } = schedule.basePrescription
 
   let dayOffset = 0
   for (const step of schedule.steps) {
+    const times = step.times ?? schedule.basePrescription.times
     for (let day = 0; day < step.durationDays; day++) {
       for (const timeStr of times) {
         const time = (dayOffset + day) * 24 + timeStringToHours(timeStr)
@@ -71,6 +162,7 @@ export function expandScheduleDoses(schedule: DosageSchedule): DoseEvent[] {
  * Strategy:
  * 1. Expand schedule into individual dose events with variable doses
  * 2. For each timepoint, sum raw contributions from all prior dose events
+ *    (or integrate numerically for Michaelis–Menten elimination)
  * 3. Normalize final curve so peak = 1.0
  *
  * @param schedule - Complete dosage schedule
@@ -87,33 +179,14 @@ export function accumulateScheduleDoses(
 ): TimeSeriesPoint[] {
   resetCalculationWarnings()
 
-  const events = expandScheduleDoses(schedule)
-  const { halfLife, uptake, peak } = schedule.basePrescription
-
-  const points: TimeSeriesPoint[] = []
-  const steps = Math.ceil((endHours - startHours) * 60 / intervalMinutes)
-  let maxConc = 0
-
-  for (let i = 0; i <= steps; i++) {
-    const time = startHours + i * intervalMinutes / 60
-    let totalConc = 0
-
-    for (const event of events) {
-      if (event.time <= time) {
-        const elapsed = time - event.time
-        totalConc += calculateConcentration(
-          elapsed,
-          event.dose,
-          halfLife,
-          uptake,
-          peak,
-        )
-      }
-    }
-
-    points.push({ time, concentration: Math.max(0, totalConc) })
-    maxConc = Math.max(maxConc, totalConc)
-  }
+  const points = simulateDoseEvents(
+    schedule.basePrescription,
+    expandScheduleDoses(schedule),
+    startHours,
+    endHours,
+    intervalMinutes,
+  )
+  const maxConc = points.reduce((max, p) => Math.max(max, p.concentration), 0)
 
   // Normalize to peak = 1.0
   if (maxConc > 0) {
@@ -124,3 +197,158 @@ export function accumulateScheduleDoses(
 
   return points
 }
+
+/**
+ * Summarize the levels each schedule step attains on the simulated curve.
+ *
+ * Trough, peak and average are read from the step's final day (its last
+ * dosing pattern before the next dose change). Whether steady state was
+ * reached is judged against a reference simulation of the step's dose and
+ * times given on their own for REFERENCE_HALF_LIVES half-lives (or the
+ * step's duration, if longer), so short steps of long half-life drugs are
+ * reported as not reaching steady state. For steps that do reach it, the
+ * 24-hour windows within the step are scanned for the first one to average
+ * within tolerance of steady state.
+ *
+ * @param schedule - Complete dosage schedule
+ * @param intervalMinutes - Time step resolution (default 15 min)
+ * @returns One entry per step, in step order
+ */
+export function calculateScheduleStepLevels(
+  schedule: DosageSchedule,
+  intervalMinutes: number = 15,
+): ScheduleStepLevels[] {
+  resetCalculationWarnings()
+
+  const rx = schedule.basePrescription
+  const totalDays = schedule.steps.reduce((sum, step) => sum + step.durationDays, 0)
+  const curve = simulateDoseEvents(rx, expandScheduleDoses(schedule), 0, totalDays * 24, intervalMinutes)
+  const maxConc = curve.reduce((max, p) => Math.max(max, p.concentration), 0)
+  if (maxConc <= 0) return []
+
+  const pointsPerHour = 60 / intervalMinutes
+  const pointsPerDay = Math.round(24 * pointsPerHour)
+  const levels: ScheduleStepLevels[] = []
+
+  // prefix[i] = sum of normalized concentrations before point i, for rolling daily averages
+  const prefix = [0]
+  for (const p of curve) prefix.push(prefix[prefix.length - 1]! + p.concentration / maxConc)
+  const dayAverageEndingAt = (endIndex: number) =>
+    (prefix[endIndex + 1]! - prefix[endIndex - pointsPerDay]!) / (pointsPerDay + 1)
+
+  let dayOffset = 0
+  for (const step of schedule.steps) {
+    const startIndex = Math.round(dayOffset * 24 * pointsPerHour)
+    dayOffset += step.durationDays
+    const endHours = dayOffset * 24
+    const finalDay = curve
+      .slice(Math.round((endHours - 24) * pointsPerHour), Math.round(endHours * pointsPerHour) + 1)
+      .map(p => p.concentration / maxConc)
+
+    const referenceDays = Math.max(step.durationDays, Math.ceil((rx.halfLife * REFERENCE_HALF_LIVES) / 24))
+    const referenceEvents = expandScheduleDoses({
+      ...schedule,
+      steps: [{ ...step, startDay: 0, durationDays: referenceDays }],
+    })
+    const referenceAverage =
+      meanConcentration(
+        simulateDoseEvents(rx, referenceEvents, (referenceDays - 1) * 24, referenceDays * 24, intervalMinutes),
+      ) / maxConc
+
+    const average = finalDay.reduce((sum, c) => sum + c, 0) / finalDay.length
+    const fractionOfSteadyState = referenceAverage > 0 ? average / referenceAverage : 0
+    const reachedSteadyState = Math.abs(fractionOfSteadyState - 1) <= STEADY_STATE_TOLERANCE
+    const previous = levels[levels.length - 1]
+
+    let steadyStateTime: number | null = null
+    if (reachedSteadyState) {
+      const endIndex = Math.round(endHours * pointsPerHour)
+      for (let i = startIndex + pointsPerDay; i <= endIndex; i++) {
+        if (Math.abs(dayAverageEndingAt(i) / referenceAverage - 1) <= STEADY_STATE_TOLERANCE) {
+          steadyStateTime = curve[i]!.time
+          break
+        }
+      }
+    }
+
+    levels.push({
+      stepNumber: step.stepNumber,
+      trough: Math.min(...finalDay),
+      peak: Math.max(...finalDay),
+      average,
+      fractionOfSteadyState,
+      reachedSteadyState,
+      steadyStateTime,
+      changeFromPrevious:
+        previous && previous.average > 0 ? ((average - previous.average) / previous.average) * 100 : null,
+    })
+  }
+
+  return levels
+}
+
+/**
+ * Calculate the metabolite curve for a variable-dose schedule.
+ *
+ * Uses the same dose events as accumulateScheduleDoses(), with metabolite
+ * formation following each step's dose. The curve is scaled so its peak equals
+ * basePrescription.relativeMetaboliteLevel, matching how prescription
+ * metabolites sit against a parent curve normalized to 1.0.
+ *
+ * @param schedule - Dosage schedule whose base prescription has metaboliteLife and relativeMetaboliteLevel
+ * @param startHours - Simulation start time in hours
+ * @param endHours - Simulation end time in hours
+ * @param intervalMinutes - Time step resolution (default 15 min)
+ * @returns Array of TimeSeriesPoint, or empty if the metabolite parameters are incomplete
+ */
+export function accumulateScheduleMetaboliteDoses(
+  schedule: DosageSchedule,
+  startHours: number,
+  endHours: number,
+  intervalMinutes: number = 15,
+): TimeSeriesPoint[] {
+  return accumulateMetaboliteDoseEvents(
+    schedule.basePrescription,
+    expandScheduleDoses(schedule),
+    startHours,
+    endHours,
+    intervalMinutes,
+  )
+}
+
+/**
+ * Calculate both curves of a cross-taper on a shared time grid.
+ *
+ * The second schedule is simulated from its own day 0 and shifted by the
+ * cross-taper's start offset. Each drug is normalized to its own peak, so the
+ * total line shows combined relative exposure: values above 1.0 mark overlap,
+ * dips below the individual peaks mark a gap in coverage during the switch.
+ *
+ * @param crossTaper - Cross-taper with both schedules and the start offset
+ * @param startHours - Simulation start time in hours (relative to the first schedule)
+ * @param endHours - Simulation end time in hours
+ * @param intervalMinutes - Time step resolution (default 15 min)
+ */
+export function calculateCrossTaperCurves(
+  crossTaper: CrossTaper,
+  startHours: number,
+  endHours: number,
+  intervalMinutes: number = 15,
+): CrossTaperCurves {
+  const offsetHours = crossTaper.offsetDays * 24
+
+  const from = accumulateScheduleDoses(crossTaper.fromSchedule, startHours, endHours, intervalMinutes)
+  const to = accumulateScheduleDoses(
+    crossTaper.toSchedule,
+    startHours - offsetHours,
+    endHours - offsetHours,
+    intervalMinutes,
+  ).map((p, i) => ({ time: from[i]?.time ?? p.time + offsetHours, concentration: p.concentration }))
+
+  const total = from.map((p, i) => ({
+    time: p.time,
+    concentration: p.concentration + (to[i]?.concentration ?? 0),
+  }))
+
+  return { from, to, total }
+}
@@ -0,0 +1,252 @@
+/**
+ * Steady-State Metrics
+ *
+ * Closed-form steady-state concentrations for a prescription dosed at a
+ * regular interval tau. Every linear model in pkCalculator is a sum of
+ * exponential terms a·e^(-λ·t) (or zero-order input terms), and the infinite
+ * sum over all previous doses is a geometric series:
+ *
+ *   Css(t) = Σ a·e^(-λ·t) / (1 - e^(-λ·tau))
+ *
+ * Css,max and Css,min are located by evaluating that expression across one
+ * dosing interval; Css,avg follows from AUC conservation (Dose · Σ c_i/λ_i / tau).
+ * Michaelis–Menten elimination has no closed form and is not supported.
+ */
+
+import type { Prescription } from '../models/prescription'
+import { KA_KE_TOLERANCE } from '../models/prescription'
+import type { SteadyStateMetrics } from '../models/steadyState'
+import type { DispositionPhase } from './pkCalculator'
+import {
+  ABSORPTION_CONSTANT,
+  deriveKaFromTmax,
+  getDispositionPhases,
+  getZeroOrderRelease,
+  getAbsoluteConcentrationFactor,
+} from './pkCalculator'
+import { usesMichaelisMenten } from './nonlinearElimination'
+import { expandDoseTimes, getDosingCycleDays } from './multiDose'
+
+// ─── Constants ───
+
+/** Number of evaluation points across one dosing interval when locating Css,max / Css,min */
+const INTERVAL_SAMPLES = 2000
+
+// ─── Internal Helpers ───
+
+/** Single-dose term: a·e^(-rate·t) */
+interface ExponentialTerm {
+  kind: 'exponential'
+  amplitude: number
+  rate: number
+}
+
+/** Single-dose term for ka ≈ λ: a·t·e^(-rate·t) */
+interface LinearExponentialTerm {
+  kind: 'linear-exponential'
+  amplitude: number
+  rate: number
+}
+
+/** Single-dose term for constant-rate input over `duration` hours into one disposition phase */
+interface ZeroOrderTerm {
+  kind: 'zero-order'
+  /** coefficient · input rate / λ */
+  amplitude: number
+  rate: number
+  duration: number
+}
+
+type SingleDoseTerm = ExponentialTerm | LinearExponentialTerm | ZeroOrderTerm
+
+/**
+ * Disposition phases for the prescription's compartment model.
+ */
+function getPrescriptionPhases(rx: Prescription): DispositionPhase[] {
+  const isTwoCompartment =
+    rx.compartmentModel === 'two-compartment' &&
+    rx.alphaHalfLife !== undefined &&
+    rx.alphaFraction !== undefined
+  return getDispositionPhases(
+    rx.halfLife,
+    isTwoCompartment ? rx.alphaHalfLife : undefined,
+    isTwoCompartment ? rx.alphaFraction : undefined,
+  )
+}
+
+/**
+ * Decompose one dose of the prescription into closed-form terms, with time
+ * measured from the start of absorption (the lag time shifts but does not
+ * change steady-state levels).
+ */
+function buildSingleDoseTerms(rx: Prescription): SingleDoseTerm[] {
+  const phases = getPrescriptionPhases(rx)
+  const terms: SingleDoseTerm[] = []
+
+  const addZeroOrder = (dose: number, duration: number) => {
+    for (const { coefficient, rate } of phases) {
+      terms.push({ kind: 'zero-order', amplitude: (coefficient * dose) / duration / rate, rate, duration })
+    }
+  }
+
+  if (rx.route === 'iv-bolus') {
+    for (const { coefficient, rate } of phases) {
+      terms.push({ kind: 'exponential', amplitude: coefficient * rx.dose, rate })
+    }
+    return terms
+  }
+
+  if (rx.route === 'iv-infusion' && rx.infusionDuration !== undefined && rx.infusionDuration > 0) {
+    addZeroOrder(rx.dose, rx.infusionDuration)
+    return terms
+  }
+
+  const { zeroOrderFraction, releaseDuration } = getZeroOrderRelease(rx)
+  if (zeroOrderFraction > 0) {
+    addZeroOrder(rx.dose * zeroOrderFraction, releaseDuration)
+  }
+
+  const firstOrderDose = rx.dose * (1 - zeroOrderFraction)
+  if (firstOrderDose > 0) {
+    const ka = deriveKaFromTmax(rx.peak, ABSORPTION_CONSTANT / rx.halfLife)
+    for (const { coefficient, rate } of phases) {
+      if (Math.abs(ka - rate) < KA_KE_TOLERANCE) {
+        terms.push({ kind: 'linear-exponential', amplitude: coefficient * firstOrderDose * ka, rate })
+      } else {
+        const amplitude = (coefficient * firstOrderDose * ka) / (ka - rate)
+        terms.push({ kind: 'exponential', amplitude, rate })
+        terms.push({ kind: 'exponential', amplitude: -amplitude, rate: ka })
+      }
+    }
+  }
+
+  return terms
+}
+
+/**
+ * Evaluate the steady-state sum of one term over all previous doses.
+ * @param term - Single-dose term
+ * @param t - Time since the latest dose started absorbing (0 ≤ t ≤ tau)
+ * @param tau - Dosing interval in hours
+ */
+function steadyStateTerm(term: SingleDoseTerm, t: number, tau: number): number {
+  const r = Math.exp(-term.rate * tau)
+  const decay = Math.exp(-term.rate * t)
+
+  switch (term.kind) {
+    case 'exponential':
+      return (term.amplitude * decay) / (1 - r)
+    case 'linear-exponential':
+      // Σ (t + k·tau)·e^(-λ(t + k·tau)) = e^(-λt)·[t/(1-r) + tau·r/(1-r)²]
+      return term.amplitude * decay * (t / (1 - r) + (tau * r) / ((1 - r) * (1 - r)))
+    case 'zero-order': {
+      // Doses still releasing: k·tau + t ≤ duration → (1 - e^(-λ(t + k·tau)))
+      // Finished doses: (e^(λ·T) - 1)·e^(-λ(t + k·tau))
+      const releasing = t <= term.duration ? Math.floor((term.duration - t) / tau) + 1 : 0
+      const rReleasing = Math.pow(r, releasing)
+      const active = releasing - (decay * (1 - rReleasing)) / (1 - r)
+      const finished = ((Math.exp(term.rate * term.duration) - 1) * decay * rReleasing) / (1 - r)
+      return term.amplitude * (active + finished)
+    }
+  }
+}
+
+/**
+ * Dose times within one dosing cycle, in hours from the start of the cycle.
+ */
+function getCycleDoseHours(rx: Prescription): number[] {
+  return expandDoseTimes(rx.times, getDosingCycleDays(rx), rx)
+}
+
+/**
+ * Check whether dose times are evenly spaced across the cycle (within one minute).
+ */
+function areDosesEvenlySpaced(hours: number[], cycleHours: number): boolean {
+  if (hours.length <= 1) return true
+  const tau = cycleHours / hours.length
+  for (let i = 0; i < hours.length; i++) {
+    const next = i + 1 < hours.length ? hours[i + 1]! : hours[0]! + cycleHours
+    if (Math.abs(next - hours[i]! - tau) > 1 / 60) return false
+  }
+  return true
+}
+
+// ─── Exported Functions ───
+
+/**
+ * Calculate closed-form steady-state metrics for a prescription.
+ *
+ * The dosing interval is the dosing cycle (24 hours, or several days for interval and
+ * weekday frequencies) divided by the number of doses in it; irregular times are
+ * flagged with evenlySpaced = false. Different doses at different
+ * times of day (timeDoses) are replaced by their average, which keeps Css,avg exact.
+ * Values are in mg/L when a volume of distribution is set (see
+ * getAbsoluteConcentrationFactor), otherwise scaled so Css,max = 1.0.
+ *
+ * @param rx - Prescription to analyse
+ * @returns Steady-state metrics, or null for Michaelis–Menten elimination, as-needed (prn) dosing
+ *          without fixed times or unusable input
+ */
+export function calculateSteadyStateMetrics(rx: Prescription): SteadyStateMetrics | null {
+  if (usesMichaelisMenten(rx)) return null
+  if (!rx.times || rx.times.length === 0 || !(rx.dose > 0) || !(rx.halfLife > 0)) return null
+
+  const cycleHours = getDosingCycleDays(rx) * 24
+  const cycleDoseHours = getCycleDoseHours(rx)
+  const tau = cycleHours / cycleDoseHours.length
+  const dosed = Array.isArray(rx.timeDoses) && rx.timeDoses.length > 0
+    ? { ...rx, dose: rx.timeDoses.reduce((sum, d) => sum + d, 0) / rx.timeDoses.length }
+    : rx
+  const terms = buildSingleDoseTerms(dosed)
+
+  let rawMax = -Infinity
+  let rawMin = Infinity
+  for (let i = 0; i <= INTERVAL_SAMPLES; i++) {
+    const t = (i / INTERVAL_SAMPLES) * tau
+    let value = 0
+    for (const term of terms) {
+      value += steadyStateTerm(term, t, tau)
+    }
+    rawMax = Math.max(rawMax, value)
+    rawMin = Math.min(rawMin, value)
+  }
+  rawMin = Math.max(0, rawMin)
+
+  // AUC of one dose = Dose · Σ c_i / λ_i regardless of the input shape
+  const phases = getPrescriptionPhases(rx)
+  const rawAvg = (dosed.dose * phases.reduce((sum, p) => sum + p.coefficient / p.rate, 0)) / tau
+
+  const factor = getAbsoluteConcentrationFactor(rx)
+  const scale = factor ?? (rawMax > 0 ? 1 / rawMax : 1)
+  const ke = ABSORPTION_CONSTANT / rx.halfLife
+
+  return {
+    prescriptionId: rx.id,
+    prescriptionName: rx.name,
+    dosingInterval: tau,
+    evenlySpaced: areDosesEvenlySpaced(cycleDoseHours, cycleHours),
+    unit: factor !== null ? 'mg/L' : 'relative',
+    cssMax: rawMax * scale,
+    cssMin: rawMin * scale,
+    cssAvg: rawAvg * scale,
+    fluctuationPercent: rawAvg > 0 ? ((rawMax - rawMin) / rawAvg) * 100 : 0,
+    accumulationRatio: 1 / (1 - Math.exp(-ke * tau)),
+    timeTo90Percent: Math.log(10) / ke,
+  }
+}
+
+/**
+ * Calculate steady-state metrics for several prescriptions, skipping those
+ * without a closed-form solution.
+ *
+ * @param prescriptions - Prescriptions to analyse
+ * @returns Array of SteadyStateMetrics in the same order
+ */
+export function generateSteadyStateData(prescriptions: Prescription[]): SteadyStateMetrics[] {
+  const metrics: SteadyStateMetrics[] = []
+  for (const rx of prescriptions) {
+    const result = calculateSteadyStateMetrics(rx)
+    if (result) metrics.push(result)
+  }
+  return metrics
+}
@@ -0,0 +1,167 @@
+/**
+ * Taper Generator
+ *
+ * Builds the DoseStep[] of a taper schedule from a reduction rule instead of
+ * typing each step by hand:
+ * - fixed-mg: subtract the same amount each step (linear taper)
+ * - percentage: remove a fixed percentage of the current dose each step
+ * - hyperbolic: remove the same amount of estimated receptor occupancy each
+ *   step, using the hyperbolic occupancy curve occ = 100 * D / (ED50 + D).
+ *   Steps get smaller as the dose falls, as recommended for SSRI tapers.
+ */
+
+import type { DoseStep } from '../models/dosageSchedule'
+import { computeStartDays } from '../models/dosageSchedule'
+import { VALIDATION_RULES } from '../models/prescription'
+
+// ─── Types ───
+
+export type TaperRule = 'fixed-mg' | 'percentage' | 'hyperbolic'
+
+export interface TaperGeneratorOptions {
+  /** Dose of the first step in mg */
+  startDose: number
+  /** Dose of the last step in mg (the final dose before stopping) */
+  targetDose: number
+  rule: TaperRule
+  /**
+   * Reduction per step: mg for fixed-mg, percent of the current dose for
+   * percentage, percentage points of receptor occupancy for hyperbolic
+   */
+  reduction: number
+  /** Days spent on each step */
+  stepDays: number
+  /** Dose giving 50% receptor occupancy in mg; required for hyperbolic */
+  halfOccupancyDose?: number
+  /** Doses are rounded to this increment in mg (default 0.1) */
+  roundTo?: number
+}
+
+// ─── Constants ───
+
+/** Upper bound on generated steps so a tiny reduction cannot produce a runaway schedule */
+export const MAX_GENERATED_STEPS = 50
+
+const DEFAULT_ROUND_TO = 0.1
+
+// ─── Internal Helpers ───
+
+/** Estimated receptor occupancy (0-100%) at a dose */
+function occupancy(dose: number, halfOccupancyDose: number): number {
+  return (100 * dose) / (halfOccupancyDose + dose)
+}
+
+/** Dose giving the requested receptor occupancy (0-100%) */
+function doseForOccupancy(occ: number, halfOccupancyDose: number): number {
+  return (halfOccupancyDose * occ) / (100 - occ)
+}
+
+function roundDose(dose: number, roundTo: number): number {
+  // Round to the increment, then trim floating-point noise (e.g. 0.30000000000000004)
+  return Number((Math.round(dose / roundTo) * roundTo).toFixed(6))
+}
+
+/**
+ * Raw dose sequence from start to target, one entry per step.
+ * Stops one entry past MAX_GENERATED_STEPS so callers can detect the overflow.
+ * @internal Not exported
+ */
+function generateDoses(options: TaperGeneratorOptions): number[] {
+  const { startDose, targetDose, rule, reduction } = options
+  const roundTo = options.roundTo ?? DEFAULT_ROUND_TO
+  const doses = [roundDose(startDose, roundTo)]
+
+  const nextDose = (current: number, stepIndex: number): number => {
+    if (rule === 'fixed-mg') return current - reduction
+    if (rule === 'percentage') return current * (1 - reduction / 100)
+    // Validation guarantees halfOccupancyDose for hyperbolic tapers
+    const ed50 = options.halfOccupancyDose ?? 0
+    const occ = occupancy(startDose, ed50) - stepIndex * reduction
+    return occ > 0 ? doseForOccupancy(occ, ed50) : 0
+  }
+
+  let current = startDose
+  for (let i = 1; doses.length <= MAX_GENERATED_STEPS; i++) {
+    current = nextDose(current, i)
+    if (current <= targetDose) {
+      doses.push(roundDose(targetDose, roundTo))
+      break
+    }
+    const rounded = roundDose(current, roundTo)
+    // Rounding can repeat a dose at the low end; only keep actual reductions
+    if (rounded < doses[doses.length - 1]! && rounded > targetDose) {
+      doses.push(rounded)
+    }
+  }
+
+  // A start dose already at the target yields a single step; drop a duplicate target
+  return doses.filter((dose, i) => i === 0 || dose < doses[i - 1]!)
+}
+
+// ─── Exported Functions ───
+
+/**
+ * Validate taper generator options.
+ * @returns Error messages (empty when the options can generate a taper)
+ */
+export function validateTaperOptions(options: TaperGeneratorOptions): string[] {
+  const errors: string[] = []
+  const { startDose, targetDose, rule, reduction, stepDays, halfOccupancyDose } = options
+  const isPositive = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n) && n > 0
+
+  if (!isPositive(startDose) || startDose > VALIDATION_RULES.dose.max) {
+    errors.push(`Start dose must be greater than 0 and at most ${VALIDATION_RULES.dose.max.toLocaleString()} mg`)
+  }
+  if (!isPositive(targetDose)) {
+    errors.push('Target dose must be greater than 0 (it is the last dose before stopping)')
+  } else if (isPositive(startDose) && targetDose >= startDose) {
+    errors.push('Target dose must be lower than the start dose')
+  }
+  if (!isPositive(reduction)) {
+    errors.push('Reduction per step must be greater than 0')
+  } else if (rule !== 'fixed-mg' && reduction >= 100) {
+    errors.push(
+      rule === 'percentage'
+        ? 'Percentage reduction must be less than 100%'
+        : 'Occupancy reduction must be less than 100 percentage points',
+    )
+  }
+  if (typeof stepDays !== 'number' || !Number.isInteger(stepDays) || stepDays < 1) {
+    errors.push('Step length must be a whole number of days (at least 1)')
+  }
+  if (rule === 'hyperbolic' && !isPositive(halfOccupancyDose)) {
+    errors.push('Hyperbolic tapers need the dose giving 50% receptor occupancy (greater than 0)')
+  }
+  if (!['fixed-mg', 'percentage', 'hyperbolic'].includes(rule)) {
+    errors.push('Reduction rule must be one of: fixed-mg, percentage, hyperbolic')
+  }
+
+  if (errors.length === 0 && generateDoses(options).length > MAX_GENERATED_STEPS) {
+    errors.push(
+      `This rule produces more than ${MAX_GENERATED_STEPS} steps; use a larger reduction or a higher target dose`,
+    )
+  }
+
+  return errors
+}
+
+/**
+ * Generate the steps of a taper from a reduction rule.
+ * The first step is the start dose and the last is the target dose; each step
+ * lasts stepDays, with start days filled in by computeStartDays().
+ *
+ * @param options - Generator options (see validateTaperOptions)
+ * @returns Taper steps, or an empty array when the options are invalid
+ */
+export function generateTaperSteps(options: TaperGeneratorOptions): DoseStep[] {
+  if (validateTaperOptions(options).length > 0) return []
+
+  return computeStartDays(
+    generateDoses(options).map((dose, i) => ({
+      stepNumber: i + 1,
+      dose,
+      durationDays: options.stepDays,
+      startDay: 0,
+    })),
+  )
+}
@@ -0,0 +1,149 @@
+/**
+ * Therapeutic Window
+ *
+ * Time-in-range and threshold crossings for a prescription's therapeutic window
+ * (minimum effective concentration and toxic threshold). Thresholds are compared
+ * against the simulated multi-dose curve in the thresholds' own unit: mg/L when
+ * the prescription has a volume of distribution, otherwise the normalized curve
+ * (peak = 1.0).
+ */
+
+import type { Prescription, TherapeuticWindow, TimeSeriesPoint } from '../models/prescription'
+import type { TimeInRangeStats } from '../models/therapeuticWindow'
+import { getAbsoluteConcentrationFactor } from './pkCalculator'
+import { accumulateDoses } from './multiDose'
+import { calculateTimeAboveThreshold } from './exposure'
+
+/** Interpolated time at which a curve crosses a threshold */
+export interface ThresholdCrossing {
+  /** Crossing time in hours */
+  time: number
+  /** 'rising' when the curve goes above the threshold, 'falling' when it drops below */
+  direction: 'rising' | 'falling'
+}
+
+// ─── Exported Functions ───
+
+/**
+ * Read the therapeutic window from a prescription.
+ * @param rx - Prescription with optional minEffectiveConcentration / toxicConcentration
+ * @returns Window bounds, or null when neither bound is set
+ */
+export function getTherapeuticWindow(rx: Prescription): TherapeuticWindow | null {
+  const hasMin = typeof rx.minEffectiveConcentration === 'number' && rx.minEffectiveConcentration > 0
+  const hasMax = typeof rx.toxicConcentration === 'number' && rx.toxicConcentration > 0
+  if (!hasMin && !hasMax) return null
+  return {
+    ...(hasMin ? { min: rx.minEffectiveConcentration } : {}),
+    ...(hasMax ? { max: rx.toxicConcentration } : {}),
+  }
+}
+
+/**
+ * Unit of a prescription's therapeutic window bounds.
+ * @param rx - Prescription to check
+ * @returns 'mg/L' with a volume of distribution, otherwise 'relative'
+ */
+export function getTherapeuticWindowUnit(rx: Prescription): TimeInRangeStats['unit'] {
+  return getAbsoluteConcentrationFactor(rx) !== null ? 'mg/L' : 'relative'
+}
+
+/**
+ * Simulate the curve a prescription's window is compared against.
+ * @param rx - Prescription to simulate
+ * @param startHours - Simulation start time in hours
+ * @param endHours - Simulation end time in hours
+ * @returns mg/L curve with a volume of distribution, otherwise the normalized curve
+ */
+export function getTherapeuticWindowCurve(rx: Prescription, startHours: number, endHours: number): TimeSeriesPoint[] {
+  const mode = getTherapeuticWindowUnit(rx) === 'mg/L' ? 'absolute' : 'normalized'
+  return accumulateDoses(rx, startHours, endHours, 15, mode)
+}
+
+/**
+ * Locate every crossing of a threshold, interpolating linearly between samples.
+ * @param points - Concentration curve sorted by time
+ * @param threshold - Concentration threshold in the curve's unit
+ * @returns Crossings in time order
+ */
+export function findThresholdCrossings(points: TimeSeriesPoint[], threshold: number): ThresholdCrossing[] {
+  const crossings: ThresholdCrossing[] = []
+
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1]!
+    const b = points[i]!
+    const aAbove = a.concentration > threshold
+    const bAbove = b.concentration > threshold
+    if (aAbove === bAbove) continue
+
+    const time = a.time + ((threshold - a.concentration) / (b.concentration - a.concentration)) * (b.time - a.time)
+    crossings.push({ time, direction: bAbove ? 'rising' : 'falling' })
+  }
+
+  return crossings
+}
+
+/**
+ * Split the curve's duration into time below, within and above a window.
+ * @param points - Concentration curve sorted by time
+ * @param window - Window bounds in the curve's unit
+ * @returns Percentages of the curve's duration (0 for each when the curve has no duration)
+ */
+export function calculateTimeInRange(
+  points: TimeSeriesPoint[],
+  window: TherapeuticWindow,
+): { percentBelow: number; percentWithin: number; percentAbove: number } {
+  const total = points.length > 1 ? points[points.length - 1]!.time - points[0]!.time : 0
+  if (total <= 0) return { percentBelow: 0, percentWithin: 0, percentAbove: 0 }
+
+  const aboveMin = window.min !== undefined ? calculateTimeAboveThreshold(points, window.min) : total
+  const aboveMax = window.max !== undefined ? calculateTimeAboveThreshold(points, window.max) : 0
+
+  return {
+    percentBelow: ((total - aboveMin) / total) * 100,
+    percentWithin: ((aboveMin - aboveMax) / total) * 100,
+    percentAbove: (aboveMax / total) * 100,
+  }
+}
+
+/**
+ * Calculate time-in-range statistics for a prescription over a simulation window.
+ * @param rx - Prescription with a therapeutic window
+ * @param startHours - Simulation start time in hours
+ * @param endHours - Simulation end time in hours
+ * @returns TimeInRangeStats, or null when the prescription has no therapeutic window
+ */
+export function calculateTimeInRangeStats(
+  rx: Prescription,
+  startHours: number,
+  endHours: number,
+): TimeInRangeStats | null {
+  const window = getTherapeuticWindow(rx)
+  if (window === null) return null
+
+  return {
+    prescriptionId: rx.id,
+    prescriptionName: rx.name,
+    unit: getTherapeuticWindowUnit(rx),
+    window,
+    ...calculateTimeInRange(getTherapeuticWindowCurve(rx, startHours, endHours), window),
+  }
+}
+
+/**
+ * Calculate time-in-range statistics for several prescriptions, skipping those
+ * without a therapeutic window.
+ * @param prescriptions - Prescriptions to analyse
+ * @param startHours - Simulation start time in hours
+ * @param endHours - Simulation end time in hours
+ * @returns Array of TimeInRangeStats in prescription order
+ */
+export function generateTimeInRangeData(
+  prescriptions: Prescription[],
+  startHours: number,
+  endHours: number,
+): TimeInRangeStats[] {
+  return prescriptions
+    .map((rx) => calculateTimeInRangeStats(rx, startHours, endHours))
+    .filter((stats): stats is TimeInRangeStats => stats !== null)
+}
@@ -179,6 +179,138 @@ describe('pdfExport', () => {
       expect(textCalls.some((t: unknown) => t === '85.0%')).toBe(true)
     })
 
+    it('renders the steady-state section when metrics are provided', () => {
+      const data: PdfExportData = {
+        ...validPdfData,
+        steadyStateData: [
+          {
+            prescriptionId: 'test-1',
+            prescriptionName: 'TestDrug',
+            dosingInterval: 12,
+            evenlySpaced: true,
+            unit: 'mg/L',
+            cssMax: 12.3,
+            cssMin: 4.56,
+            cssAvg: 7.89,
+            fluctuationPercent: 98,
+            accumulationRatio: 1.33,
+            timeTo90Percent: 19.9,
+          },
+        ],
+      }
+      generatePdfReport(data)
+      const textCalls = mockDoc.text.mock.calls.map((c: unknown[]) => c[0])
+      expect(textCalls).toContain('Steady State')
+      expect(textCalls.some((t: unknown) => typeof t === 'string' && t.includes('Css,max: 12.3 mg/L'))).toBe(true)
+    })
+
+    it('lists the therapeutic window and labels crossing events', () => {
+      const data: PdfExportData = {
+        ...validPdfData,
+        prescriptions: [
+          {
+            ...validPdfData.prescriptions[0]!,
+            volumeOfDistribution: 50,
+            minEffectiveConcentration: 10,
+            toxicConcentration: 20,
+          },
+        ],
+        summaryData: [
+          {
+            prescriptionId: 'test-1',
+            prescriptionName: 'TestDrug',
+            events: [
+              {
+                eventType: 'window_enter',
+                clockTime: '09:30',
+                elapsedTime: 'T+0.5h',
+                elapsedHours: 0.5,
+                description: 'Rises above minimum effective concentration (10.0 mg/L) — enters therapeutic window',
+                relativeConcentration: 0.4,
+                prescriptionName: 'TestDrug',
+              },
+            ],
+          },
+        ],
+      }
+      generatePdfReport(data)
+      const textCalls = mockDoc.text.mock.calls.map((c: unknown[]) => c[0])
+      expect(textCalls).toContain('  Therapeutic window: MEC 10, toxic 20 mg/L')
+      expect(textCalls).toContain('In Range')
+    })
+
+    it('lists per-time doses', () => {
+      const data: PdfExportData = {
+        ...validPdfData,
+        prescriptions: [{ ...validPdfData.prescriptions[0]!, times: ['08:00', '22:00'], timeDoses: [50, 25] }],
+      }
+      generatePdfReport(data)
+      const textCalls = mockDoc.text.mock.calls.map((c: unknown[]) => c[0])
+      expect(textCalls).toContain('  Dose: 50 mg at 08:00, 25 mg at 22:00')
+    })
+
+    it('lists PRN prescriptions without dosing times', () => {
+      const data: PdfExportData = {
+        ...validPdfData,
+        prescriptions: [
+          {
+            ...validPdfData.prescriptions[0]!,
+            frequency: 'prn',
+            times: [],
+            minDoseInterval: 4,
+            maxDailyDose: 3000,
+            prnDoseTimes: [9, 15],
+          },
+        ],
+      }
+      generatePdfReport(data)
+      const textCalls = mockDoc.text.mock.calls.map((c: unknown[]) => c[0])
+      expect(textCalls).toContain('  Frequency: PRN')
+      expect(textCalls).toContain('  As needed: at least 4 hours apart, max 3000 mg per 24 hours')
+      expect(textCalls).toContain('  Doses placed: 2')
+    })
+
+    it('lists the loading dose', () => {
+      const data: PdfExportData = {
+        ...validPdfData,
+        prescriptions: [{ ...validPdfData.prescriptions[0]!, loadingDose: 1000, loadingDoseCount: 2 }],
+      }
+      generatePdfReport(data)
+      const textCalls = mockDoc.text.mock.calls.map((c: unknown[]) => c[0])
+      expect(textCalls).toContain('  Loading dose: 1000 mg (first 2 doses)')
+    })
+
+    it('lists the on/off cycle', () => {
+      const data: PdfExportData = {
+        ...validPdfData,
+        prescriptions: [{ ...validPdfData.prescriptions[0]!, cycle: { daysOn: 21, daysOff: 7, cycles: 3 } }],
+      }
+      generatePdfReport(data)
+      const textCalls = mockDoc.text.mock.calls.map((c: unknown[]) => c[0])
+      expect(textCalls).toContain('  Cycle: 21 days on, 7 days off (3 cycles)')
+    })
+
+    it('summarizes simulated dose deviations', () => {
+      const data: PdfExportData = {
+        ...validPdfData,
+        prescriptions: [
+          {
+            ...validPdfData.prescriptions[0]!,
+            doseDeviations: [
+              { scheduledTime: 9, type: 'skipped' },
+              { scheduledTime: 21, type: 'skipped' },
+              { scheduledTime: 33, type: 'delayed', shiftHours: 2 },
+            ],
+          },
+        ],
+      }
+      generatePdfReport(data)
+      const textCalls = mockDoc.text.mock.calls.map((c: unknown[]) => c[0])
+      expect(textCalls).toContain(
+        '  Simulated dose deviations: 2 skipped, 1 delayed (compared with the as-prescribed curve)',
+      )
+    })
+
     it('returns null when jsPDF throws', () => {
       mockDoc.output.mockImplementationOnce(() => {
         throw new Error('PDF generation failed')
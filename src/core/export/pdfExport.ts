@@ -1,6 +1,7 @@
 import { jsPDF } from 'jspdf'
 import type { Prescription } from '../models/prescription'
 import type { PkSummaryData } from '../models/pkSummary'
+import type { SteadyStateMetrics } from '../models/steadyState'
 import { sanitizeForFilename } from './imageExport'
 import { logError } from '../utils/logger'
 
@@ -8,10 +9,14 @@ export interface PdfExportData {
   drugNames: string[]
   prescriptions: Prescription[]
   summaryData: PkSummaryData[]
+  steadyStateData?: SteadyStateMetrics[]
   chartImageDataUrl: string
   timeframeLabel: string
 }
 
+/** Weekday names indexed like Prescription.daysOfWeek (0 = Sunday) */
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
 /**
  * Generate a PDF report containing PK graph, summary table, and prescription details.
  */
@@ -86,13 +91,99 @@ export function generatePdfReport(data: PdfExportData): Blob | null {
       doc.setFont('helvetica', 'normal')
 
       const details = [
-        `Dose: ${rx.dose} mg`,
-        `Frequency: ${rx.frequency.toUpperCase()} (${rx.times.join(', ')})`,
+        Array.isArray(rx.timeDoses)
+          ? `Dose: ${rx.timeDoses.map((d, i) => `${d} mg at ${rx.times[i]}`).join(', ')}`
+          : `Dose: ${rx.dose} mg`,
+        rx.frequency === 'prn'
+          ? 'Frequency: PRN'
+          : `Frequency: ${rx.frequency.toUpperCase()} (${rx.times.join(', ')})`,
         `Half-life: ${rx.halfLife} hours`,
-        `Uptake: ${rx.uptake} hours`,
-        `Peak (Tmax): ${rx.peak} hours`,
       ]
 
+      if (rx.startDate) {
+        details.push(`Start date: ${rx.startDate}`)
+      }
+
+      if (typeof rx.startOffset === 'number' && rx.startOffset > 0 && rx.startOffsetUnit) {
+        details.push(`Starts after: ${rx.startOffset} ${rx.startOffsetUnit}`)
+      }
+
+      if (rx.frequency === 'every-n-days' && typeof rx.dayInterval === 'number') {
+        details.push(`Dosing days: every ${rx.dayInterval} days`)
+      } else if (rx.frequency === 'days-of-week' && Array.isArray(rx.daysOfWeek)) {
+        details.push(`Dosing days: ${rx.daysOfWeek.map((day) => WEEKDAY_NAMES[day]).join(', ')}`)
+      } else if (rx.frequency === 'prn') {
+        details.push(`As needed: at least ${rx.minDoseInterval} hours apart, max ${rx.maxDailyDose} mg per 24 hours`)
+        details.push(`Doses placed: ${rx.prnDoseTimes?.length ?? 0}`)
+      }
+
+      if (rx.cycle) {
+        const repeats = rx.cycle.cycles !== undefined ? `${rx.cycle.cycles} cycles` : 'repeating'
+        details.push(`Cycle: ${rx.cycle.daysOn} days on, ${rx.cycle.daysOff} days off (${repeats})`)
+      }
+
+      if (typeof rx.loadingDose === 'number') {
+        const count = rx.loadingDoseCount ?? 1
+        details.push(`Loading dose: ${rx.loadingDose} mg (first ${count === 1 ? 'dose' : `${count} doses`})`)
+      }
+
+      // Absorption parameters only apply to the oral route
+      if (rx.route === undefined || rx.route === 'oral') {
+        details.push(`Uptake: ${rx.uptake} hours`)
+        details.push(`Peak (Tmax): ${rx.peak} hours`)
+        if (rx.lagTime) {
+          details.push(`Lag time: ${rx.lagTime} hours`)
+        }
+        if (rx.absorptionModel === 'zero-order') {
+          details.push(`Absorption: zero-order release over ${rx.releaseDuration} hours`)
+        } else if (rx.absorptionModel === 'ir-er') {
+          details.push(
+            `Absorption: IR + ER (${Math.round((rx.erFraction ?? 0) * 100)}% released over ${rx.releaseDuration} hours)`,
+          )
+        }
+        if (rx.bioavailability !== undefined) {
+          details.push(`Bioavailability (F): ${rx.bioavailability}`)
+        }
+      }
+
+      if (rx.route === 'iv-bolus') {
+        details.push('Route: IV bolus')
+      } else if (rx.route === 'iv-infusion') {
+        details.push(`Route: IV infusion over ${rx.infusionDuration} hours`)
+      }
+
+      if (rx.compartmentModel === 'two-compartment') {
+        details.push(
+          `Model: two-compartment (alpha half-life ${rx.alphaHalfLife} hours, alpha fraction ${rx.alphaFraction})`,
+        )
+      }
+
+      if (rx.eliminationModel === 'michaelis-menten') {
+        details.push(`Elimination: Michaelis-Menten (Vmax ${rx.vmax} mg/h, Km ${rx.km} mg/L)`)
+      }
+
+      if (rx.volumeOfDistribution !== undefined) {
+        details.push(`Volume of distribution: ${rx.volumeOfDistribution} L`)
+      }
+
+      if (rx.minEffectiveConcentration !== undefined || rx.toxicConcentration !== undefined) {
+        const unit = rx.volumeOfDistribution !== undefined ? ' mg/L' : ' (relative)'
+        const bounds = [
+          rx.minEffectiveConcentration !== undefined ? `MEC ${rx.minEffectiveConcentration}` : null,
+          rx.toxicConcentration !== undefined ? `toxic ${rx.toxicConcentration}` : null,
+        ].filter(Boolean)
+        details.push(`Therapeutic window: ${bounds.join(', ')}${unit}`)
+      }
+
+      if (rx.doseDeviations && rx.doseDeviations.length > 0) {
+        const counts = new Map<string, number>()
+        for (const deviation of rx.doseDeviations) {
+          counts.set(deviation.type, (counts.get(deviation.type) ?? 0) + 1)
+        }
+        const summary = [...counts].map(([type, count]) => `${count} ${type}`)
+        details.push(`Simulated dose deviations: ${summary.join(', ')} (compared with the as-prescribed curve)`)
+      }
+
       if (rx.metaboliteLife && rx.relativeMetaboliteLevel) {
         details.push(`Metabolite half-life: ${rx.metaboliteLife} hours`)
         details.push(`Relative metabolite level: ${rx.relativeMetaboliteLevel}`)
@@ -105,6 +196,46 @@ export function generatePdfReport(data: PdfExportData): Blob | null {
       yPos += 3
     }
 
+    // Steady-state metrics
+    if (data.steadyStateData && data.steadyStateData.length > 0) {
+      if (yPos > 240) {
+        doc.addPage()
+        yPos = margin
+      }
+
+      doc.setFontSize(14)
+      doc.setFont('helvetica', 'bold')
+      doc.text('Steady State', margin, yPos)
+      yPos += 7
+
+      doc.setFontSize(10)
+      for (const metrics of data.steadyStateData) {
+        if (yPos > 260) {
+          doc.addPage()
+          yPos = margin
+        }
+
+        doc.setFont('helvetica', 'bold')
+        doc.text(`${metrics.prescriptionName} (every ${formatSteadyStateHours(metrics.dosingInterval)})`, margin, yPos)
+        yPos += 5
+        doc.setFont('helvetica', 'normal')
+
+        const lines = [
+          `Css,max: ${formatSteadyStateConcentration(metrics.cssMax, metrics.unit)}   Css,min: ${formatSteadyStateConcentration(metrics.cssMin, metrics.unit)}   Css,avg: ${formatSteadyStateConcentration(metrics.cssAvg, metrics.unit)}`,
+          `Fluctuation: ${metrics.fluctuationPercent.toFixed(0)}%   Accumulation ratio: ${metrics.accumulationRatio.toFixed(2)}   90% of steady state: ${formatSteadyStateHours(metrics.timeTo90Percent)}`,
+        ]
+        if (!metrics.evenlySpaced) {
+          lines.push('Dose times are unevenly spaced; values assume the average interval.')
+        }
+        for (const line of lines) {
+          doc.text(`  ${line}`, margin, yPos)
+          yPos += 4.5
+        }
+        yPos += 3
+      }
+      yPos += 2
+    }
+
     // PK Summary Table
     if (data.summaryData.length > 0) {
       if (yPos > 200) {
@@ -185,13 +316,25 @@ export function generatePdfReport(data: PdfExportData): Blob | null {
   }
 }
 
+function formatSteadyStateConcentration(value: number, unit: SteadyStateMetrics['unit']): string {
+  return unit === 'relative' ? `${(value * 100).toFixed(1)}%` : `${value.toPrecision(3)} mg/L`
+}
+
+function formatSteadyStateHours(hours: number): string {
+  return Number.isInteger(hours) ? `${hours}h` : `${hours.toFixed(1)}h`
+}
+
 function eventTypeLabel(eventType: string): string {
   const labels: Record<string, string> = {
     dose: 'Dose',
+    absorption_start: 'Lag End',
     absorption_end: 'Absorption',
     peak: 'Peak',
     half_life: 'Decay',
     next_dose: 'Next Dose',
+    window_enter: 'In Range',
+    window_exit: 'Out of Range',
+    off_period: 'Off Period',
   }
   return labels[eventType] || ''
 }
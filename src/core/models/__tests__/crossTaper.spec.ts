@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest'
+import type { Prescription } from '../prescription'
+import type { DosageSchedule } from '../dosageSchedule'
+import type { CrossTaper } from '../crossTaper'
+import { validateCrossTaper, getCrossTaperDurationDays } from '../crossTaper'
+
+function makeBasePrescription(overrides: Partial<Prescription> = {}): Prescription {
+  return {
+    name: 'Test Drug',
+    frequency: 'qd',
+    times: ['09:00'],
+    dose: 50,
+    halfLife: 24,
+    peak: 6,
+    uptake: 2,
+    ...overrides,
+  }
+}
+
+function makeTaper(): DosageSchedule {
+  return {
+    name: 'Drug A taper',
+    direction: 'taper',
+    basePrescription: makeBasePrescription({ name: 'Drug A' }),
+    steps: [
+      { stepNumber: 1, dose: 100, durationDays: 7, startDay: 0 },
+      { stepNumber: 2, dose: 50, durationDays: 7, startDay: 7 },
+    ],
+    totalDuration: 14,
+  }
+}
+
+function makeTitration(): DosageSchedule {
+  return {
+    name: 'Drug B titration',
+    direction: 'titration',
+    basePrescription: makeBasePrescription({ name: 'Drug B', halfLife: 12 }),
+    steps: [
+      { stepNumber: 1, dose: 25, durationDays: 7, startDay: 0 },
+      { stepNumber: 2, dose: 50, durationDays: 14, startDay: 7 },
+    ],
+    totalDuration: 21,
+  }
+}
+
+function makeCrossTaper(overrides: Partial<CrossTaper> = {}): CrossTaper {
+  return {
+    name: 'Drug A to Drug B',
+    fromSchedule: makeTaper(),
+    toSchedule: makeTitration(),
+    offsetDays: 7,
+    ...overrides,
+  }
+}
+
+describe('Cross-Taper Models', () => {
+  describe('getCrossTaperDurationDays', () => {
+    it('ends with the second schedule when it finishes last', () => {
+      expect(getCrossTaperDurationDays(makeCrossTaper())).toBe(28)
+    })
+
+    it('ends with the first schedule when the second finishes earlier', () => {
+      const fromSchedule = { ...makeTaper(), totalDuration: 40 }
+      expect(getCrossTaperDurationDays(makeCrossTaper({ fromSchedule }))).toBe(40)
+    })
+  })
+
+  describe('validateCrossTaper', () => {
+    it('passes a taper-to-titration switch without warnings', () => {
+      const result = validateCrossTaper(makeCrossTaper())
+      expect(result.valid).toBe(true)
+      expect(result.errors).toEqual([])
+      expect(result.warnings).toEqual([])
+    })
+
+    it('rejects an empty name', () => {
+      const result = validateCrossTaper(makeCrossTaper({ name: '  ' }))
+      expect(result.valid).toBe(false)
+      expect(result.errors).toContain('Cross-taper name must not be empty')
+    })
+
+    it('rejects a name over 100 characters', () => {
+      const result = validateCrossTaper(makeCrossTaper({ name: 'x'.repeat(101) }))
+      expect(result.errors).toContain('Cross-taper name must be 100 characters or fewer')
+    })
+
+    it.each([-1, 2.5, 366, NaN])('rejects a start offset of %s days', (offsetDays) => {
+      const result = validateCrossTaper(makeCrossTaper({ offsetDays }))
+      expect(result.valid).toBe(false)
+      expect(result.errors).toContain(
+        'Start offset must be a whole number of days between 0 and 365',
+      )
+    })
+
+    it('accepts starting both schedules together', () => {
+      expect(validateCrossTaper(makeCrossTaper({ offsetDays: 0 })).valid).toBe(true)
+    })
+
+    it('requires both schedules', () => {
+      const result = validateCrossTaper({
+        name: 'Incomplete',
+        offsetDays: 0,
+      } as unknown as CrossTaper)
+      expect(result.errors).toContain('Switching from schedule is required')
+      expect(result.errors).toContain('Switching to schedule is required')
+    })
+
+    it('prefixes embedded schedule errors with the side they came from', () => {
+      const toSchedule = { ...makeTitration(), steps: [makeTitration().steps[0]!] }
+      const result = validateCrossTaper(makeCrossTaper({ toSchedule }))
+      expect(result.valid).toBe(false)
+      expect(result.errors).toContain('Switching to schedule: At least 2 steps are required')
+    })
+
+    it('warns when the directions are reversed', () => {
+      const result = validateCrossTaper(
+        makeCrossTaper({ fromSchedule: makeTitration(), toSchedule: makeTaper() }),
+      )
+      expect(result.valid).toBe(true)
+      expect(result.warnings).toContain('The schedule being switched from is usually a taper.')
+      expect(result.warnings).toContain('The schedule being switched to is usually a titration.')
+    })
+
+    it('warns when the second schedule starts after the first ends', () => {
+      const result = validateCrossTaper(makeCrossTaper({ offsetDays: 14 }))
+      expect(result.valid).toBe(true)
+      expect(result.warnings.some(w => w.includes('do not overlap'))).toBe(true)
+    })
+  })
+})
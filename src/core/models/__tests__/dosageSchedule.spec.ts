@@ -244,6 +244,18 @@ describe('Dosage Schedule Models', () => {
 
     // ─── Validation: Steps ───
 
+    describe('start date validation', () => {
+      it('accepts a dated schedule', () => {
+        expect(validateDosageSchedule(makeValidSchedule({ startDate: '2026-03-02' })).valid).toBe(true)
+      })
+
+      it('rejects an impossible start date', () => {
+        const result = validateDosageSchedule(makeValidSchedule({ startDate: '2026-02-31' }))
+        expect(result.valid).toBe(false)
+        expect(result.errors).toContain('Schedule start date must be a valid date (YYYY-MM-DD)')
+      })
+    })
+
     describe('steps validation', () => {
       it('rejects schedule with 0 steps', () => {
         const result = validateDosageSchedule(makeValidSchedule({ steps: [], totalDuration: 0 }))
@@ -316,6 +328,59 @@ describe('Dosage Schedule Models', () => {
       })
     })
 
+    // ─── Validation: Per-step frequency overrides ───
+
+    describe('step frequency overrides', () => {
+      function withSecondStep(overrides: Partial<DoseStep>): DosageSchedule {
+        const schedule = makeValidSchedule()
+        return {
+          ...schedule,
+          steps: [schedule.steps[0]!, { ...schedule.steps[1]!, ...overrides }],
+        }
+      }
+
+      it('accepts a step switching from BID to QD', () => {
+        const result = validateDosageSchedule(withSecondStep({ frequency: 'qd', times: ['09:00'] }))
+        expect(result.valid).toBe(true)
+      })
+
+      it('accepts custom times of any count', () => {
+        const result = validateDosageSchedule(
+          withSecondStep({ frequency: 'custom', times: ['08:00', '14:00', '22:00'] }),
+        )
+        expect(result.valid).toBe(true)
+      })
+
+      it('rejects a time count that does not match the frequency', () => {
+        const result = validateDosageSchedule(
+          withSecondStep({ frequency: 'qd', times: ['09:00', '21:00'] }),
+        )
+        expect(result.errors).toContain(
+          "Step 2: frequency 'qd' requires exactly 1 dosing time(s), but 2 provided",
+        )
+      })
+
+      it('rejects frequencies that skip days', () => {
+        const result = validateDosageSchedule(withSecondStep({ frequency: 'weekly', times: ['09:00'] }))
+        expect(result.valid).toBe(false)
+        expect(result.errors[0]).toMatch(/^Step 2: frequency must be one of: qd, bid/)
+      })
+
+      it('rejects malformed times', () => {
+        const result = validateDosageSchedule(withSecondStep({ frequency: 'qd', times: ['9am'] }))
+        expect(result.errors).toContain("Step 2: time '9am' is not valid HH:MM 24-hour format")
+      })
+
+      it('requires times with a frequency and a frequency with times', () => {
+        expect(validateDosageSchedule(withSecondStep({ frequency: 'qd' })).errors).toContain(
+          'Step 2: at least one dosing time is required when frequency is overridden',
+        )
+        expect(validateDosageSchedule(withSecondStep({ times: ['09:00'] })).errors).toContain(
+          'Step 2: frequency is required when dosing times are overridden',
+        )
+      })
+    })
+
     // ─── Validation: Warnings for non-monotonic doses ───
 
     describe('dose monotonicity warnings', () => {
@@ -368,6 +433,44 @@ describe('Dosage Schedule Models', () => {
       })
     })
 
+    // ─── Validation: Tablet inventory ───
+
+    describe('tablet inventory', () => {
+      const tablets = [
+        { strength: 25, splittable: true },
+        { strength: 10, splittable: false },
+      ]
+
+      it('does not warn when every step can be built from the tablets', () => {
+        const result = validateDosageSchedule(makeValidSchedule({ tablets }))
+        expect(result.valid).toBe(true)
+        expect(result.warnings).toEqual([])
+      })
+
+      it('warns with the nearest dose when a step cannot be built', () => {
+        const result = validateDosageSchedule(makeValidSchedule({
+          tablets,
+          steps: [
+            { stepNumber: 1, dose: 13.2, durationDays: 7, startDay: 0 },
+            { stepNumber: 2, dose: 50, durationDays: 7, startDay: 7 },
+          ],
+        }))
+        expect(result.valid).toBe(true)
+        expect(result.warnings).toEqual([
+          'Step 1: 13.2 mg cannot be made from the available tablets (nearest: 12.5 mg)',
+        ])
+      })
+
+      it('rejects an invalid inventory without checking steps against it', () => {
+        const result = validateDosageSchedule(makeValidSchedule({
+          tablets: [{ strength: 0, splittable: false }],
+        }))
+        expect(result.valid).toBe(false)
+        expect(result.errors).toContain('Tablet 1: strength must be greater than 0 and at most 10,000 mg')
+        expect(result.warnings).toEqual([])
+      })
+    })
+
     // ─── Validation: Base Prescription ───
 
     describe('base prescription validation', () => {
@@ -1,4 +1,6 @@
 import type { Prescription } from '../prescription'
+import type { DosageSchedule } from '../dosageSchedule'
+import type { CrossTaper } from '../crossTaper'
 
 /** Simple single-dose reference case */
 export const SINGLE_DOSE_FIXTURE: Prescription = {
@@ -78,3 +80,51 @@ export const METABOLITE_STANDARD_FIXTURE: Prescription = {
   peak: 2,
   uptake: 1.5,
 }
+
+/** Lorazepam-like drug with a distinct distribution phase (two-compartment) */
+export const TWO_COMPARTMENT_FIXTURE: Prescription = {
+  name: 'Test Two-Compartment Drug',
+  frequency: 'bid',
+  times: ['09:00', '21:00'],
+  dose: 2,
+  halfLife: 12,
+  peak: 2,
+  uptake: 1,
+  compartmentModel: 'two-compartment',
+  alphaHalfLife: 0.5,
+  alphaFraction: 0.6,
+}
+
+/** Two-step taper used as the "switching from" side of a cross-taper */
+export const TAPER_SCHEDULE_FIXTURE: DosageSchedule = {
+  id: 'sched-taper',
+  name: 'Drug A taper',
+  direction: 'taper',
+  basePrescription: { ...SINGLE_DOSE_FIXTURE, name: 'Drug A', frequency: 'qd', dose: 100 },
+  steps: [
+    { stepNumber: 1, dose: 100, durationDays: 7, startDay: 0 },
+    { stepNumber: 2, dose: 50, durationDays: 7, startDay: 7 },
+  ],
+  totalDuration: 14,
+}
+
+/** Two-step titration used as the "switching to" side of a cross-taper */
+export const TITRATION_SCHEDULE_FIXTURE: DosageSchedule = {
+  id: 'sched-titration',
+  name: 'Drug B titration',
+  direction: 'titration',
+  basePrescription: { ...BID_MULTI_DOSE_FIXTURE, name: 'Drug B', dose: 25 },
+  steps: [
+    { stepNumber: 1, dose: 25, durationDays: 7, startDay: 0 },
+    { stepNumber: 2, dose: 50, durationDays: 14, startDay: 7 },
+  ],
+  totalDuration: 21,
+}
+
+/** Taper of Drug A with Drug B starting on day 8 */
+export const CROSS_TAPER_FIXTURE: CrossTaper = {
+  name: 'Drug A to Drug B',
+  fromSchedule: TAPER_SCHEDULE_FIXTURE,
+  toSchedule: TITRATION_SCHEDULE_FIXTURE,
+  offsetDays: 7,
+}
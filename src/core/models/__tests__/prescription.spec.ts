@@ -6,6 +6,7 @@ import {
   VALIDATION_RULES,
   KA_KE_TOLERANCE,
   validatePrescription,
+  getPrnDoseWarnings,
 } from '../prescription'
 import {
   SINGLE_DOSE_FIXTURE,
@@ -134,18 +135,33 @@ describe('Prescription Models', () => {
       expect(FREQUENCY_MAP.q12h).toBe(2)
     })
 
+    it('maps qod and weekly to 1', () => {
+      expect(FREQUENCY_MAP.qod).toBe(1)
+      expect(FREQUENCY_MAP.weekly).toBe(1)
+    })
+
+    it('maps every-n-days and days-of-week to null', () => {
+      expect(FREQUENCY_MAP['every-n-days']).toBeNull()
+      expect(FREQUENCY_MAP['days-of-week']).toBeNull()
+    })
+
+    it('maps prn to zero fixed daily doses', () => {
+      expect(FREQUENCY_MAP.prn).toBe(0)
+      expect(DEFAULT_TIMES.prn).toEqual([])
+    })
+
     it('maps custom to null', () => {
       expect(FREQUENCY_MAP.custom).toBeNull()
     })
 
-    it('has exactly 10 entries', () => {
-      expect(Object.keys(FREQUENCY_MAP)).toHaveLength(10)
+    it('has exactly 15 entries', () => {
+      expect(Object.keys(FREQUENCY_MAP)).toHaveLength(15)
     })
   })
 
   describe('DEFAULT_TIMES', () => {
     it('has entry for each FrequencyLabel', () => {
-      expect(Object.keys(DEFAULT_TIMES)).toHaveLength(10)
+      expect(Object.keys(DEFAULT_TIMES)).toHaveLength(15)
     })
 
     it.each([
@@ -158,6 +174,10 @@ describe('Prescription Models', () => {
       ['q6h', ['06:00', '12:00', '18:00', '00:00']],
       ['q8h', ['08:00', '16:00', '00:00']],
       ['q12h', ['09:00', '21:00']],
+      ['qod', ['09:00']],
+      ['weekly', ['09:00']],
+      ['every-n-days', ['09:00']],
+      ['days-of-week', ['09:00']],
       ['custom', []],
     ])('DEFAULT_TIMES.%s equals %j', (freq, expected) => {
       expect(DEFAULT_TIMES[freq as FrequencyLabel]).toEqual(expected)
@@ -165,7 +185,7 @@ describe('Prescription Models', () => {
 
     it('each frequency times count matches FREQUENCY_MAP count', () => {
       for (const freq of Object.keys(FREQUENCY_MAP) as FrequencyLabel[]) {
-        if (freq === 'custom') continue
+        if (FREQUENCY_MAP[freq] === null) continue
         expect(DEFAULT_TIMES[freq].length).toBe(FREQUENCY_MAP[freq])
       }
     })
@@ -188,10 +208,11 @@ describe('Prescription Models', () => {
       })
     })
 
-    it('defines frequency rules with all 10 allowed values', () => {
-      expect(VALIDATION_RULES.frequency.allowedValues).toEqual(
-        ['once', 'qd', 'bid', 'tid', 'qid', 'q3h', 'q6h', 'q8h', 'q12h', 'custom'],
-      )
+    it('defines frequency rules with all 15 allowed values', () => {
+      expect(VALIDATION_RULES.frequency.allowedValues).toEqual([
+        'once', 'qd', 'bid', 'tid', 'qid', 'q3h', 'q6h', 'q8h', 'q12h',
+        'qod', 'weekly', 'every-n-days', 'days-of-week', 'prn', 'custom',
+      ])
     })
 
     it('defines times rules', () => {
@@ -451,15 +472,17 @@ describe('Prescription Models', () => {
         expect(result.errors.some((e) => /frequency/i.test(e))).toBe(true)
       })
 
-      it('accepts each of the 10 valid frequency labels', () => {
-        const labels: FrequencyLabel[] = ['once', 'qd', 'bid', 'tid', 'qid', 'q3h', 'q6h', 'q8h', 'q12h', 'custom']
+      it('accepts each of the 15 valid frequency labels', () => {
+        const labels = VALIDATION_RULES.frequency.allowedValues
         for (const freq of labels) {
-          const times = freq === 'custom'
+          const times = FREQUENCY_MAP[freq] === null
             ? ['09:00']
             : Array.from({ length: FREQUENCY_MAP[freq] ?? 1 }, (_, i) =>
                 `${String(i * 4).padStart(2, '0')}:00`,
               )
-          const result = validatePrescription(makeValid({ frequency: freq, times }))
+          const result = validatePrescription(
+            makeValid({ frequency: freq, times, dayInterval: 3, daysOfWeek: [1, 4] }),
+          )
           // Should have no frequency errors (may have other field warnings)
           expect(result.errors.filter((e) => /frequency/i.test(e))).toEqual([])
         }
@@ -1074,6 +1097,548 @@ describe('Prescription Models', () => {
     })
   })
 
+  // ─── Two-Compartment Model Validation ───
+
+  describe('compartment model validation', () => {
+    const twoCpt = (overrides: Partial<Prescription> = {}) =>
+      makeValid({
+        halfLife: 12,
+        compartmentModel: 'two-compartment',
+        alphaHalfLife: 0.5,
+        alphaFraction: 0.6,
+        ...overrides,
+      })
+
+    it('accepts a prescription without compartmentModel', () => {
+      expect(validatePrescription(makeValid()).valid).toBe(true)
+    })
+
+    it('accepts explicit one-compartment without alpha parameters', () => {
+      const result = validatePrescription(makeValid({ compartmentModel: 'one-compartment' }))
+      expect(result.valid).toBe(true)
+    })
+
+    it('accepts a complete two-compartment prescription', () => {
+      const result = validatePrescription(twoCpt())
+      expect(result.valid).toBe(true)
+      expect(result.errors).toEqual([])
+    })
+
+    it('rejects an unknown compartment model', () => {
+      const rx = makeValid({ compartmentModel: 'three-compartment' as Prescription['compartmentModel'] })
+      const result = validatePrescription(rx)
+      expect(result.valid).toBe(false)
+      expect(result.errors.some((e) => e.includes('Compartment model'))).toBe(true)
+    })
+
+    it('requires alphaHalfLife for two-compartment', () => {
+      const result = validatePrescription(twoCpt({ alphaHalfLife: undefined }))
+      expect(result.valid).toBe(false)
+      expect(result.errors.some((e) => e.includes('alpha) half-life is required'))).toBe(true)
+    })
+
+    it('requires alphaFraction for two-compartment', () => {
+      const result = validatePrescription(twoCpt({ alphaFraction: undefined }))
+      expect(result.valid).toBe(false)
+      expect(result.errors.some((e) => e.includes('alpha) fraction is required'))).toBe(true)
+    })
+
+    it('rejects alphaHalfLife below minimum', () => {
+      const result = validatePrescription(twoCpt({ alphaHalfLife: 0.001 }))
+      expect(result.valid).toBe(false)
+    })
+
+    it('rejects alphaHalfLife not shorter than halfLife', () => {
+      const result = validatePrescription(twoCpt({ alphaHalfLife: 12 }))
+      expect(result.valid).toBe(false)
+      expect(result.errors.some((e) => e.includes('must be shorter than the elimination'))).toBe(true)
+    })
+
+    it.each([0, 1, 1.5])('rejects alphaFraction out of range (%s)', (alphaFraction) => {
+      const result = validatePrescription(twoCpt({ alphaFraction }))
+      expect(result.valid).toBe(false)
+    })
+
+    it('accepts alphaFraction boundaries 0.01 and 0.99', () => {
+      expect(validatePrescription(twoCpt({ alphaFraction: 0.01 })).valid).toBe(true)
+      expect(validatePrescription(twoCpt({ alphaFraction: 0.99 })).valid).toBe(true)
+    })
+
+    it('ignores alpha parameters for one-compartment prescriptions', () => {
+      const result = validatePrescription(makeValid({ alphaHalfLife: 500, alphaFraction: 5 }))
+      expect(result.valid).toBe(true)
+    })
+
+    it('defines compartmentModel rules in VALIDATION_RULES', () => {
+      expect(VALIDATION_RULES.compartmentModel.allowedValues).toEqual(['one-compartment', 'two-compartment'])
+      expect(VALIDATION_RULES.alphaFraction).toMatchObject({ required: false, min: 0.01, max: 0.99 })
+    })
+  })
+
+  // ─── Route Validation ───
+
+  describe('route validation', () => {
+    it('accepts oral and iv-bolus without infusion duration', () => {
+      expect(validatePrescription(makeValid({ route: 'oral' })).valid).toBe(true)
+      expect(validatePrescription(makeValid({ route: 'iv-bolus' })).valid).toBe(true)
+    })
+
+    it('rejects an unknown route', () => {
+      const result = validatePrescription(makeValid({ route: 'im' as Prescription['route'] }))
+      expect(result.valid).toBe(false)
+      expect(result.errors.some((e) => e.includes('Route must be one of'))).toBe(true)
+    })
+
+    it('requires infusionDuration for iv-infusion', () => {
+      const result = validatePrescription(makeValid({ route: 'iv-infusion' }))
+      expect(result.valid).toBe(false)
+      expect(result.errors).toContain('Infusion duration is required for IV infusions')
+    })
+
+    it('accepts iv-infusion with a valid duration', () => {
+      expect(validatePrescription(makeValid({ route: 'iv-infusion', infusionDuration: 1 })).valid).toBe(true)
+    })
+
+    it.each([0, 200])('rejects infusionDuration out of range (%s)', (infusionDuration) => {
+      const result = validatePrescription(makeValid({ route: 'iv-infusion', infusionDuration }))
+      expect(result.valid).toBe(false)
+    })
+
+    it('skips uptake warnings for IV routes', () => {
+      const rx = makeValid({ route: 'iv-bolus', uptake: 10, halfLife: 6 })
+      expect(validatePrescription(rx).warnings).toEqual([])
+    })
+  })
+
+  // ─── Lag Time Validation ───
+
+  describe('lagTime validation', () => {
+    it('accepts a prescription without lagTime', () => {
+      expect(validatePrescription(makeValid()).valid).toBe(true)
+    })
+
+    it.each([0, 1.5, 24])('accepts lagTime of %s hours', (lagTime) => {
+      expect(validatePrescription(makeValid({ lagTime })).valid).toBe(true)
+    })
+
+    it.each([-1, 25])('rejects lagTime out of range (%s)', (lagTime) => {
+      const result = validatePrescription(makeValid({ lagTime }))
+      expect(result.valid).toBe(false)
+      expect(result.errors.some((e) => e.startsWith('Lag time must be'))).toBe(true)
+    })
+
+    it('rejects a non-numeric lagTime', () => {
+      const result = validatePrescription(makeValid({ lagTime: NaN }))
+      expect(result.errors).toContain('Lag time must be a number when provided')
+    })
+
+    it('warns that lagTime is ignored for IV routes', () => {
+      const result = validatePrescription(makeValid({ route: 'iv-bolus', lagTime: 2 }))
+      expect(result.valid).toBe(true)
+      expect(result.warnings.some((w) => w.includes('ignored for IV routes'))).toBe(true)
+    })
+  })
+
+  // ─── Absorption Model Validation ───
+
+  describe('absorption model validation', () => {
+    it('accepts first-order without release parameters', () => {
+      expect(validatePrescription(makeValid({ absorptionModel: 'first-order' })).valid).toBe(true)
+    })
+
+    it('requires releaseDuration for zero-order', () => {
+      const result = validatePrescription(makeValid({ absorptionModel: 'zero-order' }))
+      expect(result.valid).toBe(false)
+      expect(result.errors).toContain('Release duration is required for zero-order and IR+ER absorption')
+    })
+
+    it('accepts zero-order with a valid release duration', () => {
+      expect(validatePrescription(makeValid({ absorptionModel: 'zero-order', releaseDuration: 12 })).valid).toBe(true)
+    })
+
+    it('requires erFraction for ir-er', () => {
+      const result = validatePrescription(makeValid({ absorptionModel: 'ir-er', releaseDuration: 8 }))
+      expect(result.valid).toBe(false)
+      expect(result.errors).toContain('Extended-release fraction is required for IR+ER absorption')
+    })
+
+    it.each([0, 1])('rejects erFraction out of range (%s)', (erFraction) => {
+      const result = validatePrescription(makeValid({ absorptionModel: 'ir-er', releaseDuration: 8, erFraction }))
+      expect(result.valid).toBe(false)
+      expect(result.errors.some((e) => e.startsWith('Extended-release fraction must be'))).toBe(true)
+    })
+
+    it('rejects an unknown absorption model', () => {
+      const result = validatePrescription(
+        makeValid({ absorptionModel: 'pulsatile' as Prescription['absorptionModel'] }),
+      )
+      expect(result.errors.some((e) => e.includes('Absorption model must be one of'))).toBe(true)
+    })
+
+    it('skips uptake warnings for zero-order absorption', () => {
+      const rx = makeValid({ absorptionModel: 'zero-order', releaseDuration: 12, uptake: 10, halfLife: 6 })
+      expect(validatePrescription(rx).warnings).toEqual([])
+    })
+
+    it('warns that the absorption model is ignored for IV routes', () => {
+      const rx = makeValid({ route: 'iv-bolus', absorptionModel: 'zero-order', releaseDuration: 12 })
+      expect(validatePrescription(rx).warnings.some((w) => w.includes('Absorption model'))).toBe(true)
+    })
+  })
+
+  // ─── Elimination Model Validation ───
+
+  describe('elimination model validation', () => {
+    const saturable = { eliminationModel: 'michaelis-menten' as const, vmax: 20, km: 4, volumeOfDistribution: 50 }
+
+    it('accepts linear elimination without extra parameters', () => {
+      expect(validatePrescription(makeValid({ eliminationModel: 'linear' })).valid).toBe(true)
+    })
+
+    it('accepts Michaelis-Menten with Vmax, Km and Vd', () => {
+      expect(validatePrescription(makeValid(saturable)).valid).toBe(true)
+    })
+
+    it('always warns when Michaelis-Menten is selected', () => {
+      const result = validatePrescription(makeValid(saturable))
+      expect(result.warnings.some((w) => w.includes('Michaelis-Menten elimination is nonlinear'))).toBe(true)
+    })
+
+    it('requires Vmax, Km and volume of distribution', () => {
+      const result = validatePrescription(makeValid({ eliminationModel: 'michaelis-menten' }))
+      expect(result.valid).toBe(false)
+      expect(result.errors).toContain('Vmax is required for Michaelis-Menten elimination')
+      expect(result.errors).toContain('Km is required for Michaelis-Menten elimination')
+      expect(result.errors).toContain('Volume of distribution is required for Michaelis-Menten elimination')
+    })
+
+    it.each([0, 20000])('rejects Km out of range (%s)', (km) => {
+      const result = validatePrescription(makeValid({ ...saturable, km }))
+      expect(result.errors.some((e) => e.startsWith('Km must be'))).toBe(true)
+    })
+
+    it('rejects an unknown elimination model', () => {
+      const result = validatePrescription(
+        makeValid({ eliminationModel: 'zero-order' as Prescription['eliminationModel'] }),
+      )
+      expect(result.errors.some((e) => e.includes('Elimination model must be one of'))).toBe(true)
+    })
+  })
+
+  // ─── Absolute Concentration Parameters ───
+
+  describe('bioavailability and volumeOfDistribution validation', () => {
+    it('accepts a prescription without F or Vd', () => {
+      expect(validatePrescription(makeValid()).valid).toBe(true)
+    })
+
+    it('accepts valid F and Vd', () => {
+      expect(validatePrescription(makeValid({ bioavailability: 0.8, volumeOfDistribution: 42 })).valid).toBe(true)
+    })
+
+    it.each([0, 1.5])('rejects bioavailability out of range (%s)', (bioavailability) => {
+      const result = validatePrescription(makeValid({ bioavailability }))
+      expect(result.valid).toBe(false)
+      expect(result.errors.some((e) => e.startsWith('Bioavailability must be'))).toBe(true)
+    })
+
+    it.each([0, 60000])('rejects volumeOfDistribution out of range (%s)', (volumeOfDistribution) => {
+      const result = validatePrescription(makeValid({ volumeOfDistribution }))
+      expect(result.valid).toBe(false)
+      expect(result.errors.some((e) => e.startsWith('Volume of distribution must be'))).toBe(true)
+    })
+
+    it('rejects a non-numeric volumeOfDistribution', () => {
+      const result = validatePrescription(makeValid({ volumeOfDistribution: NaN }))
+      expect(result.errors).toContain('Volume of distribution must be a number when provided')
+    })
+
+    it('warns that bioavailability below 1 is ignored for IV routes', () => {
+      const result = validatePrescription(makeValid({ route: 'iv-bolus', bioavailability: 0.5 }))
+      expect(result.valid).toBe(true)
+      expect(result.warnings.length).toBeGreaterThan(0)
+    })
+  })
+
+  // ─── Therapeutic Window ───
+
+  describe('therapeutic window validation', () => {
+    it('accepts a valid window with a volume of distribution', () => {
+      const result = validatePrescription(
+        makeValid({ minEffectiveConcentration: 10, toxicConcentration: 20, volumeOfDistribution: 50 }),
+      )
+      expect(result.valid).toBe(true)
+      expect(result.warnings).toHaveLength(0)
+    })
+
+    it('accepts a single bound', () => {
+      expect(validatePrescription(makeValid({ toxicConcentration: 0.9 })).valid).toBe(true)
+    })
+
+    it.each([0, 200000])('rejects a minimum effective concentration out of range (%s)', (minEffectiveConcentration) => {
+      const result = validatePrescription(makeValid({ minEffectiveConcentration }))
+      expect(result.valid).toBe(false)
+      expect(result.errors.some((e) => e.startsWith('Minimum effective concentration must be'))).toBe(true)
+    })
+
+    it('rejects a non-numeric toxic threshold', () => {
+      const result = validatePrescription(makeValid({ toxicConcentration: NaN }))
+      expect(result.errors).toContain('Toxic threshold must be a number when provided')
+    })
+
+    it('rejects a minimum at or above the toxic threshold', () => {
+      const result = validatePrescription(makeValid({ minEffectiveConcentration: 0.8, toxicConcentration: 0.8 }))
+      expect(result.errors).toContain('Minimum effective concentration must be lower than the toxic threshold')
+    })
+
+    it('warns that thresholds are relative without a volume of distribution', () => {
+      const result = validatePrescription(makeValid({ minEffectiveConcentration: 0.4 }))
+      expect(result.valid).toBe(true)
+      expect(result.warnings.some((w) => w.includes('relative to the peak'))).toBe(true)
+    })
+
+    it('warns when a relative minimum can never be reached', () => {
+      const result = validatePrescription(makeValid({ minEffectiveConcentration: 1.5 }))
+      expect(result.warnings.some((w) => w.includes('will never be reached'))).toBe(true)
+    })
+  })
+
+  describe('dose deviation validation', () => {
+    it('accepts skipped, delayed, early and doubled doses', () => {
+      const result = validatePrescription(
+        makeValid({
+          doseDeviations: [
+            { scheduledTime: 9, type: 'skipped' },
+            { scheduledTime: 33, type: 'delayed', shiftHours: 2 },
+            { scheduledTime: 57, type: 'early', shiftHours: 1 },
+            { scheduledTime: 81, type: 'doubled' },
+          ],
+        }),
+      )
+      expect(result.valid).toBe(true)
+    })
+
+    it('rejects an unknown deviation type', () => {
+      const result = validatePrescription(
+        makeValid({ doseDeviations: [{ scheduledTime: 9, type: 'forgotten' as 'skipped' }] }),
+      )
+      expect(result.errors.some((e) => e.startsWith('Dose deviation type must be one of'))).toBe(true)
+    })
+
+    it('requires hours for late and early doses', () => {
+      const result = validatePrescription(makeValid({ doseDeviations: [{ scheduledTime: 9, type: 'delayed' }] }))
+      expect(result.errors).toContain('Hours late are required for the dose at 9h')
+    })
+
+    it.each([0, 30])('rejects a shift out of range (%s)', (shiftHours) => {
+      const result = validatePrescription(
+        makeValid({ doseDeviations: [{ scheduledTime: 9, type: 'early', shiftHours }] }),
+      )
+      expect(result.valid).toBe(false)
+      expect(result.errors.some((e) => e.startsWith('Dose shift must be'))).toBe(true)
+    })
+
+    it('rejects two deviations for the same dose', () => {
+      const result = validatePrescription(
+        makeValid({
+          doseDeviations: [
+            { scheduledTime: 9, type: 'skipped' },
+            { scheduledTime: 9, type: 'doubled' },
+          ],
+        }),
+      )
+      expect(result.errors).toContain('Dose at 9h has more than one deviation')
+    })
+  })
+
+  describe('per-time dose validation', () => {
+    it('accepts one dose for each dosing time', () => {
+      const result = validatePrescription(makeValid({ times: ['09:00', '21:00'], timeDoses: [50, 25] }))
+      expect(result.valid).toBe(true)
+    })
+
+    it('rejects a dose count that does not match the dosing times', () => {
+      const result = validatePrescription(makeValid({ times: ['09:00', '21:00'], timeDoses: [50] }))
+      expect(result.errors).toContain('Per-time doses must have one amount for each of the 2 dosing time(s)')
+    })
+
+    it('rejects per-time doses out of range', () => {
+      const result = validatePrescription(makeValid({ times: ['09:00', '21:00'], timeDoses: [0, 20000] }))
+      expect(result.errors).toContain('Dose at 09:00 must be at least 0.001')
+      expect(result.errors).toContain('Dose at 21:00 must be at most 10,000')
+    })
+  })
+
+  describe('dosing day validation', () => {
+    it('accepts an every-N-days interval and dosing weekdays', () => {
+      expect(validatePrescription(makeValid({ frequency: 'every-n-days', times: ['09:00'], dayInterval: 3 })).valid).toBe(true)
+      expect(validatePrescription(makeValid({ frequency: 'days-of-week', times: ['09:00'], daysOfWeek: [1, 4] })).valid).toBe(true)
+    })
+
+    it('requires a day interval for every-N-days dosing', () => {
+      const result = validatePrescription(makeValid({ frequency: 'every-n-days', times: ['09:00'] }))
+      expect(result.errors).toContain('Day interval is required for every-N-days dosing')
+    })
+
+    it.each([1, 2.5, 91])('rejects an invalid day interval (%s)', (dayInterval) => {
+      const result = validatePrescription(makeValid({ frequency: 'every-n-days', times: ['09:00'], dayInterval }))
+      expect(result.valid).toBe(false)
+      expect(result.errors.some((e) => e.startsWith('Day interval must be'))).toBe(true)
+    })
+
+    it('requires at least one weekday for day-of-week dosing', () => {
+      const result = validatePrescription(makeValid({ frequency: 'days-of-week', times: ['09:00'], daysOfWeek: [] }))
+      expect(result.errors).toContain('At least one day of the week is required for day-of-week dosing')
+    })
+
+    it('rejects out-of-range and repeated weekdays', () => {
+      const outOfRange = validatePrescription(makeValid({ frequency: 'days-of-week', times: ['09:00'], daysOfWeek: [7] }))
+      expect(outOfRange.errors).toContain('Days of the week must be whole numbers from 0 (Sunday) to 6 (Saturday)')
+      const repeated = validatePrescription(makeValid({ frequency: 'days-of-week', times: ['09:00'], daysOfWeek: [1, 1] }))
+      expect(repeated.errors).toContain('Days of the week must not repeat')
+    })
+
+    it('ignores dosing day fields for daily frequencies', () => {
+      expect(validatePrescription(makeValid({ dayInterval: 0, daysOfWeek: [9] })).valid).toBe(true)
+    })
+  })
+
+  describe('dosing cycle validation', () => {
+    it('accepts an on/off cycle with or without a cycle count', () => {
+      expect(validatePrescription(makeValid({ cycle: { daysOn: 21, daysOff: 7 } })).valid).toBe(true)
+      expect(validatePrescription(makeValid({ cycle: { daysOn: 21, daysOff: 7, cycles: 6 } })).valid).toBe(true)
+    })
+
+    it.each([0, 1.5, 366])('rejects invalid days on (%s)', (daysOn) => {
+      const result = validatePrescription(makeValid({ cycle: { daysOn, daysOff: 7 } }))
+      expect(result.valid).toBe(false)
+      expect(result.errors.some((e) => e.startsWith('Cycle days on must be'))).toBe(true)
+    })
+
+    it('rejects invalid days off', () => {
+      const result = validatePrescription(makeValid({ cycle: { daysOn: 21, daysOff: 0 } }))
+      expect(result.errors).toContain('Cycle days off must be between 1 and 365')
+    })
+
+    it.each([0, 2.5, 101])('rejects an invalid number of cycles (%s)', (cycles) => {
+      const result = validatePrescription(makeValid({ cycle: { daysOn: 21, daysOff: 7, cycles } }))
+      expect(result.errors.some((e) => e.startsWith('Number of cycles must be'))).toBe(true)
+    })
+  })
+
+  describe('start offset validation', () => {
+    it('accepts an offset in days or hours', () => {
+      expect(validatePrescription(makeValid({ startOffset: 3, startOffsetUnit: 'days' })).valid).toBe(true)
+      expect(validatePrescription(makeValid({ startOffset: 36, startOffsetUnit: 'hours' })).valid).toBe(true)
+    })
+
+    it('requires a unit with the offset', () => {
+      const result = validatePrescription(makeValid({ startOffset: 3 }))
+      expect(result.errors).toContain('Start offset unit must be provided when start offset is set')
+    })
+
+    it.each([
+      [-1, 'days', 'Start offset must be between 0 and 365 days'],
+      [400, 'days', 'Start offset must be between 0 and 365 days'],
+      [9000, 'hours', 'Start offset must be between 0 and 8760 hours'],
+    ] as const)('rejects an offset of %s %s', (startOffset, startOffsetUnit, message) => {
+      expect(validatePrescription(makeValid({ startOffset, startOffsetUnit })).errors).toContain(message)
+    })
+  })
+
+  describe('start date validation', () => {
+    it('accepts a calendar start date or none', () => {
+      expect(validatePrescription(makeValid({ startDate: '2026-01-05' })).valid).toBe(true)
+      expect(validatePrescription(makeValid({ startDate: '2028-02-29' })).valid).toBe(true)
+      expect(validatePrescription(makeValid()).valid).toBe(true)
+    })
+
+    it.each(['2026-02-30', '2026-13-01', '05/01/2026', ''])('rejects an invalid start date (%s)', (startDate) => {
+      const result = validatePrescription(makeValid({ startDate }))
+      expect(result.errors).toContain('Start date must be a valid date (YYYY-MM-DD)')
+    })
+  })
+
+  describe('as-needed (PRN) validation', () => {
+    const prn = (overrides: Partial<Prescription> = {}) =>
+      makeValid({ frequency: 'prn', times: [], dose: 400, minDoseInterval: 4, maxDailyDose: 1200, ...overrides })
+
+    it('accepts PRN without fixed dosing times', () => {
+      expect(validatePrescription(prn()).valid).toBe(true)
+      expect(validatePrescription(prn({ prnDoseTimes: [8, 14, 20] })).valid).toBe(true)
+    })
+
+    it('requires a minimum interval and a maximum daily dose', () => {
+      const result = validatePrescription(prn({ minDoseInterval: undefined, maxDailyDose: undefined }))
+      expect(result.errors).toContain('Minimum hours between doses is required for as-needed dosing')
+      expect(result.errors).toContain('Maximum daily dose is required for as-needed dosing')
+    })
+
+    it.each([0, 200])('rejects a minimum interval out of range (%s)', (minDoseInterval) => {
+      const result = validatePrescription(prn({ minDoseInterval }))
+      expect(result.errors).toContain('Minimum hours between doses must be between 0.25 and 168')
+    })
+
+    it('rejects placed doses outside the graphable range', () => {
+      const result = validatePrescription(prn({ prnDoseTimes: [-1] }))
+      expect(result.errors).toContain('As-needed dose times must be between 0 and 8760 hours')
+    })
+
+    it('still requires times for scheduled frequencies', () => {
+      expect(validatePrescription(makeValid({ frequency: 'bid', times: [] })).valid).toBe(false)
+    })
+
+    it('warns when a dose comes sooner than the minimum interval', () => {
+      expect(getPrnDoseWarnings(prn(), [8, 10])).toEqual([
+        'Dose at 10h is only 2h after the previous dose (minimum 4h).',
+      ])
+    })
+
+    it('warns when doses exceed the maximum within any 24 hours', () => {
+      const warnings = getPrnDoseWarnings(prn(), [0, 6, 12, 18, 30])
+      expect(warnings).toEqual(['Dose at 18h brings the 24-hour total to 1600 mg (maximum 1200 mg).'])
+    })
+
+    it('does not warn for doses that respect both limits', () => {
+      expect(getPrnDoseWarnings(prn(), [0, 8, 24, 32])).toEqual([])
+    })
+
+    it('reports placement warnings through validation', () => {
+      const result = validatePrescription(prn({ prnDoseTimes: [8, 10] }))
+      expect(result.valid).toBe(true)
+      expect(result.warnings).toContain('Dose at 10h is only 2h after the previous dose (minimum 4h).')
+    })
+  })
+
+  describe('loading dose validation', () => {
+    it('accepts a loading dose with or without a count', () => {
+      expect(validatePrescription(makeValid({ loadingDose: 1000 })).valid).toBe(true)
+      expect(validatePrescription(makeValid({ loadingDose: 1000, loadingDoseCount: 3 })).valid).toBe(true)
+    })
+
+    it.each([0, 20000])('rejects a loading dose out of range (%s)', (loadingDose) => {
+      const result = validatePrescription(makeValid({ loadingDose }))
+      expect(result.errors.some((e) => e.startsWith('Loading dose must be'))).toBe(true)
+    })
+
+    it.each([0, 1.5, 11])('rejects an invalid number of loading doses (%s)', (loadingDoseCount) => {
+      const result = validatePrescription(makeValid({ loadingDose: 1000, loadingDoseCount }))
+      expect(result.valid).toBe(false)
+      expect(result.errors.some((e) => e.startsWith('Number of loading doses must be'))).toBe(true)
+    })
+
+    it('requires a loading dose when a count is given', () => {
+      const result = validatePrescription(makeValid({ loadingDoseCount: 2 }))
+      expect(result.errors).toContain('Number of loading doses requires a loading dose')
+    })
+
+    it('warns when the loading dose is not larger than the maintenance dose', () => {
+      const result = validatePrescription(makeValid({ dose: 500, loadingDose: 250 }))
+      expect(result.valid).toBe(true)
+      expect(result.warnings).toContain('Loading dose is not larger than the maintenance dose.')
+    })
+  })
+
   // ─── Phase 16: Barrel Exports ───
 
   describe('barrel exports from index.ts', () => {
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import type { TabletStrength } from '../tabletInventory'
+import {
+  validateTabletInventory,
+  findTabletCombination,
+  roundToAchievableDose,
+  formatTabletCombination,
+  MAX_PIECES_PER_DOSE,
+} from '../tabletInventory'
+
+const SCORED_25_PLAIN_10: TabletStrength[] = [
+  { strength: 10, splittable: false },
+  { strength: 25, splittable: true },
+]
+
+describe('Tablet Inventory', () => {
+  describe('findTabletCombination', () => {
+    it('builds a dose from whole tablets, strongest first', () => {
+      expect(findTabletCombination(35, SCORED_25_PLAIN_10)).toEqual({
+        dose: 35,
+        tablets: [
+          { strength: 25, count: 1 },
+          { strength: 10, count: 1 },
+        ],
+      })
+    })
+
+    it('uses half tablets of scored strengths', () => {
+      expect(findTabletCombination(37.5, SCORED_25_PLAIN_10)?.tablets).toEqual([
+        { strength: 25, count: 1.5 },
+      ])
+    })
+
+    it('does not split unscored tablets', () => {
+      expect(findTabletCombination(5, SCORED_25_PLAIN_10)).toBeNull()
+    })
+
+    it('prefers the fewest pieces', () => {
+      const tablets = [
+        { strength: 5, splittable: false },
+        { strength: 10, splittable: false },
+      ]
+      expect(findTabletCombination(20, tablets)?.tablets).toEqual([{ strength: 10, count: 2 }])
+    })
+
+    it('ignores floating-point noise in the dose', () => {
+      const tablets = [
+        { strength: 0.1, splittable: false },
+        { strength: 0.2, splittable: false },
+      ]
+      expect(findTabletCombination(0.1 + 0.2, tablets)).not.toBeNull()
+    })
+
+    it('returns null for doses needing more than the piece limit', () => {
+      const tablets = [{ strength: 1, splittable: false }]
+      expect(findTabletCombination(MAX_PIECES_PER_DOSE, tablets)).not.toBeNull()
+      expect(findTabletCombination(MAX_PIECES_PER_DOSE + 1, tablets)).toBeNull()
+    })
+  })
+
+  describe('roundToAchievableDose', () => {
+    it('rounds to the nearest achievable dose', () => {
+      expect(roundToAchievableDose(13.2, SCORED_25_PLAIN_10)?.dose).toBe(12.5)
+      expect(roundToAchievableDose(34, SCORED_25_PLAIN_10)?.dose).toBe(35)
+    })
+
+    it('keeps a dose that is already achievable', () => {
+      expect(roundToAchievableDose(50, SCORED_25_PLAIN_10)?.dose).toBe(50)
+    })
+
+    it('breaks ties toward the lower dose', () => {
+      expect(roundToAchievableDose(11.25, SCORED_25_PLAIN_10)?.dose).toBe(10)
+    })
+
+    it('returns null for an empty inventory', () => {
+      expect(roundToAchievableDose(10, [])).toBeNull()
+    })
+  })
+
+  describe('formatTabletCombination', () => {
+    it('describes whole and half tablets', () => {
+      expect(
+        formatTabletCombination({
+          dose: 47.5,
+          tablets: [
+            { strength: 25, count: 1.5 },
+            { strength: 10, count: 1 },
+          ],
+        }),
+      ).toBe('1½ × 25 mg + 1 × 10 mg')
+      expect(formatTabletCombination({ dose: 5, tablets: [{ strength: 10, count: 0.5 }] })).toBe(
+        '½ × 10 mg',
+      )
+    })
+  })
+
+  describe('validateTabletInventory', () => {
+    it('accepts a valid inventory', () => {
+      expect(validateTabletInventory(SCORED_25_PLAIN_10)).toEqual([])
+    })
+
+    it('rejects non-positive strengths', () => {
+      expect(validateTabletInventory([{ strength: -5, splittable: false }])).toEqual([
+        'Tablet 1: strength must be greater than 0 and at most 10,000 mg',
+      ])
+    })
+
+    it('rejects duplicate strengths', () => {
+      expect(
+        validateTabletInventory([
+          { strength: 10, splittable: false },
+          { strength: 10, splittable: true },
+        ]),
+      ).toEqual(['Tablet 2: 10 mg is listed more than once'])
+    })
+
+    it('limits the number of strengths', () => {
+      const tablets = [1, 2, 3, 4, 5, 6, 7].map(strength => ({ strength, splittable: false }))
+      expect(validateTabletInventory(tablets)).toContain('At most 6 tablet strengths are supported')
+    })
+  })
+})
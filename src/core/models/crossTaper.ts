@@ -0,0 +1,121 @@
+import type { DosageSchedule, ScheduleValidationResult } from './dosageSchedule'
+import { validateDosageSchedule } from './dosageSchedule'
+
+// ─── Type Definitions ───
+
+/**
+ * A switch from one drug to another: one schedule is tapered off while a
+ * second is titrated on, starting a number of days into the first.
+ * Both schedules are stored inline so a cross-taper is self-contained.
+ */
+export interface CrossTaper {
+  id?: string
+  name: string
+  /** Schedule of the drug being switched away from (usually a taper) */
+  fromSchedule: DosageSchedule
+  /** Schedule of the drug being switched to (usually a titration) */
+  toSchedule: DosageSchedule
+  /** Days after fromSchedule starts that toSchedule begins */
+  offsetDays: number
+}
+
+// ─── Constants ───
+
+const NAME_MAX_LENGTH = 100
+const OFFSET_MAX_DAYS = 365
+
+// ─── Utility Functions ───
+
+/**
+ * Total days covered by a cross-taper, from the first schedule's start to the
+ * end of whichever schedule finishes last.
+ */
+export function getCrossTaperDurationDays(crossTaper: CrossTaper): number {
+  return Math.max(
+    crossTaper.fromSchedule.totalDuration,
+    crossTaper.offsetDays + crossTaper.toSchedule.totalDuration,
+  )
+}
+
+// ─── Validation ───
+
+function validateCrossTaperName(name: string): string[] {
+  if (typeof name !== 'string' || name.trim().length < 1) {
+    return ['Cross-taper name must not be empty']
+  }
+  if (name.trim().length > NAME_MAX_LENGTH) {
+    return [`Cross-taper name must be ${NAME_MAX_LENGTH} characters or fewer`]
+  }
+  return []
+}
+
+function validateOffsetDays(offsetDays: number): string[] {
+  if (
+    typeof offsetDays !== 'number' ||
+    !Number.isInteger(offsetDays) ||
+    offsetDays < 0 ||
+    offsetDays > OFFSET_MAX_DAYS
+  ) {
+    return [`Start offset must be a whole number of days between 0 and ${OFFSET_MAX_DAYS}`]
+  }
+  return []
+}
+
+/**
+ * Validate one of the two schedules, prefixing its messages with a label.
+ * @internal Not exported
+ */
+function validateSide(
+  schedule: DosageSchedule | undefined,
+  label: string,
+): ScheduleValidationResult {
+  if (!schedule || typeof schedule !== 'object') {
+    return { valid: false, errors: [`${label} schedule is required`], warnings: [] }
+  }
+  const result = validateDosageSchedule(schedule)
+  return {
+    valid: result.valid,
+    errors: result.errors.map((e) => `${label} schedule: ${e}`),
+    warnings: result.warnings.map((w) => `${label} schedule: ${w}`),
+  }
+}
+
+/**
+ * Validate a CrossTaper object.
+ * Checks the name, the start offset and both embedded schedules. Directions
+ * other than taper-then-titration and schedules that never overlap are
+ * allowed but flagged with warnings.
+ */
+export function validateCrossTaper(crossTaper: CrossTaper): ScheduleValidationResult {
+  const from = validateSide(crossTaper.fromSchedule, 'Switching from')
+  const to = validateSide(crossTaper.toSchedule, 'Switching to')
+
+  const errors: string[] = [
+    ...validateCrossTaperName(crossTaper.name),
+    ...validateOffsetDays(crossTaper.offsetDays),
+    ...from.errors,
+    ...to.errors,
+  ]
+
+  const warnings: string[] = [...from.warnings, ...to.warnings]
+
+  if (errors.length === 0) {
+    if (crossTaper.fromSchedule.direction !== 'taper') {
+      warnings.push('The schedule being switched from is usually a taper.')
+    }
+    if (crossTaper.toSchedule.direction !== 'titration') {
+      warnings.push('The schedule being switched to is usually a titration.')
+    }
+    if (crossTaper.offsetDays >= crossTaper.fromSchedule.totalDuration) {
+      warnings.push(
+        `The new schedule starts on day ${crossTaper.offsetDays + 1}, after the first schedule ends (day ${crossTaper.fromSchedule.totalDuration}); the two do not overlap.`,
+      )
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+  }
+}
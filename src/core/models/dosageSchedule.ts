@@ -1,5 +1,11 @@
-import type { Prescription } from './prescription'
-import { validatePrescription } from './prescription'
+import type { Prescription, FrequencyLabel } from './prescription'
+import { validatePrescription, isValidStartDate, FREQUENCY_MAP } from './prescription'
+import type { TabletStrength } from './tabletInventory'
+import {
+  validateTabletInventory,
+  findTabletCombination,
+  roundToAchievableDose,
+} from './tabletInventory'
 
 // ─── Type Definitions ───
 
@@ -10,6 +16,10 @@ export interface DoseStep {
   dose: number
   durationDays: number
   startDay: number
+  /** Overrides basePrescription.frequency for this step (e.g. BID to QD partway through a taper) */
+  frequency?: FrequencyLabel
+  /** Dosing times (HH:MM) for this step; required whenever frequency is overridden */
+  times?: string[]
 }
 
 export interface DosageSchedule {
@@ -19,6 +29,10 @@ export interface DosageSchedule {
   basePrescription: Prescription
   steps: DoseStep[]
   totalDuration: number
+  /** Calendar date of step 1, day 1 (YYYY-MM-DD) */
+  startDate?: string
+  /** Tablet strengths on hand; steps are checked against what these can build */
+  tablets?: TabletStrength[]
 }
 
 export interface ScheduleValidationResult {
@@ -33,6 +47,22 @@ const VALID_DIRECTIONS: ScheduleDirection[] = ['titration', 'taper']
 const NAME_MAX_LENGTH = 100
 const MIN_STEPS = 2
 
+/** Frequencies a step can switch to: every day uses the same dosing times */
+export const STEP_FREQUENCIES: FrequencyLabel[] = [
+  'qd',
+  'bid',
+  'tid',
+  'qid',
+  'q3h',
+  'q6h',
+  'q8h',
+  'q12h',
+  'custom',
+]
+
+/** Regex for valid HH:MM 24-hour time format */
+const TIME_FORMAT_REGEX = /^([01]\d|2[0-3]):([0-5]\d)$/
+
 // ─── Utility Functions ───
 
 /**
@@ -83,6 +113,47 @@ function validateDirection(direction: string): string[] {
   return errors
 }
 
+function validateScheduleStartDate(startDate: string | undefined): string[] {
+  if (startDate === undefined || startDate === null) return []
+  if (typeof startDate !== 'string' || !isValidStartDate(startDate)) {
+    return ['Schedule start date must be a valid date (YYYY-MM-DD)']
+  }
+  return []
+}
+
+function validateStepDosing(step: DoseStep): string[] {
+  const errors: string[] = []
+  const label = `Step ${step.stepNumber}`
+
+  if (step.frequency === undefined && step.times === undefined) return errors
+
+  if (step.frequency === undefined) {
+    errors.push(`${label}: frequency is required when dosing times are overridden`)
+  } else if (!STEP_FREQUENCIES.includes(step.frequency)) {
+    errors.push(`${label}: frequency must be one of: ${STEP_FREQUENCIES.join(', ')}`)
+  }
+
+  if (!Array.isArray(step.times) || step.times.length === 0) {
+    errors.push(`${label}: at least one dosing time is required when frequency is overridden`)
+    return errors
+  }
+
+  for (const t of step.times) {
+    if (typeof t !== 'string' || !TIME_FORMAT_REGEX.test(t)) {
+      errors.push(`${label}: time '${t}' is not valid HH:MM 24-hour format`)
+    }
+  }
+
+  const expectedCount = step.frequency ? FREQUENCY_MAP[step.frequency] : null
+  if (expectedCount !== null && expectedCount !== undefined && step.times.length !== expectedCount) {
+    errors.push(
+      `${label}: frequency '${step.frequency}' requires exactly ${expectedCount} dosing time(s), but ${step.times.length} provided`,
+    )
+  }
+
+  return errors
+}
+
 function validateSteps(steps: DoseStep[]): string[] {
   const errors: string[] = []
 
@@ -98,6 +169,7 @@ function validateSteps(steps: DoseStep[]): string[] {
     if (typeof step.durationDays !== 'number' || step.durationDays <= 0) {
       errors.push(`Step ${step.stepNumber}: duration must be at least 1 day`)
     }
+    errors.push(...validateStepDosing(step))
   }
 
   return errors
@@ -131,9 +203,25 @@ function checkDoseMonotonicity(
   return warnings
 }
 
+function checkTabletDoses(steps: DoseStep[], tablets: TabletStrength[]): string[] {
+  const warnings: string[] = []
+
+  for (const step of steps) {
+    if (typeof step.dose !== 'number' || step.dose <= 0) continue
+    if (findTabletCombination(step.dose, tablets)) continue
+    const nearest = roundToAchievableDose(step.dose, tablets)
+    warnings.push(
+      `Step ${step.stepNumber}: ${step.dose} mg cannot be made from the available tablets` +
+        (nearest ? ` (nearest: ${nearest.dose} mg)` : ''),
+    )
+  }
+
+  return warnings
+}
+
 /**
  * Validate a DosageSchedule object.
- * Checks name, direction, steps, and base prescription validity.
+ * Checks name, direction, steps, tablet inventory, and base prescription validity.
  */
 export function validateDosageSchedule(
   schedule: DosageSchedule,
@@ -141,7 +229,9 @@ export function validateDosageSchedule(
   const errors: string[] = [
     ...validateScheduleName(schedule.name),
     ...validateDirection(schedule.direction),
+    ...validateScheduleStartDate(schedule.startDate),
     ...validateSteps(schedule.steps),
+    ...(schedule.tablets ? validateTabletInventory(schedule.tablets) : []),
   ]
 
   // Validate the base prescription
@@ -157,6 +247,15 @@ export function validateDosageSchedule(
     warnings.push(...checkDoseMonotonicity(schedule.steps, schedule.direction))
   }
 
+  if (
+    schedule.tablets &&
+    schedule.tablets.length > 0 &&
+    validateTabletInventory(schedule.tablets).length === 0 &&
+    Array.isArray(schedule.steps)
+  ) {
+    warnings.push(...checkTabletDoses(schedule.steps, schedule.tablets))
+  }
+
   return {
     valid: errors.length === 0,
     errors,
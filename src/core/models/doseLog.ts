@@ -0,0 +1,77 @@
+import type { ValidationResult } from './prescription'
+import { VALIDATION_RULES } from './prescription'
+
+// ─── Type Definitions ───
+
+/** A dose actually taken, recorded against a saved prescription */
+export interface DoseLogEntry {
+  id?: string
+  /** ID of the saved prescription the dose belongs to */
+  prescriptionId: string
+  /** When the dose was taken, as an ISO 8601 timestamp */
+  takenAt: string
+  /** Amount taken in mg */
+  dose: number
+  /** Optional free-text note (e.g. "with food") */
+  note?: string
+}
+
+// ─── Constants ───
+
+const NOTE_MAX_LENGTH = 200
+
+// ─── Validation ───
+
+function validateTakenAt(takenAt: string): string[] {
+  const errors: string[] = []
+
+  if (typeof takenAt !== 'string' || isNaN(Date.parse(takenAt))) {
+    errors.push('Time taken must be a valid date and time')
+  }
+
+  return errors
+}
+
+function validateLoggedDose(dose: number): string[] {
+  const errors: string[] = []
+
+  if (typeof dose !== 'number' || isNaN(dose)) {
+    errors.push('Dose taken is required and must be a number')
+  } else if (dose < VALIDATION_RULES.dose.min) {
+    errors.push(`Dose taken must be at least ${VALIDATION_RULES.dose.min}`)
+  } else if (dose > VALIDATION_RULES.dose.max) {
+    errors.push(`Dose taken must be at most ${VALIDATION_RULES.dose.max.toLocaleString()}`)
+  }
+
+  return errors
+}
+
+/**
+ * Validate a dose log entry.
+ * Checks the prescription reference, timestamp, dose and note length.
+ * Entries in the future are allowed but flagged with a warning.
+ */
+export function validateDoseLogEntry(entry: DoseLogEntry): ValidationResult {
+  const errors: string[] = [
+    ...(typeof entry.prescriptionId === 'string' && entry.prescriptionId.length > 0
+      ? []
+      : ['A saved prescription is required']),
+    ...validateTakenAt(entry.takenAt),
+    ...validateLoggedDose(entry.dose),
+  ]
+
+  if (entry.note !== undefined && entry.note.length > NOTE_MAX_LENGTH) {
+    errors.push(`Note must be ${NOTE_MAX_LENGTH} characters or fewer`)
+  }
+
+  const warnings: string[] = []
+  if (errors.length === 0 && Date.parse(entry.takenAt) > Date.now()) {
+    warnings.push('Time taken is in the future.')
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+  }
+}
@@ -0,0 +1,36 @@
+// ─── Exposure Types ───
+
+/** Area under the curve for one dosing interval [start, end] */
+export interface AucInterval {
+  /** Interval start in hours (dose time) */
+  start: number
+  /** Interval end in hours (next dose time, or end of the curve after the last dose) */
+  end: number
+  /** Area under the curve over the interval */
+  auc: number
+}
+
+/**
+ * Exposure statistics for a single concentration curve.
+ *
+ * AUC values are in concentration × hours of the underlying curve: mg·h/L for
+ * absolute (mg/L) curves, relative units × hours for normalized curves.
+ */
+export interface ExposureStats {
+  /** Curve label (dataset or schedule name) */
+  label: string
+  /** Unit of the underlying concentration values */
+  unit: 'mg/L' | 'relative'
+  /** AUC(0–t) from the first to the last point of the curve */
+  aucLast: number
+  /** AUC per dosing interval, in dose order */
+  aucIntervals: AucInterval[]
+  /** AUC(0–∞) extrapolated with the terminal rate; null when no terminal decline can be fitted */
+  aucInfinity: number | null
+  /** Share of AUC(0–∞) that is extrapolated beyond the last point (0–100); null with aucInfinity */
+  extrapolatedPercent: number | null
+  /** Concentration threshold used for timeAboveThreshold */
+  threshold: number
+  /** Hours the curve spends above the threshold */
+  timeAboveThreshold: number
+}
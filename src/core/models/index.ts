@@ -3,16 +3,29 @@ export type {
   Prescription,
   FrequencyLabel,
   DurationUnit,
+  CompartmentModel,
+  AdministrationRoute,
+  AbsorptionModel,
+  EliminationModel,
+  ConcentrationMode,
+  DoseDeviationType,
+  DoseDeviation,
+  DosingCycle,
+  TimeRange,
   TimeSeriesPoint,
   GraphDataset,
+  TherapeuticWindow,
   ValidationResult,
 } from './prescription'
 
 export {
   FREQUENCY_MAP,
   DEFAULT_TIMES,
+  FREQUENCY_INTERVAL_DAYS,
   VALIDATION_RULES,
   KA_KE_TOLERANCE,
+  getPrnDoseWarnings,
+  isValidStartDate,
   validatePrescription,
 } from './prescription'
 
@@ -25,13 +38,44 @@ export type {
 } from './dosageSchedule'
 
 export {
+  STEP_FREQUENCIES,
   validateDosageSchedule,
   computeStartDays,
 } from './dosageSchedule'
 
+// Tablet inventory (available strengths and dose rounding)
+export type { TabletStrength, TabletCount, TabletCombination } from './tabletInventory'
+
+export {
+  MAX_PIECES_PER_DOSE,
+  validateTabletInventory,
+  findTabletCombination,
+  roundToAchievableDose,
+  formatTabletCombination,
+} from './tabletInventory'
+
+// Cross-taper models (switching from one schedule to another)
+export type { CrossTaper } from './crossTaper'
+
+export { validateCrossTaper, getCrossTaperDurationDays } from './crossTaper'
+
 // PK Summary types
 export type {
   PkEventType,
   PkMilestoneEvent,
   PkSummaryData,
 } from './pkSummary'
+
+// Steady-state types
+export type { SteadyStateMetrics } from './steadyState'
+
+// Exposure (AUC) types
+export type { AucInterval, ExposureStats } from './exposure'
+
+// Therapeutic window types
+export type { TimeInRangeStats } from './therapeuticWindow'
+
+// Dose log types
+export type { DoseLogEntry } from './doseLog'
+
+export { validateDoseLogEntry } from './doseLog'
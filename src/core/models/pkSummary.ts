@@ -1,13 +1,25 @@
 // ─── PK Summary Types ───
 
 /** Types of pharmacokinetic milestone events */
-export type PkEventType = 'dose' | 'absorption_end' | 'peak' | 'half_life' | 'next_dose'
+export type PkEventType =
+  | 'dose'
+  | 'absorption_start'
+  | 'absorption_end'
+  | 'peak'
+  | 'half_life'
+  | 'next_dose'
+  | 'window_enter'
+  | 'window_exit'
+  | 'off_period'
+  | 'step_start'
+  | 'steady_state'
+  | 'washout'
 
 /** A single pharmacokinetic milestone event in the timeline */
 export interface PkMilestoneEvent {
   /** Type of pharmacokinetic event */
   eventType: PkEventType
-  /** Clock time in HH:MM format (or with day indicator) */
+  /** Clock time in HH:MM format, with day indicator or, for dated prescriptions and schedules, the calendar date */
   clockTime: string
   /** Elapsed time notation (e.g., "T+0h", "T+6h", "T+1.5h") */
   elapsedTime: string
@@ -10,17 +10,116 @@ export type FrequencyLabel =
   | 'q6h'
   | 'q8h'
   | 'q12h'
+  | 'qod'
+  | 'weekly'
+  | 'every-n-days'
+  | 'days-of-week'
+  | 'prn'
   | 'custom'
 
 export type DurationUnit = 'days' | 'hours'
 
+/**
+ * Disposition model used for the concentration curve.
+ * - 'one-compartment': single exponential elimination (default)
+ * - 'two-compartment': biexponential disposition with a distribution (alpha)
+ *   phase followed by the terminal elimination (beta) phase given by halfLife
+ */
+export type CompartmentModel = 'one-compartment' | 'two-compartment'
+
+/**
+ * Route of administration.
+ * - 'oral': first-order absorption shaped by uptake/peak (default)
+ * - 'iv-bolus': instantaneous intravenous dose, no absorption phase
+ * - 'iv-infusion': zero-order intravenous infusion over infusionDuration hours
+ */
+export type AdministrationRoute = 'oral' | 'iv-bolus' | 'iv-infusion'
+
+/**
+ * Oral absorption model.
+ * - 'first-order': exponential absorption with ka derived from uptake/peak (default)
+ * - 'zero-order': constant-rate release over releaseDuration hours (ER tablets, patches)
+ * - 'ir-er': combined product; (1 - erFraction) absorbed first-order (IR portion),
+ *   erFraction released zero-order over releaseDuration (ER portion)
+ */
+export type AbsorptionModel = 'first-order' | 'zero-order' | 'ir-er'
+
+/**
+ * Elimination kinetics.
+ * - 'linear': first-order elimination from halfLife; curves use superposition (default)
+ * - 'michaelis-menten': saturable elimination, rate = Vmax * C / (Km + C),
+ *   solved by numeric integration (requires vmax, km and volumeOfDistribution)
+ */
+export type EliminationModel = 'linear' | 'michaelis-menten'
+
+/**
+ * How concentration curves are scaled.
+ * - 'normalized': each curve scaled so its peak = 1.0 (default)
+ * - 'absolute': mg/L using bioavailability and volume of distribution
+ */
+export type ConcentrationMode = 'normalized' | 'absolute'
+
+/**
+ * How a single dose event departed from the prescribed schedule.
+ * - 'skipped': the dose was not taken
+ * - 'delayed': taken shiftHours after the scheduled time
+ * - 'early': taken shiftHours before the scheduled time
+ * - 'doubled': twice the dose taken at the scheduled time (e.g. to make up a missed dose)
+ */
+export type DoseDeviationType = 'skipped' | 'delayed' | 'early' | 'doubled'
+
+/** Adherence deviation for one scheduled dose */
+export interface DoseDeviation {
+  /** Scheduled dose time in hours, as produced by getPrescriptionDoseTimes() */
+  scheduledTime: number
+  type: DoseDeviationType
+  /** Hours late or early; delayed and early only */
+  shiftHours?: number
+}
+
+/** Repeating on/off dosing pattern, e.g. 21 days on and 7 days off */
+export interface DosingCycle {
+  /** Dosing days at the start of each cycle */
+  daysOn: number
+  /** Dose-free days after the dosing days */
+  daysOff: number
+  /** Number of cycles; omitted means the cycle repeats for the whole simulation */
+  cycles?: number
+}
+
+/** Span of time in hours from simulation start */
+export interface TimeRange {
+  start: number
+  end: number
+}
+
 export interface Prescription {
   id?: string
   name: string
   frequency: FrequencyLabel
   times: string[]
+  /** Calendar date of day 1 (YYYY-MM-DD); hour 0 is midnight at the start of this date */
+  startDate?: string
+  /** Days between dosing days; every-n-days only */
+  dayInterval?: number
+  /** Dosing weekdays (0 = Sunday … 6 = Saturday); days-of-week only. Without a startDate, day 0 of the simulation is the first listed weekday */
+  daysOfWeek?: number[]
+  /** On/off cycle applied on top of the frequency (oral contraceptives, chemotherapy, drug holidays) */
+  cycle?: DosingCycle
+  /** As-needed dose times in hours from midnight of the first day; prn only */
+  prnDoseTimes?: number[]
+  /** Minimum hours between as-needed doses; prn only */
+  minDoseInterval?: number
+  /** Maximum total mg in any 24 hours; prn only */
+  maxDailyDose?: number
   dose: number
+  /** Dose in mg for each entry in times (same order); overrides dose at that time of day */
+  timeDoses?: number[]
   halfLife: number
+  /** Loading dose in mg, given in place of the first scheduled dose(s) */
+  loadingDose?: number
+  /** Number of scheduled doses given as the loading dose; defaults to 1 */
+  loadingDoseCount?: number
   metaboliteLife?: number
   relativeMetaboliteLevel?: number
   metaboliteName?: string
@@ -28,20 +127,73 @@ export interface Prescription {
   uptake: number
   duration?: number
   durationUnit?: DurationUnit
+  /** Delay before this prescription's first dosing day when compared with others (e.g. start drug B on day 4) */
+  startOffset?: number
+  startOffsetUnit?: DurationUnit
+  /** Disposition model; omitted means one-compartment */
+  compartmentModel?: CompartmentModel
+  /** Distribution (alpha) phase half-life in hours; two-compartment only */
+  alphaHalfLife?: number
+  /** Fraction of the disposition attributed to the alpha phase (0-1); two-compartment only */
+  alphaFraction?: number
+  /** Route of administration; omitted means oral */
+  route?: AdministrationRoute
+  /** Infusion length in hours; iv-infusion only */
+  infusionDuration?: number
+  /** Absorption lag time (tlag) in hours before absorption starts; oral route only */
+  lagTime?: number
+  /** Oral absorption model; omitted means first-order */
+  absorptionModel?: AbsorptionModel
+  /** Zero-order release duration in hours; zero-order and ir-er only */
+  releaseDuration?: number
+  /** Fraction of the dose in the extended-release portion (0-1); ir-er only */
+  erFraction?: number
+  /** Elimination kinetics; omitted means linear */
+  eliminationModel?: EliminationModel
+  /** Maximum elimination rate in mg/h; michaelis-menten only */
+  vmax?: number
+  /** Concentration at half-maximal elimination rate in mg/L; michaelis-menten only */
+  km?: number
+  /** Oral bioavailability F (0-1); IV routes always use F = 1. Defaults to 1 */
+  bioavailability?: number
+  /** Volume of distribution in liters (central volume for two-compartment); required for absolute mode */
+  volumeOfDistribution?: number
+  /** Minimum effective concentration: mg/L when volumeOfDistribution is set, otherwise relative to peak (0-1) */
+  minEffectiveConcentration?: number
+  /** Toxic threshold, in the same unit as minEffectiveConcentration */
+  toxicConcentration?: number
+  /** Missed, late, early or doubled doses applied to the simulated schedule */
+  doseDeviations?: DoseDeviation[]
 }
 
 export interface TimeSeriesPoint {
   /** Time in hours from start */
   time: number
-  /** Normalized relative concentration (0-1 scale, peak = 1.0) */
+  /** Normalized relative concentration (0-1 scale, peak = 1.0), or mg/L in absolute mode */
   concentration: number
 }
 
+/** Concentration bounds of a therapeutic window; either bound may be omitted */
+export interface TherapeuticWindow {
+  /** Minimum effective concentration */
+  min?: number
+  /** Toxic threshold */
+  max?: number
+}
+
 export interface GraphDataset {
   label: string
   data: TimeSeriesPoint[]
   color?: string
   isMetabolite?: boolean
+  /** Parent dose administration times in hours within the plotted window (used for per-interval AUC) */
+  doseTimes?: number[]
+  /** Therapeutic window in the dataset's plotted unit (parent curves only) */
+  therapeuticWindow?: TherapeuticWindow
+  /** As-prescribed reference curve drawn alongside a curve with dose deviations */
+  isGhost?: boolean
+  /** Dose-free periods of a cyclic regimen within the plotted window (parent curves only) */
+  offPeriods?: TimeRange[]
 }
 
 export interface ValidationResult {
@@ -62,9 +214,24 @@ export const FREQUENCY_MAP: Record<FrequencyLabel, number | null> = {
   q6h: 4,
   q8h: 3,
   q12h: 2,
+  qod: 1,
+  weekly: 1,
+  'every-n-days': null,
+  'days-of-week': null,
+  prn: 0,
   custom: null,
 }
 
+/**
+ * Days between dosing days for frequencies that do not dose every day.
+ * every-n-days takes its interval from dayInterval; days-of-week repeats weekly.
+ */
+export const FREQUENCY_INTERVAL_DAYS: Partial<Record<FrequencyLabel, number>> = {
+  qod: 2,
+  weekly: 7,
+  'days-of-week': 7,
+}
+
 export const DEFAULT_TIMES: Record<FrequencyLabel, string[]> = {
   once: ['09:00'],
   qd: ['09:00'],
@@ -75,6 +242,11 @@ export const DEFAULT_TIMES: Record<FrequencyLabel, string[]> = {
   q6h: ['06:00', '12:00', '18:00', '00:00'],
   q8h: ['08:00', '16:00', '00:00'],
   q12h: ['09:00', '21:00'],
+  qod: ['09:00'],
+  weekly: ['09:00'],
+  'every-n-days': ['09:00'],
+  'days-of-week': ['09:00'],
+  prn: [],
   custom: [],
 }
 
@@ -101,9 +273,46 @@ export const VALIDATION_RULES = {
       'q6h',
       'q8h',
       'q12h',
+      'qod',
+      'weekly',
+      'every-n-days',
+      'days-of-week',
+      'prn',
       'custom',
     ] as const,
   },
+  dayInterval: {
+    required: false,
+    min: 2,
+    max: 90,
+  },
+  daysOfWeek: {
+    required: false,
+    min: 0,
+    max: 6,
+  },
+  prnDoseTimes: {
+    required: false,
+    min: 0,
+    max: 8760,
+  },
+  minDoseInterval: {
+    required: false,
+    min: 0.25,
+    max: 168,
+  },
+  maxDailyDose: {
+    required: false,
+    min: 0.001,
+    max: 100000,
+  },
+  cycle: {
+    required: false,
+    minDays: 1,
+    maxDays: 365,
+    minCycles: 1,
+    maxCycles: 100,
+  },
   times: {
     required: true,
     format: 'HH:MM',
@@ -115,6 +324,16 @@ export const VALIDATION_RULES = {
     min: 0.1,
     max: 240,
   },
+  loadingDose: {
+    required: false,
+    min: 0.001,
+    max: 10000,
+  },
+  loadingDoseCount: {
+    required: false,
+    min: 1,
+    max: 10,
+  },
   peak: {
     required: true,
     min: 0.1,
@@ -145,6 +364,94 @@ export const VALIDATION_RULES = {
     maxDays: 365,
     maxHours: 8760,
   },
+  startOffset: {
+    required: false,
+    min: 0,
+    maxDays: 365,
+    maxHours: 8760,
+  },
+  compartmentModel: {
+    required: false,
+    allowedValues: ['one-compartment', 'two-compartment'] as const,
+  },
+  alphaHalfLife: {
+    required: false,
+    min: 0.01,
+    max: 240,
+  },
+  alphaFraction: {
+    required: false,
+    min: 0.01,
+    max: 0.99,
+  },
+  route: {
+    required: false,
+    allowedValues: ['oral', 'iv-bolus', 'iv-infusion'] as const,
+  },
+  infusionDuration: {
+    required: false,
+    min: 0.01,
+    max: 168,
+  },
+  lagTime: {
+    required: false,
+    min: 0,
+    max: 24,
+  },
+  absorptionModel: {
+    required: false,
+    allowedValues: ['first-order', 'zero-order', 'ir-er'] as const,
+  },
+  releaseDuration: {
+    required: false,
+    min: 0.1,
+    max: 168,
+  },
+  erFraction: {
+    required: false,
+    min: 0.01,
+    max: 0.99,
+  },
+  eliminationModel: {
+    required: false,
+    allowedValues: ['linear', 'michaelis-menten'] as const,
+  },
+  vmax: {
+    required: false,
+    min: 0.001,
+    max: 10000,
+  },
+  km: {
+    required: false,
+    min: 0.001,
+    max: 10000,
+  },
+  bioavailability: {
+    required: false,
+    min: 0.01,
+    max: 1,
+  },
+  volumeOfDistribution: {
+    required: false,
+    min: 0.1,
+    max: 50000,
+  },
+  minEffectiveConcentration: {
+    required: false,
+    min: 0.0001,
+    max: 100000,
+  },
+  toxicConcentration: {
+    required: false,
+    min: 0.0001,
+    max: 100000,
+  },
+  doseDeviations: {
+    required: false,
+    allowedTypes: ['skipped', 'delayed', 'early', 'doubled'] as const,
+    minShiftHours: 0.01,
+    maxShiftHours: 24,
+  },
 } as const
 
 /**
@@ -212,7 +519,7 @@ function validateFrequency(frequency: string): string[] {
   return errors
 }
 
-function validateTimes(times: string[], frequency: FrequencyLabel): string[] {
+function validateTimes(times: string[], frequency: FrequencyLabel, timeDoses?: number[]): string[] {
   const errors: string[] = []
 
   if (!Array.isArray(times)) {
@@ -220,6 +527,11 @@ function validateTimes(times: string[], frequency: FrequencyLabel): string[] {
     return errors
   }
 
+  // As-needed dosing has no fixed times; doses are placed in prnDoseTimes instead
+  if (frequency === 'prn' && times.length === 0) {
+    return errors
+  }
+
   if (times.length < VALIDATION_RULES.times.minLength) {
     errors.push('At least one dosing time is required')
     return errors
@@ -242,6 +554,179 @@ function validateTimes(times: string[], frequency: FrequencyLabel): string[] {
     )
   }
 
+  // Optional per-time doses: one amount for each dosing time, each within the dose range
+  if (timeDoses === undefined || timeDoses === null) {
+    return errors
+  }
+
+  if (!Array.isArray(timeDoses) || timeDoses.length !== times.length) {
+    errors.push(`Per-time doses must have one amount for each of the ${times.length} dosing time(s)`)
+    return errors
+  }
+
+  timeDoses.forEach((amount, index) => {
+    const label = `Dose at ${times[index]}`
+    if (typeof amount !== 'number' || isNaN(amount)) {
+      errors.push(`${label} must be a number`)
+    } else if (amount < VALIDATION_RULES.dose.min) {
+      errors.push(`${label} must be at least ${VALIDATION_RULES.dose.min}`)
+    } else if (amount > VALIDATION_RULES.dose.max) {
+      errors.push(`${label} must be at most ${VALIDATION_RULES.dose.max.toLocaleString()}`)
+    }
+  })
+
+  return errors
+}
+
+function validateDosingDays(rx: Prescription): string[] {
+  const errors: string[] = []
+
+  if (rx.frequency === 'every-n-days') {
+    const rules = VALIDATION_RULES.dayInterval
+    if (typeof rx.dayInterval !== 'number' || isNaN(rx.dayInterval)) {
+      errors.push('Day interval is required for every-N-days dosing')
+    } else if (!Number.isInteger(rx.dayInterval)) {
+      errors.push('Day interval must be a whole number of days')
+    } else if (rx.dayInterval < rules.min || rx.dayInterval > rules.max) {
+      errors.push(`Day interval must be between ${rules.min} and ${rules.max} days`)
+    }
+  }
+
+  if (rx.frequency === 'days-of-week') {
+    const rules = VALIDATION_RULES.daysOfWeek
+    if (!Array.isArray(rx.daysOfWeek) || rx.daysOfWeek.length === 0) {
+      errors.push('At least one day of the week is required for day-of-week dosing')
+    } else if (
+      rx.daysOfWeek.some((day) => !Number.isInteger(day) || day < rules.min || day > rules.max)
+    ) {
+      errors.push(`Days of the week must be whole numbers from ${rules.min} (Sunday) to ${rules.max} (Saturday)`)
+    } else if (new Set(rx.daysOfWeek).size !== rx.daysOfWeek.length) {
+      errors.push('Days of the week must not repeat')
+    }
+  }
+
+  return errors
+}
+
+function validatePrn(rx: Prescription): string[] {
+  const errors: string[] = []
+
+  if (rx.frequency !== 'prn') {
+    return errors
+  }
+
+  const intervalRules = VALIDATION_RULES.minDoseInterval
+  if (typeof rx.minDoseInterval !== 'number' || isNaN(rx.minDoseInterval)) {
+    errors.push('Minimum hours between doses is required for as-needed dosing')
+  } else if (rx.minDoseInterval < intervalRules.min || rx.minDoseInterval > intervalRules.max) {
+    errors.push(`Minimum hours between doses must be between ${intervalRules.min} and ${intervalRules.max}`)
+  }
+
+  const capRules = VALIDATION_RULES.maxDailyDose
+  if (typeof rx.maxDailyDose !== 'number' || isNaN(rx.maxDailyDose)) {
+    errors.push('Maximum daily dose is required for as-needed dosing')
+  } else if (rx.maxDailyDose < capRules.min || rx.maxDailyDose > capRules.max) {
+    errors.push(`Maximum daily dose must be between ${capRules.min} and ${capRules.max.toLocaleString()} mg`)
+  }
+
+  if (rx.prnDoseTimes !== undefined && rx.prnDoseTimes !== null) {
+    const timeRules = VALIDATION_RULES.prnDoseTimes
+    if (
+      !Array.isArray(rx.prnDoseTimes) ||
+      rx.prnDoseTimes.some((t) => typeof t !== 'number' || !Number.isFinite(t) || t < timeRules.min || t > timeRules.max)
+    ) {
+      errors.push(`As-needed dose times must be between ${timeRules.min} and ${timeRules.max} hours`)
+    }
+  }
+
+  return errors
+}
+
+/** Format an hour offset for messages, e.g. 9.5 → "9.5h" */
+function formatHoursLabel(hours: number): string {
+  return `${Math.round(hours * 100) / 100}h`
+}
+
+/**
+ * Check as-needed dose placements against the minimum re-dose interval and the
+ * maximum dose in any 24 hours (each placed dose is the prescription dose).
+ *
+ * @param rx - PRN prescription
+ * @param doseTimes - Dose times to check; defaults to rx.prnDoseTimes
+ * @returns One warning per dose placed too soon or exceeding the daily maximum
+ */
+export function getPrnDoseWarnings(rx: Prescription, doseTimes: number[] = rx.prnDoseTimes ?? []): string[] {
+  const warnings: string[] = []
+  if (rx.frequency !== 'prn' || !Array.isArray(doseTimes)) return warnings
+
+  const sorted = [...doseTimes].sort((a, b) => a - b)
+  sorted.forEach((time, index) => {
+    const previous = sorted[index - 1]
+    if (typeof rx.minDoseInterval === 'number' && previous !== undefined && time - previous < rx.minDoseInterval) {
+      warnings.push(
+        `Dose at ${formatHoursLabel(time)} is only ${formatHoursLabel(time - previous)} after the previous dose (minimum ${formatHoursLabel(rx.minDoseInterval)}).`,
+      )
+    }
+
+    if (typeof rx.maxDailyDose === 'number') {
+      const total = sorted.filter((t) => t > time - 24 && t <= time).length * rx.dose
+      if (total > rx.maxDailyDose) {
+        warnings.push(
+          `Dose at ${formatHoursLabel(time)} brings the 24-hour total to ${total} mg (maximum ${rx.maxDailyDose} mg).`,
+        )
+      }
+    }
+  })
+
+  return warnings
+}
+
+/**
+ * Check that a string is a real calendar date in YYYY-MM-DD format.
+ * Rejects impossible dates such as "2026-02-30".
+ */
+export function isValidStartDate(date: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date)
+  if (!match) return false
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])]
+  const parsed = new Date(Date.UTC(year, month - 1, day))
+  return parsed.getUTCFullYear() === year && parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day
+}
+
+function validateStartDate(startDate: string | undefined): string[] {
+  if (startDate === undefined || startDate === null) return []
+  if (typeof startDate !== 'string' || !isValidStartDate(startDate)) {
+    return ['Start date must be a valid date (YYYY-MM-DD)']
+  }
+  return []
+}
+
+function validateCycle(cycle: DosingCycle | undefined): string[] {
+  const errors: string[] = []
+
+  if (cycle === undefined || cycle === null) {
+    return errors
+  }
+
+  const rules = VALIDATION_RULES.cycle
+  const checkDays = (value: number, label: string) => {
+    if (typeof value !== 'number' || !Number.isInteger(value)) {
+      errors.push(`${label} must be a whole number of days`)
+    } else if (value < rules.minDays || value > rules.maxDays) {
+      errors.push(`${label} must be between ${rules.minDays} and ${rules.maxDays}`)
+    }
+  }
+  checkDays(cycle.daysOn, 'Cycle days on')
+  checkDays(cycle.daysOff, 'Cycle days off')
+
+  if (cycle.cycles !== undefined && cycle.cycles !== null) {
+    if (typeof cycle.cycles !== 'number' || !Number.isInteger(cycle.cycles)) {
+      errors.push('Number of cycles must be a whole number')
+    } else if (cycle.cycles < rules.minCycles || cycle.cycles > rules.maxCycles) {
+      errors.push(`Number of cycles must be between ${rules.minCycles} and ${rules.maxCycles}`)
+    }
+  }
+
   return errors
 }
 
@@ -448,6 +933,374 @@ function validateDuration(
   return errors
 }
 
+function validateStartOffset(
+  startOffset: number | undefined,
+  startOffsetUnit: DurationUnit | undefined,
+): string[] {
+  if (startOffset === undefined || startOffset === null) {
+    return startOffsetUnit === undefined || startOffsetUnit === null
+      ? []
+      : ['Start offset value must be provided when start offset unit is set']
+  }
+  if (startOffsetUnit === undefined || startOffsetUnit === null) {
+    return ['Start offset unit must be provided when start offset is set']
+  }
+  if (startOffsetUnit !== 'days' && startOffsetUnit !== 'hours') {
+    return [`Start offset unit must be 'days' or 'hours'`]
+  }
+
+  const rules = VALIDATION_RULES.startOffset
+  const max = startOffsetUnit === 'days' ? rules.maxDays : rules.maxHours
+  if (typeof startOffset !== 'number' || isNaN(startOffset) || startOffset < rules.min || startOffset > max) {
+    return [`Start offset must be between ${rules.min} and ${max} ${startOffsetUnit}`]
+  }
+  return []
+}
+
+function validateCompartmentModel(rx: Prescription): string[] {
+  const errors: string[] = []
+
+  if (rx.compartmentModel === undefined || rx.compartmentModel === null) {
+    return errors
+  }
+
+  const allowed = VALIDATION_RULES.compartmentModel.allowedValues as readonly string[]
+  if (!allowed.includes(rx.compartmentModel)) {
+    errors.push(`Compartment model must be one of: ${allowed.join(', ')}`)
+    return errors
+  }
+
+  if (rx.compartmentModel !== 'two-compartment') {
+    return errors
+  }
+
+  // Alpha (distribution) phase half-life
+  const { alphaHalfLife, alphaFraction } = rx
+  if (typeof alphaHalfLife !== 'number' || isNaN(alphaHalfLife)) {
+    errors.push('Distribution (alpha) half-life is required for the two-compartment model')
+  } else if (alphaHalfLife < VALIDATION_RULES.alphaHalfLife.min) {
+    errors.push(
+      `Distribution (alpha) half-life must be at least ${VALIDATION_RULES.alphaHalfLife.min} hours`,
+    )
+  } else if (alphaHalfLife > VALIDATION_RULES.alphaHalfLife.max) {
+    errors.push(
+      `Distribution (alpha) half-life must be at most ${VALIDATION_RULES.alphaHalfLife.max} hours`,
+    )
+  } else if (typeof rx.halfLife === 'number' && alphaHalfLife >= rx.halfLife) {
+    errors.push(
+      `Distribution (alpha) half-life (${alphaHalfLife}h) must be shorter than the elimination (beta) half-life (${rx.halfLife}h)`,
+    )
+  }
+
+  // Alpha phase fraction
+  if (typeof alphaFraction !== 'number' || isNaN(alphaFraction)) {
+    errors.push('Distribution (alpha) fraction is required for the two-compartment model')
+  } else if (alphaFraction < VALIDATION_RULES.alphaFraction.min) {
+    errors.push(
+      `Distribution (alpha) fraction must be at least ${VALIDATION_RULES.alphaFraction.min}`,
+    )
+  } else if (alphaFraction > VALIDATION_RULES.alphaFraction.max) {
+    errors.push(
+      `Distribution (alpha) fraction must be at most ${VALIDATION_RULES.alphaFraction.max}`,
+    )
+  }
+
+  return errors
+}
+
+function validateRoute(
+  route: AdministrationRoute | undefined,
+  infusionDuration: number | undefined,
+): string[] {
+  const errors: string[] = []
+
+  if (route === undefined || route === null) {
+    return errors
+  }
+
+  const allowed = VALIDATION_RULES.route.allowedValues as readonly string[]
+  if (!allowed.includes(route)) {
+    errors.push(`Route must be one of: ${allowed.join(', ')}`)
+    return errors
+  }
+
+  if (route !== 'iv-infusion') {
+    return errors
+  }
+
+  if (typeof infusionDuration !== 'number' || isNaN(infusionDuration)) {
+    errors.push('Infusion duration is required for IV infusions')
+  } else if (infusionDuration < VALIDATION_RULES.infusionDuration.min) {
+    errors.push(
+      `Infusion duration must be at least ${VALIDATION_RULES.infusionDuration.min} hours`,
+    )
+  } else if (infusionDuration > VALIDATION_RULES.infusionDuration.max) {
+    errors.push(
+      `Infusion duration must be at most ${VALIDATION_RULES.infusionDuration.max} hours`,
+    )
+  }
+
+  return errors
+}
+
+function validateLagTime(lagTime: number | undefined): string[] {
+  const errors: string[] = []
+
+  if (lagTime === undefined || lagTime === null) {
+    return errors
+  }
+
+  if (typeof lagTime !== 'number' || isNaN(lagTime)) {
+    errors.push('Lag time must be a number when provided')
+    return errors
+  }
+
+  if (lagTime < VALIDATION_RULES.lagTime.min) {
+    errors.push(`Lag time must be at least ${VALIDATION_RULES.lagTime.min} hours`)
+  } else if (lagTime > VALIDATION_RULES.lagTime.max) {
+    errors.push(`Lag time must be at most ${VALIDATION_RULES.lagTime.max} hours`)
+  }
+
+  return errors
+}
+
+function validateAbsorptionModel(rx: Prescription): string[] {
+  const errors: string[] = []
+
+  if (rx.absorptionModel === undefined || rx.absorptionModel === null) {
+    return errors
+  }
+
+  const allowed = VALIDATION_RULES.absorptionModel.allowedValues as readonly string[]
+  if (!allowed.includes(rx.absorptionModel)) {
+    errors.push(`Absorption model must be one of: ${allowed.join(', ')}`)
+    return errors
+  }
+
+  if (rx.absorptionModel === 'first-order') {
+    return errors
+  }
+
+  // Zero-order release duration (zero-order and ir-er)
+  const { releaseDuration, erFraction } = rx
+  if (typeof releaseDuration !== 'number' || isNaN(releaseDuration)) {
+    errors.push('Release duration is required for zero-order and IR+ER absorption')
+  } else if (releaseDuration < VALIDATION_RULES.releaseDuration.min) {
+    errors.push(`Release duration must be at least ${VALIDATION_RULES.releaseDuration.min} hours`)
+  } else if (releaseDuration > VALIDATION_RULES.releaseDuration.max) {
+    errors.push(`Release duration must be at most ${VALIDATION_RULES.releaseDuration.max} hours`)
+  }
+
+  if (rx.absorptionModel !== 'ir-er') {
+    return errors
+  }
+
+  // Extended-release fraction (ir-er only)
+  if (typeof erFraction !== 'number' || isNaN(erFraction)) {
+    errors.push('Extended-release fraction is required for IR+ER absorption')
+  } else if (erFraction < VALIDATION_RULES.erFraction.min) {
+    errors.push(`Extended-release fraction must be at least ${VALIDATION_RULES.erFraction.min}`)
+  } else if (erFraction > VALIDATION_RULES.erFraction.max) {
+    errors.push(`Extended-release fraction must be at most ${VALIDATION_RULES.erFraction.max}`)
+  }
+
+  return errors
+}
+
+function validateEliminationModel(rx: Prescription): string[] {
+  const errors: string[] = []
+
+  if (rx.eliminationModel === undefined || rx.eliminationModel === null) {
+    return errors
+  }
+
+  const allowed = VALIDATION_RULES.eliminationModel.allowedValues as readonly string[]
+  if (!allowed.includes(rx.eliminationModel)) {
+    errors.push(`Elimination model must be one of: ${allowed.join(', ')}`)
+    return errors
+  }
+
+  if (rx.eliminationModel !== 'michaelis-menten') {
+    return errors
+  }
+
+  const { vmax, km } = rx
+  if (typeof vmax !== 'number' || isNaN(vmax)) {
+    errors.push('Vmax is required for Michaelis-Menten elimination')
+  } else if (vmax < VALIDATION_RULES.vmax.min) {
+    errors.push(`Vmax must be at least ${VALIDATION_RULES.vmax.min} mg/h`)
+  } else if (vmax > VALIDATION_RULES.vmax.max) {
+    errors.push(`Vmax must be at most ${VALIDATION_RULES.vmax.max.toLocaleString()} mg/h`)
+  }
+
+  if (typeof km !== 'number' || isNaN(km)) {
+    errors.push('Km is required for Michaelis-Menten elimination')
+  } else if (km < VALIDATION_RULES.km.min) {
+    errors.push(`Km must be at least ${VALIDATION_RULES.km.min} mg/L`)
+  } else if (km > VALIDATION_RULES.km.max) {
+    errors.push(`Km must be at most ${VALIDATION_RULES.km.max.toLocaleString()} mg/L`)
+  }
+
+  // Km is a concentration, so the amount in the body must be converted with Vd
+  if (typeof rx.volumeOfDistribution !== 'number' || isNaN(rx.volumeOfDistribution)) {
+    errors.push('Volume of distribution is required for Michaelis-Menten elimination')
+  }
+
+  return errors
+}
+
+function validateBioavailability(bioavailability: number | undefined): string[] {
+  const errors: string[] = []
+
+  if (bioavailability === undefined || bioavailability === null) {
+    return errors
+  }
+
+  if (typeof bioavailability !== 'number' || isNaN(bioavailability)) {
+    errors.push('Bioavailability must be a number when provided')
+    return errors
+  }
+
+  if (bioavailability < VALIDATION_RULES.bioavailability.min) {
+    errors.push(`Bioavailability must be at least ${VALIDATION_RULES.bioavailability.min}`)
+  } else if (bioavailability > VALIDATION_RULES.bioavailability.max) {
+    errors.push(`Bioavailability must be at most ${VALIDATION_RULES.bioavailability.max}`)
+  }
+
+  return errors
+}
+
+function validateVolumeOfDistribution(volumeOfDistribution: number | undefined): string[] {
+  const errors: string[] = []
+
+  if (volumeOfDistribution === undefined || volumeOfDistribution === null) {
+    return errors
+  }
+
+  if (typeof volumeOfDistribution !== 'number' || isNaN(volumeOfDistribution)) {
+    errors.push('Volume of distribution must be a number when provided')
+    return errors
+  }
+
+  if (volumeOfDistribution < VALIDATION_RULES.volumeOfDistribution.min) {
+    errors.push(
+      `Volume of distribution must be at least ${VALIDATION_RULES.volumeOfDistribution.min} L`,
+    )
+  } else if (volumeOfDistribution > VALIDATION_RULES.volumeOfDistribution.max) {
+    errors.push(
+      `Volume of distribution must be at most ${VALIDATION_RULES.volumeOfDistribution.max.toLocaleString()} L`,
+    )
+  }
+
+  return errors
+}
+
+function validateLoadingDose(loadingDose: number | undefined, loadingDoseCount: number | undefined): string[] {
+  const errors: string[] = []
+  const rules = VALIDATION_RULES.loadingDose
+
+  if (loadingDose !== undefined && loadingDose !== null) {
+    if (typeof loadingDose !== 'number' || isNaN(loadingDose)) {
+      errors.push('Loading dose must be a number when provided')
+    } else if (loadingDose < rules.min) {
+      errors.push(`Loading dose must be at least ${rules.min}`)
+    } else if (loadingDose > rules.max) {
+      errors.push(`Loading dose must be at most ${rules.max.toLocaleString()}`)
+    }
+  }
+
+  if (loadingDoseCount === undefined || loadingDoseCount === null) {
+    return errors
+  }
+
+  const countRules = VALIDATION_RULES.loadingDoseCount
+  if (loadingDose === undefined || loadingDose === null) {
+    errors.push('Number of loading doses requires a loading dose')
+  } else if (typeof loadingDoseCount !== 'number' || !Number.isInteger(loadingDoseCount)) {
+    errors.push('Number of loading doses must be a whole number')
+  } else if (loadingDoseCount < countRules.min || loadingDoseCount > countRules.max) {
+    errors.push(`Number of loading doses must be between ${countRules.min} and ${countRules.max}`)
+  }
+
+  return errors
+}
+
+function validateTherapeuticWindow(rx: Prescription): string[] {
+  const errors: string[] = []
+  const bounds = [
+    ['minEffectiveConcentration', 'Minimum effective concentration'],
+    ['toxicConcentration', 'Toxic threshold'],
+  ] as const
+
+  for (const [field, label] of bounds) {
+    const value = rx[field]
+    if (value === undefined || value === null) continue
+    if (typeof value !== 'number' || isNaN(value)) {
+      errors.push(`${label} must be a number when provided`)
+    } else if (value < VALIDATION_RULES[field].min) {
+      errors.push(`${label} must be at least ${VALIDATION_RULES[field].min}`)
+    } else if (value > VALIDATION_RULES[field].max) {
+      errors.push(`${label} must be at most ${VALIDATION_RULES[field].max.toLocaleString()}`)
+    }
+  }
+
+  if (
+    errors.length === 0 &&
+    typeof rx.minEffectiveConcentration === 'number' &&
+    typeof rx.toxicConcentration === 'number' &&
+    rx.minEffectiveConcentration >= rx.toxicConcentration
+  ) {
+    errors.push('Minimum effective concentration must be lower than the toxic threshold')
+  }
+
+  return errors
+}
+
+function validateDoseDeviations(deviations: DoseDeviation[] | undefined): string[] {
+  const errors: string[] = []
+
+  if (deviations === undefined || deviations === null) {
+    return errors
+  }
+
+  if (!Array.isArray(deviations)) {
+    errors.push('Dose deviations must be an array')
+    return errors
+  }
+
+  const rules = VALIDATION_RULES.doseDeviations
+  const allowed = rules.allowedTypes as readonly string[]
+  const seen = new Set<number>()
+
+  for (const deviation of deviations) {
+    const { scheduledTime, type, shiftHours } = deviation
+    if (typeof scheduledTime !== 'number' || !Number.isFinite(scheduledTime)) {
+      errors.push('Dose deviation scheduled time must be a number')
+      continue
+    }
+    if (seen.has(scheduledTime)) {
+      errors.push(`Dose at ${scheduledTime}h has more than one deviation`)
+    }
+    seen.add(scheduledTime)
+
+    if (!allowed.includes(type)) {
+      errors.push(`Dose deviation type must be one of: ${allowed.join(', ')}`)
+      continue
+    }
+    if (type !== 'delayed' && type !== 'early') continue
+
+    if (typeof shiftHours !== 'number' || isNaN(shiftHours)) {
+      errors.push(`Hours ${type === 'delayed' ? 'late' : 'early'} are required for the dose at ${scheduledTime}h`)
+    } else if (shiftHours < rules.minShiftHours) {
+      errors.push(`Dose shift must be at least ${rules.minShiftHours} hours`)
+    } else if (shiftHours > rules.maxShiftHours) {
+      errors.push(`Dose shift must be at most ${rules.maxShiftHours} hours`)
+    }
+  }
+
+  return errors
+}
+
 function checkCrossFieldWarnings(rx: Prescription): string[] {
   const warnings: string[] = []
 
@@ -468,6 +1321,55 @@ function checkCrossFieldWarnings(rx: Prescription): string[] {
     )
   }
 
+  // Without a volume of distribution, thresholds are read against the normalized curve
+  const hasWindow =
+    typeof rx.minEffectiveConcentration === 'number' || typeof rx.toxicConcentration === 'number'
+  if (hasWindow && typeof rx.volumeOfDistribution !== 'number') {
+    warnings.push(
+      'Therapeutic window thresholds are relative to the peak (0-1) because no volume of distribution is set.',
+    )
+    if ((rx.minEffectiveConcentration ?? 0) > 1) {
+      warnings.push('The minimum effective concentration is above the relative peak (1.0) and will never be reached.')
+    }
+  }
+
+  // As-needed doses placed too close together or above the daily maximum
+  warnings.push(...getPrnDoseWarnings(rx))
+
+  // A loading dose is meant to reach target levels faster than the maintenance dose
+  if (typeof rx.loadingDose === 'number' && typeof rx.dose === 'number' && rx.loadingDose <= rx.dose) {
+    warnings.push('Loading dose is not larger than the maintenance dose.')
+  }
+
+  // Saturable elimination is always flagged: it behaves very differently from the linear model
+  if (rx.eliminationModel === 'michaelis-menten') {
+    warnings.push(
+      'Michaelis-Menten elimination is nonlinear: small dose changes can cause large concentration changes. Curves are solved numerically; half-life only shapes absorption and metabolite curves still assume linear kinetics.',
+    )
+    if (rx.compartmentModel === 'two-compartment') {
+      warnings.push('The two-compartment model is not applied with Michaelis-Menten elimination.')
+    }
+  }
+
+  // Uptake, lag time and bioavailability are irrelevant for intravenous routes (no absorption phase)
+  if (rx.route === 'iv-bolus' || rx.route === 'iv-infusion') {
+    if (typeof rx.lagTime === 'number' && rx.lagTime > 0) {
+      warnings.push('Lag time only applies to oral absorption and is ignored for IV routes.')
+    }
+    if (typeof rx.bioavailability === 'number' && rx.bioavailability < 1) {
+      warnings.push('Bioavailability is always 1.0 for IV routes; the provided value is ignored.')
+    }
+    if (rx.absorptionModel !== undefined && rx.absorptionModel !== 'first-order') {
+      warnings.push('Absorption model only applies to oral dosing and is ignored for IV routes.')
+    }
+    return warnings
+  }
+
+  // Zero-order release does not use uptake, so the ka/ke checks below do not apply
+  if (rx.absorptionModel === 'zero-order') {
+    return warnings
+  }
+
   // Only check uptake/halfLife cross-field conditions when individual fields are valid numbers in range
   if (
     typeof rx.uptake !== 'number' ||
@@ -507,14 +1409,29 @@ export function validatePrescription(rx: Prescription): ValidationResult {
     ...validateName(rx.name),
     ...validateDose(rx.dose),
     ...validateFrequency(rx.frequency),
-    ...validateTimes(rx.times, rx.frequency),
+    ...validateTimes(rx.times, rx.frequency, rx.timeDoses),
+    ...validateStartDate(rx.startDate),
+    ...validateDosingDays(rx),
+    ...validateCycle(rx.cycle),
+    ...validatePrn(rx),
     ...validateHalfLife(rx.halfLife),
+    ...validateLoadingDose(rx.loadingDose, rx.loadingDoseCount),
     ...validatePeak(rx.peak),
     ...validateUptake(rx.uptake),
     ...validateMetaboliteLife(rx.metaboliteLife),
     ...validateRelativeMetaboliteLevel(rx.relativeMetaboliteLevel),
     ...validateMetaboliteName(rx.metaboliteName),
     ...validateDuration(rx.duration, rx.durationUnit),
+    ...validateStartOffset(rx.startOffset, rx.startOffsetUnit),
+    ...validateCompartmentModel(rx),
+    ...validateRoute(rx.route, rx.infusionDuration),
+    ...validateLagTime(rx.lagTime),
+    ...validateAbsorptionModel(rx),
+    ...validateEliminationModel(rx),
+    ...validateBioavailability(rx.bioavailability),
+    ...validateVolumeOfDistribution(rx.volumeOfDistribution),
+    ...validateTherapeuticWindow(rx),
+    ...validateDoseDeviations(rx.doseDeviations),
   ]
 
   const warnings = checkCrossFieldWarnings(rx)
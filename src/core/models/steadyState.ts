@@ -0,0 +1,32 @@
+// ─── Steady-State Types ───
+
+/**
+ * Steady-state metrics for a regularly repeated dose.
+ *
+ * Concentrations are in mg/L when the prescription has a volume of distribution,
+ * otherwise relative to Css,max (cssMax = 1.0), matching the normalized graph.
+ */
+export interface SteadyStateMetrics {
+  /** Prescription ID (if saved) */
+  prescriptionId: string | undefined
+  /** Prescription drug name */
+  prescriptionName: string
+  /** Dosing interval tau in hours (24 / doses per day) */
+  dosingInterval: number
+  /** False when the dose times are not evenly spaced; metrics then assume the average interval */
+  evenlySpaced: boolean
+  /** Unit of the concentration values */
+  unit: 'mg/L' | 'relative'
+  /** Maximum concentration within a dosing interval at steady state */
+  cssMax: number
+  /** Minimum (trough) concentration within a dosing interval at steady state */
+  cssMin: number
+  /** Average concentration over a dosing interval at steady state (AUC_tau / tau) */
+  cssAvg: number
+  /** Peak-trough fluctuation: (Css,max - Css,min) / Css,avg × 100 */
+  fluctuationPercent: number
+  /** Accumulation ratio 1 / (1 - e^(-ke·tau)) using the terminal rate constant */
+  accumulationRatio: number
+  /** Hours of continuous dosing to reach 90% of steady state (ln 10 / ke) */
+  timeTo90Percent: number
+}
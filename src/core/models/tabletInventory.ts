@@ -0,0 +1,183 @@
+import { VALIDATION_RULES } from './prescription'
+
+// ─── Type Definitions ───
+
+export interface TabletStrength {
+  /** Tablet strength in mg */
+  strength: number
+  /** Scored tablets can be split in half */
+  splittable: boolean
+}
+
+export interface TabletCount {
+  /** Tablet strength in mg */
+  strength: number
+  /** Tablets per dose; 0.5 steps for split tablets (e.g. 1.5) */
+  count: number
+}
+
+export interface TabletCombination {
+  /** Dose in mg the tablets add up to */
+  dose: number
+  /** Tablets to take per dose, strongest first, zero counts omitted */
+  tablets: TabletCount[]
+}
+
+// ─── Constants ───
+
+/** Most pieces (whole or half tablets) considered for a single dose */
+export const MAX_PIECES_PER_DOSE = 8
+
+const MAX_STRENGTHS = 6
+
+/** Last enumerated inventory; forms re-solve every step on each edit */
+let cachedCombinations: { key: string; combinations: Map<number, TabletCombination> } | null = null
+
+// ─── Internal Helpers ───
+
+/** Trim floating-point noise so sums like 0.1 + 0.2 compare equal to 0.3 */
+function normalize(mg: number): number {
+  return Number(mg.toFixed(6))
+}
+
+function isValidStrength(t: TabletStrength): boolean {
+  return (
+    typeof t.strength === 'number' &&
+    Number.isFinite(t.strength) &&
+    t.strength > 0 &&
+    t.strength <= VALIDATION_RULES.dose.max
+  )
+}
+
+/**
+ * Every dose reachable with up to MAX_PIECES_PER_DOSE pieces, keyed by dose,
+ * keeping the combination with the fewest pieces. At most one half tablet of
+ * each splittable strength is used (two halves are a whole tablet).
+ * @internal Not exported
+ */
+function enumerateCombinations(tablets: TabletStrength[]): Map<number, TabletCombination> {
+  const key = JSON.stringify(tablets.map(t => [t.strength, t.splittable]))
+  if (cachedCombinations?.key === key) return cachedCombinations.combinations
+
+  const strengths = tablets.filter(isValidStrength).sort((a, b) => b.strength - a.strength)
+  const best = new Map<number, { combo: TabletCombination; pieces: number }>()
+  const counts: number[] = strengths.map(() => 0)
+
+  const record = (pieces: number) => {
+    const dose = normalize(counts.reduce((sum, count, i) => sum + count * strengths[i]!.strength, 0))
+    if (dose <= 0) return
+    const existing = best.get(dose)
+    if (existing && existing.pieces <= pieces) return
+    best.set(dose, {
+      pieces,
+      combo: {
+        dose,
+        tablets: strengths
+          .map((t, i) => ({ strength: t.strength, count: counts[i]! }))
+          .filter(t => t.count > 0),
+      },
+    })
+  }
+
+  const visit = (index: number, pieces: number) => {
+    if (index === strengths.length) {
+      record(pieces)
+      return
+    }
+    const canHalve = strengths[index]!.splittable
+    for (let whole = 0; pieces + whole <= MAX_PIECES_PER_DOSE; whole++) {
+      counts[index] = whole
+      visit(index + 1, pieces + whole)
+      if (canHalve && pieces + whole + 1 <= MAX_PIECES_PER_DOSE) {
+        counts[index] = whole + 0.5
+        visit(index + 1, pieces + whole + 1)
+      }
+    }
+    counts[index] = 0
+  }
+
+  visit(0, 0)
+  const combinations = new Map([...best].map(([dose, { combo }]) => [dose, combo]))
+  cachedCombinations = { key, combinations }
+  return combinations
+}
+
+// ─── Exported Functions ───
+
+/**
+ * Validate a tablet inventory.
+ * @returns Error messages (empty when valid)
+ */
+export function validateTabletInventory(tablets: TabletStrength[]): string[] {
+  const errors: string[] = []
+
+  if (!Array.isArray(tablets)) {
+    return ['Tablet strengths must be a list']
+  }
+  if (tablets.length > MAX_STRENGTHS) {
+    errors.push(`At most ${MAX_STRENGTHS} tablet strengths are supported`)
+  }
+
+  const seen = new Set<number>()
+  tablets.forEach((t, i) => {
+    if (!isValidStrength(t)) {
+      errors.push(
+        `Tablet ${i + 1}: strength must be greater than 0 and at most ${VALIDATION_RULES.dose.max.toLocaleString()} mg`,
+      )
+    } else if (seen.has(t.strength)) {
+      errors.push(`Tablet ${i + 1}: ${t.strength} mg is listed more than once`)
+    } else {
+      seen.add(t.strength)
+    }
+  })
+
+  return errors
+}
+
+/**
+ * Find the tablets that make up a dose exactly, using the fewest pieces.
+ * @param dose - Dose in mg
+ * @param tablets - Available tablet strengths
+ * @returns The combination, or null when the dose cannot be built
+ */
+export function findTabletCombination(
+  dose: number,
+  tablets: TabletStrength[],
+): TabletCombination | null {
+  return enumerateCombinations(tablets).get(normalize(dose)) ?? null
+}
+
+/**
+ * Round a dose to the nearest dose the tablets can build.
+ * Ties go to the lower dose.
+ * @param dose - Dose in mg
+ * @param tablets - Available tablet strengths
+ * @returns The nearest achievable combination, or null for an empty inventory
+ */
+export function roundToAchievableDose(
+  dose: number,
+  tablets: TabletStrength[],
+): TabletCombination | null {
+  let nearest: TabletCombination | null = null
+  for (const combo of enumerateCombinations(tablets).values()) {
+    const diff = normalize(Math.abs(combo.dose - dose))
+    const nearestDiff = nearest ? normalize(Math.abs(nearest.dose - dose)) : Infinity
+    if (diff < nearestDiff || (diff === nearestDiff && nearest && combo.dose < nearest.dose)) {
+      nearest = combo
+    }
+  }
+  return nearest
+}
+
+/**
+ * Describe the tablets in a combination, e.g. "1 × 25 mg + ½ × 10 mg".
+ */
+export function formatTabletCombination(combo: TabletCombination): string {
+  return combo.tablets
+    .map(({ strength, count }) => {
+      const whole = Math.floor(count)
+      const countLabel = count % 1 === 0 ? `${count}` : `${whole > 0 ? whole : ''}½`
+      return `${countLabel} × ${strength} mg`
+    })
+    .join(' + ')
+}
@@ -0,0 +1,27 @@
+import type { TherapeuticWindow } from './prescription'
+
+// ─── Therapeutic Window Types ───
+
+/**
+ * Share of the simulated time spent below, within and above a prescription's
+ * therapeutic window. The three percentages add up to 100.
+ *
+ * Thresholds and curve are in mg/L when the prescription has a volume of
+ * distribution, otherwise relative to the curve's peak (peak = 1.0).
+ */
+export interface TimeInRangeStats {
+  /** Prescription ID (if saved) */
+  prescriptionId: string | undefined
+  /** Prescription drug name */
+  prescriptionName: string
+  /** Unit of the window bounds */
+  unit: 'mg/L' | 'relative'
+  /** Window bounds as entered on the prescription */
+  window: TherapeuticWindow
+  /** Percent of time below the minimum effective concentration (0 without a minimum) */
+  percentBelow: number
+  /** Percent of time within the window */
+  percentWithin: number
+  /** Percent of time above the toxic threshold (0 without a toxic threshold) */
+  percentAbove: number
+}
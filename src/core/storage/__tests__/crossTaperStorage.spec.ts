@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  getAllCrossTapers,
+  getCrossTaper,
+  saveCrossTaper,
+  updateCrossTaper,
+  deleteCrossTaper,
+  clearAllCrossTapers,
+  exportCrossTapersAsJson,
+} from '../crossTaperStorage'
+import type { CrossTaper } from '../../models/crossTaper'
+import type { DosageSchedule } from '../../models/dosageSchedule'
+
+function makeSchedule(overrides: Partial<DosageSchedule> = {}): DosageSchedule {
+  return {
+    name: 'Test Taper',
+    direction: 'taper',
+    basePrescription: {
+      name: 'Test Drug',
+      frequency: 'qd',
+      times: ['09:00'],
+      dose: 50,
+      halfLife: 24,
+      peak: 6,
+      uptake: 2,
+    },
+    steps: [
+      { stepNumber: 1, dose: 50, durationDays: 7, startDay: 0 },
+      { stepNumber: 2, dose: 25, durationDays: 7, startDay: 7 },
+    ],
+    totalDuration: 14,
+    ...overrides,
+  }
+}
+
+function makeCrossTaper(overrides: Partial<CrossTaper> = {}): CrossTaper {
+  return {
+    name: 'Test Switch',
+    fromSchedule: makeSchedule(),
+    toSchedule: makeSchedule({ name: 'Test Titration', direction: 'titration' }),
+    offsetDays: 7,
+    ...overrides,
+  }
+}
+
+describe('crossTaperStorage', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  describe('getAllCrossTapers', () => {
+    it('returns empty array when storage is empty', () => {
+      expect(getAllCrossTapers()).toEqual([])
+    })
+
+    it('returns empty array on corrupted data', () => {
+      localStorage.setItem('pk-grapher-cross-tapers', '{not json')
+      expect(getAllCrossTapers()).toEqual([])
+    })
+
+    it('is stored separately from schedules', () => {
+      saveCrossTaper(makeCrossTaper())
+      expect(localStorage.getItem('pk-grapher-schedules')).toBeNull()
+    })
+  })
+
+  describe('saveCrossTaper', () => {
+    it('assigns a new id and keeps both embedded schedules', () => {
+      const saved = saveCrossTaper({ ...makeCrossTaper(), id: 'ignored' })
+      expect(saved.id).toMatch(/^xtaper-/)
+      expect(getCrossTaper(saved.id!)).toEqual(saved)
+      expect(saved.toSchedule.name).toBe('Test Titration')
+    })
+
+    it('multiple saves accumulate', () => {
+      saveCrossTaper(makeCrossTaper())
+      saveCrossTaper(makeCrossTaper({ name: 'Second' }))
+      expect(getAllCrossTapers()).toHaveLength(2)
+    })
+  })
+
+  describe('updateCrossTaper', () => {
+    it('updates an existing cross-taper', () => {
+      const saved = saveCrossTaper(makeCrossTaper())
+      expect(updateCrossTaper({ ...saved, offsetDays: 3 })).toBe(true)
+      expect(getCrossTaper(saved.id!)?.offsetDays).toBe(3)
+    })
+
+    it('returns false if id is missing or not found', () => {
+      expect(updateCrossTaper(makeCrossTaper())).toBe(false)
+      expect(updateCrossTaper(makeCrossTaper({ id: 'missing' }))).toBe(false)
+    })
+  })
+
+  describe('deleteCrossTaper', () => {
+    it('deletes only the matching cross-taper', () => {
+      const a = saveCrossTaper(makeCrossTaper())
+      const b = saveCrossTaper(makeCrossTaper({ name: 'Keep' }))
+      expect(deleteCrossTaper(a.id!)).toBe(true)
+      expect(getAllCrossTapers().map(c => c.id)).toEqual([b.id])
+    })
+
+    it('returns false if not found', () => {
+      expect(deleteCrossTaper('missing')).toBe(false)
+    })
+  })
+
+  describe('clearAllCrossTapers', () => {
+    it('removes all cross-tapers', () => {
+      saveCrossTaper(makeCrossTaper())
+      clearAllCrossTapers()
+      expect(getAllCrossTapers()).toEqual([])
+    })
+  })
+
+  describe('exportCrossTapersAsJson', () => {
+    it('exports only selected cross-tapers when ids provided', () => {
+      const a = saveCrossTaper(makeCrossTaper())
+      saveCrossTaper(makeCrossTaper({ name: 'Other' }))
+      const parsed = JSON.parse(exportCrossTapersAsJson([a.id!]))
+      expect(parsed).toHaveLength(1)
+      expect(parsed[0].name).toBe('Test Switch')
+    })
+
+    it('round-trips: exported JSON can be parsed and re-saved', () => {
+      saveCrossTaper(makeCrossTaper())
+      const [exported] = JSON.parse(exportCrossTapersAsJson()) as CrossTaper[]
+      clearAllCrossTapers()
+      const resaved = saveCrossTaper(exported!)
+      expect(resaved.fromSchedule).toEqual(makeCrossTaper().fromSchedule)
+    })
+  })
+})
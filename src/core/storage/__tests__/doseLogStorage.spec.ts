@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+
+// Mock localStorage before importing the storage module
+const mockStorage: Record<string, string> = {}
+interface MockStorage {
+  getItem: (key: string) => string | null
+  setItem: (key: string, value: string) => void
+  removeItem: (key: string) => void
+  clear: () => void
+}
+const localStorageMock: MockStorage = {
+  getItem: (key: string) => mockStorage[key] ?? null,
+  setItem: (key: string, value: string) => {
+    mockStorage[key] = value
+  },
+  removeItem: (key: string) => {
+    delete mockStorage[key]
+  },
+  clear: () => {
+    Object.keys(mockStorage).forEach(key => delete mockStorage[key])
+  },
+}
+
+// Set up global localStorage before module imports
+if (typeof globalThis !== 'undefined') {
+  ;(globalThis as unknown as Record<string, MockStorage>).localStorage = localStorageMock
+}
+
+import {
+  getAllDoseLogEntries,
+  getDoseLogForPrescription,
+  saveDoseLogEntry,
+  updateDoseLogEntry,
+  deleteDoseLogEntry,
+  clearDoseLog,
+  exportDoseLogAsJson,
+} from '../doseLogStorage'
+import type { DoseLogEntry } from '../../models/doseLog'
+
+const KEY = 'pk-grapher-dose-log'
+
+function makeEntry(overrides: Partial<DoseLogEntry> = {}): DoseLogEntry {
+  return {
+    prescriptionId: 'rx-1',
+    takenAt: '2026-01-05T09:00:00.000Z',
+    dose: 50,
+    ...overrides,
+  }
+}
+
+describe('doseLogStorage', () => {
+  beforeEach(() => {
+    delete mockStorage[KEY]
+  })
+
+  // ─── Read Operations ───
+
+  describe('getAllDoseLogEntries', () => {
+    it('returns empty array when storage is empty', () => {
+      expect(getAllDoseLogEntries()).toEqual([])
+    })
+
+    it('returns empty array on corrupted data', () => {
+      mockStorage[KEY] = '{invalid json'
+      expect(getAllDoseLogEntries()).toEqual([])
+    })
+  })
+
+  describe('getDoseLogForPrescription', () => {
+    it('returns only the entries of one prescription', () => {
+      saveDoseLogEntry(makeEntry())
+      saveDoseLogEntry(makeEntry({ prescriptionId: 'rx-2' }))
+      const result = getDoseLogForPrescription('rx-2')
+      expect(result).toHaveLength(1)
+      expect(result[0]!.prescriptionId).toBe('rx-2')
+    })
+  })
+
+  // ─── Write Operations ───
+
+  describe('saveDoseLogEntry', () => {
+    it('saves the entry and assigns a new id', () => {
+      const saved = saveDoseLogEntry(makeEntry({ id: 'ignored' }))
+      expect(saved.id).toMatch(/^dose-/)
+      expect(getAllDoseLogEntries()).toHaveLength(1)
+    })
+
+    it('keeps entries sorted by time taken', () => {
+      saveDoseLogEntry(makeEntry({ takenAt: '2026-01-05T21:00:00.000Z' }))
+      saveDoseLogEntry(makeEntry({ takenAt: '2026-01-05T09:00:00.000Z' }))
+      expect(getAllDoseLogEntries().map((e) => e.takenAt)).toEqual([
+        '2026-01-05T09:00:00.000Z',
+        '2026-01-05T21:00:00.000Z',
+      ])
+    })
+  })
+
+  describe('updateDoseLogEntry', () => {
+    it('updates an existing entry', () => {
+      const saved = saveDoseLogEntry(makeEntry())
+      expect(updateDoseLogEntry({ ...saved, dose: 75 })).toBe(true)
+      expect(getAllDoseLogEntries()[0]!.dose).toBe(75)
+    })
+
+    it('returns false without an id or for an unknown id', () => {
+      expect(updateDoseLogEntry(makeEntry())).toBe(false)
+      expect(updateDoseLogEntry(makeEntry({ id: 'dose-missing' }))).toBe(false)
+    })
+  })
+
+  // ─── Delete Operations ───
+
+  describe('deleteDoseLogEntry', () => {
+    it('removes the entry', () => {
+      const saved = saveDoseLogEntry(makeEntry())
+      expect(deleteDoseLogEntry(saved.id!)).toBe(true)
+      expect(getAllDoseLogEntries()).toEqual([])
+    })
+
+    it('returns false when not found', () => {
+      expect(deleteDoseLogEntry('dose-missing')).toBe(false)
+    })
+  })
+
+  describe('clearDoseLog', () => {
+    it('clears a single prescription', () => {
+      saveDoseLogEntry(makeEntry())
+      saveDoseLogEntry(makeEntry({ prescriptionId: 'rx-2' }))
+      clearDoseLog('rx-1')
+      expect(getAllDoseLogEntries().map((e) => e.prescriptionId)).toEqual(['rx-2'])
+    })
+
+    it('removes the storage key when called without a prescription', () => {
+      saveDoseLogEntry(makeEntry())
+      clearDoseLog()
+      expect(mockStorage[KEY]).toBeUndefined()
+    })
+  })
+
+  // ─── Utility Functions ───
+
+  describe('exportDoseLogAsJson', () => {
+    it('exports all entries or one prescription as pretty-printed JSON', () => {
+      saveDoseLogEntry(makeEntry())
+      saveDoseLogEntry(makeEntry({ prescriptionId: 'rx-2' }))
+      expect(JSON.parse(exportDoseLogAsJson())).toHaveLength(2)
+      const json = exportDoseLogAsJson('rx-2')
+      expect(json).toContain('\n  ')
+      expect(JSON.parse(json)).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,150 @@
+/**
+ * Cross-Taper Storage Module
+ *
+ * Persists CrossTaper objects to browser localStorage with CRUD operations.
+ * Follows the same patterns as scheduleStorage.ts.
+ *
+ * Storage key: 'pk-grapher-cross-tapers'
+ * Format: JSON-serialized array of CrossTaper objects
+ */
+
+import type { CrossTaper } from '../models/crossTaper'
+import { logError, logWarn } from '../utils/logger'
+
+// ─── Constants ───
+
+const STORAGE_KEY = 'pk-grapher-cross-tapers'
+
+// ─── Helpers ───
+
+/**
+ * Generate a unique ID for a new cross-taper.
+ * Format: xtaper-{timestamp}-{random}
+ * @internal Not exported
+ */
+function generateId(): string {
+  return `xtaper-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`
+}
+
+/**
+ * Write cross-tapers to storage, logging and rethrowing on failure.
+ * @internal Not exported
+ */
+function writeCrossTapers(crossTapers: CrossTaper[], context: string, details: Record<string, unknown>): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(crossTapers))
+  } catch (e) {
+    logError(`crossTaperStorage.${context}`, 'Failed to write to localStorage', {
+      error: e instanceof Error ? e.message : String(e),
+      ...details,
+    })
+    throw e
+  }
+}
+
+// ─── Read Operations ───
+
+/**
+ * Get all cross-tapers from storage.
+ * Returns empty array if storage is empty or corrupted.
+ */
+export function getAllCrossTapers(): CrossTaper[] {
+  const data = localStorage.getItem(STORAGE_KEY)
+  if (!data) return []
+  try {
+    return JSON.parse(data) as CrossTaper[]
+  } catch {
+    logError('crossTaperStorage.getAllCrossTapers', 'Failed to parse cross-tapers from localStorage', {
+      rawDataLength: data.length,
+      rawDataPreview: data.slice(0, 200),
+    })
+    return []
+  }
+}
+
+/**
+ * Get a specific cross-taper by ID.
+ * @param id - Cross-taper ID to look up
+ * @returns Matching cross-taper or undefined if not found
+ */
+export function getCrossTaper(id: string): CrossTaper | undefined {
+  return getAllCrossTapers().find(c => c.id === id)
+}
+
+// ─── Write Operations ───
+
+/**
+ * Save a new cross-taper to storage.
+ * Assigns a new generated ID regardless of input.
+ * @param crossTaper - Cross-taper data (id field will be overwritten)
+ * @returns Stored cross-taper with generated id
+ */
+export function saveCrossTaper(crossTaper: CrossTaper): CrossTaper {
+  const crossTapers = getAllCrossTapers()
+  const newCrossTaper = { ...crossTaper, id: generateId() }
+  crossTapers.push(newCrossTaper)
+  writeCrossTapers(crossTapers, 'saveCrossTaper', { crossTaperCount: crossTapers.length })
+  return newCrossTaper
+}
+
+/**
+ * Update an existing cross-taper in storage.
+ * @param crossTaper - Cross-taper with id field set
+ * @returns true if updated, false if id missing or not found
+ */
+export function updateCrossTaper(crossTaper: CrossTaper): boolean {
+  if (!crossTaper.id) {
+    logWarn('crossTaperStorage.updateCrossTaper', 'Called with missing id')
+    return false
+  }
+  const crossTapers = getAllCrossTapers()
+  const index = crossTapers.findIndex(c => c.id === crossTaper.id)
+  if (index === -1) {
+    logWarn('crossTaperStorage.updateCrossTaper', 'Cross-taper not found', { id: crossTaper.id })
+    return false
+  }
+  crossTapers[index] = crossTaper
+  writeCrossTapers(crossTapers, 'updateCrossTaper', { id: crossTaper.id })
+  return true
+}
+
+// ─── Delete Operations ───
+
+/**
+ * Delete a cross-taper from storage by ID.
+ * @param id - Cross-taper ID to delete
+ * @returns true if deleted, false if not found
+ */
+export function deleteCrossTaper(id: string): boolean {
+  const crossTapers = getAllCrossTapers()
+  const filtered = crossTapers.filter(c => c.id !== id)
+  if (filtered.length === crossTapers.length) {
+    logWarn('crossTaperStorage.deleteCrossTaper', 'Cross-taper not found', { id })
+    return false
+  }
+  writeCrossTapers(filtered, 'deleteCrossTaper', { id })
+  return true
+}
+
+// ─── Utility Functions ───
+
+/**
+ * Clear all cross-tapers from storage.
+ * Removes the storage key entirely.
+ */
+export function clearAllCrossTapers(): void {
+  localStorage.removeItem(STORAGE_KEY)
+}
+
+/**
+ * Export cross-tapers as a pretty-printed JSON string.
+ * @param ids - Optional array of cross-taper IDs to export. If omitted, exports all.
+ * @returns Pretty-printed JSON string of the selected cross-tapers
+ */
+export function exportCrossTapersAsJson(ids?: string[]): string {
+  const crossTapers = getAllCrossTapers()
+  const toExport = ids
+    ? crossTapers.filter(c => c.id && ids.includes(c.id))
+    : crossTapers
+  return JSON.stringify(toExport, null, 2)
+}
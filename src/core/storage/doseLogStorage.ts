@@ -0,0 +1,153 @@
+/**
+ * Dose Log Storage Module
+ *
+ * Persists DoseLogEntry records (doses actually taken) to browser localStorage.
+ * Follows the same patterns as prescriptionStorage.ts and scheduleStorage.ts.
+ *
+ * Storage key: 'pk-grapher-dose-log'
+ * Format: JSON-serialized array of DoseLogEntry objects, sorted by takenAt
+ */
+
+import type { DoseLogEntry } from '../models/doseLog'
+import { logError, logWarn } from '../utils/logger'
+
+// ─── Constants ───
+
+const STORAGE_KEY = 'pk-grapher-dose-log'
+
+// ─── Helpers ───
+
+/**
+ * Generate a unique ID for a new log entry.
+ * Format: dose-{timestamp}-{random}
+ * @internal Not exported
+ */
+function generateId(): string {
+  return `dose-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`
+}
+
+/**
+ * Sort entries chronologically and write them to storage.
+ * @internal Not exported
+ */
+function writeEntries(entries: DoseLogEntry[], context: string, details: Record<string, unknown>): void {
+  const sorted = [...entries].sort((a, b) => Date.parse(a.takenAt) - Date.parse(b.takenAt))
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sorted))
+  } catch (e) {
+    logError(`doseLogStorage.${context}`, 'Failed to write to localStorage', {
+      error: e instanceof Error ? e.message : String(e),
+      ...details,
+    })
+    throw e
+  }
+}
+
+// ─── Read Operations ───
+
+/**
+ * Get all dose log entries from storage, oldest first.
+ * Returns empty array if storage is empty or corrupted.
+ */
+export function getAllDoseLogEntries(): DoseLogEntry[] {
+  const data = localStorage.getItem(STORAGE_KEY)
+  if (!data) return []
+  try {
+    return JSON.parse(data) as DoseLogEntry[]
+  } catch {
+    logError('doseLogStorage.getAllDoseLogEntries', 'Failed to parse dose log from localStorage', {
+      rawDataLength: data.length,
+      rawDataPreview: data.slice(0, 200),
+    })
+    return []
+  }
+}
+
+/**
+ * Get the logged doses for one prescription, oldest first.
+ * @param prescriptionId - Saved prescription ID
+ * @returns Matching entries (empty if none)
+ */
+export function getDoseLogForPrescription(prescriptionId: string): DoseLogEntry[] {
+  return getAllDoseLogEntries().filter(e => e.prescriptionId === prescriptionId)
+}
+
+// ─── Write Operations ───
+
+/**
+ * Save a new dose log entry to storage.
+ * Assigns a new generated ID regardless of input.
+ * @param entry - Entry data (id field will be overwritten)
+ * @returns Stored entry with generated id
+ */
+export function saveDoseLogEntry(entry: DoseLogEntry): DoseLogEntry {
+  const entries = getAllDoseLogEntries()
+  const newEntry = { ...entry, id: generateId() }
+  entries.push(newEntry)
+  writeEntries(entries, 'saveDoseLogEntry', { entryCount: entries.length })
+  return newEntry
+}
+
+/**
+ * Update an existing dose log entry in storage.
+ * @param entry - Entry with id field set
+ * @returns true if updated, false if id missing or not found
+ */
+export function updateDoseLogEntry(entry: DoseLogEntry): boolean {
+  if (!entry.id) {
+    logWarn('doseLogStorage.updateDoseLogEntry', 'Called with missing id')
+    return false
+  }
+  const entries = getAllDoseLogEntries()
+  const index = entries.findIndex(e => e.id === entry.id)
+  if (index === -1) {
+    logWarn('doseLogStorage.updateDoseLogEntry', 'Entry not found', { id: entry.id })
+    return false
+  }
+  entries[index] = entry
+  writeEntries(entries, 'updateDoseLogEntry', { id: entry.id })
+  return true
+}
+
+// ─── Delete Operations ───
+
+/**
+ * Delete a dose log entry from storage by ID.
+ * @param id - Entry ID to delete
+ * @returns true if deleted, false if not found
+ */
+export function deleteDoseLogEntry(id: string): boolean {
+  const entries = getAllDoseLogEntries()
+  const filtered = entries.filter(e => e.id !== id)
+  if (filtered.length === entries.length) {
+    logWarn('doseLogStorage.deleteDoseLogEntry', 'Entry not found', { id })
+    return false
+  }
+  writeEntries(filtered, 'deleteDoseLogEntry', { id })
+  return true
+}
+
+/**
+ * Clear logged doses from storage.
+ * @param prescriptionId - Only clear this prescription's entries; omit to remove the storage key entirely
+ */
+export function clearDoseLog(prescriptionId?: string): void {
+  if (prescriptionId === undefined) {
+    localStorage.removeItem(STORAGE_KEY)
+    return
+  }
+  const remaining = getAllDoseLogEntries().filter(e => e.prescriptionId !== prescriptionId)
+  writeEntries(remaining, 'clearDoseLog', { prescriptionId })
+}
+
+// ─── Utility Functions ───
+
+/**
+ * Export dose log entries as a pretty-printed JSON string.
+ * @param prescriptionId - Optional prescription ID to export. If omitted, exports all.
+ * @returns Pretty-printed JSON string of the selected entries
+ */
+export function exportDoseLogAsJson(prescriptionId?: string): string {
+  const entries = prescriptionId ? getDoseLogForPrescription(prescriptionId) : getAllDoseLogEntries()
+  return JSON.stringify(entries, null, 2)
+}
@@ -22,3 +22,25 @@ export {
   duplicateSchedule,
   clearAllSchedules,
 } from './scheduleStorage'
+
+// Cross-taper storage and persistence
+export {
+  getAllCrossTapers,
+  getCrossTaper,
+  saveCrossTaper,
+  updateCrossTaper,
+  deleteCrossTaper,
+  clearAllCrossTapers,
+  exportCrossTapersAsJson,
+} from './crossTaperStorage'
+
+// Dose log storage and persistence
+export {
+  getAllDoseLogEntries,
+  getDoseLogForPrescription,
+  saveDoseLogEntry,
+  updateDoseLogEntry,
+  deleteDoseLogEntry,
+  clearDoseLog,
+  exportDoseLogAsJson,
+} from './doseLogStorage'
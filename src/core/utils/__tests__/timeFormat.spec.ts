@@ -5,6 +5,10 @@ import {
   parseTimeString,
   getDayNumber,
   formatTimeWithDay,
+  getCalendarDate,
+  formatCalendarDate,
+  formatDateTime,
+  calculateDateTickStep,
 } from '../timeFormat'
 
 describe('hoursToClockTime', () => {
@@ -181,3 +185,33 @@ describe('formatTimeWithDay', () => {
     expect(formatTimeWithDay(72, '09:00')).toBe('09:00 (Day 4)')
   })
 })
+
+describe('calendar dates', () => {
+  it('places day 1 on the start date', () => {
+    expect(formatCalendarDate(0, '2026-01-05')).toBe('Mon Jan 5')
+    expect(formatCalendarDate(23.5, '2026-01-05')).toBe('Mon Jan 5')
+    expect(formatCalendarDate(24, '2026-01-05')).toBe('Tue Jan 6')
+  })
+
+  it('crosses month, year and leap-day boundaries', () => {
+    expect(formatCalendarDate(24, '2025-12-31')).toBe('Thu Jan 1')
+    expect(formatCalendarDate(24, '2028-02-28')).toBe('Tue Feb 29')
+    expect(getCalendarDate(48, '2026-01-31').toISOString()).toBe('2026-02-02T00:00:00.000Z')
+  })
+
+  it('counts whole days across daylight saving changes', () => {
+    // 2026-03-08 is the US spring-forward date; the date changes every 24 hours regardless
+    expect(formatDateTime(9, '2026-03-07')).toBe('Sat Mar 7 09:00')
+    expect(formatDateTime(33, '2026-03-07')).toBe('Sun Mar 8 09:00')
+    expect(formatDateTime(57, '2026-03-07')).toBe('Mon Mar 9 09:00')
+  })
+})
+
+describe('calculateDateTickStep', () => {
+  it('uses steps that keep a tick on every shown day boundary', () => {
+    expect(calculateDateTickStep(0, 48)).toBe(6)
+    expect(calculateDateTickStep(0, 240)).toBe(24)
+    expect(calculateDateTickStep(0, 720)).toBe(72)
+    expect(calculateDateTickStep(0, 2000)).toBe(168)
+  })
+})
@@ -46,7 +46,7 @@ export function transformImportedPrescription(imported: Record<string, any>): Pr
   }
 
   // Coerce string numbers to actual numbers for common numeric fields
-  const numericFields = ['dose', 'halfLife', 'peak', 'uptake', 'metaboliteLife', 'relativeMetaboliteLevel', 'duration'] as const
+  const numericFields = ['dose', 'halfLife', 'loadingDose', 'loadingDoseCount', 'dayInterval', 'minDoseInterval', 'maxDailyDose', 'peak', 'uptake', 'metaboliteLife', 'relativeMetaboliteLevel', 'duration', 'startOffset', 'alphaHalfLife', 'alphaFraction', 'infusionDuration', 'lagTime', 'releaseDuration', 'erFraction', 'vmax', 'km', 'bioavailability', 'volumeOfDistribution', 'minEffectiveConcentration', 'toxicConcentration'] as const
   for (const field of numericFields) {
     if (typeof result[field] === 'string') {
       const parsed = Number(result[field])
@@ -69,3 +69,58 @@ export function formatTimeWithDay(hoursOffset: number, referenceTime: string): s
   const dayNum = getDayNumber(hoursOffset)
   return dayNum > 1 ? `${clockTime} (Day ${dayNum})` : clockTime
 }
+
+const WEEKDAY_ABBREVIATIONS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const
+const MONTH_ABBREVIATIONS = [
+  'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec',
+] as const
+
+/**
+ * Calendar date of the day containing an hours offset.
+ * Day 1 (hours 0-24) falls on the start date; days are counted in whole calendar
+ * days, so daylight saving changes never shift a dose onto a different date.
+ * @param hoursOffset - Hours from midnight of day 1
+ * @param startDate - Date of day 1 in YYYY-MM-DD format
+ * @returns UTC-based Date for that calendar day (read with getUTC* methods)
+ */
+export function getCalendarDate(hoursOffset: number, startDate: string): Date {
+  const [year, month, day] = startDate.split('-').map(Number)
+  const dayIndex = getDayNumber(hoursOffset) - 1
+  return new Date(Date.UTC(year ?? 1970, (month ?? 1) - 1, (day ?? 1) + dayIndex))
+}
+
+/**
+ * Format the calendar date of an hours offset
+ * @param hoursOffset - Hours from midnight of day 1
+ * @param startDate - Date of day 1 in YYYY-MM-DD format
+ * @returns String like "Mon Jan 5"
+ */
+export function formatCalendarDate(hoursOffset: number, startDate: string): string {
+  const date = getCalendarDate(hoursOffset, startDate)
+  return `${WEEKDAY_ABBREVIATIONS[date.getUTCDay()]} ${MONTH_ABBREVIATIONS[date.getUTCMonth()]} ${date.getUTCDate()}`
+}
+
+/**
+ * Format an hours offset as calendar date and clock time
+ * @param hoursOffset - Hours from midnight of day 1
+ * @param startDate - Date of day 1 in YYYY-MM-DD format
+ * @returns String like "Tue Jan 6 09:00"
+ */
+export function formatDateTime(hoursOffset: number, startDate: string): string {
+  return `${formatCalendarDate(hoursOffset, startDate)} ${hoursToClockTime(hoursOffset, '00:00')}`
+}
+
+/**
+ * Determine tick step for the calendar date axis.
+ * Steps are whole days (or divide a day evenly) so day boundaries always get a tick.
+ * @param startHours - Start of time range in hours
+ * @param endHours - End of time range in hours
+ * @returns Step size in hours between X-axis ticks
+ */
+export function calculateDateTickStep(startHours: number, endHours: number): number {
+  const range = endHours - startHours
+  if (range <= 72) return 6 // Date at midnight, clock times between
+  if (range <= 336) return 24 // Daily for up to two weeks
+  if (range <= 1008) return 72 // Every 3 days up to six weeks
+  return 168 // Weekly beyond that
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { CrossTaper } from '@/core/models/crossTaper'
+import { useCrossTaperStore } from '../crossTaperStore'
+
+vi.mock('@/core/storage/crossTaperStorage', () => ({
+  getAllCrossTapers: vi.fn(() => []),
+  saveCrossTaper: vi.fn((c: CrossTaper) => ({ ...c, id: 'xtaper-new-123' })),
+  updateCrossTaper: vi.fn(() => true),
+  deleteCrossTaper: vi.fn(() => true),
+  exportCrossTapersAsJson: vi.fn(() => '[]'),
+  clearAllCrossTapers: vi.fn(),
+}))
+
+import {
+  getAllCrossTapers,
+  deleteCrossTaper,
+  exportCrossTapersAsJson,
+  clearAllCrossTapers,
+} from '@/core/storage/crossTaperStorage'
+
+const mockGetAll = vi.mocked(getAllCrossTapers)
+const mockDelete = vi.mocked(deleteCrossTaper)
+const mockExport = vi.mocked(exportCrossTapersAsJson)
+const mockClear = vi.mocked(clearAllCrossTapers)
+
+describe('crossTaperStore', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('starts empty and not loaded', () => {
+    const store = useCrossTaperStore()
+    expect(store.crossTapers).toEqual([])
+    expect(store.isLoaded).toBe(false)
+    expect(store.isEmpty).toBe(true)
+  })
+
+  it('load() populates cross-tapers from storage', () => {
+    mockGetAll.mockReturnValue([{ id: 'xtaper-1', name: 'Switch' }] as CrossTaper[])
+
+    const store = useCrossTaperStore()
+    store.load()
+
+    expect(store.count).toBe(1)
+    expect(store.isLoaded).toBe(true)
+    expect(store.getById('xtaper-1')?.name).toBe('Switch')
+  })
+
+  it('save() calls storage and refreshes state', () => {
+    const store = useCrossTaperStore()
+    const saved = store.save({ name: 'New Switch' } as CrossTaper)
+
+    expect(saved.id).toBe('xtaper-new-123')
+    expect(mockGetAll).toHaveBeenCalled()
+  })
+
+  it('remove() does not refresh when delete fails', () => {
+    mockDelete.mockReturnValueOnce(false)
+    const store = useCrossTaperStore()
+
+    expect(store.remove('missing')).toBe(false)
+    expect(mockGetAll).not.toHaveBeenCalled()
+  })
+
+  it('exportJson() passes selected ids to storage', () => {
+    const store = useCrossTaperStore()
+    store.exportJson(['xtaper-1'])
+
+    expect(mockExport).toHaveBeenCalledWith(['xtaper-1'])
+  })
+
+  it('clear() removes all cross-tapers', () => {
+    const store = useCrossTaperStore()
+    store.clear()
+
+    expect(mockClear).toHaveBeenCalled()
+    expect(store.crossTapers).toEqual([])
+  })
+})
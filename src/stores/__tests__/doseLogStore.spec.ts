@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import type { DoseLogEntry } from '@/core/models/doseLog'
+import { useDoseLogStore } from '../doseLogStore'
+
+vi.mock('@/core/storage/doseLogStorage', () => ({
+  getAllDoseLogEntries: vi.fn(() => []),
+  saveDoseLogEntry: vi.fn((e: DoseLogEntry) => ({ ...e, id: 'dose-new-123' })),
+  updateDoseLogEntry: vi.fn(() => true),
+  deleteDoseLogEntry: vi.fn(() => true),
+  exportDoseLogAsJson: vi.fn(() => '[]'),
+  clearDoseLog: vi.fn(),
+}))
+
+import { getAllDoseLogEntries, deleteDoseLogEntry, clearDoseLog } from '@/core/storage/doseLogStorage'
+
+const mockGetAll = vi.mocked(getAllDoseLogEntries)
+const mockDelete = vi.mocked(deleteDoseLogEntry)
+const mockClear = vi.mocked(clearDoseLog)
+
+const entries: DoseLogEntry[] = [
+  { id: 'dose-1', prescriptionId: 'rx-1', takenAt: '2026-01-05T09:00:00.000Z', dose: 50 },
+  { id: 'dose-2', prescriptionId: 'rx-2', takenAt: '2026-01-05T10:00:00.000Z', dose: 20 },
+]
+
+describe('doseLogStore', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('starts with no entries and isLoaded false', () => {
+    const store = useDoseLogStore()
+    expect(store.entries).toEqual([])
+    expect(store.isLoaded).toBe(false)
+    expect(store.isEmpty).toBe(true)
+    expect(store.count).toBe(0)
+  })
+
+  it('load() populates entries from storage', () => {
+    mockGetAll.mockReturnValue(entries)
+    const store = useDoseLogStore()
+    store.load()
+
+    expect(store.count).toBe(2)
+    expect(store.isLoaded).toBe(true)
+  })
+
+  it('save() calls storage and refreshes state', () => {
+    const store = useDoseLogStore()
+    const saved = store.save({ prescriptionId: 'rx-1', takenAt: '2026-01-05T09:00:00.000Z', dose: 50 })
+
+    expect(saved.id).toBe('dose-new-123')
+    expect(mockGetAll).toHaveBeenCalled()
+  })
+
+  it('update() calls storage and refreshes on success', () => {
+    const store = useDoseLogStore()
+    expect(store.update({ ...entries[0]!, dose: 75 })).toBe(true)
+    expect(mockGetAll).toHaveBeenCalled()
+  })
+
+  it('remove() does not refresh when delete fails', () => {
+    mockDelete.mockReturnValueOnce(false)
+    const store = useDoseLogStore()
+
+    expect(store.remove('dose-missing')).toBe(false)
+    expect(mockGetAll).not.toHaveBeenCalled()
+  })
+
+  it('clear() empties the log or reloads after clearing one prescription', () => {
+    mockGetAll.mockReturnValue(entries)
+    const store = useDoseLogStore()
+    store.load()
+
+    mockGetAll.mockReturnValue([entries[1]!])
+    store.clear('rx-1')
+    expect(mockClear).toHaveBeenCalledWith('rx-1')
+    expect(store.count).toBe(1)
+
+    store.clear()
+    expect(store.entries).toEqual([])
+  })
+
+  it('getByPrescription returns the entries of one prescription', () => {
+    mockGetAll.mockReturnValue(entries)
+    const store = useDoseLogStore()
+    store.load()
+
+    expect(store.getByPrescription('rx-2').map((e) => e.id)).toEqual(['dose-2'])
+    expect(store.getByPrescription('rx-missing')).toEqual([])
+  })
+})
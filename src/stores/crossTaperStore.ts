@@ -0,0 +1,72 @@
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import type { CrossTaper } from '@/core/models/crossTaper'
+import {
+  getAllCrossTapers,
+  saveCrossTaper as storageSave,
+  updateCrossTaper as storageUpdate,
+  deleteCrossTaper as storageDelete,
+  exportCrossTapersAsJson,
+  clearAllCrossTapers as storageClear,
+} from '@/core/storage/crossTaperStorage'
+
+export const useCrossTaperStore = defineStore('crossTapers', () => {
+  const crossTapers = ref<CrossTaper[]>([])
+  const isLoaded = ref(false)
+
+  const count = computed(() => crossTapers.value.length)
+  const isEmpty = computed(() => crossTapers.value.length === 0)
+  const getById = computed(() => (id: string) =>
+    crossTapers.value.find((c) => c.id === id),
+  )
+
+  function load() {
+    crossTapers.value = getAllCrossTapers()
+    isLoaded.value = true
+  }
+
+  function save(crossTaper: CrossTaper): CrossTaper {
+    const saved = storageSave(crossTaper)
+    crossTapers.value = getAllCrossTapers()
+    return saved
+  }
+
+  function update(crossTaper: CrossTaper): boolean {
+    const success = storageUpdate(crossTaper)
+    if (success) {
+      crossTapers.value = getAllCrossTapers()
+    }
+    return success
+  }
+
+  function remove(id: string): boolean {
+    const success = storageDelete(id)
+    if (success) {
+      crossTapers.value = getAllCrossTapers()
+    }
+    return success
+  }
+
+  function exportJson(ids?: string[]): string {
+    return exportCrossTapersAsJson(ids)
+  }
+
+  function clear(): void {
+    storageClear()
+    crossTapers.value = []
+  }
+
+  return {
+    crossTapers,
+    isLoaded,
+    count,
+    isEmpty,
+    getById,
+    load,
+    save,
+    update,
+    remove,
+    exportJson,
+    clear,
+  }
+})
@@ -0,0 +1,72 @@
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import type { DoseLogEntry } from '@/core/models/doseLog'
+import {
+  getAllDoseLogEntries,
+  saveDoseLogEntry as storageSave,
+  updateDoseLogEntry as storageUpdate,
+  deleteDoseLogEntry as storageDelete,
+  exportDoseLogAsJson,
+  clearDoseLog as storageClear,
+} from '@/core/storage/doseLogStorage'
+
+export const useDoseLogStore = defineStore('doseLog', () => {
+  const entries = ref<DoseLogEntry[]>([])
+  const isLoaded = ref(false)
+
+  const count = computed(() => entries.value.length)
+  const isEmpty = computed(() => entries.value.length === 0)
+  const getByPrescription = computed(() => (prescriptionId: string) =>
+    entries.value.filter((e) => e.prescriptionId === prescriptionId),
+  )
+
+  function load() {
+    entries.value = getAllDoseLogEntries()
+    isLoaded.value = true
+  }
+
+  function save(entry: DoseLogEntry): DoseLogEntry {
+    const saved = storageSave(entry)
+    entries.value = getAllDoseLogEntries()
+    return saved
+  }
+
+  function update(entry: DoseLogEntry): boolean {
+    const success = storageUpdate(entry)
+    if (success) {
+      entries.value = getAllDoseLogEntries()
+    }
+    return success
+  }
+
+  function remove(id: string): boolean {
+    const success = storageDelete(id)
+    if (success) {
+      entries.value = getAllDoseLogEntries()
+    }
+    return success
+  }
+
+  function exportJson(prescriptionId?: string): string {
+    return exportDoseLogAsJson(prescriptionId)
+  }
+
+  function clear(prescriptionId?: string): void {
+    storageClear(prescriptionId)
+    entries.value = prescriptionId === undefined ? [] : getAllDoseLogEntries()
+  }
+
+  return {
+    entries,
+    isLoaded,
+    count,
+    isEmpty,
+    getByPrescription,
+    load,
+    save,
+    update,
+    remove,
+    exportJson,
+    clear,
+  }
+})
@@ -1,2 +1,4 @@
 export { usePrescriptionStore } from './prescriptionStore'
 export { useScheduleStore } from './scheduleStore'
+export { useDoseLogStore } from './doseLogStore'
+export { useCrossTaperStore } from './crossTaperStore'